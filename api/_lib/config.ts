@@ -0,0 +1,82 @@
+// 代理服务器配置，全部来自环境变量，密钥只保存在服务端
+export interface ProxyServerConfig {
+  openRouterKey: string;
+  imgbbKey: string;
+  openRouterUrl: string; // OpenRouter 接口根地址，测试时可指向模拟上游
+  imgbbUrl: string; // ImgBB 上传地址
+  userTokens: Map<string, string>; // 访问令牌 -> 用户名，为空时按客户端 IP 区分用户
+  allowAnonymous: boolean; // 未配置访问令牌时是否允许匿名访问
+  trustedProxies: number; // 前面的可信反向代理层数，大于 0 时从 X-Forwarded-For 读取客户端 IP
+  allowedModels: string[]; // 允许转发的模型，支持 * 通配符
+  rateLimit: number; // 每个用户在时间窗口内允许的请求数，0 表示不限制
+  rateWindowMs: number;
+  maxBodyBytes: number; // 请求体大小上限
+}
+
+const DEFAULT_OPENROUTER_URL = 'https://openrouter.ai/api/v1';
+const DEFAULT_IMGBB_URL = 'https://api.imgbb.com/1/upload';
+// 未配置 PROXY_ALLOWED_MODELS 时只允许免费模型
+const DEFAULT_ALLOWED_MODELS = ['*:free'];
+
+function readNumber(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return value !== undefined && value !== '' && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+/**
+ * 解析 PROXY_USERS（格式：alice:token1,bob:token2）
+ */
+export function parseUserTokens(value: string | undefined): Map<string, string> {
+  const tokens = new Map<string, string>();
+  (value || '').split(',').forEach(entry => {
+    const separator = entry.indexOf(':');
+    if (separator <= 0) return;
+    const user = entry.slice(0, separator).trim();
+    const token = entry.slice(separator + 1).trim();
+    if (user && token) {
+      tokens.set(token, user);
+    }
+  });
+  return tokens;
+}
+
+function readFlag(value: string | undefined): boolean {
+  return value === '1' || value?.toLowerCase() === 'true';
+}
+
+/**
+ * 解析 PROXY_ALLOWED_MODELS（逗号分隔）
+ */
+export function parseModelPatterns(value: string | undefined): string[] {
+  const patterns = (value || '').split(',').map(pattern => pattern.trim()).filter(Boolean);
+  return patterns.length > 0 ? patterns : DEFAULT_ALLOWED_MODELS;
+}
+
+/**
+ * 模型是否在允许列表中
+ */
+export function isModelAllowed(model: string, patterns: string[]): boolean {
+  return patterns.some(pattern => {
+    const source = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+    return new RegExp(`^${source}$`).test(model);
+  });
+}
+
+/**
+ * 读取代理服务器配置（每次请求读取，修改环境变量后无需重启开发服务器）
+ */
+export function loadProxyConfig(env: NodeJS.ProcessEnv = process.env): ProxyServerConfig {
+  return {
+    openRouterKey: env.OPENROUTER_API_KEY || '',
+    imgbbKey: env.IMGBB_API_KEY || '',
+    openRouterUrl: (env.OPENROUTER_API_URL || DEFAULT_OPENROUTER_URL).replace(/\/+$/, ''),
+    imgbbUrl: env.IMGBB_API_URL || DEFAULT_IMGBB_URL,
+    userTokens: parseUserTokens(env.PROXY_USERS),
+    allowAnonymous: readFlag(env.PROXY_ALLOW_ANONYMOUS),
+    trustedProxies: Math.floor(readNumber(env.PROXY_TRUSTED_PROXIES, 0)),
+    allowedModels: parseModelPatterns(env.PROXY_ALLOWED_MODELS),
+    rateLimit: readNumber(env.PROXY_RATE_LIMIT, 30),
+    rateWindowMs: readNumber(env.PROXY_RATE_WINDOW_SECONDS, 60) * 1000,
+    maxBodyBytes: readNumber(env.PROXY_MAX_BODY_MB, 8) * 1024 * 1024,
+  };
+}
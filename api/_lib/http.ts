@@ -0,0 +1,177 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { ProxyServerConfig, loadProxyConfig } from './config.js';
+import { logRequest } from './logger.js';
+import { rateLimiter } from './rateLimit.js';
+
+/**
+ * 返回给前端的错误，响应体与 OpenRouter 的错误格式相同（{ error: { message } }）
+ */
+export class ProxyError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    readonly headers: Record<string, string> = {}
+  ) {
+    super(message);
+    this.name = 'ProxyError';
+  }
+}
+
+// 单次请求的上下文，处理过程中补充的信息写入日志
+export interface ProxyContext {
+  config: ProxyServerConfig;
+  user: string;
+  signal: AbortSignal; // 客户端断开时中止上游请求
+  model?: string;
+  upstreamStatus?: number;
+}
+
+/**
+ * 读取并解析 JSON 请求体，超过大小上限时拒绝
+ */
+export async function readJsonBody<T>(req: IncomingMessage, maxBytes: number): Promise<T> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > maxBytes) {
+      throw new ProxyError(413, '请求体过大');
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new ProxyError(400, '请求体不是有效的 JSON');
+  }
+}
+
+/**
+ * 发送 JSON 错误响应
+ */
+export function sendError(res: ServerResponse, status: number, message: string, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', ...headers });
+  res.end(JSON.stringify({ error: { message } }));
+}
+
+/**
+ * 把上游响应原样转发给前端（包括流式响应）
+ */
+export async function relayResponse(upstream: Response, res: ServerResponse): Promise<void> {
+  res.writeHead(upstream.status, {
+    'Content-Type': upstream.headers.get('content-type') || 'application/json',
+    'Cache-Control': 'no-cache',
+  });
+  if (!upstream.body) {
+    res.end();
+    return;
+  }
+
+  const reader = upstream.body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    res.write(value);
+  }
+  res.end();
+}
+
+/**
+ * 客户端 IP：默认使用连接地址；位于可信反向代理之后时，
+ * 从 X-Forwarded-For 右侧数第 trustedProxies 个地址读取（更左侧的地址可由客户端伪造）
+ */
+export function getClientIp(req: IncomingMessage, trustedProxies: number): string {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (trustedProxies > 0 && forwarded) {
+    const addresses = (Array.isArray(forwarded) ? forwarded.join(',') : forwarded)
+      .split(',')
+      .map(address => address.trim())
+      .filter(Boolean);
+    const ip = addresses[addresses.length - trustedProxies];
+    if (ip) {
+      return ip;
+    }
+  }
+  return req.socket.remoteAddress || 'unknown';
+}
+
+/**
+ * 识别请求的用户：配置了 PROXY_USERS 时校验访问令牌；
+ * 否则只有设置了 PROXY_ALLOW_ANONYMOUS 才允许匿名访问，按客户端 IP 区分
+ */
+export function identifyUser(req: IncomingMessage, config: ProxyServerConfig): string {
+  if (config.userTokens.size > 0) {
+    const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization || '');
+    const user = match ? config.userTokens.get(match[1].trim()) : undefined;
+    if (!user) {
+      throw new ProxyError(403, '代理访问令牌无效');
+    }
+    return user;
+  }
+
+  if (!config.allowAnonymous) {
+    throw new ProxyError(403, '代理服务器未配置访问令牌，也未允许匿名访问');
+  }
+  return `ip:${getClientIp(req, config.trustedProxies)}`;
+}
+
+/**
+ * 代理接口的公共流程：只接受 POST、识别用户、限流、处理错误并记录日志
+ */
+export async function handleProxyRequest(
+  route: string,
+  req: IncomingMessage,
+  res: ServerResponse,
+  handler: (context: ProxyContext) => Promise<void>
+): Promise<void> {
+  const startedAt = Date.now();
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) {
+      controller.abort();
+    }
+  });
+
+  const context: ProxyContext = { config: loadProxyConfig(), user: 'unknown', signal: controller.signal };
+  let errorMessage: string | undefined;
+
+  try {
+    if (req.method !== 'POST') {
+      throw new ProxyError(405, '仅支持 POST 请求', { Allow: 'POST' });
+    }
+
+    context.user = identifyUser(req, context.config);
+    const limit = rateLimiter.check(context.user, context.config.rateLimit, context.config.rateWindowMs);
+    if (!limit.allowed) {
+      throw new ProxyError(429, `请求过于频繁，请 ${limit.retryAfterSeconds} 秒后重试`, {
+        'Retry-After': String(limit.retryAfterSeconds),
+      });
+    }
+
+    await handler(context);
+  } catch (error) {
+    const proxyError = error instanceof ProxyError
+      ? error
+      : controller.signal.aborted
+      ? new ProxyError(499, '客户端已断开')
+      : new ProxyError(502, '无法连接上游服务');
+    errorMessage = error instanceof ProxyError ? error.message : String(error);
+
+    if (!res.headersSent) {
+      sendError(res, proxyError.status, proxyError.message, proxyError.headers);
+    } else {
+      res.end();
+    }
+  } finally {
+    logRequest({
+      route,
+      user: context.user,
+      status: res.statusCode,
+      latencyMs: Date.now() - startedAt,
+      model: context.model,
+      upstreamStatus: context.upstreamStatus,
+      error: errorMessage,
+    });
+  }
+}
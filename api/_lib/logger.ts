@@ -0,0 +1,17 @@
+// 一条请求日志，不包含密钥、访问令牌和图片数据
+export interface ProxyLogEntry {
+  route: string;
+  user: string;
+  status: number;
+  latencyMs: number;
+  model?: string;
+  upstreamStatus?: number;
+  error?: string;
+}
+
+/**
+ * 以 JSON 行输出请求日志（Vercel 和本地开发服务器都会收集标准输出）
+ */
+export function logRequest(entry: ProxyLogEntry): void {
+  console.log(JSON.stringify({ time: new Date().toISOString(), ...entry }));
+}
@@ -0,0 +1,76 @@
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+// 模拟上游返回的固定提示词
+const MOCK_PROMPT = 'A mock prompt returned by the local upstream: a cat sitting on a windowsill, soft morning light';
+
+/**
+ * 启动模拟的 OpenRouter / ImgBB 上游，用于在没有真实密钥时测试代理接口
+ * - POST /chat/completions：按 stream 参数返回 JSON 或 SSE
+ * - POST /upload：返回 ImgBB 格式的上传结果
+ */
+export function startMockUpstream(port: number = 0): Promise<{ url: string; close: () => Promise<void> }> {
+  const server = createServer(async (req, res) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+    const raw = Buffer.concat(chunks).toString('utf8');
+    const usage = { prompt_tokens: 1200, completion_tokens: 24, total_tokens: 1224 };
+
+    if (req.method === 'POST' && req.url === '/chat/completions') {
+      let body: { model?: string; stream?: boolean } = {};
+      try {
+        body = JSON.parse(raw);
+      } catch {
+        // 测试错误处理时可发送无效请求体
+      }
+      const model = body.model || 'mock/model';
+
+      if (body.stream) {
+        res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+        MOCK_PROMPT.split(' ').forEach((word, index) => {
+          const content = index === 0 ? word : ` ${word}`;
+          res.write(`data: ${JSON.stringify({ model, choices: [{ delta: { content } }] })}\n\n`);
+        });
+        res.write(`data: ${JSON.stringify({ model, choices: [], usage })}\n\n`);
+        res.end('data: [DONE]\n\n');
+        return;
+      }
+
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({
+        id: 'mock-completion',
+        model,
+        choices: [{ message: { role: 'assistant', content: MOCK_PROMPT } }],
+        usage,
+      }));
+      return;
+    }
+
+    if (req.method === 'POST' && req.url === '/upload') {
+      const id = Math.random().toString(36).slice(2, 10);
+      const url = `https://i.ibb.co/mock/${id}.jpg`;
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({
+        data: { id, url, display_url: url, url_viewer: `https://ibb.co/${id}`, delete_url: `https://ibb.co/${id}/delete` },
+        success: true,
+        status: 200,
+      }));
+      return;
+    }
+
+    res.writeHead(404, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: { message: 'Not found' } }));
+  });
+
+  return new Promise(resolve => {
+    server.listen(port, '127.0.0.1', () => {
+      const { port: actualPort } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${actualPort}`,
+        close: () => new Promise(done => server.close(() => done())),
+      });
+    });
+  });
+}
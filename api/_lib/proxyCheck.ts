@@ -0,0 +1,182 @@
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import analyzeHandler from '../analyze.js';
+import uploadHandler from '../upload.js';
+import { startMockUpstream } from './mockUpstream.js';
+
+// 单项检查：发送请求并校验响应，失败时抛出错误
+interface ProxyCheck {
+  name: string;
+  env: Record<string, string>;
+  run: (baseUrl: string) => Promise<void>;
+}
+
+const TOKEN = 'check-token';
+const IMAGE = 'data:image/png;base64,iVBORw0KGgo=';
+
+function analyzeBody(model: string, stream: boolean = false) {
+  return JSON.stringify({
+    model,
+    messages: [{ role: 'user', content: 'Describe this image' }],
+    max_tokens: 1000,
+    stream,
+  });
+}
+
+function post(url: string, body: string, headers: Record<string, string> = {}): Promise<Response> {
+  return fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json', ...headers }, body });
+}
+
+async function expectStatus(response: Response, status: number): Promise<string> {
+  const text = await response.text();
+  if (response.status !== status) {
+    throw new Error(`期望状态码 ${status}，实际为 ${response.status}：${text}`);
+  }
+  return text;
+}
+
+const CHECKS: ProxyCheck[] = [
+  {
+    name: '持有访问令牌时转发分析请求',
+    env: { PROXY_USERS: `alice:${TOKEN}`, PROXY_ALLOWED_MODELS: 'mock/*' },
+    async run(baseUrl) {
+      const text = await expectStatus(
+        await post(`${baseUrl}/api/analyze`, analyzeBody('mock/vision'), { Authorization: `Bearer ${TOKEN}` }),
+        200
+      );
+      const data = JSON.parse(text);
+      if (data.model !== 'mock/vision' || !data.choices?.[0]?.message?.content) {
+        throw new Error(`响应内容不正确：${text}`);
+      }
+    },
+  },
+  {
+    name: '转发流式分析响应',
+    env: { PROXY_USERS: `alice:${TOKEN}`, PROXY_ALLOWED_MODELS: 'mock/*' },
+    async run(baseUrl) {
+      const text = await expectStatus(
+        await post(`${baseUrl}/api/analyze`, analyzeBody('mock/vision', true), { Authorization: `Bearer ${TOKEN}` }),
+        200
+      );
+      if (!text.includes('data: [DONE]')) {
+        throw new Error('流式响应没有结束标记');
+      }
+    },
+  },
+  {
+    name: '拒绝无效的访问令牌',
+    env: { PROXY_USERS: `alice:${TOKEN}` },
+    async run(baseUrl) {
+      await expectStatus(
+        await post(`${baseUrl}/api/analyze`, analyzeBody('mock/vision:free'), { Authorization: 'Bearer wrong' }),
+        403
+      );
+    },
+  },
+  {
+    name: '拒绝不在允许列表中的模型',
+    env: { PROXY_USERS: `alice:${TOKEN}` },
+    async run(baseUrl) {
+      await expectStatus(
+        await post(`${baseUrl}/api/analyze`, analyzeBody('mock/paid-model'), { Authorization: `Bearer ${TOKEN}` }),
+        400
+      );
+    },
+  },
+  {
+    name: '未配置访问令牌且未允许匿名访问时拒绝请求',
+    env: {},
+    async run(baseUrl) {
+      await expectStatus(await post(`${baseUrl}/api/analyze`, analyzeBody('mock/vision:free')), 403);
+      await expectStatus(await post(`${baseUrl}/api/upload`, JSON.stringify({ image: IMAGE })), 403);
+    },
+  },
+  {
+    name: '匿名访问按连接地址限流，伪造 X-Forwarded-For 无法绕过',
+    env: { PROXY_ALLOW_ANONYMOUS: '1', PROXY_RATE_LIMIT: '2' },
+    async run(baseUrl) {
+      for (let index = 0; index < 2; index++) {
+        await expectStatus(
+          await post(`${baseUrl}/api/analyze`, analyzeBody('mock/vision:free'), { 'X-Forwarded-For': `203.0.113.${index}` }),
+          200
+        );
+      }
+      await expectStatus(
+        await post(`${baseUrl}/api/analyze`, analyzeBody('mock/vision:free'), { 'X-Forwarded-For': '203.0.113.9' }),
+        429
+      );
+    },
+  },
+  {
+    name: '位于可信反向代理之后时按代理添加的地址限流',
+    env: { PROXY_ALLOW_ANONYMOUS: '1', PROXY_RATE_LIMIT: '1', PROXY_TRUSTED_PROXIES: '1' },
+    async run(baseUrl) {
+      const send = (forwarded: string) =>
+        post(`${baseUrl}/api/analyze`, analyzeBody('mock/vision:free'), { 'X-Forwarded-For': forwarded });
+      await expectStatus(await send('198.51.100.1, 203.0.113.10'), 200);
+      await expectStatus(await send('198.51.100.2, 203.0.113.10'), 429);
+      await expectStatus(await send('203.0.113.11'), 200);
+    },
+  },
+  {
+    name: '持有访问令牌时上传图片',
+    env: { PROXY_USERS: `alice:${TOKEN}` },
+    async run(baseUrl) {
+      const text = await expectStatus(
+        await post(`${baseUrl}/api/upload`, JSON.stringify({ image: IMAGE, name: 'check' }), {
+          Authorization: `Bearer ${TOKEN}`,
+        }),
+        200
+      );
+      if (!JSON.parse(text).data?.url) {
+        throw new Error(`上传响应缺少图片地址：${text}`);
+      }
+    },
+  },
+];
+
+// 每项检查使用的环境变量，检查之间互不影响
+const CHECK_ENV_KEYS = ['PROXY_USERS', 'PROXY_ALLOW_ANONYMOUS', 'PROXY_ALLOWED_MODELS', 'PROXY_RATE_LIMIT', 'PROXY_TRUSTED_PROXIES'];
+
+/**
+ * 针对模拟上游依次调用 /api/analyze 和 /api/upload，返回失败的检查数
+ */
+export async function runProxyChecks(): Promise<number> {
+  const upstream = await startMockUpstream();
+  const server = createServer((req, res) => {
+    const handler = req.url === '/api/analyze' ? analyzeHandler : req.url === '/api/upload' ? uploadHandler : null;
+    if (!handler) {
+      res.writeHead(404).end();
+      return;
+    }
+    void handler(req, res);
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  Object.assign(process.env, {
+    OPENROUTER_API_URL: upstream.url,
+    IMGBB_API_URL: `${upstream.url}/upload`,
+    OPENROUTER_API_KEY: 'mock',
+    IMGBB_API_KEY: 'mock',
+  });
+
+  let failures = 0;
+  try {
+    for (const check of CHECKS) {
+      CHECK_ENV_KEYS.forEach(key => delete process.env[key]);
+      Object.assign(process.env, { PROXY_RATE_LIMIT: '0', ...check.env });
+      try {
+        await check.run(baseUrl);
+        console.log(`✓ ${check.name}`);
+      } catch (error) {
+        failures++;
+        console.error(`✗ ${check.name}：${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  } finally {
+    await new Promise(resolve => server.close(resolve));
+    await upstream.close();
+  }
+  return failures;
+}
@@ -0,0 +1,47 @@
+// 限流检查结果
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterSeconds: number; // 被拒绝时距离下一次可用的秒数
+}
+
+/**
+ * 按用户的滑动窗口限流，计数保存在进程内存中
+ * （部署为多个无服务器实例时各实例分别计数）
+ */
+export class RateLimiter {
+  private hits = new Map<string, number[]>();
+
+  check(user: string, limit: number, windowMs: number, now: number = Date.now()): RateLimitResult {
+    if (limit <= 0) {
+      return { allowed: true, remaining: Infinity, retryAfterSeconds: 0 };
+    }
+
+    const recent = (this.hits.get(user) || []).filter(time => now - time < windowMs);
+    if (recent.length >= limit) {
+      this.hits.set(user, recent);
+      return {
+        allowed: false,
+        remaining: 0,
+        retryAfterSeconds: Math.max(1, Math.ceil((recent[0] + windowMs - now) / 1000)),
+      };
+    }
+
+    recent.push(now);
+    this.hits.set(user, recent);
+    this.prune(windowMs, now);
+    return { allowed: true, remaining: limit - recent.length, retryAfterSeconds: 0 };
+  }
+
+  // 清理窗口内没有请求的用户，避免长期运行时占用内存
+  private prune(windowMs: number, now: number): void {
+    if (this.hits.size < 1000) return;
+    this.hits.forEach((times, user) => {
+      if (times.every(time => now - time >= windowMs)) {
+        this.hits.delete(user);
+      }
+    });
+  }
+}
+
+export const rateLimiter = new RateLimiter();
@@ -0,0 +1,73 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { isModelAllowed } from './_lib/config.js';
+import { ProxyError, handleProxyRequest, readJsonBody, relayResponse } from './_lib/http.js';
+
+// 前端发送的聊天补全请求体（与直接请求 OpenRouter 时相同）
+interface AnalyzeRequestBody {
+  model?: unknown;
+  messages?: unknown;
+  stream?: unknown;
+  max_tokens?: unknown;
+  temperature?: unknown;
+  [key: string]: unknown;
+}
+
+// 单次请求允许的最大输出 token 数
+const MAX_TOKENS_LIMIT = 4096;
+
+/**
+ * 只转发前端会发送的字段，避免借用服务端密钥发送任意参数
+ */
+function buildUpstreamBody(body: AnalyzeRequestBody, model: string): Record<string, unknown> {
+  const upstreamBody: Record<string, unknown> = {
+    model,
+    messages: body.messages,
+    max_tokens: typeof body.max_tokens === 'number' && body.max_tokens > 0
+      ? Math.min(Math.round(body.max_tokens), MAX_TOKENS_LIMIT)
+      : MAX_TOKENS_LIMIT,
+  };
+  if (typeof body.temperature === 'number') {
+    upstreamBody.temperature = body.temperature;
+  }
+  if (body.stream === true) {
+    upstreamBody.stream = true;
+  }
+  return upstreamBody;
+}
+
+/**
+ * POST /api/analyze：使用服务端的 OpenRouter API Key 转发聊天补全请求，支持流式响应
+ */
+export default async function handler(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  await handleProxyRequest('analyze', req, res, async context => {
+    const { config, signal } = context;
+    if (!config.openRouterKey) {
+      throw new ProxyError(503, '代理服务器未配置 OpenRouter API Key');
+    }
+
+    const body = await readJsonBody<AnalyzeRequestBody>(req, config.maxBodyBytes);
+    if (typeof body.model !== 'string' || !Array.isArray(body.messages)) {
+      throw new ProxyError(400, '请求缺少 model 或 messages');
+    }
+    context.model = body.model;
+    if (!isModelAllowed(body.model, config.allowedModels)) {
+      // 使用 400 而不是 403，前端会继续换用备用模型
+      throw new ProxyError(400, `代理服务器不允许使用模型 ${body.model}`);
+    }
+
+    const upstream = await fetch(`${config.openRouterUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${config.openRouterKey}`,
+        'HTTP-Referer': typeof req.headers.origin === 'string' ? req.headers.origin : 'http://localhost',
+        'X-Title': 'Image to Prompt App',
+      },
+      body: JSON.stringify(buildUpstreamBody(body, body.model)),
+      signal,
+    });
+    context.upstreamStatus = upstream.status;
+
+    await relayResponse(upstream, res);
+  });
+}
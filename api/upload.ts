@@ -0,0 +1,41 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { ProxyError, handleProxyRequest, readJsonBody, relayResponse } from './_lib/http.js';
+
+// 前端发送的上传请求
+interface UploadRequestBody {
+  image?: unknown; // Base64 图片数据
+  name?: unknown;
+  expiration?: unknown; // 过期时间（秒）
+}
+
+/**
+ * POST /api/upload：使用服务端的 ImgBB API Key 上传图片，返回 ImgBB 的原始响应
+ */
+export default async function handler(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  await handleProxyRequest('upload', req, res, async context => {
+    const { config, signal } = context;
+    if (!config.imgbbKey) {
+      throw new ProxyError(503, '代理服务器未配置 ImgBB API Key');
+    }
+
+    const body = await readJsonBody<UploadRequestBody>(req, config.maxBodyBytes);
+    if (typeof body.image !== 'string' || !body.image) {
+      throw new ProxyError(400, '请求缺少图片数据');
+    }
+
+    const formData = new FormData();
+    formData.append('key', config.imgbbKey);
+    formData.append('image', body.image);
+    if (typeof body.name === 'string' && body.name) {
+      formData.append('name', body.name);
+    }
+    if (typeof body.expiration === 'number' && body.expiration > 0) {
+      formData.append('expiration', String(Math.round(body.expiration)));
+    }
+
+    const upstream = await fetch(config.imgbbUrl, { method: 'POST', body: formData, signal });
+    context.upstreamStatus = upstream.status;
+
+    await relayResponse(upstream, res);
+  });
+}
@@ -0,0 +1,19 @@
+// 针对模拟上游检查代理接口：pnpm run check:proxy
+// 通过 Vite 加载 TypeScript 源码，与开发服务器挂载代理接口的方式一致
+import { createServer } from 'vite'
+
+const server = await createServer({
+  configFile: false,
+  logLevel: 'error',
+  appType: 'custom',
+  server: { middlewareMode: true, hmr: false },
+  optimizeDeps: { noDiscovery: true, include: [] },
+})
+
+try {
+  const { runProxyChecks } = await server.ssrLoadModule('/api/_lib/proxyCheck.ts')
+  const failures = await runProxyChecks()
+  process.exitCode = failures > 0 ? 1 : 0
+} finally {
+  await server.close()
+}
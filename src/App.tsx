@@ -4,7 +4,9 @@ import { Layout } from './components/Layout/Layout';
 import { Home } from './pages/Home';
 import { Analyze } from './pages/Analyze';
 import { History } from './pages/History';
+import { Dataset } from './pages/Dataset';
 import { Settings } from './pages/Settings';
+import { Usage } from './pages/Usage';
 import { useAppStore } from './store/useAppStore';
 
 function App() {
@@ -22,6 +24,8 @@ function App() {
           <Route path="/" element={<Home />} />
           <Route path="/analyze" element={<Analyze />} />
           <Route path="/history" element={<History />} />
+          <Route path="/dataset" element={<Dataset />} />
+          <Route path="/usage" element={<Usage />} />
           <Route path="/settings" element={<Settings />} />
         </Routes>
       </Layout>
@@ -0,0 +1,242 @@
+import React from 'react';
+import {
+  PlayIcon,
+  PauseIcon,
+  StopIcon,
+  ArrowPathIcon,
+  XMarkIcon,
+  TrashIcon,
+  DocumentDuplicateIcon,
+  PhotoIcon
+} from '@heroicons/react/24/outline';
+import { useAppStore } from '../../store/useAppStore';
+import { BatchJobStatus } from '../../types';
+import { cn } from '../../utils/cn';
+import { TemplatePicker } from './TemplatePicker';
+import { ProfilePicker } from './ProfilePicker';
+
+const STATUS_LABELS: Record<BatchJobStatus, string> = {
+  pending: '等待中',
+  uploading: '上传中',
+  analyzing: '分析中',
+  done: '已完成',
+  failed: '失败',
+  cancelled: '已取消',
+};
+
+const STATUS_STYLES: Record<BatchJobStatus, string> = {
+  pending: 'bg-gray-100 text-gray-700',
+  uploading: 'bg-yellow-100 text-yellow-800',
+  analyzing: 'bg-blue-100 text-blue-800',
+  done: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+  cancelled: 'bg-gray-100 text-gray-500',
+};
+
+export function BatchQueuePanel() {
+  const {
+    batchJobs,
+    batchState,
+    userSettings,
+    startBatch,
+    pauseBatch,
+    resumeBatch,
+    cancelBatch,
+    cancelBatchJob,
+    retryBatchJob,
+    removeBatchJob,
+    clearBatch,
+    updateUserSettings
+  } = useAppStore();
+
+  const counts = batchJobs.reduce<Record<BatchJobStatus, number>>(
+    (acc, job) => {
+      acc[job.status] += 1;
+      return acc;
+    },
+    { pending: 0, uploading: 0, analyzing: 0, done: 0, failed: 0, cancelled: 0 }
+  );
+  const finishedCount = counts.done + counts.failed + counts.cancelled;
+  const progress = batchJobs.length > 0 ? Math.round((finishedCount / batchJobs.length) * 100) : 0;
+
+  const handleCopy = async (prompt: string) => {
+    try {
+      await navigator.clipboard.writeText(prompt);
+    } catch (error) {
+      console.error('Failed to copy:', error);
+    }
+  };
+
+  if (batchJobs.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg overflow-hidden">
+      <div className="p-6 space-y-4">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between space-y-3 sm:space-y-0">
+          <div>
+            <h3 className="text-lg font-medium text-gray-900">批量分析队列</h3>
+            <p className="text-sm text-gray-500">
+              共 {batchJobs.length} 项，已完成 {counts.done} 项，失败 {counts.failed} 项
+            </p>
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <label className="flex items-center text-sm text-gray-700">
+              并发数
+              <select
+                value={userSettings.batchConcurrency}
+                onChange={(e) => updateUserSettings({ batchConcurrency: parseInt(e.target.value) })}
+                className="ml-2 text-sm border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+              >
+                {[1, 2, 3, 4, 5].map(value => (
+                  <option key={value} value={value}>{value}</option>
+                ))}
+              </select>
+            </label>
+
+            {batchState === 'idle' && (
+              <button
+                onClick={() => startBatch()}
+                disabled={counts.pending === 0}
+                className="inline-flex items-center px-3 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <PlayIcon className="h-4 w-4 mr-1" />
+                开始
+              </button>
+            )}
+            {batchState === 'running' && (
+              <button
+                onClick={pauseBatch}
+                className="inline-flex items-center px-3 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+              >
+                <PauseIcon className="h-4 w-4 mr-1" />
+                暂停
+              </button>
+            )}
+            {batchState === 'paused' && (
+              <button
+                onClick={resumeBatch}
+                className="inline-flex items-center px-3 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+              >
+                <PlayIcon className="h-4 w-4 mr-1" />
+                继续
+              </button>
+            )}
+            {batchState !== 'idle' && (
+              <button
+                onClick={cancelBatch}
+                className="inline-flex items-center px-3 py-2 border border-red-300 text-sm font-medium rounded-md text-red-700 bg-white hover:bg-red-50"
+              >
+                <StopIcon className="h-4 w-4 mr-1" />
+                取消
+              </button>
+            )}
+            {batchState === 'idle' && (
+              <button
+                onClick={clearBatch}
+                className="inline-flex items-center px-3 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+              >
+                <TrashIcon className="h-4 w-4 mr-1" />
+                清空
+              </button>
+            )}
+          </div>
+        </div>
+
+        {/* Prompt Template */}
+        {batchState === 'idle' && counts.pending > 0 && (
+          <div className="space-y-3">
+            <TemplatePicker />
+            <ProfilePicker />
+          </div>
+        )}
+
+        {/* Progress */}
+        <div className="w-full bg-gray-200 rounded-full h-2">
+          <div
+            className="bg-blue-600 h-2 rounded-full transition-all"
+            style={{ width: `${progress}%` }}
+          />
+        </div>
+
+        {/* Job List */}
+        <ul className="divide-y divide-gray-100 max-h-[32rem] overflow-y-auto">
+          {batchJobs.map(job => (
+            <li key={job.id} className="py-3 flex items-start space-x-3">
+              <div className="flex-shrink-0">
+                {job.image.preview ? (
+                  <img
+                    src={job.image.preview}
+                    alt={job.image.name}
+                    className="h-12 w-12 rounded object-cover"
+                  />
+                ) : (
+                  <div className="h-12 w-12 rounded bg-gray-200 flex items-center justify-center">
+                    <PhotoIcon className="h-6 w-6 text-gray-400" />
+                  </div>
+                )}
+              </div>
+
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center justify-between">
+                  <p className="text-sm font-medium text-gray-900 truncate">{job.image.name}</p>
+                  <span
+                    className={cn('ml-2 px-2 py-0.5 rounded text-xs font-medium', STATUS_STYLES[job.status])}
+                    title={job.fromCache ? '历史记录中已有相同图片，未调用模型' : undefined}
+                  >
+                    {job.fromCache ? '已有结果' : STATUS_LABELS[job.status]}
+                  </span>
+                </div>
+                {job.error && (
+                  <p className="mt-1 text-xs text-red-600">{job.error}</p>
+                )}
+                {job.result && (
+                  <p className="mt-1 text-xs text-gray-600 line-clamp-2">{job.result.prompt}</p>
+                )}
+              </div>
+
+              <div className="flex items-center space-x-1">
+                {job.result && (
+                  <button
+                    onClick={() => handleCopy(job.result!.prompt)}
+                    className="text-blue-600 hover:text-blue-700 p-1"
+                    title="复制提示词"
+                  >
+                    <DocumentDuplicateIcon className="h-4 w-4" />
+                  </button>
+                )}
+                {(job.status === 'failed' || job.status === 'cancelled') && (
+                  <button
+                    onClick={() => retryBatchJob(job.id)}
+                    className="text-blue-600 hover:text-blue-700 p-1"
+                    title="重试"
+                  >
+                    <ArrowPathIcon className="h-4 w-4" />
+                  </button>
+                )}
+                {(job.status === 'pending' || job.status === 'uploading' || job.status === 'analyzing') ? (
+                  <button
+                    onClick={() => cancelBatchJob(job.id)}
+                    className="text-gray-400 hover:text-gray-600 p-1"
+                    title="取消"
+                  >
+                    <XMarkIcon className="h-4 w-4" />
+                  </button>
+                ) : (
+                  <button
+                    onClick={() => removeBatchJob(job.id)}
+                    className="text-red-600 hover:text-red-700 p-1"
+                    title="移除"
+                  >
+                    <TrashIcon className="h-4 w-4" />
+                  </button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
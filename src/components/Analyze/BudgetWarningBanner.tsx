@@ -0,0 +1,47 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { useAppStore } from '../../store/useAppStore';
+import { formatCost } from '../../utils/usageStats';
+
+export function BudgetWarningBanner() {
+  const { budgetWarning, confirmBudgetWarning, dismissBudgetWarning } = useAppStore();
+
+  if (!budgetWarning) return null;
+
+  const { monthCost, estimatedCost, budget } = budgetWarning;
+
+  return (
+    <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+      <div className="flex">
+        <div className="flex-shrink-0">
+          <ExclamationTriangleIcon className="h-5 w-5 text-yellow-400" />
+        </div>
+        <div className="ml-3">
+          <h3 className="text-sm font-medium text-yellow-800">即将超出每月预算</h3>
+          <div className="mt-2 text-sm text-yellow-700">
+            <p>
+              本月已花费 {formatCost(monthCost)}，本次预计 {formatCost(estimatedCost)}，
+              合计将超出每月预算 {formatCost(budget)}。
+              <Link to="/usage" className="ml-1 text-yellow-800 underline">查看用量</Link>
+            </p>
+          </div>
+          <div className="mt-4 flex space-x-2">
+            <button
+              onClick={confirmBudgetWarning}
+              className="text-sm bg-yellow-100 text-yellow-800 rounded-md px-2 py-1 hover:bg-yellow-200"
+            >
+              仍然继续
+            </button>
+            <button
+              onClick={dismissBudgetWarning}
+              className="text-sm text-yellow-800 rounded-md px-2 py-1 hover:bg-yellow-100"
+            >
+              取消
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+import React from 'react';
+import { Square2StackIcon } from '@heroicons/react/24/outline';
+import { useAppStore } from '../../store/useAppStore';
+import { toSimilarity } from '../../utils/imageDedupe';
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength)}...` : text;
+}
+
+export function CachedMatchBanner() {
+  const { cachedMatch, applyCachedAnalysis, reanalyzeIgnoringCache, dismissCachedMatch } = useAppStore();
+
+  if (!cachedMatch) return null;
+
+  const { record, exact, distance } = cachedMatch;
+
+  return (
+    <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+      <div className="flex">
+        <div className="flex-shrink-0">
+          <Square2StackIcon className="h-5 w-5 text-blue-400" />
+        </div>
+        <div className="ml-3 min-w-0">
+          <h3 className="text-sm font-medium text-blue-800">
+            {exact ? '这张图片已经分析过' : `历史记录中有几乎相同的图片（相似度 ${toSimilarity(distance)}%）`}
+          </h3>
+          <div className="mt-2 text-sm text-blue-700 space-y-1">
+            <p>
+              「{record.imageName}」于 {record.timestamp.toLocaleString('zh-CN')} 分析
+              {record.model && <span>，模型 {record.model}</span>}。使用已有结果不会产生费用。
+            </p>
+            <p className="text-xs text-blue-600">{truncate(record.prompt, 160)}</p>
+          </div>
+          <div className="mt-4 flex space-x-2">
+            <button
+              onClick={applyCachedAnalysis}
+              className="text-sm bg-blue-100 text-blue-800 rounded-md px-2 py-1 hover:bg-blue-200"
+            >
+              使用已有结果
+            </button>
+            <button
+              onClick={reanalyzeIgnoringCache}
+              className="text-sm bg-blue-100 text-blue-800 rounded-md px-2 py-1 hover:bg-blue-200"
+            >
+              重新分析
+            </button>
+            <button
+              onClick={dismissCachedMatch}
+              className="text-sm text-blue-800 rounded-md px-2 py-1 hover:bg-blue-100"
+            >
+              取消
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,202 @@
+import React, { useState } from 'react';
+import {
+  ScaleIcon,
+  TrophyIcon,
+  XMarkIcon,
+  DocumentDuplicateIcon,
+  StopIcon
+} from '@heroicons/react/24/outline';
+import { useAppStore } from '../../store/useAppStore';
+import { cn } from '../../utils/cn';
+import { ModelPicker } from './ModelPicker';
+
+// 对比模型数量限制
+const MIN_MODELS = 2;
+const MAX_MODELS = 4;
+
+export function ComparePanel() {
+  const {
+    comparisonResults,
+    isComparing,
+    analysisResult,
+    runComparison,
+    selectComparisonWinner,
+    clearComparison,
+    stopAnalysis
+  } = useAppStore();
+
+  const [selectedModels, setSelectedModels] = useState<string[]>([]);
+
+  const handleAddModel = (model: string) => {
+    if (!selectedModels.includes(model) && selectedModels.length < MAX_MODELS) {
+      setSelectedModels([...selectedModels, model]);
+    }
+  };
+
+  const handleRemoveModel = (model: string) => {
+    setSelectedModels(selectedModels.filter(item => item !== model));
+  };
+
+  const handleCopy = async (prompt: string) => {
+    try {
+      await navigator.clipboard.writeText(prompt);
+    } catch (error) {
+      console.error('Failed to copy:', error);
+    }
+  };
+
+  const canRun = selectedModels.length >= MIN_MODELS && selectedModels.length <= MAX_MODELS && !isComparing;
+
+  return (
+    <div className="space-y-4">
+      {/* Model Selection */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          对比模型（选择 {MIN_MODELS}-{MAX_MODELS} 个，已选 {selectedModels.length} 个）
+        </label>
+        {selectedModels.length > 0 && (
+          <div className="flex flex-wrap gap-2 mb-2">
+            {selectedModels.map(model => (
+              <span
+                key={model}
+                className="inline-flex items-center px-2 py-1 rounded-md text-sm bg-blue-50 border border-blue-200 text-blue-800"
+              >
+                <span className="truncate max-w-[16rem]">{model}</span>
+                <button
+                  type="button"
+                  onClick={() => handleRemoveModel(model)}
+                  disabled={isComparing}
+                  className="ml-1 text-blue-500 hover:text-blue-700 disabled:opacity-50"
+                  title="移除"
+                >
+                  <XMarkIcon className="h-3 w-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+        <ModelPicker
+          value={null}
+          onChange={handleAddModel}
+          placeholder={selectedModels.length >= MAX_MODELS ? `最多选择 ${MAX_MODELS} 个模型` : '添加对比模型'}
+          excludeIds={selectedModels}
+          disabled={isComparing || selectedModels.length >= MAX_MODELS}
+        />
+      </div>
+
+      {/* Run Button */}
+      <div className="flex space-x-3">
+        <button
+          onClick={() => runComparison(selectedModels)}
+          disabled={!canRun}
+          className="flex-1 flex justify-center items-center py-3 px-4 border border-transparent rounded-md shadow-sm text-base font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isComparing ? (
+            <>
+              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
+              对比中...
+            </>
+          ) : (
+            <>
+              <ScaleIcon className="h-5 w-5 mr-2" />
+              开始对比
+            </>
+          )}
+        </button>
+        {isComparing && (
+          <button
+            onClick={stopAnalysis}
+            className="flex items-center py-3 px-4 border border-red-300 rounded-md shadow-sm text-base font-medium text-red-700 bg-white hover:bg-red-50"
+          >
+            <StopIcon className="h-5 w-5 mr-2" />
+            停止
+          </button>
+        )}
+      </div>
+
+      {/* Result Columns */}
+      {comparisonResults.length > 0 && (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <h4 className="text-sm font-medium text-gray-700">对比结果</h4>
+            {!isComparing && (
+              <button
+                type="button"
+                onClick={clearComparison}
+                className="text-xs text-gray-500 hover:text-gray-700"
+              >
+                清除结果
+              </button>
+            )}
+          </div>
+          <div className={cn(
+            'grid grid-cols-1 gap-4',
+            comparisonResults.length === 2 && 'md:grid-cols-2',
+            comparisonResults.length === 3 && 'md:grid-cols-3',
+            comparisonResults.length >= 4 && 'md:grid-cols-2 xl:grid-cols-4'
+          )}>
+            {comparisonResults.map(result => {
+              const isWinner = analysisResult?.model === result.model;
+              return (
+                <div
+                  key={result.model}
+                  className={cn(
+                    'border rounded-lg p-4 flex flex-col',
+                    isWinner ? 'border-yellow-400 ring-2 ring-yellow-200' : 'border-gray-200'
+                  )}
+                >
+                  <div className="flex items-start justify-between mb-2">
+                    <span className="text-sm font-medium text-gray-900 break-all">{result.model}</span>
+                    {isWinner && <TrophyIcon className="h-5 w-5 text-yellow-500 flex-shrink-0" />}
+                  </div>
+
+                  {result.status === 'running' && (
+                    <div className="flex items-center text-sm text-gray-500">
+                      <div className="animate-spin rounded-full h-3 w-3 border-b-2 border-blue-600 mr-2"></div>
+                      生成中...
+                    </div>
+                  )}
+                  {result.status === 'failed' && (
+                    <p className="text-sm text-red-600">{result.error}</p>
+                  )}
+                  {result.status === 'done' && (
+                    <>
+                      <p className="flex-1 text-sm text-gray-800 whitespace-pre-wrap">{result.prompt}</p>
+                      <div className="mt-3 text-xs text-gray-500 space-y-1">
+                        <div>耗时: {((result.latencyMs || 0) / 1000).toFixed(1)}s</div>
+                        {result.usage && (
+                          <div>
+                            Token: {result.usage.promptTokens} 输入 / {result.usage.completionTokens} 输出
+                          </div>
+                        )}
+                      </div>
+                      <div className="mt-3 flex items-center space-x-2">
+                        <button
+                          type="button"
+                          onClick={() => selectComparisonWinner(result.model)}
+                          disabled={isComparing || !!analysisResult}
+                          className="inline-flex items-center px-2 py-1 border border-yellow-300 text-xs font-medium rounded-md text-yellow-800 bg-yellow-50 hover:bg-yellow-100 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          <TrophyIcon className="h-3 w-3 mr-1" />
+                          选为最佳
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleCopy(result.prompt!)}
+                          className="inline-flex items-center px-2 py-1 text-xs text-blue-600 hover:text-blue-700"
+                        >
+                          <DocumentDuplicateIcon className="h-3 w-3 mr-1" />
+                          复制
+                        </button>
+                      </div>
+                    </>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
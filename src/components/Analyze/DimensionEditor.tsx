@@ -0,0 +1,48 @@
+import React, { useState } from 'react';
+import { ArrowPathIcon } from '@heroicons/react/24/outline';
+import { PromptDimensions } from '../../types';
+import { DIMENSION_KEYS, DIMENSION_LABELS } from '../../utils/structuredResult';
+
+interface DimensionEditorProps {
+  dimensions: PromptDimensions;
+  onApply: (dimensions: PromptDimensions) => void;
+}
+
+export function DimensionEditor({ dimensions, onApply }: DimensionEditorProps) {
+  const [draft, setDraft] = useState<PromptDimensions>(dimensions);
+
+  const isDirty = DIMENSION_KEYS.some(key => draft[key] !== dimensions[key]);
+
+  return (
+    <div className="border rounded-lg p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium text-gray-700">视觉维度</h4>
+        <button
+          type="button"
+          onClick={() => onApply(draft)}
+          disabled={!isDirty}
+          className="inline-flex items-center px-3 py-1.5 border border-transparent text-xs font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <ArrowPathIcon className="h-3 w-3 mr-1" />
+          重新组合提示词
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+        {DIMENSION_KEYS.map(key => (
+          <div key={key}>
+            <label className="block text-xs font-medium text-gray-600 mb-1">
+              {DIMENSION_LABELS[key]}
+            </label>
+            <textarea
+              rows={2}
+              value={draft[key]}
+              onChange={(e) => setDraft({ ...draft, [key]: e.target.value })}
+              className="block w-full text-sm border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
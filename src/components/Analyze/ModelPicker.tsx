@@ -0,0 +1,196 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  ChevronUpDownIcon,
+  MagnifyingGlassIcon,
+  ArrowPathIcon,
+  CheckIcon,
+  CpuChipIcon
+} from '@heroicons/react/24/outline';
+import { useAppStore } from '../../store/useAppStore';
+import { ModelInfo } from '../../types';
+import { cn } from '../../utils/cn';
+
+interface ModelPickerProps {
+  value: string | null;
+  onChange: (model: string) => void;
+  placeholder?: string;
+  excludeIds?: string[]; // 不在列表中显示的模型（如对比中已选的模型）
+  disabled?: boolean;
+}
+
+// 上下文长度，如 128K、1M
+function formatContextLength(length?: number): string {
+  if (!length) return '未知';
+  if (length >= 1000000) return `${(length / 1000000).toFixed(length % 1000000 === 0 ? 0 : 1)}M`;
+  return `${Math.round(length / 1000)}K`;
+}
+
+// 每百万 token 的美元价格
+function formatPrice(perToken: number): string {
+  const perMillion = perToken * 1000000;
+  return `$${perMillion < 1 ? perMillion.toFixed(3) : perMillion.toFixed(2)}`;
+}
+
+function matchesQuery(model: ModelInfo, query: string): boolean {
+  const q = query.trim().toLowerCase();
+  if (!q) return true;
+  return model.id.toLowerCase().includes(q) || model.name.toLowerCase().includes(q);
+}
+
+export function ModelPicker({ value, onChange, placeholder = '选择模型', excludeIds = [], disabled }: ModelPickerProps) {
+  const { modelCatalog, modelCatalogUpdatedAt, isLoadingModels, loadModelCatalog } = useAppStore();
+
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [freeOnly, setFreeOnly] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // 点击外部时关闭
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const filteredModels = useMemo(
+    () => modelCatalog.filter(model =>
+      !excludeIds.includes(model.id) && (!freeOnly || model.isFree) && matchesQuery(model, query)
+    ),
+    [modelCatalog, excludeIds, freeOnly, query]
+  );
+
+  const selected = modelCatalog.find(model => model.id === value);
+  const customId = query.trim();
+  const canUseCustom = !!customId && !modelCatalog.some(model => model.id === customId);
+
+  const handleSelect = (model: string) => {
+    onChange(model);
+    setOpen(false);
+    setQuery('');
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        disabled={disabled}
+        className="w-full flex items-center justify-between px-3 py-2 border border-gray-300 rounded-md shadow-sm bg-white text-sm text-left hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <span className="flex items-center min-w-0">
+          <CpuChipIcon className="h-4 w-4 mr-2 text-gray-400 flex-shrink-0" />
+          {value ? (
+            <span className="truncate">
+              {selected?.name || value}
+              {selected?.isFree && <span className="ml-2 text-xs text-green-700">免费</span>}
+            </span>
+          ) : (
+            <span className="text-gray-400">{placeholder}</span>
+          )}
+        </span>
+        <ChevronUpDownIcon className="h-4 w-4 text-gray-400 flex-shrink-0" />
+      </button>
+
+      {open && (
+        <div className="absolute z-20 mt-1 w-full min-w-[20rem] bg-white border border-gray-200 rounded-md shadow-lg">
+          {/* Search */}
+          <div className="p-2 border-b border-gray-100 space-y-2">
+            <div className="relative">
+              <MagnifyingGlassIcon className="h-4 w-4 text-gray-400 absolute left-2 top-1/2 -translate-y-1/2" />
+              <input
+                type="text"
+                autoFocus
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && canUseCustom && handleSelect(customId)}
+                placeholder="搜索模型名称或ID"
+                className="block w-full pl-8 text-sm border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div className="flex items-center justify-between text-xs text-gray-500">
+              <label className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={freeOnly}
+                  onChange={(e) => setFreeOnly(e.target.checked)}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <span className="ml-1">仅显示免费模型</span>
+              </label>
+              <span className="flex items-center">
+                {modelCatalogUpdatedAt
+                  ? `更新于 ${new Date(modelCatalogUpdatedAt).toLocaleString()}`
+                  : '离线列表'}
+                <button
+                  type="button"
+                  onClick={() => loadModelCatalog(true)}
+                  disabled={isLoadingModels}
+                  className="ml-2 text-blue-600 hover:text-blue-700 disabled:opacity-50"
+                  title="刷新模型列表"
+                >
+                  <ArrowPathIcon className={cn('h-4 w-4', isLoadingModels && 'animate-spin')} />
+                </button>
+              </span>
+            </div>
+          </div>
+
+          {/* Model List */}
+          <ul className="max-h-72 overflow-y-auto py-1">
+            {canUseCustom && (
+              <li>
+                <button
+                  type="button"
+                  onClick={() => handleSelect(customId)}
+                  className="w-full px-3 py-2 text-left text-sm text-blue-700 hover:bg-blue-50"
+                >
+                  使用自定义模型「{customId}」
+                </button>
+              </li>
+            )}
+            {filteredModels.map(model => (
+              <li key={model.id}>
+                <button
+                  type="button"
+                  onClick={() => handleSelect(model.id)}
+                  className={cn(
+                    'w-full px-3 py-2 text-left hover:bg-gray-50 flex items-start',
+                    model.id === value && 'bg-blue-50'
+                  )}
+                >
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center text-sm text-gray-900">
+                      <span className="truncate">{model.name}</span>
+                      {model.isFree ? (
+                        <span className="ml-2 px-1.5 py-0.5 rounded text-xs bg-green-100 text-green-800 flex-shrink-0">免费</span>
+                      ) : model.pricing && (
+                        <span className="ml-2 px-1.5 py-0.5 rounded text-xs bg-gray-100 text-gray-600 flex-shrink-0">付费</span>
+                      )}
+                    </div>
+                    <div className="text-xs text-gray-500 truncate">{model.id}</div>
+                    <div className="text-xs text-gray-400">
+                      上下文 {formatContextLength(model.contextLength)}
+                      {!model.isFree && model.pricing && (
+                        <> · 输入 {formatPrice(model.pricing.prompt)} / 输出 {formatPrice(model.pricing.completion)} 每百万Token</>
+                      )}
+                    </div>
+                  </div>
+                  {model.id === value && <CheckIcon className="h-4 w-4 text-blue-600 ml-2 flex-shrink-0" />}
+                </button>
+              </li>
+            ))}
+            {filteredModels.length === 0 && !canUseCustom && (
+              <li className="px-3 py-4 text-center text-sm text-gray-500">
+                没有匹配的模型
+              </li>
+            )}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
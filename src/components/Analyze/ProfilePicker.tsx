@@ -0,0 +1,32 @@
+import React from 'react';
+import { useAppStore } from '../../store/useAppStore';
+import { TargetProfile } from '../../types';
+import { PROFILE_LABELS } from '../../utils/outputProfiles';
+import { cn } from '../../utils/cn';
+
+export function ProfilePicker() {
+  const { selectedProfile, selectProfile } = useAppStore();
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-1">目标生成器</label>
+      <div className="inline-flex flex-wrap bg-gray-100 p-1 rounded-lg">
+        {(Object.keys(PROFILE_LABELS) as TargetProfile[]).map(profile => (
+          <button
+            key={profile}
+            type="button"
+            onClick={() => selectProfile(profile)}
+            className={cn(
+              'px-3 py-1.5 rounded-md text-sm font-medium transition-colors',
+              selectedProfile === profile
+                ? 'bg-white text-gray-900 shadow-sm'
+                : 'text-gray-500 hover:text-gray-700'
+            )}
+          >
+            {PROFILE_LABELS[profile]}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { CheckIcon, DocumentDuplicateIcon } from '@heroicons/react/24/outline';
+import { AnalysisRecord, TargetProfile } from '../../types';
+import { PROFILE_LABELS } from '../../utils/outputProfiles';
+import { cn } from '../../utils/cn';
+
+interface PromptVariantsProps {
+  record: AnalysisRecord;
+}
+
+export function PromptVariants({ record }: PromptVariantsProps) {
+  const [activeProfile, setActiveProfile] = useState<TargetProfile>(record.targetProfile || 'generic');
+  const [copiedKey, setCopiedKey] = useState<string | null>(null);
+
+  if (!record.variants) return null;
+
+  const profiles = (Object.keys(PROFILE_LABELS) as TargetProfile[]).filter(profile => record.variants?.[profile]);
+  const variant = record.variants[activeProfile] ?? record.variants[profiles[0]];
+
+  const handleCopy = async (key: string, text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopiedKey(key);
+      setTimeout(() => setCopiedKey(null), 2000);
+    } catch (error) {
+      console.error('Failed to copy:', error);
+    }
+  };
+
+  if (!variant) return null;
+
+  return (
+    <div className="border rounded-lg">
+      {/* Profile Tabs */}
+      <div className="flex border-b overflow-x-auto">
+        {profiles.map(profile => (
+          <button
+            key={profile}
+            type="button"
+            onClick={() => setActiveProfile(profile)}
+            className={cn(
+              'px-4 py-2 text-sm font-medium border-b-2 -mb-px whitespace-nowrap',
+              activeProfile === profile
+                ? 'border-blue-500 text-blue-600'
+                : 'border-transparent text-gray-500 hover:text-gray-700'
+            )}
+          >
+            {PROFILE_LABELS[profile]}
+            {profile === record.targetProfile && <span className="ml-1 text-xs text-gray-400">(已选)</span>}
+          </button>
+        ))}
+      </div>
+
+      <div className="p-4 space-y-3">
+        <div>
+          <div className="flex items-center justify-between mb-1">
+            <h4 className="text-sm font-medium text-gray-700">提示词</h4>
+            <button
+              type="button"
+              onClick={() => handleCopy(`${activeProfile}-prompt`, variant.prompt)}
+              className="flex items-center text-xs text-blue-600 hover:text-blue-700"
+            >
+              {copiedKey === `${activeProfile}-prompt` ? (
+                <CheckIcon className="h-3 w-3 mr-1" />
+              ) : (
+                <DocumentDuplicateIcon className="h-3 w-3 mr-1" />
+              )}
+              复制
+            </button>
+          </div>
+          <p className="text-sm text-gray-900 whitespace-pre-wrap bg-gray-50 rounded p-3">{variant.prompt}</p>
+        </div>
+
+        {variant.negativePrompt && (
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <h4 className="text-sm font-medium text-gray-700">反向提示词</h4>
+              <button
+                type="button"
+                onClick={() => handleCopy(`${activeProfile}-negative`, variant.negativePrompt!)}
+                className="flex items-center text-xs text-blue-600 hover:text-blue-700"
+              >
+                {copiedKey === `${activeProfile}-negative` ? (
+                  <CheckIcon className="h-3 w-3 mr-1" />
+                ) : (
+                  <DocumentDuplicateIcon className="h-3 w-3 mr-1" />
+                )}
+                复制
+              </button>
+            </div>
+            <p className="text-sm text-gray-900 whitespace-pre-wrap bg-gray-50 rounded p-3">{variant.negativePrompt}</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
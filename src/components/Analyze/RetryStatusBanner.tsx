@@ -0,0 +1,47 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowPathIcon } from '@heroicons/react/24/outline';
+import { useAppStore } from '../../store/useAppStore';
+
+/**
+ * 分析请求失败后等待重试或换用备用模型时的进度
+ */
+export function RetryStatusBanner() {
+  const { retryStatus, isAnalyzing } = useAppStore();
+  const [remainingSeconds, setRemainingSeconds] = useState(0);
+
+  // 每次重试状态变化时重新倒计时
+  useEffect(() => {
+    if (!retryStatus) return;
+
+    const deadline = Date.now() + retryStatus.delayMs;
+    const update = () => setRemainingSeconds(Math.max(0, Math.ceil((deadline - Date.now()) / 1000)));
+    update();
+    const timer = setInterval(update, 1000);
+    return () => clearInterval(timer);
+  }, [retryStatus]);
+
+  if (!retryStatus || !isAnalyzing) return null;
+
+  const { model, attempt, maxAttempts, reason, nextModel } = retryStatus;
+
+  return (
+    <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+      <div className="flex">
+        <div className="flex-shrink-0">
+          <ArrowPathIcon className="h-5 w-5 text-yellow-400 animate-spin" />
+        </div>
+        <div className="ml-3">
+          <h3 className="text-sm font-medium text-yellow-800">
+            {nextModel ? `正在换用备用模型 ${nextModel}` : `${model} 第 ${attempt}/${maxAttempts} 次请求失败`}
+          </h3>
+          <div className="mt-2 text-sm text-yellow-700">
+            <p>
+              {nextModel ? `${model} 请求失败：${reason}` : reason}
+              {!nextModel && (remainingSeconds > 0 ? `，${remainingSeconds} 秒后重试` : '，正在重试...')}
+            </p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
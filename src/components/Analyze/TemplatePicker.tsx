@@ -0,0 +1,67 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { useAppStore } from '../../store/useAppStore';
+import { extractUserVariables, findTemplate, getTemplateContent } from '../../utils/promptTemplates';
+
+export function TemplatePicker() {
+  const {
+    promptTemplates,
+    selectedTemplateId,
+    templateVariables,
+    userSettings,
+    selectTemplate,
+    setTemplateVariable
+  } = useAppStore();
+
+  const template = findTemplate(promptTemplates, selectedTemplateId);
+  const variables = extractUserVariables(getTemplateContent(template, userSettings.language));
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <div className="flex items-center justify-between mb-1">
+          <label htmlFor="templateSelect" className="block text-sm font-medium text-gray-700">
+            提示词模板
+          </label>
+          <Link to="/settings" className="text-xs text-blue-600 hover:text-blue-700">
+            管理模板
+          </Link>
+        </div>
+        <select
+          id="templateSelect"
+          value={template.id}
+          onChange={(e) => selectTemplate(e.target.value)}
+          className="block w-full text-sm border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+        >
+          {promptTemplates.map(item => (
+            <option key={item.id} value={item.id}>
+              {item.name}
+              {item.id === userSettings.defaultTemplateId ? '（默认）' : ''}
+            </option>
+          ))}
+        </select>
+        {template.description && (
+          <p className="mt-1 text-xs text-gray-500">{template.description}</p>
+        )}
+      </div>
+
+      {/* Template Variables */}
+      {variables.length > 0 && (
+        <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+          {variables.map(name => (
+            <div key={name}>
+              <label className="block text-xs font-medium text-gray-600 mb-1">{name}</label>
+              <input
+                type="text"
+                value={templateVariables[name] || ''}
+                onChange={(e) => setTemplateVariable(name, e.target.value)}
+                placeholder={`填写 {{${name}}}`}
+                className="block w-full text-sm border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
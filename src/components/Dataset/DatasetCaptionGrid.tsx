@@ -0,0 +1,94 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowPathIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { useAppStore } from '../../store/useAppStore';
+import { DatasetItem, DatasetItemStatus } from '../../types';
+import { DATASET_STATUS_LABELS } from '../../utils/datasetCaptions';
+import { cn } from '../../utils/cn';
+
+const STATUS_STYLES: Record<DatasetItemStatus, string> = {
+  pending: 'bg-gray-100 text-gray-700',
+  captioning: 'bg-blue-100 text-blue-800',
+  done: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+};
+
+function DatasetCaptionCard({ item }: { item: DatasetItem }) {
+  const { updateDatasetCaption, recaptionDatasetItem, removeDatasetItem } = useAppStore();
+  const [draft, setDraft] = useState(item.caption);
+
+  // 模型返回或触发词变更后同步到编辑框
+  useEffect(() => {
+    setDraft(item.caption);
+  }, [item.caption]);
+
+  const commit = () => {
+    if (draft.trim() !== item.caption.trim()) {
+      updateDatasetCaption(item.id, draft.trim());
+    }
+  };
+
+  return (
+    <li className="bg-white border rounded-lg overflow-hidden flex flex-col">
+      <div className="relative aspect-square bg-gray-100">
+        <img src={item.preview} alt={item.path} className="h-full w-full object-contain" loading="lazy" />
+        <span className={cn('absolute top-2 left-2 px-2 py-0.5 rounded text-xs font-medium', STATUS_STYLES[item.status])}>
+          {DATASET_STATUS_LABELS[item.status]}
+        </span>
+      </div>
+
+      <div className="p-3 flex-1 flex flex-col space-y-2">
+        <div className="flex items-center justify-between">
+          <p className="text-xs text-gray-600 truncate" title={item.path}>{item.path}</p>
+          <div className="flex items-center space-x-1 flex-shrink-0">
+            {item.status !== 'captioning' && (
+              <button
+                onClick={() => recaptionDatasetItem(item.id)}
+                className="p-1 text-blue-600 hover:text-blue-700"
+                title={item.status === 'pending' ? '已在等待标注' : '重新标注'}
+                disabled={item.status === 'pending'}
+              >
+                <ArrowPathIcon className="h-4 w-4" />
+              </button>
+            )}
+            <button
+              onClick={() => removeDatasetItem(item.id)}
+              className="p-1 text-red-600 hover:text-red-700"
+              title="移除"
+            >
+              <TrashIcon className="h-4 w-4" />
+            </button>
+          </div>
+        </div>
+
+        {item.error && <p className="text-xs text-red-600">{item.error}</p>}
+
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={commit}
+          disabled={item.status === 'captioning'}
+          rows={4}
+          placeholder={item.status === 'captioning' ? '正在生成标注...' : '可直接输入标注'}
+          className="flex-1 block w-full text-xs border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-50"
+        />
+      </div>
+    </li>
+  );
+}
+
+/**
+ * 标注审阅网格：预览图片并直接修改标注，失焦时保存
+ */
+export function DatasetCaptionGrid({ items }: { items: DatasetItem[] }) {
+  if (items.length === 0) {
+    return <p className="py-8 text-sm text-gray-500 text-center">没有符合条件的图片</p>;
+  }
+
+  return (
+    <ul className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
+      {items.map(item => (
+        <DatasetCaptionCard key={item.id} item={item} />
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { CloudIcon, FolderPlusIcon, StarIcon, TagIcon } from '@heroicons/react/24/outline';
+import { Collection } from '../../types';
+import { parseTagInput } from '../../utils/recordOrganization';
+
+interface BulkActionBarProps {
+  count: number;
+  collections: Collection[];
+  activeCollectionId?: string; // 当前查看的收藏夹，可将选中项移出
+  onAddTags: (tags: string[]) => void;
+  onFavorite: (favorite: boolean) => void;
+  onAddToCollection: (collectionId: string) => void;
+  onCreateCollection: (name: string) => void;
+  onRemoveFromCollection: (collectionId: string) => void;
+  onPurgeRemote: () => void;
+}
+
+// 收藏夹下拉框中「新建」选项的值
+const NEW_COLLECTION = '__new__';
+
+/**
+ * 多选后的批量整理操作：添加标签、星标、加入或移出收藏夹、删除远程图片
+ */
+export function BulkActionBar({
+  count,
+  collections,
+  activeCollectionId,
+  onAddTags,
+  onFavorite,
+  onAddToCollection,
+  onCreateCollection,
+  onRemoveFromCollection,
+  onPurgeRemote,
+}: BulkActionBarProps) {
+  const [tagInput, setTagInput] = useState('');
+
+  const handleAddTags = () => {
+    const tags = parseTagInput(tagInput);
+    if (tags.length === 0) return;
+    onAddTags(tags);
+    setTagInput('');
+  };
+
+  const handleCollectionChange = (value: string) => {
+    if (value === NEW_COLLECTION) {
+      const name = prompt('收藏夹名称');
+      if (name?.trim()) {
+        onCreateCollection(name);
+      }
+    } else if (value) {
+      onAddToCollection(value);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 p-3 rounded-md bg-blue-50">
+      <span className="text-sm text-blue-700 mr-2">已选择 {count} 项</span>
+
+      <div className="flex items-center">
+        <input
+          type="text"
+          value={tagInput}
+          onChange={(e) => setTagInput(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleAddTags()}
+          placeholder="标签，逗号分隔"
+          className="w-36 text-sm py-1 border-gray-300 rounded-l-md focus:ring-blue-500 focus:border-blue-500"
+        />
+        <button
+          onClick={handleAddTags}
+          disabled={!tagInput.trim()}
+          className="inline-flex items-center px-2 py-1.5 border border-l-0 border-gray-300 rounded-r-md bg-white text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+        >
+          <TagIcon className="h-4 w-4 mr-1" />
+          添加标签
+        </button>
+      </div>
+
+      <div className="flex items-center">
+        <FolderPlusIcon className="h-4 w-4 text-gray-500 mr-1" />
+        <select
+          value=""
+          onChange={(e) => handleCollectionChange(e.target.value)}
+          className="text-sm py-1 border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+        >
+          <option value="">加入收藏夹...</option>
+          {collections.map(collection => (
+            <option key={collection.id} value={collection.id}>{collection.name}</option>
+          ))}
+          <option value={NEW_COLLECTION}>+ 新建收藏夹</option>
+        </select>
+      </div>
+
+      {activeCollectionId && (
+        <button
+          onClick={() => onRemoveFromCollection(activeCollectionId)}
+          className="px-2 py-1.5 border border-gray-300 rounded-md bg-white text-sm text-gray-700 hover:bg-gray-50"
+        >
+          移出当前收藏夹
+        </button>
+      )}
+
+      <button
+        onClick={() => onFavorite(true)}
+        className="inline-flex items-center px-2 py-1.5 border border-gray-300 rounded-md bg-white text-sm text-gray-700 hover:bg-gray-50"
+      >
+        <StarIcon className="h-4 w-4 mr-1" />
+        加星标
+      </button>
+      <button
+        onClick={() => onFavorite(false)}
+        className="px-2 py-1.5 border border-gray-300 rounded-md bg-white text-sm text-gray-700 hover:bg-gray-50"
+      >
+        取消星标
+      </button>
+      <button
+        onClick={onPurgeRemote}
+        className="inline-flex items-center px-2 py-1.5 border border-gray-300 rounded-md bg-white text-sm text-gray-700 hover:bg-gray-50"
+      >
+        <CloudIcon className="h-4 w-4 mr-1" />
+        删除远程图片
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import {
+  FolderIcon,
+  FolderPlusIcon,
+  InboxStackIcon,
+  PencilSquareIcon,
+  StarIcon,
+  TrashIcon
+} from '@heroicons/react/24/outline';
+import { Collection } from '../../types';
+import { cn } from '../../utils/cn';
+
+// 侧边栏视图：全部、星标或某个收藏夹ID
+export type HistoryView = 'all' | 'favorites' | string;
+
+interface CollectionSidebarProps {
+  collections: Collection[];
+  counts: Record<string, number>;
+  totalCount: number;
+  favoriteCount: number;
+  activeView: HistoryView;
+  onSelect: (view: HistoryView) => void;
+  onCreate: (name: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+}
+
+export function CollectionSidebar({
+  collections,
+  counts,
+  totalCount,
+  favoriteCount,
+  activeView,
+  onSelect,
+  onCreate,
+  onRename,
+  onDelete,
+}: CollectionSidebarProps) {
+  const [newName, setNewName] = useState('');
+  const [editing, setEditing] = useState<{ id: string; name: string } | null>(null);
+
+  const handleCreate = () => {
+    if (!newName.trim()) return;
+    onCreate(newName);
+    setNewName('');
+  };
+
+  const handleRename = () => {
+    if (editing?.name.trim()) {
+      onRename(editing.id, editing.name);
+    }
+    setEditing(null);
+  };
+
+  const itemClass = (view: HistoryView) => cn(
+    'w-full flex items-center justify-between px-3 py-2 rounded-md text-sm',
+    activeView === view ? 'bg-blue-50 text-blue-700 font-medium' : 'text-gray-700 hover:bg-gray-50'
+  );
+
+  return (
+    <nav className="bg-white rounded-lg shadow-sm border p-3 space-y-1">
+      <button onClick={() => onSelect('all')} className={itemClass('all')}>
+        <span className="flex items-center">
+          <InboxStackIcon className="h-4 w-4 mr-2" />
+          全部记录
+        </span>
+        <span className="text-xs text-gray-400">{totalCount}</span>
+      </button>
+      <button onClick={() => onSelect('favorites')} className={itemClass('favorites')}>
+        <span className="flex items-center">
+          <StarIcon className="h-4 w-4 mr-2" />
+          星标
+        </span>
+        <span className="text-xs text-gray-400">{favoriteCount}</span>
+      </button>
+
+      <div className="pt-3 pb-1 px-3 text-xs font-medium text-gray-400">收藏夹</div>
+      {collections.map(collection => (
+        editing?.id === collection.id ? (
+          <input
+            key={collection.id}
+            autoFocus
+            type="text"
+            value={editing.name}
+            onChange={(e) => setEditing({ id: collection.id, name: e.target.value })}
+            onBlur={handleRename}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleRename();
+              if (e.key === 'Escape') setEditing(null);
+            }}
+            className="block w-full text-sm border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+          />
+        ) : (
+          <div key={collection.id} className="group relative">
+            <button onClick={() => onSelect(collection.id)} className={itemClass(collection.id)}>
+              <span className="flex items-center min-w-0">
+                <FolderIcon className="h-4 w-4 mr-2 flex-shrink-0" />
+                <span className="truncate">{collection.name}</span>
+              </span>
+              <span className="text-xs text-gray-400 group-hover:invisible">{counts[collection.id] || 0}</span>
+            </button>
+            <div className="absolute inset-y-0 right-2 hidden group-hover:flex items-center space-x-1">
+              <button
+                onClick={() => setEditing({ id: collection.id, name: collection.name })}
+                className="p-0.5 text-gray-400 hover:text-gray-600"
+                title="重命名"
+              >
+                <PencilSquareIcon className="h-3.5 w-3.5" />
+              </button>
+              <button
+                onClick={() => {
+                  if (confirm(`确定要删除收藏夹「${collection.name}」吗？其中的记录不会被删除。`)) {
+                    onDelete(collection.id);
+                  }
+                }}
+                className="p-0.5 text-gray-400 hover:text-red-600"
+                title="删除收藏夹"
+              >
+                <TrashIcon className="h-3.5 w-3.5" />
+              </button>
+            </div>
+          </div>
+        )
+      ))}
+
+      <div className="flex items-center pt-2 px-1">
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+          placeholder="新建收藏夹"
+          className="flex-1 min-w-0 text-sm border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+        />
+        <button
+          onClick={handleCreate}
+          disabled={!newName.trim()}
+          className="ml-1 p-2 text-gray-500 hover:text-blue-600 disabled:opacity-40"
+          title="新建收藏夹"
+        >
+          <FolderPlusIcon className="h-4 w-4" />
+        </button>
+      </div>
+    </nav>
+  );
+}
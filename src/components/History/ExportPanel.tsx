@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import { ArrowDownTrayIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { AnalysisRecord, Collection } from '../../types';
+import {
+  DEFAULT_ZIP_OPTIONS,
+  EXPORT_FORMAT_LABELS,
+  ExportFormat,
+  ZipExportOptions,
+  buildHistoryExport,
+  downloadBlob
+} from '../../utils/historyExport';
+
+type ExportScope = 'selected' | 'filtered';
+
+interface ExportPanelProps {
+  selectedRecords: AnalysisRecord[];
+  filteredRecords: AnalysisRecord[]; // 当前筛选或搜索条件下的全部记录（不限于已加载的页）
+  collections: Collection[];
+  onClose: () => void;
+}
+
+/**
+ * 导出选中记录或当前筛选结果
+ */
+export function ExportPanel({ selectedRecords, filteredRecords, collections, onClose }: ExportPanelProps) {
+  const [format, setFormat] = useState<ExportFormat>('json');
+  const [scope, setScope] = useState<ExportScope>(selectedRecords.length > 0 ? 'selected' : 'filtered');
+  const [zipOptions, setZipOptions] = useState<ZipExportOptions>(DEFAULT_ZIP_OPTIONS);
+  const [progress, setProgress] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const records = scope === 'selected' ? selectedRecords : filteredRecords;
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setProgress(null);
+    try {
+      const result = await buildHistoryExport(records, collections, format, {
+        zip: zipOptions,
+        onProgress: (done, total) => setProgress(`正在打包图片 ${done}/${total}`),
+      });
+      downloadBlob(result.blob, result.fileName);
+
+      const notes = [
+        result.missingImages > 0 && `${result.missingImages} 条记录的图片无法获取，已跳过`,
+        result.thumbnailImages > 0 && `${result.thumbnailImages} 条记录只有缩略图`,
+      ].filter(Boolean);
+      setProgress(notes.length > 0 ? `导出完成：${notes.join('，')}` : `已导出 ${records.length} 条记录`);
+    } catch (error) {
+      console.error('Error exporting history:', error);
+      setProgress(error instanceof Error ? `导出失败：${error.message}` : '导出失败');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="bg-white shadow-sm rounded-lg border">
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+        <h2 className="text-lg font-medium text-gray-900">导出历史记录</h2>
+        <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600" title="关闭">
+          <XMarkIcon className="h-5 w-5" />
+        </button>
+      </div>
+
+      <div className="px-6 py-4 space-y-4">
+        <div className="flex flex-wrap gap-4 text-sm">
+          <label className="flex items-center">
+            <input
+              type="radio"
+              checked={scope === 'selected'}
+              onChange={() => setScope('selected')}
+              disabled={selectedRecords.length === 0}
+              className="mr-2 text-blue-600 focus:ring-blue-500"
+            />
+            选中的记录（{selectedRecords.length}）
+          </label>
+          <label className="flex items-center">
+            <input
+              type="radio"
+              checked={scope === 'filtered'}
+              onChange={() => setScope('filtered')}
+              className="mr-2 text-blue-600 focus:ring-blue-500"
+            />
+            当前筛选结果（{filteredRecords.length}）
+          </label>
+        </div>
+
+        <div className="space-y-2">
+          {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map(value => (
+            <label key={value} className="flex items-center text-sm text-gray-700">
+              <input
+                type="radio"
+                checked={format === value}
+                onChange={() => setFormat(value)}
+                className="mr-2 text-blue-600 focus:ring-blue-500"
+              />
+              {EXPORT_FORMAT_LABELS[value]}
+            </label>
+          ))}
+        </div>
+
+        {format === 'zip' && (
+          <div className="flex flex-wrap items-end gap-4 p-3 rounded-md bg-gray-50">
+            <label className="text-sm text-gray-700">
+              重复次数
+              <input
+                type="number"
+                min={1}
+                value={zipOptions.repeats}
+                onChange={(e) => setZipOptions({ ...zipOptions, repeats: Number(e.target.value) })}
+                className="mt-1 block w-24 text-sm border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              概念名称
+              <input
+                type="text"
+                value={zipOptions.concept}
+                onChange={(e) => setZipOptions({ ...zipOptions, concept: e.target.value })}
+                className="mt-1 block w-40 text-sm border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+              />
+            </label>
+            <p className="text-xs text-gray-500">
+              图片保存在 train/{Math.max(1, Math.round(zipOptions.repeats) || 1)}_{zipOptions.concept.trim() || DEFAULT_ZIP_OPTIONS.concept}/，每张图片附带同名 .txt 标注
+            </p>
+          </div>
+        )}
+
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={handleExport}
+            disabled={isExporting || records.length === 0}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+          >
+            <ArrowDownTrayIcon className="h-4 w-4 mr-2" />
+            {isExporting ? '导出中...' : `导出 ${records.length} 条`}
+          </button>
+          {progress && <span className="text-sm text-gray-500">{progress}</span>}
+        </div>
+      </div>
+    </div>
+  );
+}
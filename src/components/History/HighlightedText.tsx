@@ -0,0 +1,30 @@
+import React, { useMemo } from 'react';
+import { getSnippet, splitHighlights } from '../../utils/historySearch';
+
+interface HighlightedTextProps {
+  text: string;
+  terms: string[];
+  maxLength?: number; // 超出时截取包含命中词的片段
+}
+
+/**
+ * 高亮显示搜索命中的词
+ */
+export function HighlightedText({ text, terms, maxLength }: HighlightedTextProps) {
+  const parts = useMemo(
+    () => splitHighlights(maxLength ? getSnippet(text, terms, maxLength) : text, terms),
+    [text, terms, maxLength]
+  );
+
+  return (
+    <>
+      {parts.map((part, index) => (
+        part.match ? (
+          <mark key={index} className="bg-yellow-100 text-inherit rounded px-0.5">{part.text}</mark>
+        ) : (
+          <React.Fragment key={index}>{part.text}</React.Fragment>
+        )
+      ))}
+    </>
+  );
+}
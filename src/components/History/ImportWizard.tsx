@@ -0,0 +1,267 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ArrowUpTrayIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { useAppStore } from '../../store/useAppStore';
+import {
+  CONFLICT_RESOLUTION_LABELS,
+  ConflictResolution,
+  IMPORT_STATUS_LABELS,
+  ImportItemStatus,
+  ParsedImport,
+  buildImportPreview,
+  createExistingMatcher,
+  parseImportFile,
+  resolveImport
+} from '../../utils/historyImport';
+import { EXPORT_SCHEMA_VERSION } from '../../utils/historyExport';
+import { historyDb } from '../../utils/historyDb';
+import { cn } from '../../utils/cn';
+import { AnalysisRecord } from '../../types';
+
+interface ImportWizardProps {
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<ImportItemStatus, string> = {
+  new: 'bg-green-50 text-green-700',
+  duplicate: 'bg-gray-100 text-gray-600',
+  conflict: 'bg-yellow-50 text-yellow-800',
+  invalid: 'bg-red-50 text-red-700',
+};
+
+// 预览列表最多显示的条数
+const PREVIEW_LIMIT = 200;
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength)}...` : text;
+}
+
+/**
+ * 导入向导：选择文件 → 校验并预览 → 处理冲突后导入
+ */
+export function ImportWizard({ onClose }: ImportWizardProps) {
+  const { historyCount, userSettings, importRecords } = useAppStore();
+  const [fileName, setFileName] = useState('');
+  const [parsed, setParsed] = useState<ParsedImport | null>(null);
+  const [existing, setExisting] = useState<AnalysisRecord[] | null>(null); // 与导入记录相关的本地记录，读取完成前为空
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<ImportItemStatus | 'all'>('all');
+  const [defaultResolution, setDefaultResolution] = useState<ConflictResolution>('mine');
+  const [resolutions, setResolutions] = useState<Record<number, ConflictResolution>>({});
+  const [isImporting, setIsImporting] = useState(false);
+  const [result, setResult] = useState<string | null>(null);
+
+  // 只读取ID或内容与导入记录相同的本地记录
+  useEffect(() => {
+    setExisting(null);
+    if (!parsed) return;
+
+    let cancelled = false;
+    historyDb.getMatching({ filter: createExistingMatcher(parsed) })
+      .then(records => {
+        if (!cancelled) setExisting(records);
+      })
+      .catch(error => {
+        console.error('Failed to compare with local history:', error);
+        if (!cancelled) setParseError('读取本地历史记录失败，无法比较');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [parsed]);
+
+  const preview = useMemo(
+    () => (parsed && existing ? buildImportPreview(parsed, existing) : []),
+    [parsed, existing]
+  );
+  const counts = useMemo(() => {
+    const totals: Record<ImportItemStatus, number> = { new: 0, duplicate: 0, conflict: 0, invalid: 0 };
+    preview.forEach(item => totals[item.status]++);
+    return totals;
+  }, [preview]);
+  const toImport = useMemo(
+    () => resolveImport(preview, resolutions, defaultResolution),
+    [preview, resolutions, defaultResolution]
+  );
+  const visibleItems = preview.filter(item => statusFilter === 'all' || item.status === statusFilter);
+
+  // 新增的记录数（覆盖本地记录不增加总数）
+  const existingIds = useMemo(() => new Set((existing || []).map(record => record.id)), [existing]);
+  const addedCount = toImport.filter(record => !existingIds.has(record.id)).length;
+  const overflow = historyCount + addedCount - userSettings.maxHistoryItems;
+
+  const handleFile = async (file: File) => {
+    setFileName(file.name);
+    setParsed(null);
+    setParseError(null);
+    setResolutions({});
+    setResult(null);
+    try {
+      setParsed(parseImportFile(file.name, await file.text()));
+    } catch (error) {
+      setParseError(error instanceof Error ? error.message : '文件解析失败');
+    }
+  };
+
+  const handleImport = async () => {
+    if (!parsed) return;
+    setIsImporting(true);
+    try {
+      const count = await importRecords(toImport, parsed.collections);
+      setResult(`已导入 ${count} 条记录`);
+      setParsed(null);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="bg-white shadow-sm rounded-lg border">
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-medium text-gray-900">导入历史记录</h2>
+          <p className="mt-1 text-sm text-gray-500">支持本应用导出的 JSON、JSONL 和 CSV 文件，旧版本导出的文件会自动转换</p>
+        </div>
+        <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600" title="关闭">
+          <XMarkIcon className="h-5 w-5" />
+        </button>
+      </div>
+
+      <div className="px-6 py-4 space-y-4">
+        <div className="flex items-center space-x-3">
+          <label className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 cursor-pointer">
+            <ArrowUpTrayIcon className="h-4 w-4 mr-2" />
+            选择文件
+            <input
+              type="file"
+              accept=".json,.jsonl,.ndjson,.csv,application/json,text/csv"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleFile(file);
+                e.target.value = '';
+              }}
+            />
+          </label>
+          {fileName && <span className="text-sm text-gray-600 truncate">{fileName}</span>}
+        </div>
+
+        {parseError && <p className="text-sm text-red-600">{parseError}</p>}
+        {result && <p className="text-sm text-green-700">{result}</p>}
+
+        {parsed && !existing && !parseError && <p className="text-sm text-gray-500">正在与本地历史记录比较...</p>}
+
+        {parsed && existing && (
+          <>
+            <div className="text-sm text-gray-600">
+              {parsed.format.toUpperCase()} 文件，共 {parsed.entries.length} 条
+              {parsed.schemaVersion < EXPORT_SCHEMA_VERSION && (
+                <span className="ml-2 px-1.5 py-0.5 rounded bg-blue-50 text-blue-700 text-xs">
+                  旧版结构（v{parsed.schemaVersion}），已自动转换
+                </span>
+              )}
+            </div>
+
+            {/* Status Summary */}
+            <div className="flex flex-wrap gap-2">
+              <button
+                onClick={() => setStatusFilter('all')}
+                className={cn('px-3 py-1 rounded-full text-xs border', statusFilter === 'all' ? 'border-blue-500 text-blue-700' : 'text-gray-600')}
+              >
+                全部 {preview.length}
+              </button>
+              {(Object.keys(IMPORT_STATUS_LABELS) as ImportItemStatus[]).map(status => (
+                <button
+                  key={status}
+                  onClick={() => setStatusFilter(status)}
+                  className={cn(
+                    'px-3 py-1 rounded-full text-xs border',
+                    STATUS_STYLES[status],
+                    statusFilter === status ? 'border-blue-500' : 'border-transparent'
+                  )}
+                >
+                  {IMPORT_STATUS_LABELS[status]} {counts[status]}
+                </button>
+              ))}
+            </div>
+
+            {counts.conflict > 0 && (
+              <div className="flex items-center space-x-2 text-sm">
+                <span className="text-gray-700">冲突默认处理：</span>
+                <select
+                  value={defaultResolution}
+                  onChange={(e) => setDefaultResolution(e.target.value as ConflictResolution)}
+                  className="text-sm border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                >
+                  {(Object.keys(CONFLICT_RESOLUTION_LABELS) as ConflictResolution[]).map(value => (
+                    <option key={value} value={value}>{CONFLICT_RESOLUTION_LABELS[value]}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {/* Preview List */}
+            <ul className="border rounded-md divide-y divide-gray-100 max-h-96 overflow-y-auto">
+              {visibleItems.slice(0, PREVIEW_LIMIT).map(item => (
+                <li key={item.index} className="px-3 py-2 text-sm">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center min-w-0 space-x-2">
+                      <span className="text-xs text-gray-400">#{item.index}</span>
+                      <span className={cn('px-1.5 py-0.5 rounded text-xs', STATUS_STYLES[item.status])}>
+                        {IMPORT_STATUS_LABELS[item.status]}
+                      </span>
+                      <span className="truncate text-gray-900">{item.record?.imageName ?? '—'}</span>
+                    </div>
+                    {item.status === 'conflict' && (
+                      <select
+                        value={resolutions[item.index] ?? defaultResolution}
+                        onChange={(e) => setResolutions({ ...resolutions, [item.index]: e.target.value as ConflictResolution })}
+                        className="text-xs border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                      >
+                        {(Object.keys(CONFLICT_RESOLUTION_LABELS) as ConflictResolution[]).map(value => (
+                          <option key={value} value={value}>{CONFLICT_RESOLUTION_LABELS[value]}</option>
+                        ))}
+                      </select>
+                    )}
+                  </div>
+                  {item.status === 'conflict' && item.existing && item.record && (
+                    <div className="mt-1 grid grid-cols-2 gap-2 text-xs">
+                      <p className="p-2 rounded bg-gray-50 text-gray-600">本地：{truncate(item.existing.prompt, 120)}</p>
+                      <p className="p-2 rounded bg-yellow-50 text-gray-700">导入：{truncate(item.record.prompt, 120)}</p>
+                    </div>
+                  )}
+                  {item.status !== 'conflict' && item.record && (
+                    <p className="mt-1 text-xs text-gray-500">{truncate(item.record.prompt, 120)}</p>
+                  )}
+                  {item.errors.length > 0 && (
+                    <p className="mt-1 text-xs text-red-600">{item.errors.join('；')}</p>
+                  )}
+                  {item.warnings.length > 0 && (
+                    <p className="mt-1 text-xs text-yellow-700">{item.warnings.join('；')}</p>
+                  )}
+                </li>
+              ))}
+              {visibleItems.length > PREVIEW_LIMIT && (
+                <li className="px-3 py-2 text-xs text-gray-400">仅显示前 {PREVIEW_LIMIT} 条</li>
+              )}
+            </ul>
+
+            {overflow > 0 && (
+              <p className="text-sm text-yellow-700">
+                导入后将超过历史记录上限（{userSettings.maxHistoryItems} 条），最旧的 {overflow} 条记录会被删除
+              </p>
+            )}
+
+            <button
+              onClick={handleImport}
+              disabled={isImporting || toImport.length === 0}
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isImporting ? '导入中...' : `导入 ${toImport.length} 条`}
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+import React, { useState } from 'react';
+
+interface PromptEditorProps {
+  initialValue: string;
+  onSave: (prompt: string) => void | Promise<void>;
+  onCancel: () => void;
+}
+
+export function PromptEditor({ initialValue, onSave, onCancel }: PromptEditorProps) {
+  const [value, setValue] = useState(initialValue);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const isChanged = value.trim() !== '' && value.trim() !== initialValue;
+
+  const handleSave = async () => {
+    if (!isChanged) return;
+    setIsSaving(true);
+    try {
+      await onSave(value);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <textarea
+        autoFocus
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) handleSave();
+          if (e.key === 'Escape') onCancel();
+        }}
+        rows={Math.min(12, Math.max(4, value.split('\n').length + 1))}
+        className="block w-full text-sm border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+      />
+      <div className="flex items-center justify-end space-x-2">
+        <span className="mr-auto text-xs text-gray-400">Ctrl+Enter 保存，Esc 取消</span>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-3 py-1.5 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+        >
+          取消
+        </button>
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={!isChanged || isSaving}
+          className="px-3 py-1.5 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+        >
+          保存为新版本
+        </button>
+      </div>
+    </div>
+  );
+}
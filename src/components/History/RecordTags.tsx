@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { PlusIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { parseTagInput } from '../../utils/recordOrganization';
+
+interface RecordTagsProps {
+  tags?: string[];
+  onAdd: (tags: string[]) => void;
+  onRemove: (tag: string) => void;
+  onSelect?: (tag: string) => void; // 点击标签时按标签筛选
+}
+
+/**
+ * 记录的标签列表，可添加和移除
+ */
+export function RecordTags({ tags = [], onAdd, onRemove, onSelect }: RecordTagsProps) {
+  const [isAdding, setIsAdding] = useState(false);
+  const [input, setInput] = useState('');
+
+  const handleSubmit = () => {
+    const parsed = parseTagInput(input);
+    if (parsed.length > 0) {
+      onAdd(parsed);
+    }
+    setInput('');
+    setIsAdding(false);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5">
+      {tags.map(tag => (
+        <span
+          key={tag}
+          className="inline-flex items-center pl-2 pr-1 py-0.5 rounded-full bg-indigo-50 text-indigo-700 text-xs"
+        >
+          <button
+            type="button"
+            onClick={() => onSelect?.(tag)}
+            className="hover:underline"
+            title={`筛选标签 ${tag}`}
+          >
+            {tag}
+          </button>
+          <button
+            type="button"
+            onClick={() => onRemove(tag)}
+            className="ml-0.5 p-0.5 rounded-full hover:bg-indigo-100"
+            title="移除标签"
+          >
+            <XMarkIcon className="h-3 w-3" />
+          </button>
+        </span>
+      ))}
+
+      {isAdding ? (
+        <input
+          autoFocus
+          type="text"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onBlur={handleSubmit}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleSubmit();
+            if (e.key === 'Escape') {
+              setInput('');
+              setIsAdding(false);
+            }
+          }}
+          placeholder="多个标签用逗号分隔"
+          className="text-xs py-0.5 px-2 w-40 border-gray-300 rounded-full focus:ring-blue-500 focus:border-blue-500"
+        />
+      ) : (
+        <button
+          type="button"
+          onClick={() => setIsAdding(true)}
+          className="inline-flex items-center px-2 py-0.5 rounded-full border border-dashed border-gray-300 text-xs text-gray-500 hover:text-gray-700 hover:border-gray-400"
+        >
+          <PlusIcon className="h-3 w-3 mr-0.5" />
+          标签
+        </button>
+      )}
+    </div>
+  );
+}
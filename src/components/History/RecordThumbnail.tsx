@@ -0,0 +1,63 @@
+import React, { useEffect, useState } from 'react';
+import { PhotoIcon } from '@heroicons/react/24/outline';
+import { AnalysisRecord } from '../../types';
+import { historyDb } from '../../utils/historyDb';
+import { isImageLinkBroken } from '../../utils/linkChecker';
+
+interface RecordThumbnailProps {
+  record: AnalysisRecord;
+}
+
+/**
+ * 历史记录预览图：优先使用图片URL，没有URL或链接失效时读取本地保存的缩略图
+ */
+export function RecordThumbnail({ record }: RecordThumbnailProps) {
+  const [thumbnailUrl, setThumbnailUrl] = useState<string | null>(null);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const remoteUrl = record.imageUrl && !loadFailed && !isImageLinkBroken(record) ? record.imageUrl : null;
+
+  useEffect(() => {
+    setLoadFailed(false);
+  }, [record.imageUrl]);
+
+  useEffect(() => {
+    if (remoteUrl) return;
+
+    let objectUrl: string | null = null;
+    let cancelled = false;
+
+    historyDb.getThumbnail(record.id)
+      .then(blob => {
+        if (!blob || cancelled) return;
+        objectUrl = URL.createObjectURL(blob);
+        setThumbnailUrl(objectUrl);
+      })
+      .catch(error => console.warn('Failed to load thumbnail:', error));
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) {
+        URL.revokeObjectURL(objectUrl);
+      }
+    };
+  }, [record.id, remoteUrl]);
+
+  const src = remoteUrl || thumbnailUrl;
+
+  if (!src) {
+    return (
+      <div className="h-16 w-16 rounded-lg bg-gray-200 flex items-center justify-center">
+        <PhotoIcon className="h-8 w-8 text-gray-400" />
+      </div>
+    );
+  }
+
+  return (
+    <img
+      src={src}
+      alt={record.imageName}
+      onError={remoteUrl ? () => setLoadFailed(true) : undefined}
+      className="h-16 w-16 rounded-lg object-cover"
+    />
+  );
+}
@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { ArrowPathIcon, PaperAirplaneIcon } from '@heroicons/react/24/outline';
+import { useAppStore } from '../../store/useAppStore';
+import { AnalysisRecord } from '../../types';
+import { REFINE_SUGGESTIONS } from '../../utils/refineConversation';
+
+interface RefineChatProps {
+  record: AnalysisRecord;
+}
+
+/**
+ * 追问优化对话：每轮回复保存为提示词的新版本
+ */
+export function RefineChat({ record }: RefineChatProps) {
+  const { refiningRecordId, userSettings, refinePrompt } = useAppStore();
+  const [input, setInput] = useState('');
+
+  const isRefining = refiningRecordId === record.id;
+  const isBusy = refiningRecordId !== null;
+  const turns = record.refinements || [];
+
+  const handleSend = async (instruction: string) => {
+    if (!instruction.trim() || isBusy) return;
+    setInput('');
+    await refinePrompt(record, instruction);
+  };
+
+  return (
+    <div className="border rounded-lg">
+      <div className="px-4 py-2 border-b text-sm font-medium text-gray-700">继续优化</div>
+
+      {(turns.length > 0 || isRefining) && (
+        <div className="px-4 py-3 space-y-3 max-h-96 overflow-y-auto">
+          {turns.map(turn => (
+            <div key={turn.id} className="space-y-2">
+              <div className="flex justify-end">
+                <p className="max-w-[80%] px-3 py-2 rounded-lg bg-blue-600 text-white text-sm whitespace-pre-wrap">
+                  {turn.instruction}
+                </p>
+              </div>
+              <div className="max-w-[90%]">
+                <p className="px-3 py-2 rounded-lg bg-gray-100 text-gray-900 text-sm whitespace-pre-wrap">
+                  {turn.prompt}
+                </p>
+                <div className="mt-1 text-xs text-gray-400 space-x-2">
+                  <span>{new Date(turn.createdAt).toLocaleString()}</span>
+                  {turn.model && <span>{turn.model}</span>}
+                </div>
+              </div>
+            </div>
+          ))}
+          {isRefining && (
+            <div className="flex items-center text-sm text-gray-500">
+              <ArrowPathIcon className="h-4 w-4 mr-2 animate-spin" />
+              正在生成...
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="px-4 py-3 border-t space-y-2">
+        <div className="flex flex-wrap gap-1.5">
+          {REFINE_SUGGESTIONS[userSettings.language].map(suggestion => (
+            <button
+              key={suggestion}
+              type="button"
+              onClick={() => handleSend(suggestion)}
+              disabled={isBusy}
+              className="px-2 py-0.5 rounded-full border text-xs text-gray-600 hover:bg-gray-50 disabled:opacity-50"
+            >
+              {suggestion}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center space-x-2">
+          <input
+            type="text"
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSend(input)}
+            placeholder="描述想要的修改，如：更有电影感"
+            className="flex-1 min-w-0 text-sm border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+          />
+          <button
+            type="button"
+            onClick={() => handleSend(input)}
+            disabled={!input.trim() || isBusy}
+            className="inline-flex items-center px-3 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+          >
+            <PaperAirplaneIcon className="h-4 w-4 mr-1" />
+            发送
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+import React from 'react';
+import { StarIcon } from '@heroicons/react/24/solid';
+import { MAX_RATING } from '../../utils/recordOrganization';
+import { cn } from '../../utils/cn';
+
+interface StarRatingProps {
+  value?: number;
+  onChange: (rating: number | undefined) => void;
+}
+
+/**
+ * 1-5星评分，再次点击当前评分时清除
+ */
+export function StarRating({ value = 0, onChange }: StarRatingProps) {
+  return (
+    <div className="flex items-center" title={value ? `${value} 星` : '未评分'}>
+      {Array.from({ length: MAX_RATING }, (_, index) => index + 1).map(star => (
+        <button
+          key={star}
+          type="button"
+          onClick={() => onChange(star === value ? undefined : star)}
+          className="p-0.5"
+          title={`评为 ${star} 星`}
+        >
+          <StarIcon className={cn('h-3.5 w-3.5', star <= value ? 'text-yellow-400' : 'text-gray-200 hover:text-yellow-200')} />
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowUturnLeftIcon } from '@heroicons/react/24/outline';
+import { AnalysisRecord } from '../../types';
+import { VERSION_SOURCE_LABELS, diffWords, getPromptVersions } from '../../utils/promptVersions';
+import { cn } from '../../utils/cn';
+
+interface VersionHistoryProps {
+  record: AnalysisRecord;
+  onRevert: (versionId: string) => void | Promise<void>;
+}
+
+export function VersionHistory({ record, onRevert }: VersionHistoryProps) {
+  const versions = useMemo(() => getPromptVersions(record), [record]);
+  const latest = versions[versions.length - 1];
+  // 默认比较模型原始输出与当前版本
+  const [baseId, setBaseId] = useState(versions[0].id);
+  const [compareId, setCompareId] = useState(latest.id);
+
+  const base = versions.find(version => version.id === baseId) || versions[0];
+  const compare = versions.find(version => version.id === compareId) || latest;
+  const segments = useMemo(() => diffWords(base.prompt, compare.prompt), [base, compare]);
+
+  const labelOf = (index: number) => {
+    const version = versions[index];
+    return `v${index + 1} · ${VERSION_SOURCE_LABELS[version.source]} · ${version.createdAt.toLocaleString()}`;
+  };
+
+  return (
+    <div className="border rounded-lg">
+      <ul className="divide-y divide-gray-100">
+        {versions.map((version, index) => (
+          <li key={version.id} className="px-4 py-2 flex items-center justify-between text-sm">
+            <div className="flex items-center min-w-0 space-x-2">
+              <span className="font-medium text-gray-900">v{index + 1}</span>
+              <span className={cn(
+                'px-1.5 py-0.5 rounded text-xs',
+                version.source === 'model' ? 'bg-blue-50 text-blue-700' : 'bg-gray-100 text-gray-600'
+              )}>
+                {VERSION_SOURCE_LABELS[version.source]}
+              </span>
+              {version.revertedFrom && (
+                <span className="text-xs text-gray-400">
+                  自 v{versions.findIndex(item => item.id === version.revertedFrom) + 1}
+                </span>
+              )}
+              <span className="text-xs text-gray-500">{version.createdAt.toLocaleString()}</span>
+              {version.id === latest.id && <span className="text-xs text-green-600">当前</span>}
+            </div>
+            {version.id !== latest.id && version.prompt !== latest.prompt && (
+              <button
+                type="button"
+                onClick={() => onRevert(version.id)}
+                className="flex items-center text-xs text-blue-600 hover:text-blue-700"
+              >
+                <ArrowUturnLeftIcon className="h-3 w-3 mr-1" />
+                回退
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {versions.length > 1 && (
+        <div className="border-t p-4 space-y-3">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="text-gray-700">比较</span>
+            <select
+              value={base.id}
+              onChange={(e) => setBaseId(e.target.value)}
+              className="text-sm border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+            >
+              {versions.map((version, index) => (
+                <option key={version.id} value={version.id}>{labelOf(index)}</option>
+              ))}
+            </select>
+            <span className="text-gray-400">→</span>
+            <select
+              value={compare.id}
+              onChange={(e) => setCompareId(e.target.value)}
+              className="text-sm border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+            >
+              {versions.map((version, index) => (
+                <option key={version.id} value={version.id}>{labelOf(index)}</option>
+              ))}
+            </select>
+          </div>
+          <p className="text-sm text-gray-900 whitespace-pre-wrap bg-gray-50 rounded p-3">
+            {segments.map((segment, index) => (
+              <span
+                key={index}
+                className={cn(
+                  segment.type === 'insert' && 'bg-green-100 text-green-800',
+                  segment.type === 'delete' && 'bg-red-100 text-red-700 line-through'
+                )}
+              >
+                {segment.text}
+              </span>
+            ))}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
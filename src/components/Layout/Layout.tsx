@@ -1,5 +1,6 @@
 import React from 'react';
 import { Navigation } from './Navigation';
+import { VaultUnlockBanner } from './VaultUnlockBanner';
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -11,6 +12,7 @@ export function Layout({ children }: LayoutProps) {
       <Navigation />
       <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
         <div className="px-4 py-6 sm:px-0">
+          <VaultUnlockBanner />
           {children}
         </div>
       </main>
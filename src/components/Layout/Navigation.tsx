@@ -4,6 +4,8 @@ import {
   HomeIcon, 
   PhotoIcon, 
   ClockIcon, 
+  FolderOpenIcon,
+  ChartBarIcon,
   CogIcon 
 } from '@heroicons/react/24/outline';
 import { cn } from '../../utils/cn';
@@ -24,6 +26,16 @@ const navigationItems = [
     href: '/history',
     icon: ClockIcon,
   },
+  {
+    name: '训练集',
+    href: '/dataset',
+    icon: FolderOpenIcon,
+  },
+  {
+    name: '用量',
+    href: '/usage',
+    icon: ChartBarIcon,
+  },
   {
     name: '设置',
     href: '/settings',
@@ -0,0 +1,62 @@
+import React, { useState } from 'react';
+import { LockClosedIcon } from '@heroicons/react/24/outline';
+import { useAppStore } from '../../store/useAppStore';
+
+export function VaultUnlockBanner() {
+  const { vaultStatus, unlockVault } = useAppStore();
+  const [passphrase, setPassphrase] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (vaultStatus !== 'locked') return null;
+
+  const handleUnlock = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!passphrase || isUnlocking) return;
+
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      await unlockVault(passphrase);
+      setPassphrase('');
+    } catch (unlockError) {
+      setError(unlockError instanceof Error ? unlockError.message : '解锁失败');
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="mb-6 bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+      <div className="flex">
+        <div className="flex-shrink-0">
+          <LockClosedIcon className="h-5 w-5 text-yellow-400" />
+        </div>
+        <div className="ml-3 flex-1">
+          <h3 className="text-sm font-medium text-yellow-800">API 密钥已加密锁定</h3>
+          <p className="mt-2 text-sm text-yellow-700">
+            输入保险箱密码解锁后才能分析图片，本次会话内有效。
+          </p>
+          <form onSubmit={handleUnlock} className="mt-3 flex flex-wrap items-center gap-2">
+            <input
+              type="password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              placeholder="保险箱密码"
+              autoComplete="current-password"
+              className="w-64 text-sm border-gray-300 rounded-md shadow-sm focus:ring-yellow-500 focus:border-yellow-500"
+            />
+            <button
+              type="submit"
+              disabled={!passphrase || isUnlocking}
+              className="text-sm bg-yellow-100 text-yellow-800 rounded-md px-3 py-1.5 hover:bg-yellow-200 disabled:opacity-50"
+            >
+              {isUnlocking ? '解锁中...' : '解锁'}
+            </button>
+            {error && <span className="text-sm text-red-600">{error}</span>}
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
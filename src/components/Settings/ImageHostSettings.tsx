@@ -0,0 +1,186 @@
+import React, { useState } from 'react';
+import { CloudArrowUpIcon, EyeIcon, EyeSlashIcon } from '@heroicons/react/24/outline';
+import { ApiConfig, ImageHostId, MultipartHostConfig, S3HostConfig } from '../../types';
+import { IMAGE_HOST_IDS, IMAGE_HOSTS } from '../../services/imageHosts';
+
+type ImageHostConfigs = NonNullable<ApiConfig['imageHosts']>;
+
+interface ImageHostSettingsProps {
+  host: ImageHostId;
+  configs: ImageHostConfigs;
+  onHostChange: (host: ImageHostId) => void;
+  onConfigChange: (configs: ImageHostConfigs) => void;
+}
+
+const HOST_DESCRIPTIONS: Record<ImageHostId, string> = {
+  imgbb: '上传到 ImgBB，在下方填写 ImgBB API Key（代理模式下使用服务端密钥）',
+  s3: 'AWS S3 或 MinIO、Cloudflare R2 等兼容存储，需为存储桶配置允许本站的跨域规则',
+  multipart: '以 multipart/form-data 上传到自建接口，从返回的 JSON 中读取图片地址',
+  inline: '图片以 Base64 内嵌在分析请求中发送，不在任何地方保存远程副本',
+};
+
+const inputClassName = 'block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 text-sm';
+
+interface TextFieldProps {
+  label: string;
+  value?: string;
+  placeholder?: string;
+  hint?: string;
+  secret?: boolean;
+  onChange: (value: string) => void;
+}
+
+function TextField({ label, value, placeholder, hint, secret, onChange }: TextFieldProps) {
+  const [visible, setVisible] = useState(false);
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+      <div className="relative">
+        <input
+          type={secret && !visible ? 'password' : 'text'}
+          value={value || ''}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={placeholder}
+          className={secret ? `${inputClassName} pr-10` : inputClassName}
+        />
+        {secret && (
+          <button
+            type="button"
+            onClick={() => setVisible(!visible)}
+            className="absolute inset-y-0 right-0 flex items-center pr-3 text-gray-400 hover:text-gray-600"
+          >
+            {visible ? <EyeSlashIcon className="h-4 w-4" /> : <EyeIcon className="h-4 w-4" />}
+          </button>
+        )}
+      </div>
+      {hint && <p className="mt-1 text-xs text-gray-500">{hint}</p>}
+    </div>
+  );
+}
+
+export function ImageHostSettings({ host, configs, onHostChange, onConfigChange }: ImageHostSettingsProps) {
+  const s3 = configs.s3 || {};
+  const multipart = configs.multipart || {};
+
+  const updateS3 = (updates: Partial<S3HostConfig>) => onConfigChange({ ...configs, s3: { ...s3, ...updates } });
+  const updateMultipart = (updates: Partial<MultipartHostConfig>) =>
+    onConfigChange({ ...configs, multipart: { ...multipart, ...updates } });
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2 flex items-center">
+          <CloudArrowUpIcon className="h-4 w-4 mr-1" />
+          图床
+        </label>
+        <select
+          value={host}
+          onChange={(e) => onHostChange(e.target.value as ImageHostId)}
+          className="block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+        >
+          {IMAGE_HOST_IDS.map(id => (
+            <option key={id} value={id}>{IMAGE_HOSTS[id].label}</option>
+          ))}
+        </select>
+        <p className="mt-1 text-xs text-gray-500">{HOST_DESCRIPTIONS[host]}</p>
+      </div>
+
+      {host === 's3' && (
+        <div className="border border-gray-200 rounded-md p-4 space-y-4">
+          <TextField
+            label="服务地址"
+            value={s3.endpoint}
+            placeholder="https://s3.us-east-1.amazonaws.com"
+            onChange={endpoint => updateS3({ endpoint })}
+          />
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <TextField label="存储桶" value={s3.bucket} placeholder="my-bucket" onChange={bucket => updateS3({ bucket })} />
+            <TextField label="区域" value={s3.region} placeholder="us-east-1" onChange={region => updateS3({ region })} />
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <TextField
+              label="Access Key ID"
+              value={s3.accessKeyId}
+              secret
+              onChange={accessKeyId => updateS3({ accessKeyId })}
+            />
+            <TextField
+              label="Secret Access Key"
+              value={s3.secretAccessKey}
+              secret
+              onChange={secretAccessKey => updateS3({ secretAccessKey })}
+            />
+          </div>
+          <TextField
+            label="公开访问地址"
+            value={s3.publicUrl}
+            placeholder="https://cdn.example.com"
+            hint="存储桶可公开读取或配置了 CDN 时填写；留空时使用 7 天有效的预签名地址"
+            onChange={publicUrl => updateS3({ publicUrl })}
+          />
+          <TextField
+            label="对象键前缀"
+            value={s3.keyPrefix}
+            placeholder="prompts/"
+            onChange={keyPrefix => updateS3({ keyPrefix })}
+          />
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={!!s3.virtualHosted}
+              onChange={(e) => updateS3({ virtualHosted: e.target.checked })}
+              className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500 mr-2"
+            />
+            使用虚拟主机风格地址（bucket.域名），MinIO 等通常不勾选
+          </label>
+          <p className="text-xs text-gray-500">
+            密钥保存在浏览器中，请使用只允许读写该存储桶的专用密钥
+          </p>
+        </div>
+      )}
+
+      {host === 'multipart' && (
+        <div className="border border-gray-200 rounded-md p-4 space-y-4">
+          <TextField
+            label="上传地址"
+            value={multipart.url}
+            placeholder="https://img.example.com/upload"
+            onChange={url => updateMultipart({ url })}
+          />
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <TextField
+              label="文件字段名"
+              value={multipart.fieldName}
+              placeholder="file"
+              onChange={fieldName => updateMultipart({ fieldName })}
+            />
+            <TextField
+              label="Authorization 请求头"
+              value={multipart.authorization}
+              placeholder="Bearer ..."
+              secret
+              onChange={authorization => updateMultipart({ authorization })}
+            />
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <TextField
+              label="图片地址字段"
+              value={multipart.urlField}
+              placeholder="url"
+              hint="点分路径，如 data.url；接口直接返回地址文本时可忽略"
+              onChange={urlField => updateMultipart({ urlField })}
+            />
+            <TextField
+              label="删除地址字段"
+              value={multipart.deleteUrlField}
+              placeholder="data.delete_url"
+              hint="可选，填写后可在历史记录中删除远程图片"
+              onChange={deleteUrlField => updateMultipart({ deleteUrlField })}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+import React, { useState } from 'react';
+import {
+  ServerStackIcon,
+  CheckIcon,
+  XMarkIcon,
+  EyeIcon,
+  EyeSlashIcon
+} from '@heroicons/react/24/outline';
+import { ProviderConfig, VisionProviderId } from '../../types';
+import { PROVIDER_IDS, VISION_PROVIDERS } from '../../services/providers';
+import { cn } from '../../utils/cn';
+
+type ProviderConfigs = Partial<Record<Exclude<VisionProviderId, 'openrouter'>, ProviderConfig>>;
+
+interface ProviderSettingsProps {
+  provider: VisionProviderId;
+  configs: ProviderConfigs;
+  onProviderChange: (provider: VisionProviderId) => void;
+  onConfigChange: (provider: Exclude<VisionProviderId, 'openrouter'>, config: ProviderConfig) => void;
+}
+
+const PROVIDER_DESCRIPTIONS: Record<VisionProviderId, string> = {
+  openrouter: '通过 OpenRouter 调用各家视觉模型，在下方填写 OpenRouter API Key',
+  openai: '任意兼容 OpenAI Chat Completions 的接口，如 OpenAI、vLLM、LiteLLM 或自建网关',
+  ollama: '本地或局域网部署的 Ollama（如 llava、llama3.2-vision），需允许浏览器跨域访问（OLLAMA_ORIGINS）',
+  gemini: 'Google Gemini 官方接口（Generative Language API）',
+  anthropic: 'Anthropic Messages API（Claude 系列模型）',
+};
+
+const KEY_PLACEHOLDERS: Record<VisionProviderId, string> = {
+  openrouter: 'sk-or-v1-...',
+  openai: 'sk-...（网关不需要时可留空）',
+  ollama: '可选，经反向代理部署时填写',
+  gemini: 'AIza...',
+  anthropic: 'sk-ant-...',
+};
+
+interface TestResult {
+  isValid: boolean;
+  message: string;
+  isLoading: boolean;
+}
+
+export function ProviderSettings({ provider, configs, onProviderChange, onConfigChange }: ProviderSettingsProps) {
+  const [showKey, setShowKey] = useState(false);
+  const [testResult, setTestResult] = useState<TestResult>({ isValid: false, message: '', isLoading: false });
+
+  const instance = VISION_PROVIDERS[provider];
+  const config = provider === 'openrouter' ? {} : configs[provider] || {};
+
+  const updateConfig = (updates: Partial<ProviderConfig>) => {
+    if (provider === 'openrouter') return;
+    onConfigChange(provider, { ...config, ...updates });
+    setTestResult({ isValid: false, message: '', isLoading: false });
+  };
+
+  const handleTest = async () => {
+    setTestResult({ isValid: false, message: '', isLoading: true });
+    const isValid = await instance.testConnection(config);
+    setTestResult({
+      isValid,
+      message: isValid ? '连接成功' : '连接失败，请检查地址、密钥和跨域设置',
+      isLoading: false,
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2 flex items-center">
+          <ServerStackIcon className="h-4 w-4 mr-1" />
+          模型服务商
+        </label>
+        <select
+          value={provider}
+          onChange={(e) => {
+            onProviderChange(e.target.value as VisionProviderId);
+            setTestResult({ isValid: false, message: '', isLoading: false });
+          }}
+          className="block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+        >
+          {PROVIDER_IDS.map(id => (
+            <option key={id} value={id}>{VISION_PROVIDERS[id].label}</option>
+          ))}
+        </select>
+        <p className="mt-1 text-xs text-gray-500">{PROVIDER_DESCRIPTIONS[provider]}</p>
+      </div>
+
+      {provider !== 'openrouter' && (
+        <div className="border border-gray-200 rounded-md p-4 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">接口地址</label>
+            <input
+              type="text"
+              value={config.baseUrl || ''}
+              onChange={(e) => updateConfig({ baseUrl: e.target.value })}
+              placeholder={instance.defaultBaseUrl}
+              className="block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 text-sm"
+            />
+            <p className="mt-1 text-xs text-gray-500">留空时使用默认地址</p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">API Key</label>
+            <div className="relative">
+              <input
+                type={showKey ? 'text' : 'password'}
+                value={config.apiKey || ''}
+                onChange={(e) => updateConfig({ apiKey: e.target.value })}
+                placeholder={KEY_PLACEHOLDERS[provider]}
+                className="block w-full pr-10 border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 text-sm"
+              />
+              <button
+                type="button"
+                onClick={() => setShowKey(!showKey)}
+                className="absolute inset-y-0 right-0 flex items-center pr-3 text-gray-400 hover:text-gray-600"
+              >
+                {showKey ? <EyeSlashIcon className="h-4 w-4" /> : <EyeIcon className="h-4 w-4" />}
+              </button>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">默认模型</label>
+            <input
+              type="text"
+              value={config.model || ''}
+              onChange={(e) => updateConfig({ model: e.target.value })}
+              placeholder={instance.defaultModel}
+              className="block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 text-sm"
+            />
+            <p className="mt-1 text-xs text-gray-500">需选择支持图片输入的模型，分析页可临时切换</p>
+          </div>
+
+          <div className="flex items-center space-x-3">
+            <button
+              type="button"
+              onClick={handleTest}
+              disabled={testResult.isLoading}
+              className="inline-flex items-center px-3 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+            >
+              {testResult.isLoading ? '测试中...' : '测试连接'}
+            </button>
+            {testResult.message && (
+              <span className={cn(
+                'flex items-center text-xs px-2 py-1 rounded',
+                testResult.isValid ? 'text-green-700 bg-green-50' : 'text-red-700 bg-red-50'
+              )}>
+                {testResult.isValid ? (
+                  <CheckIcon className="h-3 w-3 mr-1" />
+                ) : (
+                  <XMarkIcon className="h-3 w-3 mr-1" />
+                )}
+                {testResult.message}
+              </span>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
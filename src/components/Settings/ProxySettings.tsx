@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { ArrowsRightLeftIcon, EyeIcon, EyeSlashIcon } from '@heroicons/react/24/outline';
+import { ProxyConfig } from '../../types';
+import { cn } from '../../utils/cn';
+
+interface ProxySettingsProps {
+  value: ProxyConfig;
+  onChange: (value: ProxyConfig) => void;
+}
+
+export function ProxySettings({ value, onChange }: ProxySettingsProps) {
+  const [showToken, setShowToken] = useState(false);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <label className="text-sm font-medium text-gray-700 flex items-center">
+            <ArrowsRightLeftIcon className="h-4 w-4 mr-1" />
+            代理模式
+          </label>
+          <p className="text-xs text-gray-500">
+            OpenRouter 分析和 ImgBB 上传经本站的 /api 接口转发，使用服务端保存的密钥，无需填写下方的 API Key
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => onChange({ ...value, enabled: !value.enabled })}
+          className={cn(
+            'relative inline-flex h-6 w-11 flex-shrink-0 cursor-pointer rounded-full border-2 border-transparent transition-colors duration-200 ease-in-out focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2',
+            value.enabled ? 'bg-blue-600' : 'bg-gray-200'
+          )}
+        >
+          <span
+            className={cn(
+              'pointer-events-none inline-block h-5 w-5 transform rounded-full bg-white shadow ring-0 transition duration-200 ease-in-out',
+              value.enabled ? 'translate-x-5' : 'translate-x-0'
+            )}
+          />
+        </button>
+      </div>
+
+      {value.enabled && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            代理访问令牌
+            <span className="text-gray-400 ml-1">(代理服务器要求时填写)</span>
+          </label>
+          <div className="relative">
+            <input
+              type={showToken ? 'text' : 'password'}
+              value={value.token || ''}
+              onChange={(e) => onChange({ ...value, token: e.target.value })}
+              placeholder="由管理员分配"
+              className="block w-full pr-10 border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+            />
+            <button
+              type="button"
+              onClick={() => setShowToken(!showToken)}
+              className="absolute inset-y-0 right-0 flex items-center pr-3 text-gray-400 hover:text-gray-600"
+            >
+              {showToken ? <EyeSlashIcon className="h-4 w-4" /> : <EyeIcon className="h-4 w-4" />}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
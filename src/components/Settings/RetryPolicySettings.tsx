@@ -0,0 +1,87 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowPathIcon } from '@heroicons/react/24/outline';
+import { RetryPolicy } from '../../types';
+import { parseModelList } from '../../utils/retryPolicy';
+
+interface RetryPolicySettingsProps {
+  value: RetryPolicy;
+  onChange: (value: RetryPolicy) => void;
+}
+
+export function RetryPolicySettings({ value, onChange }: RetryPolicySettingsProps) {
+  const [fallbackInput, setFallbackInput] = useState(value.fallbackModels.join('\n'));
+
+  // 外部重置设置时同步输入框
+  useEffect(() => {
+    const models = value.fallbackModels.join('\n');
+    setFallbackInput(input => (parseModelList(input).join('\n') === models ? input : models));
+  }, [value.fallbackModels]);
+
+  const handleFallbackChange = (input: string) => {
+    setFallbackInput(input);
+    onChange({ ...value, fallbackModels: parseModelList(input) });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="text-sm font-medium text-gray-700 flex items-center">
+          <ArrowPathIcon className="h-4 w-4 mr-1" />
+          失败重试
+        </label>
+        <p className="text-xs text-gray-500">
+          遇到限流（429）、服务端错误（5xx）或超时时按指数退避自动重试，服务端返回 Retry-After 时按其等待
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">每个模型最多请求次数</label>
+          <input
+            type="number"
+            min="1"
+            max="10"
+            value={value.maxAttempts}
+            onChange={(e) => onChange({ ...value, maxAttempts: Math.min(10, Math.max(1, parseInt(e.target.value) || 1)) })}
+            className="block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 text-sm"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">首次重试等待（秒）</label>
+          <input
+            type="number"
+            min="0"
+            step="0.5"
+            value={value.baseDelayMs / 1000}
+            onChange={(e) => onChange({ ...value, baseDelayMs: Math.max(0, Math.round((parseFloat(e.target.value) || 0) * 1000)) })}
+            className="block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 text-sm"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">最长等待（秒）</label>
+          <input
+            type="number"
+            min="1"
+            value={value.maxDelayMs / 1000}
+            onChange={(e) => onChange({ ...value, maxDelayMs: Math.max(1000, Math.round((parseFloat(e.target.value) || 1) * 1000)) })}
+            className="block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 text-sm"
+          />
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">备用模型</label>
+        <textarea
+          value={fallbackInput}
+          onChange={(e) => handleFallbackChange(e.target.value)}
+          rows={3}
+          placeholder={'每行一个模型，如\nmeta-llama/llama-4-maverick:free'}
+          className="block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 text-sm font-mono"
+        />
+        <p className="mt-1 text-xs text-gray-500">
+          所选模型重试后仍失败时按顺序换用，仅在服务商为 OpenRouter 时生效；密钥或权限错误不会换用。模型对比只重试不换用
+        </p>
+      </div>
+    </div>
+  );
+}
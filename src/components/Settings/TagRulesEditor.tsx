@@ -0,0 +1,212 @@
+import React, { useMemo, useState } from 'react';
+import {
+  TagIcon,
+  PlusIcon,
+  TrashIcon,
+  ArrowPathIcon
+} from '@heroicons/react/24/outline';
+import { useAppStore } from '../../store/useAppStore';
+import { TagRule } from '../../types';
+import {
+  BUILTIN_TAG_RULES,
+  TAG_CATEGORY_LABELS,
+  TagCategory,
+  extractTags,
+  generateTagRuleId
+} from '../../utils/autoTagging';
+import { parseTagInput } from '../../utils/recordOrganization';
+import { cn } from '../../utils/cn';
+
+// 编辑中的规则，关键词以逗号分隔的文本编辑
+interface RuleDraft {
+  id: string;
+  keywords: string;
+  tag: string;
+}
+
+function toDrafts(rules: TagRule[]): RuleDraft[] {
+  return rules.map(rule => ({ id: rule.id, keywords: rule.keywords.join(', '), tag: rule.tag }));
+}
+
+export function TagRulesEditor() {
+  const { tagRules, userSettings, saveTagRules, retagHistory, updateUserSettings } = useAppStore();
+  const [drafts, setDrafts] = useState<RuleDraft[]>(() => toDrafts(tagRules));
+  const [sample, setSample] = useState('');
+  const [showBuiltin, setShowBuiltin] = useState(false);
+  const [retagStatus, setRetagStatus] = useState<string | null>(null);
+
+  const rules = useMemo<TagRule[]>(
+    () => drafts.map(draft => ({ id: draft.id, keywords: parseTagInput(draft.keywords), tag: draft.tag })),
+    [drafts]
+  );
+  const isDirty = JSON.stringify(toDrafts(tagRules)) !== JSON.stringify(drafts);
+  const sampleTags = useMemo(() => (sample.trim() ? extractTags({ prompt: sample }, rules) : []), [sample, rules]);
+
+  const updateDraft = (id: string, updates: Partial<RuleDraft>) => {
+    setDrafts(current => current.map(draft => (draft.id === id ? { ...draft, ...updates } : draft)));
+  };
+
+  const handleSave = () => {
+    saveTagRules(rules);
+    setDrafts(toDrafts(useAppStore.getState().tagRules));
+  };
+
+  const handleRetag = async () => {
+    setRetagStatus('处理中...');
+    const count = await retagHistory();
+    setRetagStatus(`已更新 ${count} 条记录`);
+    setTimeout(() => setRetagStatus(null), 3000);
+  };
+
+  return (
+    <div className="bg-white shadow-sm rounded-lg">
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-medium text-gray-900 flex items-center">
+            <TagIcon className="h-5 w-5 mr-2" />
+            自动标签
+          </h2>
+          <p className="mt-1 text-sm text-gray-500">
+            分析完成后按关键词词典提取{Object.values(TAG_CATEGORY_LABELS).join('、')}等标签，可在历史记录中按标签筛选
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => updateUserSettings({ autoTagging: !userSettings.autoTagging })}
+          className={cn(
+            'relative inline-flex h-6 w-11 flex-shrink-0 cursor-pointer rounded-full border-2 border-transparent transition-colors duration-200 ease-in-out focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2',
+            userSettings.autoTagging ? 'bg-blue-600' : 'bg-gray-200'
+          )}
+          title={userSettings.autoTagging ? '关闭自动标签' : '开启自动标签'}
+        >
+          <span
+            className={cn(
+              'pointer-events-none inline-block h-5 w-5 transform rounded-full bg-white shadow ring-0 transition duration-200 ease-in-out',
+              userSettings.autoTagging ? 'translate-x-5' : 'translate-x-0'
+            )}
+          />
+        </button>
+      </div>
+
+      <div className="px-6 py-6 space-y-4">
+        {/* User Rules */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700">同义词规则</label>
+          <p className="mt-1 text-xs text-gray-500">
+            提示词中出现任一关键词时添加右侧标签，已有的同名标签也会合并为该标签，如 cinematic lighting, 电影光效 → lighting:cinematic
+          </p>
+        </div>
+
+        {drafts.length > 0 && (
+          <ul className="space-y-2">
+            {drafts.map(draft => (
+              <li key={draft.id} className="flex items-center space-x-2">
+                <input
+                  type="text"
+                  value={draft.keywords}
+                  onChange={(e) => updateDraft(draft.id, { keywords: e.target.value })}
+                  placeholder="关键词，逗号分隔"
+                  className="flex-1 min-w-0 text-sm border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                />
+                <span className="text-gray-400">→</span>
+                <input
+                  type="text"
+                  value={draft.tag}
+                  onChange={(e) => updateDraft(draft.id, { tag: e.target.value })}
+                  placeholder="类别:值"
+                  className="w-44 text-sm border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                />
+                <button
+                  type="button"
+                  onClick={() => setDrafts(current => current.filter(item => item.id !== draft.id))}
+                  className="p-1 text-gray-400 hover:text-red-600"
+                  title="删除规则"
+                >
+                  <TrashIcon className="h-4 w-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex items-center space-x-3">
+          <button
+            type="button"
+            onClick={() => setDrafts(current => [...current, { id: generateTagRuleId(), keywords: '', tag: '' }])}
+            className="inline-flex items-center px-3 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+          >
+            <PlusIcon className="h-4 w-4 mr-1" />
+            添加规则
+          </button>
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={!isDirty}
+            className="px-3 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+          >
+            保存规则
+          </button>
+          <button
+            type="button"
+            onClick={handleRetag}
+            disabled={isDirty || retagStatus === '处理中...'}
+            className="inline-flex items-center px-3 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+            title="按当前规则为已有历史记录补充标签"
+          >
+            <ArrowPathIcon className="h-4 w-4 mr-1" />
+            重新标记历史记录
+          </button>
+          {retagStatus && <span className="text-xs text-gray-500">{retagStatus}</span>}
+        </div>
+
+        {/* Preview */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">效果预览</label>
+          <textarea
+            value={sample}
+            onChange={(e) => setSample(e.target.value)}
+            rows={2}
+            placeholder="粘贴一段提示词，查看会提取出的标签"
+            className="block w-full text-sm border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+          />
+          {sampleTags.length > 0 && (
+            <div className="mt-2 flex flex-wrap gap-1.5">
+              {sampleTags.map(tag => (
+                <span key={tag} className="px-2 py-0.5 rounded-full bg-indigo-50 text-indigo-700 text-xs">{tag}</span>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Builtin Dictionary */}
+        <div>
+          <button
+            type="button"
+            onClick={() => setShowBuiltin(!showBuiltin)}
+            className="text-sm text-blue-600 hover:text-blue-700"
+          >
+            {showBuiltin ? '收起内置词典' : `查看内置词典（${BUILTIN_TAG_RULES.length} 条）`}
+          </button>
+          {showBuiltin && (
+            <div className="mt-2 max-h-64 overflow-y-auto border rounded-md divide-y divide-gray-100">
+              {(Object.keys(TAG_CATEGORY_LABELS) as TagCategory[]).map(category => (
+                <div key={category} className="p-3">
+                  <div className="text-xs font-medium text-gray-500 mb-1">{TAG_CATEGORY_LABELS[category]}</div>
+                  <ul className="space-y-0.5">
+                    {BUILTIN_TAG_RULES.filter(rule => rule.tag.startsWith(`${category}:`)).map(rule => (
+                      <li key={rule.id} className="text-xs text-gray-600">
+                        <span className="font-mono text-gray-900">{rule.tag}</span>
+                        <span className="text-gray-400"> ← </span>
+                        {rule.keywords.join(', ')}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,262 @@
+import React, { useState } from 'react';
+import {
+  DocumentTextIcon,
+  PlusIcon,
+  PencilSquareIcon,
+  DocumentDuplicateIcon,
+  TrashIcon,
+  LockClosedIcon,
+  CheckIcon,
+  XMarkIcon
+} from '@heroicons/react/24/outline';
+import { useAppStore } from '../../store/useAppStore';
+import { PromptTemplate } from '../../types';
+import { extractTemplateVariables, getTemplateContent } from '../../utils/promptTemplates';
+import { cn } from '../../utils/cn';
+
+interface TemplateDraft {
+  id: string | null; // null 表示新建
+  name: string;
+  description: string;
+  content: string;
+}
+
+const EMPTY_DRAFT: TemplateDraft = {
+  id: null,
+  name: '',
+  description: '',
+  content: '',
+};
+
+export function TemplateLibrary() {
+  const {
+    promptTemplates,
+    userSettings,
+    createPromptTemplate,
+    updatePromptTemplate,
+    duplicatePromptTemplate,
+    deletePromptTemplate,
+    updateUserSettings
+  } = useAppStore();
+
+  const [draft, setDraft] = useState<TemplateDraft | null>(null);
+  const [previewId, setPreviewId] = useState<string | null>(null);
+
+  const draftVariables = draft ? extractTemplateVariables(draft.content) : [];
+
+  const handleEdit = (template: PromptTemplate) => {
+    setDraft({
+      id: template.id,
+      name: template.name,
+      description: template.description || '',
+      content: template.content,
+    });
+  };
+
+  const handleDuplicate = (template: PromptTemplate) => {
+    const copy = duplicatePromptTemplate(template.id);
+    if (copy) {
+      handleEdit(copy);
+    }
+  };
+
+  const handleDelete = (template: PromptTemplate) => {
+    if (confirm(`确定要删除模板「${template.name}」吗？`)) {
+      deletePromptTemplate(template.id);
+      if (draft?.id === template.id) {
+        setDraft(null);
+      }
+    }
+  };
+
+  const handleSaveDraft = () => {
+    if (!draft || !draft.name.trim() || !draft.content.trim()) return;
+
+    const values = {
+      name: draft.name.trim(),
+      description: draft.description.trim() || undefined,
+      content: draft.content.trim(),
+    };
+
+    if (draft.id) {
+      updatePromptTemplate(draft.id, values);
+    } else {
+      createPromptTemplate(values);
+    }
+    setDraft(null);
+  };
+
+  return (
+    <div className="bg-white shadow-sm rounded-lg">
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-medium text-gray-900 flex items-center">
+            <DocumentTextIcon className="h-5 w-5 mr-2" />
+            提示词模板
+          </h2>
+          <p className="mt-1 text-sm text-gray-500">
+            管理发送给模型的分析指令，支持 {'{{language}}'}、{'{{style}}'} 等变量
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => setDraft({ ...EMPTY_DRAFT })}
+          className="inline-flex items-center px-3 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+        >
+          <PlusIcon className="h-4 w-4 mr-1" />
+          新建模板
+        </button>
+      </div>
+
+      <div className="px-6 py-6 space-y-4">
+        {/* Template List */}
+        <ul className="divide-y divide-gray-100 border rounded-md">
+          {promptTemplates.map(template => {
+            const isDefault = template.id === userSettings.defaultTemplateId;
+            return (
+              <li key={template.id} className="p-4">
+                <div className="flex items-start justify-between">
+                  <div className="min-w-0">
+                    <div className="flex items-center space-x-2">
+                      <span className="text-sm font-medium text-gray-900">{template.name}</span>
+                      {template.isBuiltIn && (
+                        <span className="inline-flex items-center px-1.5 py-0.5 rounded text-xs bg-gray-100 text-gray-600">
+                          <LockClosedIcon className="h-3 w-3 mr-1" />
+                          内置
+                        </span>
+                      )}
+                      {isDefault && (
+                        <span className="px-1.5 py-0.5 rounded text-xs bg-blue-100 text-blue-700">默认</span>
+                      )}
+                    </div>
+                    {template.description && (
+                      <p className="mt-1 text-xs text-gray-500">{template.description}</p>
+                    )}
+                  </div>
+
+                  <div className="flex items-center space-x-1 flex-shrink-0">
+                    {!isDefault && (
+                      <button
+                        type="button"
+                        onClick={() => updateUserSettings({ defaultTemplateId: template.id })}
+                        className="text-xs text-blue-600 hover:text-blue-700 px-2 py-1"
+                      >
+                        设为默认
+                      </button>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => setPreviewId(previewId === template.id ? null : template.id)}
+                      className="text-xs text-gray-600 hover:text-gray-800 px-2 py-1"
+                    >
+                      {previewId === template.id ? '收起' : '查看'}
+                    </button>
+                    {!template.isBuiltIn && (
+                      <button
+                        type="button"
+                        onClick={() => handleEdit(template)}
+                        className="text-gray-500 hover:text-gray-700 p-1"
+                        title="编辑"
+                      >
+                        <PencilSquareIcon className="h-4 w-4" />
+                      </button>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => handleDuplicate(template)}
+                      className="text-blue-600 hover:text-blue-700 p-1"
+                      title="复制"
+                    >
+                      <DocumentDuplicateIcon className="h-4 w-4" />
+                    </button>
+                    {!template.isBuiltIn && (
+                      <button
+                        type="button"
+                        onClick={() => handleDelete(template)}
+                        className="text-red-600 hover:text-red-700 p-1"
+                        title="删除"
+                      >
+                        <TrashIcon className="h-4 w-4" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                {previewId === template.id && (
+                  <p className="mt-3 text-xs text-gray-700 bg-gray-50 rounded p-3 whitespace-pre-wrap">
+                    {getTemplateContent(template, userSettings.language)}
+                  </p>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+
+        {/* Template Editor */}
+        {draft && (
+          <div className="border border-blue-200 rounded-md p-4 space-y-4 bg-blue-50/30">
+            <h3 className="text-sm font-medium text-gray-900">
+              {draft.id ? '编辑模板' : '新建模板'}
+            </h3>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">名称</label>
+              <input
+                type="text"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="例如：电商产品图"
+                className="block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">说明</label>
+              <input
+                type="text"
+                value={draft.description}
+                onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                placeholder="可选"
+                className="block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">模板内容</label>
+              <textarea
+                rows={8}
+                value={draft.content}
+                onChange={(e) => setDraft({ ...draft, content: e.target.value })}
+                placeholder="描述这张图片，风格偏向 {{style}}，请使用{{language}}回答"
+                className="block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 font-mono text-sm"
+              />
+              <p className="mt-1 text-xs text-gray-500">
+                {'{{language}}'} 会自动替换为输出语言，其他变量在分析页填写
+                {draftVariables.length > 0 && `。已识别变量：${draftVariables.join('、')}`}
+              </p>
+            </div>
+            <div className="flex justify-end space-x-2">
+              <button
+                type="button"
+                onClick={() => setDraft(null)}
+                className="inline-flex items-center px-3 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+              >
+                <XMarkIcon className="h-4 w-4 mr-1" />
+                取消
+              </button>
+              <button
+                type="button"
+                onClick={handleSaveDraft}
+                disabled={!draft.name.trim() || !draft.content.trim()}
+                className={cn(
+                  'inline-flex items-center px-3 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700',
+                  'disabled:opacity-50 disabled:cursor-not-allowed'
+                )}
+              >
+                <CheckIcon className="h-4 w-4 mr-1" />
+                保存模板
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
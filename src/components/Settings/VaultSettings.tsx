@@ -0,0 +1,235 @@
+import React, { useState } from 'react';
+import { LockClosedIcon } from '@heroicons/react/24/outline';
+import { useAppStore } from '../../store/useAppStore';
+import { MIN_PASSPHRASE_LENGTH } from '../../utils/keyVault';
+import { cn } from '../../utils/cn';
+
+// 自动锁定时间选项（分钟），0 表示不自动锁定
+const AUTO_LOCK_OPTIONS = [5, 15, 30, 60, 0];
+
+// 正在进行的保险箱操作
+type VaultAction = 'enable' | 'change' | 'remove';
+
+const STATUS_LABELS = {
+  disabled: '未启用',
+  locked: '已锁定',
+  unlocked: '已解锁',
+} as const;
+
+const inputClassName = 'block w-full text-sm border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500';
+
+export function VaultSettings() {
+  const {
+    vaultStatus,
+    userSettings,
+    enableVault,
+    changeVaultPassphrase,
+    disableVault,
+    lockVault,
+    updateUserSettings,
+  } = useAppStore();
+  const [action, setAction] = useState<VaultAction | null>(null);
+  const [current, setCurrent] = useState('');
+  const [next, setNext] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const resetForm = (nextAction: VaultAction | null) => {
+    setAction(nextAction);
+    setCurrent('');
+    setNext('');
+    setConfirmation('');
+    setError(null);
+  };
+
+  const needsCurrent = action === 'change' || action === 'remove';
+  const needsNext = action === 'enable' || action === 'change';
+  const canSubmit = !isWorking
+    && (!needsCurrent || !!current)
+    && (!needsNext || (next.length >= MIN_PASSPHRASE_LENGTH && next === confirmation));
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!action || !canSubmit) return;
+
+    setIsWorking(true);
+    setError(null);
+    try {
+      if (action === 'enable') {
+        await enableVault(next);
+        setNotice('已启用密钥保险箱，API 密钥已加密保存');
+      } else if (action === 'change') {
+        await changeVaultPassphrase(current, next);
+        setNotice('密码已修改');
+      } else {
+        await disableVault(current);
+        setNotice('已移除密钥保险箱，API 密钥恢复为明文保存');
+      }
+      resetForm(null);
+      setTimeout(() => setNotice(null), 3000);
+    } catch (vaultError) {
+      setError(vaultError instanceof Error ? vaultError.message : '操作失败');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="bg-white shadow-sm rounded-lg">
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-medium text-gray-900 flex items-center">
+            <LockClosedIcon className="h-5 w-5 mr-2" />
+            密钥保险箱
+          </h2>
+          <p className="mt-1 text-sm text-gray-500">
+            用密码加密保存 API 密钥，每次打开应用时输入一次密码解锁
+          </p>
+        </div>
+        <span
+          className={cn(
+            'text-xs px-2 py-1 rounded-full',
+            vaultStatus === 'unlocked'
+              ? 'bg-green-100 text-green-700'
+              : vaultStatus === 'locked'
+              ? 'bg-yellow-100 text-yellow-800'
+              : 'bg-gray-100 text-gray-600'
+          )}
+        >
+          {STATUS_LABELS[vaultStatus]}
+        </span>
+      </div>
+
+      <div className="px-6 py-6 space-y-6">
+        <div className="flex flex-wrap gap-2">
+          {vaultStatus === 'disabled' ? (
+            <button
+              onClick={() => resetForm(action === 'enable' ? null : 'enable')}
+              className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700"
+            >
+              设置密码
+            </button>
+          ) : (
+            <>
+              {vaultStatus === 'unlocked' && (
+                <button
+                  onClick={lockVault}
+                  className="inline-flex items-center px-3 py-1.5 text-sm border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50"
+                >
+                  <LockClosedIcon className="h-4 w-4 mr-1" />
+                  立即锁定
+                </button>
+              )}
+              <button
+                onClick={() => resetForm(action === 'change' ? null : 'change')}
+                className="px-3 py-1.5 text-sm border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50"
+              >
+                修改密码
+              </button>
+              <button
+                onClick={() => resetForm(action === 'remove' ? null : 'remove')}
+                className="px-3 py-1.5 text-sm border border-red-200 text-red-600 rounded-md hover:bg-red-50"
+              >
+                移除密码
+              </button>
+            </>
+          )}
+        </div>
+
+        {action && (
+          <form onSubmit={handleSubmit} className="space-y-3 max-w-sm">
+            {action === 'enable' && (
+              <p className="text-sm text-gray-600">
+                将加密已保存的 API 密钥。忘记密码后无法恢复，只能重新填写密钥。
+              </p>
+            )}
+            {action === 'remove' && (
+              <p className="text-sm text-gray-600">
+                移除后 API 密钥将以明文保存在本地浏览器中。
+              </p>
+            )}
+            {needsCurrent && (
+              <input
+                type="password"
+                value={current}
+                onChange={(e) => setCurrent(e.target.value)}
+                placeholder="当前密码"
+                autoComplete="current-password"
+                className={inputClassName}
+              />
+            )}
+            {needsNext && (
+              <>
+                <input
+                  type="password"
+                  value={next}
+                  onChange={(e) => setNext(e.target.value)}
+                  placeholder={`新密码（至少 ${MIN_PASSPHRASE_LENGTH} 个字符）`}
+                  autoComplete="new-password"
+                  className={inputClassName}
+                />
+                <input
+                  type="password"
+                  value={confirmation}
+                  onChange={(e) => setConfirmation(e.target.value)}
+                  placeholder="再次输入新密码"
+                  autoComplete="new-password"
+                  className={inputClassName}
+                />
+                {confirmation && next !== confirmation && (
+                  <p className="text-xs text-red-600">两次输入的密码不一致</p>
+                )}
+              </>
+            )}
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <div className="flex space-x-2">
+              <button
+                type="submit"
+                disabled={!canSubmit}
+                className={cn(
+                  'px-3 py-1.5 text-sm text-white rounded-md disabled:opacity-50',
+                  action === 'remove' ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'
+                )}
+              >
+                {isWorking ? '处理中...' : action === 'remove' ? '移除' : '确定'}
+              </button>
+              <button
+                type="button"
+                onClick={() => resetForm(null)}
+                className="px-3 py-1.5 text-sm text-gray-600 rounded-md hover:bg-gray-100"
+              >
+                取消
+              </button>
+            </div>
+          </form>
+        )}
+
+        {notice && <p className="text-sm text-green-700">{notice}</p>}
+
+        {vaultStatus !== 'disabled' && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              无操作自动锁定
+            </label>
+            <select
+              value={userSettings.vaultAutoLockMinutes}
+              onChange={(e) => updateUserSettings({ vaultAutoLockMinutes: Number(e.target.value) })}
+              className="block w-48 text-sm border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+            >
+              {AUTO_LOCK_OPTIONS.map(minutes => (
+                <option key={minutes} value={minutes}>
+                  {minutes === 0 ? '不自动锁定' : `${minutes} 分钟`}
+                </option>
+              ))}
+            </select>
+            <p className="mt-1 text-xs text-gray-500">
+              分析、批量处理或标注进行中不会自动锁定
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -7,29 +7,70 @@ import {
   SparklesIcon,
   XMarkIcon,
   DocumentDuplicateIcon,
-  CheckIcon
+  CheckIcon,
+  StopIcon,
+  PencilSquareIcon,
+  ClockIcon
 } from '@heroicons/react/24/outline';
 import { useAppStore } from '../store/useAppStore';
-import { validateImageFile, compressImage, createImagePreview } from '../utils/imageUtils';
+import { validateImageFile, compressImage, computeImageHashes, createImagePreview } from '../utils/imageUtils';
 import { cn } from '../utils/cn';
+import { BatchQueuePanel } from '../components/Analyze/BatchQueuePanel';
+import { TemplatePicker } from '../components/Analyze/TemplatePicker';
+import { ProfilePicker } from '../components/Analyze/ProfilePicker';
+import { PromptVariants } from '../components/Analyze/PromptVariants';
+import { DimensionEditor } from '../components/Analyze/DimensionEditor';
+import { ComparePanel } from '../components/Analyze/ComparePanel';
+import { ModelPicker } from '../components/Analyze/ModelPicker';
+import { BudgetWarningBanner } from '../components/Analyze/BudgetWarningBanner';
+import { CachedMatchBanner } from '../components/Analyze/CachedMatchBanner';
+import { RetryStatusBanner } from '../components/Analyze/RetryStatusBanner';
+import { PromptEditor } from '../components/History/PromptEditor';
+import { VersionHistory } from '../components/History/VersionHistory';
+import { RefineChat } from '../components/History/RefineChat';
+import { OUTPUT_FORMAT_LABELS } from '../utils/outputFormats';
+import { PROFILE_LABELS } from '../utils/outputProfiles';
+import { formatCost } from '../utils/usageStats';
 
 export function Analyze() {
   const {
     currentImage,
     isAnalyzing,
+    isComparing,
     analysisResult,
+    streamingText,
+    userSettings,
+    selectedModel,
     error,
     setCurrentImage,
     analyzeImage,
+    stopAnalysis,
     clearCurrentImage,
-    clearError
+    clearError,
+    addBatchFiles,
+    addBatchUrls,
+    updateResultDimensions,
+    editPrompt,
+    revertPrompt,
+    updateUserSettings,
+    selectModel
   } = useAppStore();
 
   const [imageUrl, setImageUrl] = useState('');
   const [isUrlMode, setIsUrlMode] = useState(false);
   const [copied, setCopied] = useState(false);
+  const [isCompareMode, setIsCompareMode] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [showVersions, setShowVersions] = useState(false);
 
   const onDrop = useCallback(async (acceptedFiles: File[]) => {
+    // 多张图片进入批量队列
+    if (acceptedFiles.length > 1) {
+      clearError();
+      addBatchFiles(acceptedFiles);
+      return;
+    }
+
     const file = acceptedFiles[0];
     if (!file) return;
 
@@ -42,6 +83,9 @@ export function Analyze() {
         throw new Error(validation.error);
       }
 
+      // 按压缩前的原图计算指纹，与批量队列一致
+      const hashes = await computeImageHashes(file);
+      
       // 压缩图片
       const compressedFile = await compressImage(file);
       
@@ -55,19 +99,19 @@ export function Analyze() {
         name: file.name,
         size: compressedFile.size,
         type: compressedFile.type,
-        uploadedAt: new Date()
+        uploadedAt: new Date(),
+        hashes
       });
     } catch (error) {
       console.error('Error processing image:', error);
     }
-  }, [setCurrentImage, clearError]);
+  }, [setCurrentImage, clearError, addBatchFiles]);
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
     accept: {
       'image/*': ['.jpeg', '.jpg', '.png', '.gif', '.webp', '.bmp']
     },
-    maxFiles: 1,
     maxSize: 10 * 1024 * 1024 // 10MB
   });
 
@@ -75,6 +119,18 @@ export function Analyze() {
     e.preventDefault();
     if (!imageUrl.trim()) return;
 
+    // 每行一个URL，多个URL进入批量队列
+    const urls = imageUrl
+      .split('\n')
+      .map(url => url.trim())
+      .filter(Boolean);
+    if (urls.length > 1) {
+      clearError();
+      addBatchUrls(urls);
+      setImageUrl('');
+      return;
+    }
+
     try {
       clearError();
       
@@ -103,6 +159,7 @@ export function Analyze() {
 
   const handleAnalyze = async () => {
     if (!currentImage) return;
+    setIsEditing(false);
     await analyzeImage();
   };
 
@@ -136,6 +193,9 @@ export function Analyze() {
         </p>
       </div>
 
+      {/* Batch Queue */}
+      <BatchQueuePanel />
+
       {/* Upload Section */}
       {!currentImage && (
         <div className="space-y-6">
@@ -187,7 +247,7 @@ export function Analyze() {
                   {isDragActive ? '释放文件以上传' : '拖拽图片到此处'}
                 </p>
                 <p className="mt-2 text-sm text-gray-500">
-                  或点击选择文件 (支持 JPG, PNG, GIF, WebP, BMP，最大10MB)
+                  或点击选择文件 (支持 JPG, PNG, GIF, WebP, BMP，最大10MB，多选将加入批量队列)
                 </p>
               </div>
             </div>
@@ -201,15 +261,16 @@ export function Analyze() {
                   图片URL
                 </label>
                 <div className="mt-1">
-                  <input
-                    type="url"
+                  <textarea
                     id="imageUrl"
+                    rows={3}
                     value={imageUrl}
                     onChange={(e) => setImageUrl(e.target.value)}
                     placeholder="https://example.com/image.jpg"
                     className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
                   />
                 </div>
+                <p className="mt-1 text-xs text-gray-500">每行一个URL，输入多个URL将加入批量队列</p>
               </div>
               <button
                 type="submit"
@@ -269,24 +330,111 @@ export function Analyze() {
                 </dl>
               </div>
 
-              {/* Analyze Button */}
-              <button
-                onClick={handleAnalyze}
-                disabled={isAnalyzing}
-                className="w-full flex justify-center items-center py-3 px-4 border border-transparent rounded-md shadow-sm text-base font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
-              >
-                {isAnalyzing ? (
-                  <>
-                    <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
-                    分析中...
-                  </>
-                ) : (
-                  <>
-                    <SparklesIcon className="h-5 w-5 mr-2" />
-                    开始分析
-                  </>
-                )}
-              </button>
+              {/* Prompt Template */}
+              <TemplatePicker />
+
+              {/* Target Generator */}
+              <ProfilePicker />
+
+              {/* Compare Mode Toggle */}
+              <label className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={isCompareMode}
+                  onChange={(e) => setIsCompareMode(e.target.checked)}
+                  disabled={isAnalyzing || isComparing}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <span className="ml-2 text-sm text-gray-700">
+                  多模型对比（同一图片和模板并行发送给 2-4 个模型）
+                </span>
+              </label>
+
+              {isCompareMode ? (
+                <ComparePanel />
+              ) : (
+                <>
+                  {/* Model */}
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      分析模型
+                    </label>
+                    <ModelPicker
+                      value={selectedModel}
+                      onChange={selectModel}
+                      disabled={isAnalyzing}
+                    />
+                  </div>
+
+                  {/* Result Mode */}
+                  <label className="flex items-center">
+                    <input
+                      type="checkbox"
+                      checked={userSettings.resultMode === 'structured'}
+                      onChange={(e) => updateUserSettings({ resultMode: e.target.checked ? 'structured' : 'prompt' })}
+                      className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                    <span className="ml-2 text-sm text-gray-700">
+                      结构化结果（按 8 个视觉维度返回，可单独编辑后重新组合）
+                    </span>
+                  </label>
+
+                  {/* Analyze Button */}
+                  <div className="flex space-x-3">
+                    <button
+                      onClick={handleAnalyze}
+                      disabled={isAnalyzing}
+                      className="flex-1 flex justify-center items-center py-3 px-4 border border-transparent rounded-md shadow-sm text-base font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {isAnalyzing ? (
+                        <>
+                          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
+                          分析中...
+                        </>
+                      ) : (
+                        <>
+                          <SparklesIcon className="h-5 w-5 mr-2" />
+                          开始分析
+                        </>
+                      )}
+                    </button>
+                    {isAnalyzing && (
+                      <button
+                        onClick={stopAnalysis}
+                        className="flex items-center py-3 px-4 border border-red-300 rounded-md shadow-sm text-base font-medium text-red-700 bg-white hover:bg-red-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500"
+                      >
+                        <StopIcon className="h-5 w-5 mr-2" />
+                        停止
+                      </button>
+                    )}
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Retry Progress */}
+      <RetryStatusBanner />
+
+      {/* Streaming Result */}
+      {isAnalyzing && streamingText !== null && (
+        <div className="bg-white rounded-lg shadow-lg overflow-hidden">
+          <div className="p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-medium text-gray-900">分析结果</h3>
+              <span className="flex items-center text-sm text-blue-600">
+                <div className="animate-spin rounded-full h-3 w-3 border-b-2 border-blue-600 mr-2"></div>
+                生成中...
+              </span>
+            </div>
+            <div className="bg-gray-50 rounded-lg p-4">
+              <h4 className="text-sm font-medium text-gray-700 mb-2">生成的提示词</h4>
+              <p className="text-gray-900 whitespace-pre-wrap">
+                {streamingText}
+                <span className="inline-block w-2 h-4 ml-0.5 align-middle bg-gray-400 animate-pulse" />
+              </p>
             </div>
           </div>
         </div>
@@ -298,38 +446,151 @@ export function Analyze() {
           <div className="p-6">
             <div className="flex items-center justify-between mb-4">
               <h3 className="text-lg font-medium text-gray-900">分析结果</h3>
-              <button
-                onClick={handleCopyResult}
-                className="flex items-center text-sm text-blue-600 hover:text-blue-700"
-              >
-                {copied ? (
-                  <>
-                    <CheckIcon className="h-4 w-4 mr-1" />
-                    已复制
-                  </>
-                ) : (
-                  <>
-                    <DocumentDuplicateIcon className="h-4 w-4 mr-1" />
-                    复制
-                  </>
-                )}
-              </button>
+              <div className="flex items-center space-x-4">
+                <button
+                  onClick={() => setShowVersions(!showVersions)}
+                  className="flex items-center text-sm text-gray-600 hover:text-gray-800"
+                >
+                  <ClockIcon className="h-4 w-4 mr-1" />
+                  版本 ({analysisResult.versions?.length || 1})
+                </button>
+                <button
+                  onClick={() => setIsEditing(true)}
+                  disabled={isEditing}
+                  className="flex items-center text-sm text-gray-600 hover:text-gray-800 disabled:opacity-50"
+                >
+                  <PencilSquareIcon className="h-4 w-4 mr-1" />
+                  编辑
+                </button>
+                <button
+                  onClick={handleCopyResult}
+                  className="flex items-center text-sm text-blue-600 hover:text-blue-700"
+                >
+                  {copied ? (
+                    <>
+                      <CheckIcon className="h-4 w-4 mr-1" />
+                      已复制
+                    </>
+                  ) : (
+                    <>
+                      <DocumentDuplicateIcon className="h-4 w-4 mr-1" />
+                      复制
+                    </>
+                  )}
+                </button>
+              </div>
             </div>
             
             <div className="space-y-4">
-              <div className="bg-gray-50 rounded-lg p-4">
-                <h4 className="text-sm font-medium text-gray-700 mb-2">生成的提示词</h4>
-                <p className="text-gray-900 whitespace-pre-wrap">{analysisResult.prompt}</p>
-              </div>
+              {analysisResult.dimensions && (
+                <DimensionEditor
+                  key={analysisResult.id}
+                  dimensions={analysisResult.dimensions}
+                  onApply={updateResultDimensions}
+                />
+              )}
+
+              {isEditing ? (
+                <PromptEditor
+                  initialValue={analysisResult.prompt}
+                  onSave={async (prompt) => {
+                    await editPrompt(analysisResult, prompt);
+                    setIsEditing(false);
+                  }}
+                  onCancel={() => setIsEditing(false)}
+                />
+              ) : analysisResult.variants ? (
+                <PromptVariants key={`${analysisResult.id}-${analysisResult.prompt}`} record={analysisResult} />
+              ) : (
+                <div className="bg-gray-50 rounded-lg p-4">
+                  <h4 className="text-sm font-medium text-gray-700 mb-2">生成的提示词</h4>
+                  <p className={cn(
+                    'text-gray-900 whitespace-pre-wrap',
+                    analysisResult.outputFormat === 'json' && 'font-mono text-sm'
+                  )}>
+                    {analysisResult.prompt}
+                  </p>
+                </div>
+              )}
               
-              <div className="text-xs text-gray-500">
-                分析时间: {analysisResult.timestamp.toLocaleString()}
+              <div className="text-xs text-gray-500 space-x-4">
+                <span>分析时间: {analysisResult.timestamp.toLocaleString()}</span>
+                {analysisResult.outputFormat && (
+                  <span>输出格式: {OUTPUT_FORMAT_LABELS[analysisResult.outputFormat]}</span>
+                )}
+                {analysisResult.targetProfile && (
+                  <span>目标生成器: {PROFILE_LABELS[analysisResult.targetProfile]}</span>
+                )}
+                {analysisResult.model && (
+                  <span>
+                    模型: {analysisResult.model}
+                    {analysisResult.requestedModel && `（${analysisResult.requestedModel} 失败后由备用模型生成）`}
+                  </span>
+                )}
+                {analysisResult.attempts !== undefined && analysisResult.attempts > 1 && (
+                  <span>请求次数: {analysisResult.attempts}</span>
+                )}
+                {analysisResult.usage && (
+                  <span>Token: {analysisResult.usage.promptTokens} 输入 / {analysisResult.usage.completionTokens} 输出</span>
+                )}
+                {analysisResult.latencyMs !== undefined && (
+                  <span>耗时: {(analysisResult.latencyMs / 1000).toFixed(1)}s</span>
+                )}
+                {analysisResult.cost !== undefined && (
+                  <span>费用: {formatCost(analysisResult.cost)}</span>
+                )}
               </div>
+
+              {/* Versions */}
+              {showVersions && (
+                <VersionHistory
+                  key={`${analysisResult.id}-${analysisResult.versions?.length || 1}`}
+                  record={analysisResult}
+                  onRevert={(versionId) => revertPrompt(analysisResult, versionId)}
+                />
+              )}
+
+              {/* Refine */}
+              {!isAnalyzing && <RefineChat record={analysisResult} />}
+
+              {/* Auto Tags */}
+              {analysisResult.tags && analysisResult.tags.length > 0 && (
+                <div className="flex flex-wrap gap-1.5">
+                  {analysisResult.tags.map(tag => (
+                    <span key={tag} className="px-2 py-0.5 rounded-full bg-indigo-50 text-indigo-700 text-xs">
+                      {tag}
+                    </span>
+                  ))}
+                </div>
+              )}
+
+              {/* Alternates */}
+              {analysisResult.alternates && analysisResult.alternates.length > 0 && (
+                <details className="border rounded-lg">
+                  <summary className="px-4 py-2 text-sm font-medium text-gray-700 cursor-pointer">
+                    其他模型结果 ({analysisResult.alternates.length})
+                  </summary>
+                  <div className="px-4 pb-4 space-y-3">
+                    {analysisResult.alternates.map(alternate => (
+                      <div key={alternate.model} className="bg-gray-50 rounded p-3">
+                        <div className="text-xs font-medium text-gray-600 mb-1">{alternate.model}</div>
+                        <p className="text-sm text-gray-800 whitespace-pre-wrap">{alternate.prompt}</p>
+                      </div>
+                    ))}
+                  </div>
+                </details>
+              )}
             </div>
           </div>
         </div>
       )}
 
+      {/* Cached Result */}
+      <CachedMatchBanner />
+
+      {/* Budget Warning */}
+      <BudgetWarningBanner />
+
       {/* Error Message */}
       {error && (
         <div className="bg-red-50 border border-red-200 rounded-lg p-4">
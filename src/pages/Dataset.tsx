@@ -0,0 +1,354 @@
+import React, { useMemo, useState } from 'react';
+import {
+  ArrowDownTrayIcon,
+  ArrowPathIcon,
+  FolderOpenIcon,
+  PauseIcon,
+  PhotoIcon,
+  PlayIcon,
+  StopIcon,
+  TrashIcon,
+  XMarkIcon
+} from '@heroicons/react/24/outline';
+import { useAppStore } from '../store/useAppStore';
+import { CaptionStyle, DatasetItemStatus } from '../types';
+import { ModelPicker } from '../components/Analyze/ModelPicker';
+import { BudgetWarningBanner } from '../components/Analyze/BudgetWarningBanner';
+import { DatasetCaptionGrid } from '../components/Dataset/DatasetCaptionGrid';
+import {
+  CAPTION_STYLE_LABELS,
+  DATASET_STATUS_LABELS,
+  DatasetFileEntry,
+  exportDatasetZip,
+  isDirectoryPickerSupported,
+  pickDatasetDirectory,
+  toDatasetFileEntries
+} from '../utils/datasetCaptions';
+import { downloadBlob } from '../utils/historyExport';
+import { formatCost } from '../utils/usageStats';
+import { cn } from '../utils/cn';
+
+// 网格每次显示的图片数量
+const PAGE_SIZE = 60;
+
+// 文件夹选择属性不在 React 的类型定义中
+const DIRECTORY_INPUT_PROPS = { webkitdirectory: '', directory: '' } as React.InputHTMLAttributes<HTMLInputElement>;
+
+export function Dataset() {
+  const {
+    datasetItems,
+    datasetState,
+    datasetSettings,
+    selectedModel,
+    error,
+    addDatasetFiles,
+    updateDatasetSettings,
+    startDataset,
+    pauseDataset,
+    resumeDataset,
+    stopDataset,
+    retryFailedDataset,
+    clearDataset,
+    clearDatasetProgress,
+    selectModel,
+    clearError
+  } = useAppStore();
+
+  const [statusFilter, setStatusFilter] = useState<DatasetItemStatus | 'all'>('all');
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+  const [message, setMessage] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const counts = useMemo(() => {
+    const totals: Record<DatasetItemStatus, number> = { pending: 0, captioning: 0, done: 0, failed: 0 };
+    datasetItems.forEach(item => totals[item.status]++);
+    return totals;
+  }, [datasetItems]);
+  const totalCost = datasetItems.reduce((sum, item) => sum + (item.cost ?? 0), 0);
+  const progress = datasetItems.length > 0 ? Math.round(((counts.done + counts.failed) / datasetItems.length) * 100) : 0;
+  const filteredItems = datasetItems.filter(item => statusFilter === 'all' || item.status === statusFilter);
+  const exportItems = datasetItems.filter(item => item.status === 'done' && item.caption.trim());
+  const isIdle = datasetState === 'idle';
+
+  const handleEntries = (entries: DatasetFileEntry[]) => {
+    const before = useAppStore.getState().datasetItems;
+    const added = addDatasetFiles(entries);
+    const resumed = useAppStore.getState().datasetItems
+      .slice(before.length)
+      .filter(item => item.status === 'done').length;
+    setMessage(
+      entries.length === 0
+        ? '未找到支持的图片'
+        : `已添加 ${added} 张图片${resumed > 0 ? `，其中 ${resumed} 张已恢复之前的标注` : ''}${added < entries.length ? `，跳过 ${entries.length - added} 张重复图片` : ''}`
+    );
+  };
+
+  const handlePickDirectory = async () => {
+    try {
+      const entries = await pickDatasetDirectory();
+      if (entries) handleEntries(entries);
+    } catch (pickError) {
+      setMessage(pickError instanceof Error ? pickError.message : '读取文件夹失败');
+    }
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const blob = await exportDatasetZip(exportItems, percent => setMessage(`正在打包 ${percent}%`));
+      const name = datasetSettings.triggerWord.trim().replace(/[\\/:*?"<>|\s]+/g, '_') || 'dataset';
+      downloadBlob(blob, `${name}-${new Date().toISOString().slice(0, 10)}.zip`);
+      const skipped = datasetItems.length - exportItems.length;
+      setMessage(`已导出 ${exportItems.length} 组图片和标注${skipped > 0 ? `，${skipped} 张未完成的图片未包含` : ''}`);
+    } catch (exportError) {
+      console.error('Error exporting dataset:', exportError);
+      setMessage(exportError instanceof Error ? `导出失败：${exportError.message}` : '导出失败');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleClearProgress = () => {
+    if (confirm('确定要清除本地保存的标注进度吗？清除后重新选择同一文件夹需要重新标注。')) {
+      clearDatasetProgress();
+      setMessage('已清除标注进度');
+    }
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto space-y-8">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">训练集标注</h1>
+        <p className="mt-2 text-gray-600">
+          为 LoRA / 微调训练集批量生成标注，审阅修改后导出图片与同名 .txt 标注文件。已完成的标注保存在本地，中断后重新选择同一文件夹即可继续
+        </p>
+      </div>
+
+      {/* Setup */}
+      <div className="bg-white shadow-sm rounded-lg">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-medium text-gray-900">图片与标注设置</h2>
+        </div>
+
+        <div className="px-6 py-6 space-y-6">
+          <div className="flex flex-wrap items-center gap-3">
+            {isDirectoryPickerSupported() ? (
+              <button
+                onClick={handlePickDirectory}
+                className="inline-flex items-center px-3 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+              >
+                <FolderOpenIcon className="h-4 w-4 mr-2" />
+                选择文件夹
+              </button>
+            ) : (
+              <label className="inline-flex items-center px-3 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 cursor-pointer">
+                <FolderOpenIcon className="h-4 w-4 mr-2" />
+                选择文件夹
+                <input
+                  type="file"
+                  multiple
+                  className="hidden"
+                  {...DIRECTORY_INPUT_PROPS}
+                  onChange={(e) => {
+                    if (e.target.files) handleEntries(toDatasetFileEntries(e.target.files));
+                    e.target.value = '';
+                  }}
+                />
+              </label>
+            )}
+            <label className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 cursor-pointer">
+              <PhotoIcon className="h-4 w-4 mr-2" />
+              选择图片
+              <input
+                type="file"
+                multiple
+                accept="image/*"
+                className="hidden"
+                onChange={(e) => {
+                  if (e.target.files) handleEntries(toDatasetFileEntries(e.target.files));
+                  e.target.value = '';
+                }}
+              />
+            </label>
+            {message && <span className="text-sm text-gray-600">{message}</span>}
+          </div>
+
+          <div className="grid grid-cols-1 gap-6 md:grid-cols-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">触发词</label>
+              <input
+                type="text"
+                value={datasetSettings.triggerWord}
+                onChange={(e) => updateDatasetSettings({ triggerWord: e.target.value })}
+                placeholder="如 my_character"
+                className="block w-full text-sm border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+              />
+              <p className="mt-1 text-xs text-gray-500">添加在每条标注开头，修改后已完成的标注会同步更新</p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">标注风格</label>
+              <div className="space-y-1">
+                {(Object.keys(CAPTION_STYLE_LABELS) as CaptionStyle[]).map(style => (
+                  <label key={style} className="flex items-center text-sm text-gray-700">
+                    <input
+                      type="radio"
+                      checked={datasetSettings.captionStyle === style}
+                      onChange={() => updateDatasetSettings({ captionStyle: style })}
+                      disabled={!isIdle}
+                      className="mr-2 text-blue-600 focus:ring-blue-500"
+                    />
+                    {CAPTION_STYLE_LABELS[style]}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">标注模型</label>
+              <ModelPicker value={selectedModel} onChange={selectModel} disabled={!isIdle} />
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Budget Warning */}
+      <BudgetWarningBanner />
+
+      {/* Error Message */}
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start justify-between">
+          <p className="text-sm text-red-700">{error.message}</p>
+          <button onClick={clearError} className="p-1 text-red-400 hover:text-red-600" title="关闭">
+            <XMarkIcon className="h-4 w-4" />
+          </button>
+        </div>
+      )}
+
+      {/* Progress & Review */}
+      {datasetItems.length > 0 && (
+        <div className="bg-white shadow-sm rounded-lg">
+          <div className="px-6 py-4 border-b border-gray-200 space-y-3">
+            <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-3">
+              <div>
+                <h2 className="text-lg font-medium text-gray-900">标注审阅</h2>
+                <p className="text-sm text-gray-500">
+                  共 {datasetItems.length} 张，已完成 {counts.done} 张，失败 {counts.failed} 张
+                  {totalCost > 0 && `，本次费用约 ${formatCost(totalCost)}`}
+                </p>
+              </div>
+
+              <div className="flex flex-wrap items-center gap-2">
+                {isIdle && (
+                  <button
+                    onClick={() => startDataset()}
+                    disabled={counts.pending === 0}
+                    className="inline-flex items-center px-3 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <PlayIcon className="h-4 w-4 mr-1" />
+                    {counts.done > 0 && counts.pending > 0 ? '继续标注' : '开始标注'}
+                  </button>
+                )}
+                {datasetState === 'running' && (
+                  <button
+                    onClick={pauseDataset}
+                    className="inline-flex items-center px-3 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+                  >
+                    <PauseIcon className="h-4 w-4 mr-1" />
+                    暂停
+                  </button>
+                )}
+                {datasetState === 'paused' && (
+                  <button
+                    onClick={resumeDataset}
+                    className="inline-flex items-center px-3 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+                  >
+                    <PlayIcon className="h-4 w-4 mr-1" />
+                    继续
+                  </button>
+                )}
+                {!isIdle && (
+                  <button
+                    onClick={stopDataset}
+                    className="inline-flex items-center px-3 py-2 border border-red-300 text-sm font-medium rounded-md text-red-700 bg-white hover:bg-red-50"
+                  >
+                    <StopIcon className="h-4 w-4 mr-1" />
+                    停止
+                  </button>
+                )}
+                {counts.failed > 0 && (
+                  <button
+                    onClick={retryFailedDataset}
+                    className="inline-flex items-center px-3 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+                  >
+                    <ArrowPathIcon className="h-4 w-4 mr-1" />
+                    重试失败
+                  </button>
+                )}
+                <button
+                  onClick={handleExport}
+                  disabled={isExporting || exportItems.length === 0}
+                  className="inline-flex items-center px-3 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                >
+                  <ArrowDownTrayIcon className="h-4 w-4 mr-1" />
+                  {isExporting ? '导出中...' : `导出 ZIP（${exportItems.length}）`}
+                </button>
+                {isIdle && (
+                  <button
+                    onClick={clearDataset}
+                    className="inline-flex items-center px-3 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+                  >
+                    <TrashIcon className="h-4 w-4 mr-1" />
+                    清空列表
+                  </button>
+                )}
+              </div>
+            </div>
+
+            <div className="w-full bg-gray-200 rounded-full h-2">
+              <div className="bg-blue-600 h-2 rounded-full transition-all" style={{ width: `${progress}%` }} />
+            </div>
+
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="flex flex-wrap gap-2">
+                <button
+                  onClick={() => setStatusFilter('all')}
+                  className={cn('px-3 py-1 rounded-full text-xs border', statusFilter === 'all' ? 'border-blue-500 text-blue-700' : 'text-gray-600')}
+                >
+                  全部 {datasetItems.length}
+                </button>
+                {(Object.keys(DATASET_STATUS_LABELS) as DatasetItemStatus[]).map(status => (
+                  <button
+                    key={status}
+                    onClick={() => setStatusFilter(status)}
+                    className={cn('px-3 py-1 rounded-full text-xs border', statusFilter === status ? 'border-blue-500 text-blue-700' : 'text-gray-600')}
+                  >
+                    {DATASET_STATUS_LABELS[status]} {counts[status]}
+                  </button>
+                ))}
+              </div>
+              <button onClick={handleClearProgress} className="text-xs text-gray-500 hover:text-red-600">
+                清除本地标注进度
+              </button>
+            </div>
+          </div>
+
+          <div className="px-6 py-6 space-y-4">
+            <DatasetCaptionGrid items={filteredItems.slice(0, visibleCount)} />
+            {filteredItems.length > visibleCount && (
+              <div className="text-center">
+                <button
+                  onClick={() => setVisibleCount(visibleCount + PAGE_SIZE)}
+                  className="px-4 py-2 text-sm text-blue-600 hover:text-blue-700"
+                >
+                  显示更多（剩余 {filteredItems.length - visibleCount} 张）
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { 
   MagnifyingGlassIcon,
   FunnelIcon,
@@ -7,67 +7,382 @@ import {
   CheckIcon,
   PhotoIcon,
   CalendarIcon,
-  ClockIcon
+  ClockIcon,
+  PencilSquareIcon,
+  StarIcon,
+  ArrowDownTrayIcon,
+  ArrowUpTrayIcon,
+  FolderIcon,
+  ChatBubbleBottomCenterTextIcon,
+  RectangleStackIcon,
+  ChatBubbleLeftRightIcon,
+  Square2StackIcon,
+  CloudIcon,
+  ArrowPathIcon,
+  XMarkIcon
 } from '@heroicons/react/24/outline';
+import { StarIcon as StarSolidIcon } from '@heroicons/react/24/solid';
 import { useAppStore } from '../store/useAppStore';
 import { cn } from '../utils/cn';
+import { OUTPUT_FORMAT_LABELS } from '../utils/outputFormats';
+import { PROFILE_LABELS } from '../utils/outputProfiles';
+import { applyHistoryChange, historyDb, HISTORY_PAGE_SIZE, matchesHistoryQuery } from '../utils/historyDb';
+import { mergeTags } from '../utils/recordOrganization';
+import { ImageMatch, toSimilarity } from '../utils/imageDedupe';
+import { isImageLinkBroken } from '../utils/linkChecker';
+import { getHighlightTerms, parseSearchQuery } from '../utils/historySearch';
+import { RecordThumbnail } from '../components/History/RecordThumbnail';
+import { HighlightedText } from '../components/History/HighlightedText';
+import { StarRating } from '../components/History/StarRating';
+import { RecordTags } from '../components/History/RecordTags';
+import { BulkActionBar } from '../components/History/BulkActionBar';
+import { CollectionSidebar, HistoryView } from '../components/History/CollectionSidebar';
+import { PromptEditor } from '../components/History/PromptEditor';
+import { VersionHistory } from '../components/History/VersionHistory';
+import { RefineChat } from '../components/History/RefineChat';
+import { ExportPanel } from '../components/History/ExportPanel';
+import { ImportWizard } from '../components/History/ImportWizard';
+import { AnalysisRecord, HistoryCursor, HistoryQuery, OutputFormat, TargetProfile } from '../types';
 
-type SortOption = 'newest' | 'oldest' | 'name';
+type SortOption = 'relevance' | 'newest' | 'oldest' | 'name';
 type FilterOption = 'all' | 'today' | 'week' | 'month';
+type FormatFilterOption = 'all' | OutputFormat;
+
+// 输入停顿后再搜索，避免每次按键都读取命中的记录
+const SEARCH_DEBOUNCE_MS = 250;
+
+// 按所选方式排列记录，按相关度排序时保持搜索结果的顺序
+function sortRecords(records: AnalysisRecord[], sortBy: SortOption): AnalysisRecord[] {
+  switch (sortBy) {
+    case 'newest':
+      return records.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+    case 'oldest':
+      return records.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    case 'name':
+      return records.sort((a, b) => a.imageName.localeCompare(b.imageName));
+    default:
+      return records;
+  }
+}
+
+// 时间筛选对应的起始时间
+function getFilterStart(filterBy: FilterOption): Date | undefined {
+  const now = new Date();
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+
+  switch (filterBy) {
+    case 'today':
+      return today;
+    case 'week':
+      return new Date(today.getTime() - 7 * 24 * 60 * 60 * 1000);
+    case 'month':
+      return new Date(today.getTime() - 30 * 24 * 60 * 60 * 1000);
+    default:
+      return undefined;
+  }
+}
 
 export function History() {
-  const { history, deleteHistoryItem, clearHistory } = useAppStore();
+  const {
+    historyCount,
+    historyChange,
+    historyError,
+    clearHistoryError,
+    collections,
+    deleteHistoryItem,
+    clearHistory,
+    updateHistoryItem,
+    updateHistoryItems,
+    editPrompt,
+    revertPrompt,
+    createCollection,
+    renameCollection,
+    deleteCollection,
+    findSimilarImages,
+    deleteRemoteImage,
+    purgeRemoteImages,
+    checkImageLinks,
+    reuploadImage,
+    searchHistoryRecords
+  } = useAppStore();
+  const [activeView, setActiveView] = useState<HistoryView>('all');
   const [searchTerm, setSearchTerm] = useState('');
   const [sortBy, setSortBy] = useState<SortOption>('newest');
   const [filterBy, setFilterBy] = useState<FilterOption>('all');
+  const [formatFilter, setFormatFilter] = useState<FormatFilterOption>('all');
+  const [modelFilter, setModelFilter] = useState('all');
+  const [models, setModels] = useState<string[]>([]);
+  const [tagFilter, setTagFilter] = useState('all');
+  const [tags, setTags] = useState<string[]>([]);
   const [selectedItems, setSelectedItems] = useState<Set<string>>(new Set());
   const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [records, setRecords] = useState<AnalysisRecord[]>([]);
+  const [nextCursor, setNextCursor] = useState<HistoryCursor | null>(null);
+  const [isLoadingPage, setIsLoadingPage] = useState(false);
+  const [visibleCount, setVisibleCount] = useState(HISTORY_PAGE_SIZE);
+  const [editingNoteId, setEditingNoteId] = useState<string | null>(null);
+  const [noteDraft, setNoteDraft] = useState('');
+  const [editingPromptId, setEditingPromptId] = useState<string | null>(null);
+  const [versionsOpenId, setVersionsOpenId] = useState<string | null>(null);
+  const [refineOpenId, setRefineOpenId] = useState<string | null>(null);
+  const [showExport, setShowExport] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [similarTo, setSimilarTo] = useState<{ record: AnalysisRecord; matches: ImageMatch[] } | null>(null);
+  const [similarStatus, setSimilarStatus] = useState<string | null>(null);
+  const [remoteStatus, setRemoteStatus] = useState<{ message: string; isError: boolean; links?: string[] } | null>(null);
+  const [reuploadingId, setReuploadingId] = useState<string | null>(null);
+  const [searchResults, setSearchResults] = useState<AnalysisRecord[]>([]);
+  const [collectionCounts, setCollectionCounts] = useState<Record<string, number>>({});
+  const [favoriteCount, setFavoriteCount] = useState(0);
+  const [exportRecords, setExportRecords] = useState<{ filtered: AnalysisRecord[]; selected: AnalysisRecord[] }>({
+    filtered: [],
+    selected: [],
+  });
+  const [reloadCount, setReloadCount] = useState(0);
+  const appliedChangeRef = useRef(historyChange);
+
+  const isSearching = searchTerm.trim() !== '';
+
+  // 过滤条件在数据库游标遍历时应用，按名称排序仅对已加载的记录生效
+  const query = useMemo<HistoryQuery>(() => ({
+    after: getFilterStart(filterBy),
+    model: modelFilter === 'all' ? undefined : modelFilter,
+    tag: tagFilter === 'all' ? undefined : tagFilter,
+    favorite: activeView === 'favorites' || undefined,
+    collectionId: activeView !== 'all' && activeView !== 'favorites' ? activeView : undefined,
+    order: sortBy === 'oldest' ? 'oldest' : 'newest',
+    // 旧记录未记录格式，按详细模式处理
+    filter: item => formatFilter === 'all' || (item.outputFormat || 'detailed') === formatFilter,
+  }), [filterBy, formatFilter, modelFilter, tagFilter, sortBy, activeView]);
+
+  const parsedQuery = useMemo(() => parseSearchQuery(searchTerm), [searchTerm]);
+  const highlightTerms = useMemo(() => getHighlightTerms(parsedQuery), [parsedQuery]);
+
+  // 搜索使用随写入增量更新的倒排索引，结果同样应用页面上的筛选条件，历史记录变化后重新搜索
+  useEffect(() => {
+    if (!isSearching) {
+      setSearchResults([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      searchHistoryRecords(parsedQuery)
+        .then(results => {
+          if (cancelled) return;
+          setSearchResults(sortRecords(results.filter(item => matchesHistoryQuery(item, query)), sortBy));
+        })
+        .catch(error => console.error('Failed to search history:', error));
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [isSearching, parsedQuery, query, sortBy, historyChange, searchHistoryRecords]);
+
+  useEffect(() => {
+    setVisibleCount(HISTORY_PAGE_SIZE);
+  }, [parsedQuery, query, sortBy]);
+
+  // 后台检测图片链接，已在检测间隔内检测过的记录会跳过
+  useEffect(() => {
+    checkImageLinks();
+  }, [historyCount, checkImageLinks]);
+
+  // 条件变化时从第一页开始读取
+  useEffect(() => {
+    if (isSearching) return;
+
+    let cancelled = false;
+    setIsLoadingPage(true);
+
+    historyDb.getPage(query)
+      .then(page => {
+        if (cancelled) return;
+        setRecords(page.records);
+        setNextCursor(page.nextCursor);
+      })
+      .catch(error => console.error('Failed to load history page:', error))
+      .finally(() => {
+        if (!cancelled) setIsLoadingPage(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [query, isSearching, reloadCount]);
+
+  // 写入历史记录后增量更新已加载的记录，无法确定变化时重新读取第一页
+  useEffect(() => {
+    if (!historyChange || historyChange === appliedChangeRef.current) return;
+    appliedChangeRef.current = historyChange;
+
+    if (historyChange.reload) {
+      setReloadCount(count => count + 1);
+    } else {
+      setRecords(current => applyHistoryChange(current, historyChange, query, !nextCursor));
+    }
+  }, [historyChange, query, nextCursor]);
+
+  // 筛选项通过索引读取
+  useEffect(() => {
+    historyDb.getModels()
+      .then(setModels)
+      .catch(error => console.error('Failed to load models:', error));
+    historyDb.getTags()
+      .then(setTags)
+      .catch(error => console.error('Failed to load tags:', error));
+  }, [historyChange]);
+
+  // 收藏夹和收藏的记录数从数据库统计，历史记录或收藏夹变化时更新
+  useEffect(() => {
+    historyDb.countByCollection(collections.map(collection => collection.id))
+      .then(setCollectionCounts)
+      .catch(error => console.error('Failed to count collections:', error));
+    historyDb.count({ favorite: true })
+      .then(setFavoriteCount)
+      .catch(error => console.error('Failed to count favorites:', error));
+  }, [historyChange, collections]);
+
+  const loadMore = useCallback(async () => {
+    if (isSearching) {
+      setVisibleCount(count => count + HISTORY_PAGE_SIZE);
+      return;
+    }
+    if (!nextCursor || isLoadingPage) return;
+
+    setIsLoadingPage(true);
+    try {
+      const page = await historyDb.getPage(query, nextCursor);
+      setRecords(current => [...current, ...page.records]);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error('Failed to load history page:', error);
+    } finally {
+      setIsLoadingPage(false);
+    }
+  }, [query, nextCursor, isLoadingPage, isSearching]);
+
+  // 相似图片结果随历史记录的修改和删除更新，无法确定变化时关闭结果
+  useEffect(() => {
+    if (!historyChange) return;
+    if (historyChange.reload) {
+      setSimilarTo(null);
+      return;
+    }
+
+    const deleted = new Set(historyChange.deleted);
+    const saved = new Map(historyChange.saved.map(record => [record.id, record]));
+    setSimilarTo(current => current && {
+      ...current,
+      matches: current.matches
+        .filter(match => !deleted.has(match.record.id))
+        .map(match => (saved.has(match.record.id) ? { ...match, record: saved.get(match.record.id)! } : match)),
+    });
+  }, [historyChange]);
+
+  // 相似图片结果按相似度排序
+  const similarRecords = useMemo(
+    () => similarTo?.matches.map(match => match.record) ?? null,
+    [similarTo]
+  );
+  const similarDistances = useMemo(
+    () => new Map(similarTo?.matches.map(match => [match.record.id, match]) ?? []),
+    [similarTo]
+  );
 
-  // 过滤和排序历史记录
   const filteredAndSortedHistory = useMemo(() => {
-    let filtered = history;
-
-    // 搜索过滤
-    if (searchTerm) {
-      filtered = filtered.filter(item =>
-        item.prompt.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        item.imageName.toLowerCase().includes(searchTerm.toLowerCase())
-      );
+    if (similarRecords) {
+      return similarRecords;
     }
+    if (isSearching) {
+      return searchResults.slice(0, visibleCount);
+    }
+    return sortBy === 'name'
+      ? [...records].sort((a, b) => a.imageName.localeCompare(b.imageName))
+      : records;
+  }, [similarRecords, isSearching, searchResults, visibleCount, records, sortBy]);
 
-    // 时间过滤
-    const now = new Date();
-    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-    const weekAgo = new Date(today.getTime() - 7 * 24 * 60 * 60 * 1000);
-    const monthAgo = new Date(today.getTime() - 30 * 24 * 60 * 60 * 1000);
-
-    switch (filterBy) {
-      case 'today':
-        filtered = filtered.filter(item => item.timestamp >= today);
-        break;
-      case 'week':
-        filtered = filtered.filter(item => item.timestamp >= weekAgo);
-        break;
-      case 'month':
-        filtered = filtered.filter(item => item.timestamp >= monthAgo);
-        break;
+  const hasMore = similarRecords ? false : isSearching ? searchResults.length > visibleCount : !!nextCursor;
+
+  // 开始搜索时默认按相关度排序，清空搜索后恢复按时间排序
+  const handleSearchChange = (value: string) => {
+    if (!searchTerm.trim() && value.trim() && sortBy === 'newest') {
+      setSortBy('relevance');
+    } else if (!value.trim() && sortBy === 'relevance') {
+      setSortBy('newest');
     }
+    setSearchTerm(value);
+  };
 
-    // 排序
-    switch (sortBy) {
-      case 'newest':
-        filtered.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
-        break;
-      case 'oldest':
-        filtered.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
-        break;
-      case 'name':
-        filtered.sort((a, b) => a.imageName.localeCompare(b.imageName));
-        break;
+  const handleFindSimilar = async (item: AnalysisRecord) => {
+    setSimilarStatus('正在计算图片指纹...');
+    try {
+      const matches = await findSimilarImages(item);
+      setSimilarTo({ record: item, matches });
+      setSimilarStatus(null);
+      setSelectedItems(new Set());
+    } catch (error) {
+      setSimilarStatus(error instanceof Error ? error.message : '查找相似图片失败');
+    }
+  };
+
+  const handleDeleteRemote = async (item: AnalysisRecord) => {
+    if (!confirm('确定要删除图床上的远程图片吗？记录和本地缩略图会保留。')) return;
+    try {
+      const result = await deleteRemoteImage(item);
+      if (result.status === 'confirm') {
+        // ImgBB 不提供删除接口，需要在其删除页面中确认
+        window.open(result.url, '_blank', 'noopener,noreferrer');
+        setRemoteStatus({ message: '已打开图床删除页面，请在新页面中确认删除', isError: false });
+      } else {
+        setRemoteStatus({ message: `已删除「${item.imageName}」的远程图片`, isError: false });
+      }
+    } catch (error) {
+      setRemoteStatus({ message: error instanceof Error ? error.message : '删除远程图片失败', isError: true });
     }
+  };
 
-    return filtered;
-  }, [history, searchTerm, sortBy, filterBy]);
+  const handlePurgeRemote = async () => {
+    try {
+      const count = (await historyDb.getMany(Array.from(selectedItems))).filter(item => item.remoteImage).length;
+      if (count === 0) {
+        setRemoteStatus({ message: '选中的记录没有远程图片', isError: false });
+        return;
+      }
+      if (!confirm(`确定要删除选中记录的 ${count} 张远程图片吗？记录和本地缩略图会保留。`)) return;
+
+      const result = await purgeRemoteImages(Array.from(selectedItems));
+      const messages = [`已删除 ${result.deleted - result.confirmUrls.length} 张远程图片`];
+      if (result.confirmUrls.length > 0) {
+        messages.push(`${result.confirmUrls.length} 张 ImgBB 图片需打开下方链接确认删除`);
+      }
+      if (result.failed > 0) {
+        messages.push(`${result.failed} 张删除失败`);
+      }
+      setRemoteStatus({ message: messages.join('，'), isError: result.failed > 0, links: result.confirmUrls });
+    } catch (error) {
+      setRemoteStatus({ message: error instanceof Error ? error.message : '删除远程图片失败', isError: true });
+    }
+  };
+
+  const handleReupload = async (item: AnalysisRecord) => {
+    setReuploadingId(item.id);
+    try {
+      await reuploadImage(item);
+      setRemoteStatus({ message: `已重新上传「${item.imageName}」`, isError: false });
+    } catch (error) {
+      setRemoteStatus({ message: error instanceof Error ? error.message : '重新上传失败', isError: true });
+    } finally {
+      setReuploadingId(null);
+    }
+  };
+
+  const handleSaveNote = (item: AnalysisRecord) => {
+    updateHistoryItem({ ...item, notes: noteDraft.trim() || undefined });
+    setEditingNoteId(null);
+  };
 
   const handleCopyPrompt = async (id: string, prompt: string) => {
     try {
@@ -97,8 +412,51 @@ export function History() {
     }
   };
 
+  const collectionNames = useMemo(
+    () => new Map(collections.map(collection => [collection.id, collection.name])),
+    [collections]
+  );
+  const activeCollectionId = activeView !== 'all' && activeView !== 'favorites' ? activeView : undefined;
+
+  const updateSelected = (update: (record: AnalysisRecord) => AnalysisRecord) => {
+    updateHistoryItems(Array.from(selectedItems), update);
+  };
+
+  const addToCollection = (collectionId: string) => {
+    updateSelected(record => ({
+      ...record,
+      collectionIds: Array.from(new Set([...(record.collectionIds || []), collectionId])),
+    }));
+  };
+
+  // 导出范围：当前条件下的全部记录（列表只加载了部分页）和选中的记录，打开导出面板时从数据库读取
+  useEffect(() => {
+    if (!showExport) return;
+
+    let cancelled = false;
+    Promise.all([
+      isSearching
+        ? searchResults
+        : historyDb.getMatching(query).then(matched => (sortBy === 'name' ? sortRecords(matched, sortBy) : matched)),
+      historyDb.getMany(Array.from(selectedItems)),
+    ])
+      .then(([filtered, selected]) => {
+        if (!cancelled) setExportRecords({ filtered, selected });
+      })
+      .catch(error => console.error('Failed to load export records:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [showExport, isSearching, searchResults, query, sortBy, selectedItems, historyChange]);
+
+  // 点击标签时切换为按标签搜索
+  const handleTagSelect = (tag: string) => {
+    handleSearchChange(tag.includes(' ') ? `tag:"${tag}"` : `tag:${tag}`);
+  };
+
   const handleDeleteSelected = () => {
-    selectedItems.forEach(id => deleteHistoryItem(id));
+    deleteHistoryItem(Array.from(selectedItems));
     setSelectedItems(new Set());
   };
 
@@ -136,38 +494,75 @@ export function History() {
         <div>
           <h1 className="text-3xl font-bold text-gray-900">历史记录</h1>
           <p className="mt-2 text-gray-600">
-            共 {history.length} 条记录，显示 {filteredAndSortedHistory.length} 条
+            共 {historyCount} 条记录，显示 {filteredAndSortedHistory.length} 条
           </p>
         </div>
         
-        {history.length > 0 && (
-          <div className="mt-4 sm:mt-0 flex space-x-3">
-            {selectedItems.size > 0 && (
+        <div className="mt-4 sm:mt-0 flex space-x-3">
+          <button
+            onClick={() => setShowImport(!showImport)}
+            className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            <ArrowUpTrayIcon className="h-4 w-4 mr-2" />
+            导入
+          </button>
+          {historyCount > 0 && (
+            <>
               <button
-                onClick={handleDeleteSelected}
-                className="inline-flex items-center px-3 py-2 border border-red-300 shadow-sm text-sm leading-4 font-medium rounded-md text-red-700 bg-white hover:bg-red-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500"
+                onClick={() => setShowExport(!showExport)}
+                className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+              >
+                <ArrowDownTrayIcon className="h-4 w-4 mr-2" />
+                导出
+              </button>
+              {selectedItems.size > 0 && (
+                <button
+                  onClick={handleDeleteSelected}
+                  className="inline-flex items-center px-3 py-2 border border-red-300 shadow-sm text-sm leading-4 font-medium rounded-md text-red-700 bg-white hover:bg-red-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500"
+                >
+                  <TrashIcon className="h-4 w-4 mr-2" />
+                  删除选中 ({selectedItems.size})
+                </button>
+              )}
+              <button
+                onClick={() => {
+                  if (confirm('确定要清空所有历史记录吗？此操作不可恢复。')) {
+                    clearHistory();
+                    setSelectedItems(new Set());
+                  }
+                }}
+                className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
               >
                 <TrashIcon className="h-4 w-4 mr-2" />
-                删除选中 ({selectedItems.size})
+                清空全部
               </button>
-            )}
-            <button
-              onClick={() => {
-                if (confirm('确定要清空所有历史记录吗？此操作不可恢复。')) {
-                  clearHistory();
-                  setSelectedItems(new Set());
-                }
-              }}
-              className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
-            >
-              <TrashIcon className="h-4 w-4 mr-2" />
-              清空全部
-            </button>
-          </div>
-        )}
+            </>
+          )}
+        </div>
       </div>
 
-      {history.length === 0 ? (
+      {/* History Error */}
+      {historyError && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start justify-between">
+          <p className="text-sm text-red-700">{historyError.message}</p>
+          <button onClick={clearHistoryError} className="p-1 text-red-400 hover:text-red-600" title="关闭">
+            <XMarkIcon className="h-4 w-4" />
+          </button>
+        </div>
+      )}
+
+      {showImport && <ImportWizard onClose={() => setShowImport(false)} />}
+
+      {showExport && historyCount > 0 && (
+        <ExportPanel
+          selectedRecords={exportRecords.selected}
+          filteredRecords={exportRecords.filtered}
+          collections={collections}
+          onClose={() => setShowExport(false)}
+        />
+      )}
+
+      {historyCount === 0 ? (
         <div className="text-center py-12">
           <PhotoIcon className="mx-auto h-12 w-12 text-gray-400" />
           <h3 className="mt-2 text-sm font-medium text-gray-900">暂无历史记录</h3>
@@ -176,175 +571,523 @@ export function History() {
           </p>
         </div>
       ) : (
-        <>
-          {/* Filters and Search */}
-          <div className="bg-white p-4 rounded-lg shadow-sm border space-y-4">
-            {/* Search */}
-            <div className="relative">
-              <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                <MagnifyingGlassIcon className="h-5 w-5 text-gray-400" />
+        <div className="lg:flex lg:items-start lg:space-x-6 space-y-6 lg:space-y-0">
+          {/* Collections */}
+          <aside className="lg:w-56 flex-shrink-0">
+            <CollectionSidebar
+              collections={collections}
+              counts={collectionCounts}
+              totalCount={historyCount}
+              favoriteCount={favoriteCount}
+              activeView={activeView}
+              onSelect={view => {
+                setActiveView(view);
+                setSelectedItems(new Set());
+              }}
+              onCreate={name => setActiveView(createCollection(name).id)}
+              onRename={renameCollection}
+              onDelete={id => {
+                deleteCollection(id);
+                if (activeView === id) setActiveView('all');
+              }}
+            />
+          </aside>
+
+          <div className="flex-1 min-w-0 space-y-6">
+            {/* Filters and Search */}
+            <div className="bg-white p-4 rounded-lg shadow-sm border space-y-4">
+              {/* Search */}
+              <div className="relative">
+                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                  <MagnifyingGlassIcon className="h-5 w-5 text-gray-400" />
+                </div>
+                <input
+                  type="text"
+                  placeholder='搜索提示词、名称、标签或备注，如 model:gemma tag:portrait after:2026-01-01 "soft light"'
+                  value={searchTerm}
+                  onChange={(e) => handleSearchChange(e.target.value)}
+                  className="block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md leading-5 bg-white placeholder-gray-500 focus:outline-none focus:placeholder-gray-400 focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                />
               </div>
-              <input
-                type="text"
-                placeholder="搜索提示词或图片名称..."
-                value={searchTerm}
-                onChange={(e) => setSearchTerm(e.target.value)}
-                className="block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md leading-5 bg-white placeholder-gray-500 focus:outline-none focus:placeholder-gray-400 focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
-              />
-            </div>
 
-            {/* Filters */}
-            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between space-y-3 sm:space-y-0">
-              <div className="flex items-center space-x-4">
-                <div className="flex items-center">
-                  <FunnelIcon className="h-4 w-4 text-gray-400 mr-2" />
-                  <span className="text-sm text-gray-700">筛选:</span>
+              {/* Filters */}
+              <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between space-y-3 sm:space-y-0">
+                <div className="flex items-center space-x-4">
+                  <div className="flex items-center">
+                    <FunnelIcon className="h-4 w-4 text-gray-400 mr-2" />
+                    <span className="text-sm text-gray-700">筛选:</span>
+                  </div>
+                  <select
+                    value={filterBy}
+                    onChange={(e) => setFilterBy(e.target.value as FilterOption)}
+                    className="text-sm border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    <option value="all">全部时间</option>
+                    <option value="today">今天</option>
+                    <option value="week">最近一周</option>
+                    <option value="month">最近一月</option>
+                  </select>
+                  <select
+                    value={formatFilter}
+                    onChange={(e) => setFormatFilter(e.target.value as FormatFilterOption)}
+                    className="text-sm border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    <option value="all">全部格式</option>
+                    {(Object.keys(OUTPUT_FORMAT_LABELS) as OutputFormat[]).map(format => (
+                      <option key={format} value={format}>{OUTPUT_FORMAT_LABELS[format]}</option>
+                    ))}
+                  </select>
+                  {models.length > 1 && (
+                    <select
+                      value={modelFilter}
+                      onChange={(e) => setModelFilter(e.target.value)}
+                      className="text-sm border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500 max-w-[12rem]"
+                    >
+                      <option value="all">全部模型</option>
+                      {models.map(model => (
+                        <option key={model} value={model}>{model}</option>
+                      ))}
+                    </select>
+                  )}
+                  {tags.length > 0 && (
+                    <select
+                      value={tagFilter}
+                      onChange={(e) => setTagFilter(e.target.value)}
+                      className="text-sm border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500 max-w-[12rem]"
+                    >
+                      <option value="all">全部标签</option>
+                      {tags.map(tag => (
+                        <option key={tag} value={tag}>{tag}</option>
+                      ))}
+                    </select>
+                  )}
+                </div>
+
+                <div className="flex items-center space-x-4">
+                  <span className="text-sm text-gray-700">排序:</span>
+                  <select
+                    value={sortBy}
+                    onChange={(e) => setSortBy(e.target.value as SortOption)}
+                    className="text-sm border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    {isSearching && <option value="relevance">相关度</option>}
+                    <option value="newest">最新优先</option>
+                    <option value="oldest">最旧优先</option>
+                    <option value="name">按名称</option>
+                  </select>
                 </div>
-                <select
-                  value={filterBy}
-                  onChange={(e) => setFilterBy(e.target.value as FilterOption)}
-                  className="text-sm border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
-                >
-                  <option value="all">全部时间</option>
-                  <option value="today">今天</option>
-                  <option value="week">最近一周</option>
-                  <option value="month">最近一月</option>
-                </select>
               </div>
 
-              <div className="flex items-center space-x-4">
-                <span className="text-sm text-gray-700">排序:</span>
-                <select
-                  value={sortBy}
-                  onChange={(e) => setSortBy(e.target.value as SortOption)}
-                  className="text-sm border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+              {/* Bulk Actions */}
+              {filteredAndSortedHistory.length > 0 && (
+                <div className="flex items-center justify-between pt-2 border-t">
+                  <label className="flex items-center">
+                    <input
+                      type="checkbox"
+                      checked={selectedItems.size === filteredAndSortedHistory.length}
+                      onChange={handleSelectAll}
+                      className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                    <span className="ml-2 text-sm text-gray-700">
+                      全选 ({filteredAndSortedHistory.length} 项)
+                    </span>
+                  </label>
+                
+                </div>
+              )}
+              {selectedItems.size > 0 && (
+                <BulkActionBar
+                  count={selectedItems.size}
+                  collections={collections}
+                  activeCollectionId={activeCollectionId}
+                  onAddTags={tags => updateSelected(record => ({ ...record, tags: mergeTags(record.tags, tags) }))}
+                  onFavorite={favorite => updateSelected(record => ({ ...record, favorite: favorite || undefined }))}
+                  onAddToCollection={addToCollection}
+                  onCreateCollection={name => addToCollection(createCollection(name).id)}
+                  onRemoveFromCollection={collectionId => updateSelected(record => ({
+                    ...record,
+                    collectionIds: record.collectionIds?.filter(id => id !== collectionId),
+                  }))}
+                  onPurgeRemote={handlePurgeRemote}
+                />
+              )}
+            </div>
+
+            {/* Similar Images */}
+            {(similarTo || similarStatus) && (
+              <div className="flex items-center justify-between bg-blue-50 border border-blue-200 rounded-lg px-4 py-3 text-sm text-blue-800">
+                <span>
+                  {similarStatus ?? `与「${similarTo!.record.imageName}」相似的图片：${similarTo!.matches.length} 条`}
+                </span>
+                <button
+                  onClick={() => {
+                    setSimilarTo(null);
+                    setSimilarStatus(null);
+                  }}
+                  className="inline-flex items-center text-blue-700 hover:text-blue-900"
                 >
-                  <option value="newest">最新优先</option>
-                  <option value="oldest">最旧优先</option>
-                  <option value="name">按名称</option>
-                </select>
+                  <XMarkIcon className="h-4 w-4 mr-1" />
+                  返回全部记录
+                </button>
               </div>
-            </div>
+            )}
 
-            {/* Bulk Actions */}
-            {filteredAndSortedHistory.length > 0 && (
-              <div className="flex items-center justify-between pt-2 border-t">
-                <label className="flex items-center">
-                  <input
-                    type="checkbox"
-                    checked={selectedItems.size === filteredAndSortedHistory.length}
-                    onChange={handleSelectAll}
-                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                  />
-                  <span className="ml-2 text-sm text-gray-700">
-                    全选 ({filteredAndSortedHistory.length} 项)
-                  </span>
-                </label>
-                
-                {selectedItems.size > 0 && (
-                  <span className="text-sm text-blue-600">
-                    已选择 {selectedItems.size} 项
-                  </span>
+            {/* Remote Image Status */}
+            {remoteStatus && (
+              <div className={cn(
+                'border rounded-lg px-4 py-3 text-sm',
+                remoteStatus.isError ? 'bg-red-50 border-red-200 text-red-800' : 'bg-green-50 border-green-200 text-green-800'
+              )}>
+                <div className="flex items-center justify-between">
+                  <span>{remoteStatus.message}</span>
+                  <button onClick={() => setRemoteStatus(null)} className="opacity-70 hover:opacity-100">
+                    <XMarkIcon className="h-4 w-4" />
+                  </button>
+                </div>
+                {remoteStatus.links && remoteStatus.links.length > 0 && (
+                  <ul className="mt-2 space-y-1">
+                    {remoteStatus.links.map(link => (
+                      <li key={link}>
+                        <a href={link} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:text-blue-700 break-all">
+                          {link}
+                        </a>
+                      </li>
+                    ))}
+                  </ul>
                 )}
               </div>
             )}
-          </div>
 
-          {/* History List */}
-          <div className="space-y-4">
-            {filteredAndSortedHistory.map((item) => (
-              <div
-                key={item.id}
-                className={cn(
-                  'bg-white rounded-lg shadow-sm border p-6 transition-all',
-                  selectedItems.has(item.id) ? 'ring-2 ring-blue-500 bg-blue-50' : 'hover:shadow-md'
-                )}
-              >
-                <div className="flex items-start space-x-4">
-                  {/* Checkbox */}
-                  <input
-                    type="checkbox"
-                    checked={selectedItems.has(item.id)}
-                    onChange={() => handleSelectItem(item.id)}
-                    className="mt-1 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                  />
-
-                  {/* Image Preview */}
-                  <div className="flex-shrink-0">
-                    {item.imageUrl ? (
-                      <img
-                        src={item.imageUrl}
-                        alt={item.imageName}
-                        className="h-16 w-16 rounded-lg object-cover"
-                      />
-                    ) : (
-                      <div className="h-16 w-16 rounded-lg bg-gray-200 flex items-center justify-center">
-                        <PhotoIcon className="h-8 w-8 text-gray-400" />
-                      </div>
-                    )}
-                  </div>
+            {/* History List */}
+            <div className="space-y-4">
+              {filteredAndSortedHistory.map((item) => (
+                <div
+                  key={item.id}
+                  className={cn(
+                    'bg-white rounded-lg shadow-sm border p-6 transition-all',
+                    selectedItems.has(item.id) ? 'ring-2 ring-blue-500 bg-blue-50' : 'hover:shadow-md'
+                  )}
+                >
+                  <div className="flex items-start space-x-4">
+                    {/* Checkbox */}
+                    <input
+                      type="checkbox"
+                      checked={selectedItems.has(item.id)}
+                      onChange={() => handleSelectItem(item.id)}
+                      className="mt-1 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+
+                    {/* Image Preview */}
+                    <div className="flex-shrink-0">
+                      <RecordThumbnail record={item} />
+                    </div>
 
-                  {/* Content */}
-                  <div className="flex-1 min-w-0">
-                    <div className="flex items-center justify-between">
-                      <h3 className="text-lg font-medium text-gray-900 truncate">
-                        {item.imageName}
-                      </h3>
-                      <div className="flex items-center space-x-2">
-                        <button
-                          onClick={() => handleCopyPrompt(item.id, item.prompt)}
-                          className="text-blue-600 hover:text-blue-700 p-1"
-                          title="复制提示词"
-                        >
-                          {copiedId === item.id ? (
-                            <CheckIcon className="h-4 w-4" />
-                          ) : (
-                            <DocumentDuplicateIcon className="h-4 w-4" />
+                    {/* Content */}
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center justify-between">
+                        <h3 className="text-lg font-medium text-gray-900 truncate">
+                          <HighlightedText text={item.imageName} terms={highlightTerms} />
+                        </h3>
+                        <div className="flex items-center space-x-2">
+                          <button
+                            onClick={() => updateHistoryItem({ ...item, favorite: !item.favorite || undefined })}
+                            className={cn('p-1', item.favorite ? 'text-yellow-500' : 'text-gray-400 hover:text-yellow-500')}
+                            title={item.favorite ? '取消星标' : '加星标'}
+                          >
+                            {item.favorite ? (
+                              <StarSolidIcon className="h-4 w-4" />
+                            ) : (
+                              <StarIcon className="h-4 w-4" />
+                            )}
+                          </button>
+                          <button
+                            onClick={() => handleCopyPrompt(item.id, item.prompt)}
+                            className="text-blue-600 hover:text-blue-700 p-1"
+                            title="复制提示词"
+                          >
+                            {copiedId === item.id ? (
+                              <CheckIcon className="h-4 w-4" />
+                            ) : (
+                              <DocumentDuplicateIcon className="h-4 w-4" />
+                            )}
+                          </button>
+                          <button
+                            onClick={() => setEditingPromptId(item.id)}
+                            className="text-gray-500 hover:text-gray-700 p-1"
+                            title="编辑提示词"
+                          >
+                            <PencilSquareIcon className="h-4 w-4" />
+                          </button>
+                          <button
+                            onClick={() => setVersionsOpenId(versionsOpenId === item.id ? null : item.id)}
+                            className={cn('p-1', versionsOpenId === item.id ? 'text-blue-600' : 'text-gray-500 hover:text-gray-700')}
+                            title="版本历史"
+                          >
+                            <RectangleStackIcon className="h-4 w-4" />
+                          </button>
+                          <button
+                            onClick={() => setRefineOpenId(refineOpenId === item.id ? null : item.id)}
+                            className={cn('p-1', refineOpenId === item.id ? 'text-blue-600' : 'text-gray-500 hover:text-gray-700')}
+                            title="继续优化"
+                          >
+                            <ChatBubbleLeftRightIcon className="h-4 w-4" />
+                          </button>
+                          <button
+                            onClick={() => handleFindSimilar(item)}
+                            className="text-gray-500 hover:text-gray-700 p-1"
+                            title="查找相似图片"
+                          >
+                            <Square2StackIcon className="h-4 w-4" />
+                          </button>
+                          <button
+                            onClick={() => {
+                              setEditingNoteId(item.id);
+                              setNoteDraft(item.notes || '');
+                            }}
+                            className="text-gray-500 hover:text-gray-700 p-1"
+                            title="编辑备注"
+                          >
+                            <ChatBubbleBottomCenterTextIcon className="h-4 w-4" />
+                          </button>
+                          {isImageLinkBroken(item) && (
+                            <button
+                              onClick={() => handleReupload(item)}
+                              disabled={reuploadingId === item.id}
+                              className="text-orange-600 hover:text-orange-700 p-1 disabled:opacity-50"
+                              title="图片链接已失效，从本地原图重新上传"
+                            >
+                              <ArrowPathIcon className={cn('h-4 w-4', reuploadingId === item.id && 'animate-spin')} />
+                            </button>
                           )}
-                        </button>
-                        <button
-                          onClick={() => deleteHistoryItem(item.id)}
-                          className="text-red-600 hover:text-red-700 p-1"
-                          title="删除记录"
-                        >
-                          <TrashIcon className="h-4 w-4" />
-                        </button>
+                          {item.remoteImage && (
+                            <button
+                              onClick={() => handleDeleteRemote(item)}
+                              className="text-gray-500 hover:text-red-600 p-1"
+                              title="删除远程图片"
+                            >
+                              <CloudIcon className="h-4 w-4" />
+                            </button>
+                          )}
+                          <button
+                            onClick={() => deleteHistoryItem(item.id)}
+                            className="text-red-600 hover:text-red-700 p-1"
+                            title="删除记录"
+                          >
+                            <TrashIcon className="h-4 w-4" />
+                          </button>
+                        </div>
                       </div>
-                    </div>
 
-                    <div className="mt-2">
-                      <p className="text-gray-700 text-sm leading-relaxed">
-                        {truncateText(item.prompt, 200)}
-                      </p>
-                    </div>
+                      <div className="mt-2">
+                        {editingPromptId === item.id ? (
+                          <PromptEditor
+                            initialValue={item.prompt}
+                            onSave={async (prompt) => {
+                              await editPrompt(item, prompt);
+                              setEditingPromptId(null);
+                            }}
+                            onCancel={() => setEditingPromptId(null)}
+                          />
+                        ) : (
+                          <p className="text-gray-700 text-sm leading-relaxed">
+                            {isSearching ? (
+                              <HighlightedText text={item.prompt} terms={highlightTerms} maxLength={200} />
+                            ) : (
+                              truncateText(item.prompt, 200)
+                            )}
+                          </p>
+                        )}
+                      </div>
 
-                    <div className="mt-3 flex items-center text-xs text-gray-500 space-x-4">
-                      <div className="flex items-center">
-                        <CalendarIcon className="h-3 w-3 mr-1" />
-                        {formatDate(item.timestamp)}
+                      {/* Versions */}
+                      {versionsOpenId === item.id && (
+                        <div className="mt-2">
+                          <VersionHistory
+                            key={`${item.id}-${item.versions?.length || 1}`}
+                            record={item}
+                            onRevert={(versionId) => revertPrompt(item, versionId)}
+                          />
+                        </div>
+                      )}
+
+                      {/* Refine */}
+                      {refineOpenId === item.id && (
+                        <div className="mt-2">
+                          <RefineChat record={item} />
+                        </div>
+                      )}
+
+                      {/* Tags */}
+                      <div className="mt-2">
+                        <RecordTags
+                          tags={item.tags}
+                          onAdd={tags => updateHistoryItem({ ...item, tags: mergeTags(item.tags, tags) })}
+                          onRemove={tag => updateHistoryItem({ ...item, tags: item.tags?.filter(current => current !== tag) })}
+                          onSelect={handleTagSelect}
+                        />
                       </div>
-                      <div className="flex items-center">
-                        <ClockIcon className="h-3 w-3 mr-1" />
-                        {item.timestamp.toLocaleString('zh-CN')}
+
+                      {/* Notes */}
+                      {editingNoteId === item.id ? (
+                        <div className="mt-2 space-y-2">
+                          <textarea
+                            value={noteDraft}
+                            onChange={(e) => setNoteDraft(e.target.value)}
+                            rows={2}
+                            placeholder="添加备注..."
+                            className="block w-full text-sm border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                          />
+                          <div className="flex space-x-2">
+                            <button
+                              onClick={() => handleSaveNote(item)}
+                              className="px-2 py-1 text-xs font-medium rounded bg-blue-600 text-white hover:bg-blue-700"
+                            >
+                              保存
+                            </button>
+                            <button
+                              onClick={() => setEditingNoteId(null)}
+                              className="px-2 py-1 text-xs font-medium rounded border text-gray-600 hover:bg-gray-50"
+                            >
+                              取消
+                            </button>
+                          </div>
+                        </div>
+                      ) : item.notes && (
+                        <p className="mt-2 text-xs text-gray-500 bg-gray-50 rounded px-2 py-1">
+                          备注：<HighlightedText text={item.notes} terms={highlightTerms} />
+                        </p>
+                      )}
+
+                      {/* Generator Variants */}
+                      {item.variants && (
+                        <div className="mt-2 flex flex-wrap gap-2">
+                          {(Object.keys(PROFILE_LABELS) as TargetProfile[])
+                            .filter(profile => item.variants?.[profile])
+                            .map(profile => {
+                              const copyKey = `${item.id}-${profile}`;
+                              return (
+                                <button
+                                  key={profile}
+                                  onClick={() => handleCopyPrompt(copyKey, item.variants![profile]!.prompt)}
+                                  className="inline-flex items-center px-2 py-0.5 rounded border text-xs text-gray-600 hover:bg-gray-50"
+                                  title={`复制 ${PROFILE_LABELS[profile]} 提示词`}
+                                >
+                                  {copiedId === copyKey ? (
+                                    <CheckIcon className="h-3 w-3 mr-1" />
+                                  ) : (
+                                    <DocumentDuplicateIcon className="h-3 w-3 mr-1" />
+                                  )}
+                                  {PROFILE_LABELS[profile]}
+                                </button>
+                              );
+                            })}
+                        </div>
+                      )}
+
+                      <div className="mt-3 flex items-center text-xs text-gray-500 space-x-4">
+                        <div className="flex items-center">
+                          <CalendarIcon className="h-3 w-3 mr-1" />
+                          {formatDate(item.timestamp)}
+                        </div>
+                        <div className="flex items-center">
+                          <ClockIcon className="h-3 w-3 mr-1" />
+                          {item.timestamp.toLocaleString('zh-CN')}
+                        </div>
+                        {item.outputFormat && (
+                          <span className="px-1.5 py-0.5 rounded bg-gray-100 text-gray-600">
+                            {OUTPUT_FORMAT_LABELS[item.outputFormat]}
+                          </span>
+                        )}
+                        {item.targetProfile && (
+                          <span className="px-1.5 py-0.5 rounded bg-blue-50 text-blue-700">
+                            {PROFILE_LABELS[item.targetProfile]}
+                          </span>
+                        )}
+                        {isImageLinkBroken(item) ? (
+                          <span className="px-1.5 py-0.5 rounded bg-orange-50 text-orange-700">
+                            图片链接已失效
+                          </span>
+                        ) : item.remoteImage?.expiresAt && (
+                          <span className="px-1.5 py-0.5 rounded bg-gray-100 text-gray-600">
+                            远程图片 {new Date(item.remoteImage.expiresAt).toLocaleDateString('zh-CN')} 到期
+                          </span>
+                        )}
+                        {item.model && (
+                          <span
+                            className="truncate max-w-[12rem]"
+                            title={item.requestedModel ? `${item.requestedModel} 失败后由 ${item.model} 生成` : item.model}
+                          >
+                            {item.model}
+                          </span>
+                        )}
+                        {item.attempts !== undefined && item.attempts > 1 && (
+                          <span className="px-1.5 py-0.5 rounded bg-gray-100 text-gray-600">
+                            请求 {item.attempts} 次
+                          </span>
+                        )}
+                        {similarDistances.has(item.id) && (
+                          <span className="px-1.5 py-0.5 rounded bg-blue-50 text-blue-700">
+                            {similarDistances.get(item.id)!.exact
+                              ? '相同图片'
+                              : `相似度 ${toSimilarity(similarDistances.get(item.id)!.distance)}%`}
+                          </span>
+                        )}
+                        {item.versions && item.versions.length > 1 && (
+                          <span className="px-1.5 py-0.5 rounded bg-purple-50 text-purple-700">
+                            v{item.versions.length}
+                          </span>
+                        )}
+                        {item.alternates && item.alternates.length > 0 && (
+                          <span className="px-1.5 py-0.5 rounded bg-yellow-50 text-yellow-800">
+                            对比 +{item.alternates.length}
+                          </span>
+                        )}
+                        {item.collectionIds?.filter(id => collectionNames.has(id)).map(id => (
+                          <button
+                            key={id}
+                            onClick={() => setActiveView(id)}
+                            className="inline-flex items-center px-1.5 py-0.5 rounded bg-green-50 text-green-700 hover:bg-green-100"
+                          >
+                            <FolderIcon className="h-3 w-3 mr-1" />
+                            {collectionNames.get(id)}
+                          </button>
+                        ))}
+                        <StarRating
+                          value={item.rating}
+                          onChange={rating => updateHistoryItem({ ...item, rating })}
+                        />
                       </div>
                     </div>
                   </div>
                 </div>
+              ))}
+            </div>
+
+            {/* Load More */}
+            {hasMore && (
+              <div className="text-center">
+                <button
+                  onClick={loadMore}
+                  disabled={isLoadingPage}
+                  className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                >
+                  {isLoadingPage ? '加载中...' : '加载更多'}
+                </button>
               </div>
-            ))}
-          </div>
+            )}
 
-          {/* No Results */}
-          {filteredAndSortedHistory.length === 0 && (
-            <div className="text-center py-8">
-              <MagnifyingGlassIcon className="mx-auto h-12 w-12 text-gray-400" />
-              <h3 className="mt-2 text-sm font-medium text-gray-900">未找到匹配的记录</h3>
-              <p className="mt-1 text-sm text-gray-500">
-                尝试调整搜索条件或筛选选项
-              </p>
-            </div>
-          )}
-        </>
+            {/* No Results */}
+            {filteredAndSortedHistory.length === 0 && !isLoadingPage && (
+              <div className="text-center py-8">
+                <MagnifyingGlassIcon className="mx-auto h-12 w-12 text-gray-400" />
+                <h3 className="mt-2 text-sm font-medium text-gray-900">未找到匹配的记录</h3>
+                <p className="mt-1 text-sm text-gray-500">
+                  尝试调整搜索条件或筛选选项
+                </p>
+              </div>
+            )}
+          </div>
+        </div>
       )}
     </div>
   );
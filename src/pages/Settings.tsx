@@ -7,12 +7,24 @@ import {
   ExclamationTriangleIcon,
   InformationCircleIcon,
   EyeIcon,
-  EyeSlashIcon
+  EyeSlashIcon,
+  LockClosedIcon
 } from '@heroicons/react/24/outline';
 import { useAppStore } from '../store/useAppStore';
-import { openRouterApi } from '../services/openRouterApi';
+import { openRouterApi, DEFAULT_MODEL } from '../services/openRouterApi';
 import { imgbbApi } from '../services/imgbbApi';
 import { cn } from '../utils/cn';
+import { TemplateLibrary } from '../components/Settings/TemplateLibrary';
+import { TagRulesEditor } from '../components/Settings/TagRulesEditor';
+import { ModelPicker } from '../components/Analyze/ModelPicker';
+import { ProviderSettings } from '../components/Settings/ProviderSettings';
+import { VaultSettings } from '../components/Settings/VaultSettings';
+import { ProxySettings } from '../components/Settings/ProxySettings';
+import { ImageHostSettings } from '../components/Settings/ImageHostSettings';
+import { RetryPolicySettings } from '../components/Settings/RetryPolicySettings';
+import { OUTPUT_FORMAT_DESCRIPTIONS, OUTPUT_FORMAT_LABELS } from '../utils/outputFormats';
+import { DEFAULT_RETRY_POLICY } from '../utils/retryPolicy';
+import { ApiConfig, ImageHostId, OutputFormat, ProxyConfig, ResultMode, RetryPolicy, VisionProviderId } from '../types';
 
 interface ApiKeyTestResult {
   isValid: boolean;
@@ -21,7 +33,7 @@ interface ApiKeyTestResult {
 }
 
 export function Settings() {
-  const { apiConfig, userSettings, updateApiConfig, updateUserSettings } = useAppStore();
+  const { apiConfig, userSettings, vaultStatus, updateApiConfig, updateUserSettings } = useAppStore();
   
   // API Keys
   const [openRouterKey, setOpenRouterKey] = useState(apiConfig.openRouterKey || '');
@@ -29,6 +41,15 @@ export function Settings() {
   const [showOpenRouterKey, setShowOpenRouterKey] = useState(false);
   const [showImgbbKey, setShowImgbbKey] = useState(false);
   
+  // Vision Provider
+  const [provider, setProvider] = useState<VisionProviderId>(apiConfig.provider || 'openrouter');
+  const [providerConfigs, setProviderConfigs] = useState<NonNullable<ApiConfig['providers']>>(apiConfig.providers || {});
+  const [proxy, setProxy] = useState<ProxyConfig>(apiConfig.proxy || { enabled: false });
+  
+  // Image Host
+  const [imageHost, setImageHost] = useState<ImageHostId>(apiConfig.imageHost || 'imgbb');
+  const [imageHosts, setImageHosts] = useState<NonNullable<ApiConfig['imageHosts']>>(apiConfig.imageHosts || {});
+  
   // Test Results
   const [openRouterTest, setOpenRouterTest] = useState<ApiKeyTestResult>({
     isValid: false,
@@ -45,7 +66,12 @@ export function Settings() {
   const [language, setLanguage] = useState(userSettings.language);
   const [outputFormat, setOutputFormat] = useState(userSettings.outputFormat);
   const [autoSave, setAutoSave] = useState(userSettings.autoSave);
+  const [streamOutput, setStreamOutput] = useState(userSettings.streamOutput);
+  const [resultMode, setResultMode] = useState(userSettings.resultMode);
+  const [defaultModel, setDefaultModel] = useState(userSettings.defaultModel);
   const [maxHistoryItems, setMaxHistoryItems] = useState(userSettings.maxHistoryItems);
+  const [uploadExpiration, setUploadExpiration] = useState(userSettings.uploadExpiration);
+  const [retryPolicy, setRetryPolicy] = useState<RetryPolicy>(userSettings.retryPolicy);
   
   // Save status
   const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
@@ -60,6 +86,18 @@ export function Settings() {
     }
   }, []);
 
+  useEffect(() => {
+    // 保险箱解锁后显示解密出的密钥
+    if (vaultStatus === 'unlocked') {
+      const { apiConfig: unlockedConfig } = useAppStore.getState();
+      setOpenRouterKey(unlockedConfig.openRouterKey || '');
+      setImgbbKey(unlockedConfig.imgbbKey || '');
+      setProviderConfigs(unlockedConfig.providers || {});
+      setProxy(unlockedConfig.proxy || { enabled: false });
+      setImageHosts(unlockedConfig.imageHosts || {});
+    }
+  }, [vaultStatus]);
+
   const testOpenRouterKey = async (key: string) => {
     if (!key.trim()) {
       setOpenRouterTest({ isValid: false, message: '', isLoading: false });
@@ -116,18 +154,30 @@ export function Settings() {
     setSaveStatus('saving');
     
     try {
-      // 更新API配置
-      updateApiConfig({
-        openRouterKey: openRouterKey.trim(),
-        imgbbKey: imgbbKey.trim()
-      });
+      // 更新API配置（保险箱锁定时密钥不可修改）
+      if (vaultStatus !== 'locked') {
+        updateApiConfig({
+          openRouterKey: openRouterKey.trim(),
+          imgbbKey: imgbbKey.trim(),
+          provider,
+          providers: providerConfigs,
+          proxy: { ...proxy, token: proxy.token?.trim() },
+          imageHost,
+          imageHosts
+        });
+      }
       
       // 更新用户设置
       updateUserSettings({
         language,
         outputFormat,
         autoSave,
-        maxHistoryItems
+        streamOutput,
+        resultMode,
+        defaultModel,
+        maxHistoryItems,
+        uploadExpiration,
+        retryPolicy
       });
       
       setSaveStatus('saved');
@@ -144,9 +194,19 @@ export function Settings() {
       setLanguage('zh');
       setOutputFormat('detailed');
       setAutoSave(true);
+      setStreamOutput(true);
+      setResultMode('prompt');
+      setDefaultModel(DEFAULT_MODEL);
       setMaxHistoryItems(100);
+      setUploadExpiration(0);
+      setRetryPolicy(DEFAULT_RETRY_POLICY);
       setOpenRouterKey('');
       setImgbbKey('');
+      setProvider('openrouter');
+      setProviderConfigs({});
+      setProxy({ enabled: false });
+      setImageHost('imgbb');
+      setImageHosts({});
       setOpenRouterTest({ isValid: false, message: '', isLoading: false });
       setImgbbTest({ isValid: false, message: '', isLoading: false });
     }
@@ -180,12 +240,35 @@ export function Settings() {
           </p>
         </div>
         
+        {vaultStatus === 'locked' ? (
+        <div className="px-6 py-6">
+          <div className="flex items-start text-sm text-gray-600">
+            <LockClosedIcon className="h-5 w-5 mr-2 text-yellow-500 flex-shrink-0" />
+            <span>API 密钥已加密锁定，请在页面顶部输入保险箱密码解锁后再查看或修改。</span>
+          </div>
+        </div>
+        ) : (
         <div className="px-6 py-6 space-y-6">
+          {/* Vision Provider */}
+          <ProviderSettings
+            provider={provider}
+            configs={providerConfigs}
+            onProviderChange={setProvider}
+            onConfigChange={(id, config) => setProviderConfigs({ ...providerConfigs, [id]: config })}
+          />
+
+          {/* Proxy Mode */}
+          <ProxySettings value={proxy} onChange={setProxy} />
+
           {/* OpenRouter API Key */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
               OpenRouter API Key
-              <span className="text-red-500 ml-1">*</span>
+              {provider === 'openrouter' && !proxy.enabled ? (
+                <span className="text-red-500 ml-1">*</span>
+              ) : (
+                <span className="text-gray-400 ml-1">(可选)</span>
+              )}
             </label>
             <div className="space-y-2">
               <div className="relative">
@@ -326,9 +409,21 @@ export function Settings() {
               </div>
             </div>
           </div>
+
+          {/* Image Host */}
+          <ImageHostSettings
+            host={imageHost}
+            configs={imageHosts}
+            onHostChange={setImageHost}
+            onConfigChange={setImageHosts}
+          />
         </div>
+        )}
       </div>
 
+      {/* Key Vault */}
+      <VaultSettings />
+
       {/* User Preferences Section */}
       <div className="bg-white shadow-sm rounded-lg">
         <div className="px-6 py-4 border-b border-gray-200">
@@ -360,6 +455,19 @@ export function Settings() {
             </p>
           </div>
 
+          {/* Default Model */}
+          {provider === 'openrouter' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                默认分析模型
+              </label>
+              <ModelPicker value={defaultModel} onChange={setDefaultModel} />
+              <p className="mt-1 text-xs text-gray-500">
+                仅列出支持图片输入的模型，模型目录每 24 小时自动更新，网络不可用时使用内置列表
+              </p>
+            </div>
+          )}
+
           {/* Output Format */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -367,14 +475,33 @@ export function Settings() {
             </label>
             <select
               value={outputFormat}
-              onChange={(e) => setOutputFormat(e.target.value as 'detailed' | 'concise')}
+              onChange={(e) => setOutputFormat(e.target.value as OutputFormat)}
+              className="block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+            >
+              {(Object.keys(OUTPUT_FORMAT_LABELS) as OutputFormat[]).map(format => (
+                <option key={format} value={format}>{OUTPUT_FORMAT_LABELS[format]}</option>
+              ))}
+            </select>
+            <p className="mt-1 text-xs text-gray-500">
+              控制AI分析结果的详细程度和格式：{OUTPUT_FORMAT_DESCRIPTIONS[outputFormat]}
+            </p>
+          </div>
+
+          {/* Result Mode */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              结果模式
+            </label>
+            <select
+              value={resultMode}
+              onChange={(e) => setResultMode(e.target.value as ResultMode)}
               className="block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
             >
-              <option value="concise">简洁模式</option>
-              <option value="detailed">详细模式</option>
+              <option value="prompt">单段提示词</option>
+              <option value="structured">结构化维度</option>
             </select>
             <p className="mt-1 text-xs text-gray-500">
-              控制AI分析结果的详细程度和格式
+              结构化模式下模型按 8 个视觉维度返回JSON，可单独修改某个维度后重新组合提示词（不使用输出格式和流式输出）
             </p>
           </div>
 
@@ -405,6 +532,33 @@ export function Settings() {
             </button>
           </div>
 
+          {/* Stream Output */}
+          <div className="flex items-center justify-between">
+            <div>
+              <label className="text-sm font-medium text-gray-700">
+                流式输出
+              </label>
+              <p className="text-xs text-gray-500">
+                边生成边显示分析结果，可随时停止，避免慢速模型请求超时
+              </p>
+            </div>
+            <button
+              type="button"
+              onClick={() => setStreamOutput(!streamOutput)}
+              className={cn(
+                'relative inline-flex h-6 w-11 flex-shrink-0 cursor-pointer rounded-full border-2 border-transparent transition-colors duration-200 ease-in-out focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2',
+                streamOutput ? 'bg-blue-600' : 'bg-gray-200'
+              )}
+            >
+              <span
+                className={cn(
+                  'pointer-events-none inline-block h-5 w-5 transform rounded-full bg-white shadow ring-0 transition duration-200 ease-in-out',
+                  streamOutput ? 'translate-x-5' : 'translate-x-0'
+                )}
+              />
+            </button>
+          </div>
+
           {/* Max History Items */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -422,9 +576,40 @@ export function Settings() {
               超过此数量时，旧记录将被自动删除 (10-1000)
             </p>
           </div>
+
+          {/* Upload Expiration */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              远程图片保存时长
+            </label>
+            <select
+              value={uploadExpiration}
+              onChange={(e) => setUploadExpiration(parseInt(e.target.value))}
+              className="block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value={0}>永久保存</option>
+              <option value={60 * 60}>1 小时</option>
+              <option value={24 * 60 * 60}>1 天</option>
+              <option value={7 * 24 * 60 * 60}>7 天</option>
+              <option value={30 * 24 * 60 * 60}>30 天</option>
+              <option value={180 * 24 * 60 * 60}>180 天</option>
+            </select>
+            <p className="mt-1 text-xs text-gray-500">
+              对之后上传的图片生效。ImgBB 到期自动删除；S3 未设置公开地址时为预签名地址的有效期（最长 7 天），其他情况需在存储端自行清理
+            </p>
+          </div>
+
+          {/* Retry Policy */}
+          <RetryPolicySettings value={retryPolicy} onChange={setRetryPolicy} />
         </div>
       </div>
 
+      {/* Prompt Templates */}
+      <TemplateLibrary />
+
+      {/* Auto Tagging */}
+      <TagRulesEditor />
+
       {/* Action Buttons */}
       <div className="flex justify-between">
         <button
@@ -460,7 +645,7 @@ export function Settings() {
       </div>
 
       {/* Warning for missing API keys */}
-      {!openRouterKey && (
+      {provider === 'openrouter' && !openRouterKey && !proxy.enabled && vaultStatus !== 'locked' && (
         <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
           <div className="flex">
             <ExclamationTriangleIcon className="h-5 w-5 text-yellow-400 flex-shrink-0" />
@@ -0,0 +1,319 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  ChartBarIcon,
+  CurrencyDollarIcon,
+  CpuChipIcon,
+  DocumentTextIcon,
+  ExclamationTriangleIcon,
+  WalletIcon
+} from '@heroicons/react/24/outline';
+import { useAppStore } from '../store/useAppStore';
+import { openRouterApi } from '../services/openRouterApi';
+import { OpenRouterKeyInfo } from '../types';
+import { findTemplate } from '../utils/promptTemplates';
+import { historyDb } from '../utils/historyDb';
+import {
+  UsageEntry,
+  UsageTotals,
+  collectUsageEntries,
+  formatCost,
+  getDayKey,
+  getMonthKey,
+  groupUsage,
+  summarizeUsage
+} from '../utils/usageStats';
+import { cn } from '../utils/cn';
+
+// 每日趋势显示的天数
+const DAILY_RANGE = 30;
+
+function formatTokens(tokens: number): string {
+  return tokens.toLocaleString();
+}
+
+function UsageTable({ title, icon: Icon, rows }: {
+  title: string;
+  icon: React.ComponentType<{ className?: string }>;
+  rows: Array<{ key: string; label: string; totals: UsageTotals }>;
+}) {
+  return (
+    <div className="bg-white shadow-sm rounded-lg">
+      <div className="px-6 py-4 border-b border-gray-200">
+        <h2 className="text-lg font-medium text-gray-900 flex items-center">
+          <Icon className="h-5 w-5 mr-2" />
+          {title}
+        </h2>
+      </div>
+      {rows.length === 0 ? (
+        <p className="px-6 py-8 text-sm text-gray-500 text-center">暂无数据</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-2 text-left font-medium text-gray-500">名称</th>
+                <th className="px-4 py-2 text-right font-medium text-gray-500">次数</th>
+                <th className="px-4 py-2 text-right font-medium text-gray-500">输入Token</th>
+                <th className="px-4 py-2 text-right font-medium text-gray-500">输出Token</th>
+                <th className="px-4 py-2 text-right font-medium text-gray-500">平均耗时</th>
+                <th className="px-6 py-2 text-right font-medium text-gray-500">费用</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {rows.map(row => (
+                <tr key={row.key}>
+                  <td className="px-6 py-2 text-gray-900 break-all">{row.label}</td>
+                  <td className="px-4 py-2 text-right text-gray-700">{row.totals.count}</td>
+                  <td className="px-4 py-2 text-right text-gray-700">{formatTokens(row.totals.promptTokens)}</td>
+                  <td className="px-4 py-2 text-right text-gray-700">{formatTokens(row.totals.completionTokens)}</td>
+                  <td className="px-4 py-2 text-right text-gray-700">
+                    {row.totals.averageLatencyMs ? `${(row.totals.averageLatencyMs / 1000).toFixed(1)}s` : '-'}
+                  </td>
+                  <td className="px-6 py-2 text-right font-medium text-gray-900">{formatCost(row.totals.cost)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function Usage() {
+  const { historyChange, promptTemplates, userSettings, apiConfig, updateUserSettings } = useAppStore();
+
+  const [range, setRange] = useState<string>(getMonthKey(new Date())); // 月份键或 'all'
+  const [budgetInput, setBudgetInput] = useState(userSettings.monthlyBudget ? String(userSettings.monthlyBudget) : '');
+  const [keyInfo, setKeyInfo] = useState<OpenRouterKeyInfo | null>(null);
+  const [entries, setEntries] = useState<UsageEntry[]>([]);
+
+  useEffect(() => {
+    if ((apiConfig.provider ?? 'openrouter') !== 'openrouter' || !apiConfig.openRouterKey) return;
+
+    openRouterApi.getUsageStats()
+      .then(setKeyInfo)
+      .catch(() => setKeyInfo(null));
+  }, [apiConfig.provider, apiConfig.openRouterKey]);
+
+  // 逐条读取历史记录，只保留用量数据，历史记录变化时重新统计
+  useEffect(() => {
+    let cancelled = false;
+    const collected: UsageEntry[] = [];
+    historyDb.scan(record => collected.push(...collectUsageEntries([record])))
+      .then(() => {
+        if (!cancelled) setEntries(collected);
+      })
+      .catch(error => console.error('Failed to load usage:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [historyChange]);
+
+  const now = new Date();
+  const todayKey = getDayKey(now);
+  const monthKey = getMonthKey(now);
+  const today = summarizeUsage(entries.filter(entry => getDayKey(entry.timestamp) === todayKey));
+  const thisMonth = summarizeUsage(entries.filter(entry => getMonthKey(entry.timestamp) === monthKey));
+
+  // 最近 30 天每日汇总（包括没有调用的日期）
+  const daily = useMemo(() => {
+    const byDay = new Map(groupUsage(entries, entry => getDayKey(entry.timestamp)).map(group => [group.key, group.totals]));
+    return Array.from({ length: DAILY_RANGE }, (_, index) => {
+      const date = new Date();
+      date.setDate(date.getDate() - (DAILY_RANGE - 1 - index));
+      const key = getDayKey(date);
+      return { key, totals: byDay.get(key) ?? summarizeUsage([]) };
+    });
+  }, [entries]);
+  const maxDailyCost = Math.max(...daily.map(day => day.totals.cost), 0);
+  const maxDailyTokens = Math.max(...daily.map(day => day.totals.totalTokens), 0);
+
+  const monthly = useMemo(
+    () => groupUsage(entries, entry => getMonthKey(entry.timestamp)).sort((a, b) => b.key.localeCompare(a.key)),
+    [entries]
+  );
+
+  const rangeEntries = range === 'all' ? entries : entries.filter(entry => getMonthKey(entry.timestamp) === range);
+  const byModel = groupUsage(rangeEntries, entry => entry.model).map(group => ({ ...group, label: group.key }));
+  const byTemplate = groupUsage(rangeEntries, entry => entry.templateId || '').map(group => ({
+    ...group,
+    label: !group.key
+      ? '未记录模板'
+      : promptTemplates.some(template => template.id === group.key)
+        ? findTemplate(promptTemplates, group.key).name
+        : '已删除的模板',
+  }));
+
+  const budget = userSettings.monthlyBudget;
+  const budgetRatio = budget > 0 ? thisMonth.cost / budget : 0;
+
+  const handleSaveBudget = () => {
+    const value = parseFloat(budgetInput);
+    updateUserSettings({ monthlyBudget: Number.isFinite(value) && value > 0 ? value : 0 });
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-8">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">用量统计</h1>
+        <p className="mt-2 text-gray-600">
+          基于历史记录统计Token用量和估算费用（费用按模型目录中的价格计算，未保存的分析不计入）
+        </p>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+        {[
+          { label: '今日费用', value: formatCost(today.cost), hint: `${today.count} 次调用` },
+          { label: '本月费用', value: formatCost(thisMonth.cost), hint: `${thisMonth.count} 次调用` },
+          { label: '本月Token', value: formatTokens(thisMonth.totalTokens), hint: `输入 ${formatTokens(thisMonth.promptTokens)}` },
+          {
+            label: '本月平均耗时',
+            value: thisMonth.averageLatencyMs ? `${(thisMonth.averageLatencyMs / 1000).toFixed(1)}s` : '-',
+            hint: `输出 ${formatTokens(thisMonth.completionTokens)} Token`,
+          },
+        ].map(card => (
+          <div key={card.label} className="bg-white shadow-sm rounded-lg p-4">
+            <p className="text-sm text-gray-500">{card.label}</p>
+            <p className="mt-1 text-2xl font-semibold text-gray-900">{card.value}</p>
+            <p className="mt-1 text-xs text-gray-400">{card.hint}</p>
+          </div>
+        ))}
+      </div>
+
+      {/* Budget */}
+      <div className="bg-white shadow-sm rounded-lg">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-medium text-gray-900 flex items-center">
+            <WalletIcon className="h-5 w-5 mr-2" />
+            每月预算
+          </h2>
+          <p className="mt-1 text-sm text-gray-500">
+            设置后，预计会使本月费用超出预算的分析、批量任务和模型对比需要确认后才会执行
+          </p>
+        </div>
+        <div className="px-6 py-6 space-y-4">
+          <div className="flex items-center space-x-2">
+            <span className="text-sm text-gray-700">$</span>
+            <input
+              type="number"
+              min="0"
+              step="0.5"
+              value={budgetInput}
+              onChange={(e) => setBudgetInput(e.target.value)}
+              placeholder="不限制"
+              className="w-40 border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 text-sm"
+            />
+            <button
+              type="button"
+              onClick={handleSaveBudget}
+              className="inline-flex items-center px-3 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+            >
+              保存
+            </button>
+          </div>
+
+          {budget > 0 && (
+            <div>
+              <div className="flex justify-between text-sm text-gray-600 mb-1">
+                <span>本月已用 {formatCost(thisMonth.cost)} / {formatCost(budget)}</span>
+                <span>{Math.round(budgetRatio * 100)}%</span>
+              </div>
+              <div className="w-full bg-gray-200 rounded-full h-2">
+                <div
+                  className={cn(
+                    'h-2 rounded-full transition-all',
+                    budgetRatio >= 1 ? 'bg-red-500' : budgetRatio >= 0.8 ? 'bg-yellow-500' : 'bg-blue-600'
+                  )}
+                  style={{ width: `${Math.min(budgetRatio, 1) * 100}%` }}
+                />
+              </div>
+              {budgetRatio >= 0.8 && (
+                <p className="mt-2 flex items-center text-xs text-yellow-700">
+                  <ExclamationTriangleIcon className="h-4 w-4 mr-1" />
+                  {budgetRatio >= 1 ? '本月费用已超出预算' : '本月费用已接近预算'}
+                </p>
+              )}
+            </div>
+          )}
+
+          {keyInfo && (
+            <p className="text-xs text-gray-500">
+              OpenRouter 账户{keyInfo.label ? `（${keyInfo.label}）` : ''}已用额度 {formatCost(keyInfo.usage)}
+              {keyInfo.limit !== null && ` / 上限 ${formatCost(keyInfo.limit)}`}
+              {keyInfo.isFreeTier && '，免费账户'}
+            </p>
+          )}
+        </div>
+      </div>
+
+      {/* Daily Trend */}
+      <div className="bg-white shadow-sm rounded-lg">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-medium text-gray-900 flex items-center">
+            <ChartBarIcon className="h-5 w-5 mr-2" />
+            最近 {DAILY_RANGE} 天
+          </h2>
+        </div>
+        <div className="px-6 py-6">
+          <div className="flex items-end h-40 space-x-1">
+            {daily.map(day => {
+              // 全部为免费模型时按Token用量显示
+              const ratio = maxDailyCost > 0
+                ? day.totals.cost / maxDailyCost
+                : maxDailyTokens > 0 ? day.totals.totalTokens / maxDailyTokens : 0;
+              return (
+                <div
+                  key={day.key}
+                  className="flex-1 flex flex-col justify-end h-full"
+                  title={`${day.key}：${day.totals.count} 次，${formatTokens(day.totals.totalTokens)} Token，${formatCost(day.totals.cost)}`}
+                >
+                  <div
+                    className={cn('rounded-t', day.key === todayKey ? 'bg-blue-600' : 'bg-blue-300')}
+                    style={{ height: `${Math.max(ratio * 100, day.totals.count > 0 ? 2 : 0)}%` }}
+                  />
+                </div>
+              );
+            })}
+          </div>
+          <div className="mt-2 flex justify-between text-xs text-gray-400">
+            <span>{daily[0].key}</span>
+            <span>{maxDailyCost > 0 ? '按费用' : '按Token'}</span>
+            <span>{todayKey}</span>
+          </div>
+        </div>
+      </div>
+
+      {/* Monthly Totals */}
+      <UsageTable
+        title="按月汇总"
+        icon={CurrencyDollarIcon}
+        rows={monthly.map(group => ({ ...group, label: group.key }))}
+      />
+
+      {/* Breakdown Range */}
+      <div className="flex items-center justify-end">
+        <label className="text-sm text-gray-700 mr-2">统计范围</label>
+        <select
+          value={range}
+          onChange={(e) => setRange(e.target.value)}
+          className="text-sm border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+        >
+          {!monthly.some(group => group.key === monthKey) && (
+            <option value={monthKey}>{monthKey}</option>
+          )}
+          {monthly.map(group => (
+            <option key={group.key} value={group.key}>{group.key}</option>
+          ))}
+          <option value="all">全部时间</option>
+        </select>
+      </div>
+
+      <UsageTable title="按模型" icon={CpuChipIcon} rows={byModel} />
+      <UsageTable title="按模板" icon={DocumentTextIcon} rows={byTemplate} />
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import { ImageHostId, RemoteDeleteResult, RemoteImage } from '../../types';
+
+// 上传选项
+export interface ImageUploadOptions {
+  name?: string; // 不含扩展名的文件名
+  expiration?: number; // 保存时长（秒），图床支持时到期自动删除
+  signal?: AbortSignal;
+}
+
+/**
+ * 图床接口
+ * 上传后返回可供模型访问的图片地址，以及之后删除远程副本所需的信息
+ */
+export interface ImageHost {
+  readonly id: ImageHostId;
+  readonly label: string;
+  readonly remote: boolean; // 是否上传到远程存储（inline 把图片直接内嵌在分析请求中）
+
+  /** 是否已具备上传所需的配置 */
+  isConfigured(): boolean;
+
+  upload(file: File, options?: ImageUploadOptions): Promise<RemoteImage>;
+
+  /** 删除远程副本 */
+  deleteImage(image: RemoteImage): Promise<RemoteDeleteResult>;
+}
+
+/**
+ * 从文件名中去掉扩展名，用作上传时的名称
+ */
+export function getUploadName(file: File): string {
+  return file.name.replace(/\.[^.]+$/, '') || 'image';
+}
+
+/**
+ * 根据HTTP状态码生成上传错误
+ */
+export function createUploadError(label: string, status: number | undefined, message: string): Error {
+  switch (status) {
+    case 401:
+    case 403:
+      return new Error(`${label} 拒绝访问，请检查密钥和权限`);
+    case 413:
+      return new Error('图片文件过大');
+    case 429:
+      return new Error('上传频率超限，请稍后重试');
+    default:
+      return new Error(`上传失败${status ? ` (${status})` : ''}: ${message}`);
+  }
+}
@@ -0,0 +1,35 @@
+import { ApiConfig, ImageHostId } from '../../types';
+import { imgbbApi } from '../imgbbApi';
+import { ImageHost } from './imageHost';
+import { s3ImageHost } from './s3Host';
+import { multipartImageHost } from './multipartHost';
+import { inlineImageHost } from './inlineHost';
+
+export type { ImageHost, ImageUploadOptions } from './imageHost';
+
+// 所有可选的图床
+export const IMAGE_HOSTS: Record<ImageHostId, ImageHost> = {
+  imgbb: imgbbApi,
+  s3: s3ImageHost,
+  multipart: multipartImageHost,
+  inline: inlineImageHost,
+};
+
+export const IMAGE_HOST_IDS = Object.keys(IMAGE_HOSTS) as ImageHostId[];
+
+/**
+ * 获取图床实例，未指定时使用 ImgBB
+ */
+export function getImageHost(id: ImageHostId = 'imgbb'): ImageHost {
+  return IMAGE_HOSTS[id] ?? imgbbApi;
+}
+
+/**
+ * 将API配置同步到所有图床实例
+ */
+export function configureImageHosts(apiConfig: ApiConfig): void {
+  imgbbApi.setApiKey(apiConfig.imgbbKey || '');
+  imgbbApi.setProxy(apiConfig.proxy);
+  s3ImageHost.configure(apiConfig.imageHosts?.s3 ?? {});
+  multipartImageHost.configure(apiConfig.imageHosts?.multipart ?? {});
+}
@@ -0,0 +1,27 @@
+import { RemoteDeleteResult, RemoteImage } from '../../types';
+import { toImageUrl } from '../providers/visionProvider';
+import { ImageHost } from './imageHost';
+
+/**
+ * 不上传：图片以 data URL 内嵌在分析请求中，不保存远程副本
+ */
+class InlineImageHost implements ImageHost {
+  readonly id = 'inline' as const;
+  readonly label = '不上传（内嵌在请求中）';
+  readonly remote = false;
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async upload(file: File): Promise<RemoteImage> {
+    return { host: this.id, url: await toImageUrl(file), uploadedAt: Date.now() };
+  }
+
+  async deleteImage(): Promise<RemoteDeleteResult> {
+    return { status: 'deleted' };
+  }
+}
+
+// 导出单例实例
+export const inlineImageHost = new InlineImageHost();
@@ -0,0 +1,104 @@
+import { MultipartHostConfig, RemoteDeleteResult, RemoteImage } from '../../types';
+import { describeError } from '../../utils/safeLog';
+import { ImageHost, ImageUploadOptions, createUploadError, getUploadName } from './imageHost';
+
+/**
+ * 按点分路径读取响应中的字段，如 data.url
+ */
+export function readResponseField(data: unknown, path: string): unknown {
+  return path
+    .split('.')
+    .filter(Boolean)
+    .reduce<unknown>((value, key) => (value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined), data);
+}
+
+/**
+ * 通用 multipart 上传接口：以表单上传文件，从返回的 JSON 中读取图片地址
+ */
+class MultipartImageHost implements ImageHost {
+  readonly id = 'multipart' as const;
+  readonly label = '自定义上传接口';
+  readonly remote = true;
+  private config: MultipartHostConfig = {};
+
+  configure(config: MultipartHostConfig): void {
+    this.config = { ...config };
+  }
+
+  isConfigured(): boolean {
+    return !!this.config.url?.trim();
+  }
+
+  private getHeaders(): Record<string, string> {
+    return this.config.authorization ? { 'Authorization': this.config.authorization } : {};
+  }
+
+  async upload(file: File, options: ImageUploadOptions = {}): Promise<RemoteImage> {
+    if (!this.isConfigured()) {
+      throw new Error('请先配置上传接口地址');
+    }
+
+    const formData = new FormData();
+    formData.append(this.config.fieldName?.trim() || 'file', file, file.name || `${options.name || getUploadName(file)}.jpg`);
+
+    let response: Response;
+    try {
+      response = await fetch(this.config.url!.trim(), {
+        method: 'POST',
+        headers: this.getHeaders(),
+        body: formData,
+        signal: options.signal,
+      });
+    } catch (error) {
+      if (options.signal?.aborted) {
+        throw new Error('上传已取消');
+      }
+      console.error('Multipart upload error:', describeError(error));
+      throw new Error('无法连接上传接口，请检查地址和跨域设置');
+    }
+
+    const text = await response.text();
+    if (!response.ok) {
+      console.error('Multipart upload error:', { status: response.status });
+      throw createUploadError(this.label, response.status, text.slice(0, 200) || response.statusText);
+    }
+
+    // 接口可以返回 JSON，也可以直接返回图片地址文本
+    let data: unknown = text.trim();
+    try {
+      data = JSON.parse(text);
+    } catch {
+      // 非 JSON 响应按纯文本地址处理
+    }
+
+    const url = typeof data === 'string' ? data : readResponseField(data, this.config.urlField?.trim() || 'url');
+    if (typeof url !== 'string' || !/^https?:\/\//i.test(url)) {
+      throw new Error('上传接口未返回有效的图片地址，请检查图片地址字段设置');
+    }
+
+    const deleteUrl = this.config.deleteUrlField?.trim()
+      ? readResponseField(data, this.config.deleteUrlField.trim())
+      : undefined;
+    return {
+      host: this.id,
+      url,
+      uploadedAt: Date.now(),
+      ...(typeof deleteUrl === 'string' && deleteUrl ? { deleteUrl } : {}),
+    };
+  }
+
+  async deleteImage(image: RemoteImage): Promise<RemoteDeleteResult> {
+    if (!image.deleteUrl) {
+      throw new Error('上传接口没有返回删除地址，无法删除');
+    }
+
+    const response = await fetch(image.deleteUrl, { method: 'DELETE', headers: this.getHeaders() });
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`删除失败 (${response.status}): ${response.statusText}`);
+    }
+    return { status: 'deleted' };
+  }
+}
+
+// 导出单例实例
+export const multipartImageHost = new MultipartImageHost();
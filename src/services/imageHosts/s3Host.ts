@@ -0,0 +1,171 @@
+import { RemoteDeleteResult, RemoteImage, S3HostConfig } from '../../types';
+import { describeError } from '../../utils/safeLog';
+import { ImageHost, ImageUploadOptions, createUploadError, getUploadName } from './imageHost';
+
+// 未设置公开地址时，图片地址使用预签名 GET，SigV4 允许的最长有效期为 7 天
+const PRESIGNED_GET_EXPIRES = 7 * 24 * 60 * 60;
+// 上传和删除用的预签名地址有效期
+const PRESIGNED_WRITE_EXPIRES = 5 * 60;
+
+const encoder = new TextEncoder();
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+async function sha256Hex(text: string): Promise<string> {
+  return toHex(await crypto.subtle.digest('SHA-256', encoder.encode(text)));
+}
+
+async function hmac(key: ArrayBuffer | Uint8Array, text: string): Promise<ArrayBuffer> {
+  const cryptoKey = await crypto.subtle.importKey('raw', key, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(text));
+}
+
+// SigV4 要求的 URI 编码（RFC 3986，保留 - _ . ~）
+function encodeRfc3986(text: string): string {
+  return encodeURIComponent(text).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+// 20130524T000000Z 格式的时间
+function toAmzDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * 生成 S3 预签名地址（AWS Signature Version 4，查询参数签名，只签名 host 请求头）
+ */
+export async function presignS3Url(
+  config: S3HostConfig,
+  method: 'GET' | 'PUT' | 'DELETE',
+  key: string,
+  expiresSeconds: number,
+  now: Date = new Date()
+): Promise<string> {
+  const endpoint = new URL(config.endpoint || '');
+  const region = config.region || 'us-east-1';
+  const encodedKey = key.split('/').map(encodeRfc3986).join('/');
+  const basePath = endpoint.pathname.replace(/\/+$/, '');
+  const host = config.virtualHosted ? `${config.bucket}.${endpoint.host}` : endpoint.host;
+  const path = config.virtualHosted
+    ? `${basePath}/${encodedKey}`
+    : `${basePath}/${encodeRfc3986(config.bucket || '')}/${encodedKey}`;
+
+  const amzDate = toAmzDate(now);
+  const scope = `${amzDate.slice(0, 8)}/${region}/s3/aws4_request`;
+  const query: Record<string, string> = {
+    'X-Amz-Algorithm': 'AWS4-HMAC-SHA256',
+    'X-Amz-Credential': `${config.accessKeyId}/${scope}`,
+    'X-Amz-Date': amzDate,
+    'X-Amz-Expires': String(expiresSeconds),
+    'X-Amz-SignedHeaders': 'host',
+  };
+  const canonicalQuery = Object.keys(query)
+    .sort()
+    .map(name => `${encodeRfc3986(name)}=${encodeRfc3986(query[name])}`)
+    .join('&');
+
+  const canonicalRequest = [method, path, canonicalQuery, `host:${host}\n`, 'host', 'UNSIGNED-PAYLOAD'].join('\n');
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, await sha256Hex(canonicalRequest)].join('\n');
+
+  let signingKey = await hmac(encoder.encode(`AWS4${config.secretAccessKey}`), amzDate.slice(0, 8));
+  for (const part of [region, 's3', 'aws4_request']) {
+    signingKey = await hmac(signingKey, part);
+  }
+  const signature = toHex(await hmac(signingKey, stringToSign));
+
+  return `${endpoint.protocol}//${host}${path}?${canonicalQuery}&X-Amz-Signature=${signature}`;
+}
+
+/**
+ * S3 兼容存储（AWS S3、MinIO 等），在浏览器中签名后直接 PUT 上传
+ */
+class S3ImageHost implements ImageHost {
+  readonly id = 's3' as const;
+  readonly label = 'S3 存储';
+  readonly remote = true;
+  private config: S3HostConfig = {};
+
+  configure(config: S3HostConfig): void {
+    this.config = { ...config };
+  }
+
+  isConfigured(): boolean {
+    const { endpoint, bucket, accessKeyId, secretAccessKey } = this.config;
+    return !!(endpoint?.trim() && bucket?.trim() && accessKeyId?.trim() && secretAccessKey?.trim());
+  }
+
+  /**
+   * 生成对象键：前缀 + 年月目录 + 随机名称，保留原扩展名
+   */
+  private createObjectKey(file: File, name: string): string {
+    const extension = file.name.match(/\.[A-Za-z0-9]+$/)?.[0]?.toLowerCase() || '.jpg';
+    const safeName = name.replace(/[^A-Za-z0-9_-]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40) || 'image';
+    const month = new Date().toISOString().slice(0, 7);
+    const random = Math.random().toString(36).slice(2, 10);
+    return `${this.config.keyPrefix || ''}${month}/${Date.now()}-${random}-${safeName}${extension}`;
+  }
+
+  async upload(file: File, options: ImageUploadOptions = {}): Promise<RemoteImage> {
+    if (!this.isConfigured()) {
+      throw new Error('请先配置S3存储');
+    }
+
+    const key = this.createObjectKey(file, options.name || getUploadName(file));
+    const uploadUrl = await presignS3Url(this.config, 'PUT', key, PRESIGNED_WRITE_EXPIRES);
+
+    let response: Response;
+    try {
+      response = await fetch(uploadUrl, {
+        method: 'PUT',
+        headers: { 'Content-Type': file.type || 'application/octet-stream' },
+        body: file,
+        signal: options.signal,
+      });
+    } catch (error) {
+      if (options.signal?.aborted) {
+        throw new Error('上传已取消');
+      }
+      console.error('S3 upload error:', describeError(error));
+      throw new Error('无法连接S3存储，请检查地址和跨域设置');
+    }
+
+    if (!response.ok) {
+      console.error('S3 upload error:', { status: response.status });
+      throw createUploadError(this.label, response.status, response.statusText);
+    }
+
+    const uploadedAt = Date.now();
+    const publicUrl = this.config.publicUrl?.trim().replace(/\/+$/, '');
+    if (publicUrl) {
+      // 公开地址不会失效，到期删除需在存储桶上配置生命周期规则
+      return { host: this.id, url: `${publicUrl}/${key.split('/').map(encodeRfc3986).join('/')}`, key, uploadedAt };
+    }
+
+    // 预签名地址的有效期同时作为图片的保存时长
+    const expires = Math.min(options.expiration || PRESIGNED_GET_EXPIRES, PRESIGNED_GET_EXPIRES);
+    const url = await presignS3Url(this.config, 'GET', key, expires);
+    return { host: this.id, url, key, uploadedAt, expiresAt: uploadedAt + expires * 1000 };
+  }
+
+  async deleteImage(image: RemoteImage): Promise<RemoteDeleteResult> {
+    if (!image.key) {
+      throw new Error('缺少S3对象键，无法删除');
+    }
+    if (!this.isConfigured()) {
+      throw new Error('请先配置S3存储');
+    }
+
+    const response = await fetch(await presignS3Url(this.config, 'DELETE', image.key, PRESIGNED_WRITE_EXPIRES), {
+      method: 'DELETE',
+    });
+    // 对象已不存在时视为删除成功（S3 返回 204，部分兼容存储返回 404）
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`删除失败 (${response.status}): ${response.statusText}`);
+    }
+    return { status: 'deleted' };
+  }
+}
+
+// 导出单例实例
+export const s3ImageHost = new S3ImageHost();
@@ -1,5 +1,9 @@
 import axios from 'axios';
-import { ImgBBResponse } from '../types';
+import { ImgBBResponse, ProxyConfig, RemoteDeleteResult, RemoteImage } from '../types';
+import { describeError } from '../utils/safeLog';
+import { fileToBase64 } from '../utils/imageUtils';
+import { PROXY_UPLOAD_URL, getProxyHeaders, resolveProxy } from './proxy';
+import { ImageHost, ImageUploadOptions, getUploadName } from './imageHosts/imageHost';
 
 // ImgBB API配置
 const IMGBB_API_URL = 'https://api.imgbb.com/1/upload';
@@ -7,8 +11,12 @@ const IMGBB_API_URL = 'https://api.imgbb.com/1/upload';
 /**
  * ImgBB图床API服务类
  */
-class ImgBBApiService {
+class ImgBBApiService implements ImageHost {
+  readonly id = 'imgbb' as const;
+  readonly label = 'ImgBB';
+  readonly remote = true;
   private apiKey: string = '';
+  private proxy: ProxyConfig | null = null;
 
   /**
    * 设置API Key
@@ -17,6 +25,13 @@ class ImgBBApiService {
     this.apiKey = apiKey;
   }
 
+  /**
+   * 设置代理模式，启用后经代理服务器上传，不需要本地密钥
+   */
+  setProxy(proxy?: ProxyConfig): void {
+    this.proxy = resolveProxy(proxy);
+  }
+
   /**
    * 验证API Key是否已设置
    */
@@ -24,6 +39,35 @@ class ImgBBApiService {
     return !!this.apiKey && this.apiKey.trim().length > 0;
   }
 
+  /**
+   * 是否已具备上传所需的配置
+   */
+  isConfigured(): boolean {
+    return !!this.proxy || this.validateApiKey();
+  }
+
+  /**
+   * 上传图片文件（图床接口）
+   */
+  async upload(file: File, options: ImageUploadOptions = {}): Promise<RemoteImage> {
+    const base64 = await fileToBase64(file);
+    return this.uploadImage(base64, {
+      name: options.name || getUploadName(file),
+      expiration: options.expiration,
+      signal: options.signal,
+    });
+  }
+
+  /**
+   * ImgBB 没有删除接口，返回删除页面由用户确认
+   */
+  async deleteImage(image: RemoteImage): Promise<RemoteDeleteResult> {
+    if (!image.deleteUrl) {
+      throw new Error('该图片没有保存删除链接，请登录 ImgBB 手动删除');
+    }
+    return { status: 'confirm', url: image.deleteUrl };
+  }
+
   /**
    * 上传图片到ImgBB
    */
@@ -32,45 +76,59 @@ class ImgBBApiService {
     options: {
       name?: string;
       expiration?: number; // 过期时间（秒）
+      signal?: AbortSignal;
     } = {}
-  ): Promise<string> {
-    if (!this.validateApiKey()) {
+  ): Promise<RemoteImage> {
+    if (!this.isConfigured()) {
       throw new Error('请先设置ImgBB API Key');
     }
 
-    const { name, expiration } = options;
+    const { name, expiration, signal } = options;
 
     try {
-      const formData = new FormData();
-      formData.append('key', this.apiKey);
-      formData.append('image', base64Image);
-      
-      if (name) {
-        formData.append('name', name);
-      }
-      
-      if (expiration) {
-        formData.append('expiration', expiration.toString());
-      }
-
-      const response = await axios.post<ImgBBResponse>(
-        IMGBB_API_URL,
-        formData,
-        {
-          headers: {
-            'Content-Type': 'multipart/form-data',
-          },
-          timeout: 30000, // 30秒超时
-        }
-      );
+      // 代理模式下由代理服务器附加密钥
+      const response = this.proxy
+        ? await axios.post<ImgBBResponse>(
+            PROXY_UPLOAD_URL,
+            { image: base64Image, name, expiration },
+            {
+              headers: getProxyHeaders(this.proxy),
+              timeout: 30000,
+              signal,
+            }
+          )
+        : await axios.post<ImgBBResponse>(
+            IMGBB_API_URL,
+            this.createFormData(base64Image, name, expiration),
+            {
+              headers: {
+                'Content-Type': 'multipart/form-data',
+              },
+              timeout: 30000, // 30秒超时
+              signal,
+            }
+          );
 
       if (!response.data.success) {
         throw new Error('图片上传失败');
       }
 
-      return response.data.data.url;
+      // ImgBB 返回的 time 和 expiration 均为秒，expiration 为 0 表示永久保存
+      const { url, delete_url, time, expiration: ttl } = response.data.data;
+      const uploadedAt = Number(time) > 0 ? Number(time) * 1000 : Date.now();
+      return {
+        host: this.id,
+        url,
+        deleteUrl: delete_url,
+        uploadedAt,
+        ...(Number(ttl) > 0 ? { expiresAt: uploadedAt + Number(ttl) * 1000 } : {}),
+      };
     } catch (error) {
-      console.error('ImgBB upload error:', error);
+      if (axios.isCancel(error)) {
+        throw new Error('上传已取消');
+      }
+
+      console.error('ImgBB upload error:', describeError(error));
       
       if (axios.isAxiosError(error)) {
         const status = error.response?.status;
@@ -98,6 +156,24 @@ class ImgBBApiService {
     }
   }
 
+  /**
+   * 直接上传到ImgBB的表单数据
+   */
+  private createFormData(base64Image: string, name?: string, expiration?: number): FormData {
+    const formData = new FormData();
+    formData.append('key', this.apiKey);
+    formData.append('image', base64Image);
+    
+    if (name) {
+      formData.append('name', name);
+    }
+    
+    if (expiration) {
+      formData.append('expiration', expiration.toString());
+    }
+    return formData;
+  }
+
   /**
    * 测试API Key是否有效
    */
@@ -127,7 +203,7 @@ class ImgBBApiService {
       
       return true;
     } catch (error) {
-      console.error('ImgBB API Key test failed:', error);
+      console.error('ImgBB API Key test failed:', describeError(error));
       return false;
     } finally {
       this.setApiKey(originalKey);
@@ -1,23 +1,122 @@
 import axios from 'axios';
-import { OpenRouterResponse } from '../types';
+import {
+  ModelInfo,
+  OpenRouterModelsResponse,
+  OpenRouterResponse,
+  OpenRouterKeyInfo,
+  OpenRouterStreamChunk,
+  ProviderConfig,
+  ProxyConfig,
+  TokenUsage
+} from '../types';
+import {
+  AnalyzeImageOptions,
+  AnalyzeImageResult,
+  AnalyzeImageStreamOptions,
+  StreamChunk,
+  VisionProvider,
+  buildAnalysisPrompt,
+  createNetworkError,
+  createStatusError,
+  mergeStreamUsage,
+  parseSseData,
+  postProcessContent,
+  readResponseLines,
+  toImageUrl,
+} from './providers/visionProvider';
+import { describeError, redactSecrets } from '../utils/safeLog';
+import { PROXY_ANALYZE_URL, getProxyHeaders, resolveProxy } from './proxy';
+
+export type { AnalyzeImageOptions, AnalyzeImageResult } from './providers/visionProvider';
+
+// 追问对话中的一条消息（首轮图片分析之后）
+export interface RefineMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
 
 // OpenRouter API配置
 const OPENROUTER_API_URL = 'https://openrouter.ai/api/v1/chat/completions';
+const OPENROUTER_MODELS_URL = 'https://openrouter.ai/api/v1/models';
+const OPENROUTER_KEY_URL = 'https://openrouter.ai/api/v1/key';
 
 // 默认模型
 export const DEFAULT_MODEL = 'google/gemma-3-27b-it:free';//'meta-llama/llama-4-maverick:free';
 
-// 提示词模板
-const PROMPT_TEMPLATES = {
-  zh: '请你同时扮演「图片提示词反推专家」和「合规审核优化师」，处理我提供的图片（或图片描述 / 原违规提示词）：先拆解图片 8 个核心视觉维度（主体信息、衣物 / 材质、场景环境、艺术风格、构图视角、色彩光影、细节特效、氛围情绪），确保捕捉所有关键视觉细节，不遗漏信息；基于拆解结果，按以下规则完成合规优化：暴露衣物替换为日常款（如长袖 T 恤 / 直筒裤 / 连衣裙 / 泳衣 / 比基尼），暧昧姿势调整为自然动作（如站立、微笑平视），私密场景优化为中性场景（如客厅、户外草地），词汇违规：删除 “性感 / 诱惑 / 暴露 / 挑逗” 等词，替换 “紧身 / 深 V” 为 “合身 / 圆领”；氛围违规：“性感氛围”→ 改为 “舒适日常氛围”，“暧昧光影”→ 改为 “柔和自然光”。无需展示上述拆解和优化过程，直接将合规后的所有信息整合成一段逻辑连贯、可直接用于 MidJourney/Stable Diffusion 的提示词，最终仅输出格式为「最终合规提示词」的内容，确保无任何 NSFW 元素且高度还原原图视觉风格、构图、光影和氛围。请使用中文回答',
-  en: 'Please act as both a "Image Prompt Reverse-Engineering Expert" and a "Compliance Review Optimizer" to process the image (or image description/original non-compliant prompt) I provide:First, disassemble the image into 8 core visual dimensions (subject information, clothing/materials, scene environment, artistic style, composition perspective, color and lighting, detailed effects, atmosphere and emotion), ensuring that all key visual details are captured without omitting any information;Based on the disassembly results, complete compliance optimization according to the following rules: Replace revealing clothing with daily styles (such as long-sleeved T-shirts/straight-leg pants/dresses/swimsuits/bikinis); adjust ambiguous poses to natural actions (such as standing, smiling and looking straight); optimize private scenes to neutral scenes (such as living room, outdoor grass); for non-compliant vocabulary: delete words like "sexy/tempting/revealing/teasing" and replace "tight/deep V" with "fitted/round neck";For atmosphere violations: "sexy atmosphere" → changed to "comfortable daily atmosphere"; "ambiguous lighting" → changed to "soft natural light".There is no need to show the above disassembly and optimization process. Directly integrate all compliant information into a coherent prompt that can be directly used for MidJourney/Stable Diffusion. Finally, only output the content in the format of "Final Compliant Prompt", ensuring that there are no NSFW elements and that it highly restores the original image\'s visual style, composition, lighting and atmosphere. Please answer in English',
-};
+// 离线或模型目录获取失败时使用的视觉模型列表
+export const FALLBACK_MODELS: ModelInfo[] = [
+  {
+    id: DEFAULT_MODEL,
+    name: 'Google: Gemma 3 27B (free)',
+    contextLength: 96000,
+    pricing: { prompt: 0, completion: 0 },
+    isFree: true,
+    inputModalities: ['text', 'image'],
+  },
+  {
+    id: 'meta-llama/llama-4-maverick:free',
+    name: 'Meta: Llama 4 Maverick (free)',
+    contextLength: 128000,
+    pricing: { prompt: 0, completion: 0 },
+    isFree: true,
+    inputModalities: ['text', 'image'],
+  },
+  {
+    id: 'google/gemini-2.0-flash-001',
+    name: 'Google: Gemini 2.0 Flash',
+    contextLength: 1048576,
+    pricing: { prompt: 0.0000001, completion: 0.0000004 },
+    isFree: false,
+    inputModalities: ['text', 'image'],
+  },
+  {
+    id: 'openai/gpt-4o-mini',
+    name: 'OpenAI: GPT-4o-mini',
+    contextLength: 128000,
+    pricing: { prompt: 0.00000015, completion: 0.0000006 },
+    isFree: false,
+    inputModalities: ['text', 'image'],
+  },
+  {
+    id: 'anthropic/claude-3-haiku',
+    name: 'Anthropic: Claude 3 Haiku',
+    contextLength: 200000,
+    pricing: { prompt: 0.00000025, completion: 0.00000125 },
+    isFree: false,
+    inputModalities: ['text', 'image'],
+  },
+];
 
 /**
  * OpenRouter API服务类
  */
-class OpenRouterApiService {
+class OpenRouterApiService implements VisionProvider {
+  readonly id = 'openrouter' as const;
+  readonly label = 'OpenRouter';
+  readonly defaultModel = DEFAULT_MODEL;
   private apiKey: string = '';
+  private proxy: ProxyConfig | null = null;
+
+  /**
+   * 更新服务商配置（OpenRouter 只使用密钥）
+   */
+  configure(config: ProviderConfig): void {
+    this.setApiKey(config.apiKey || '');
+  }
+
+  /**
+   * 设置代理模式，启用后分析请求经代理服务器转发，不需要本地密钥
+   */
+  setProxy(proxy?: ProxyConfig): void {
+    this.proxy = resolveProxy(proxy);
+  }
+
+  /**
+   * 是否已具备调用所需的配置
+   */
+  isConfigured(): boolean {
+    return !!this.proxy || this.validateApiKey();
+  }
 
   /**
    * 设置API Key
@@ -38,82 +137,59 @@ class OpenRouterApiService {
    */
   async analyzeImage(
     imageData: string | File,
-    options: {
-      model?: string;
-      language?: 'zh' | 'en';
-      customPrompt?: string;
-    } = {}
+    options: AnalyzeImageOptions = {}
   ): Promise<string> {
-    if (!this.validateApiKey()) {
-      throw new Error('请先设置OpenRouter API Key');
-    }
+    const { content } = await this.analyzeImageDetailed(imageData, options);
+    return content;
+  }
 
-    const {
-      model = DEFAULT_MODEL,
-      language = 'zh',
-      customPrompt,
-    } = options;
+  /**
+   * 分析图片，同时返回实际使用的模型、Token用量和耗时
+   */
+  async analyzeImageDetailed(
+    imageData: string | File,
+    options: AnalyzeImageOptions = {}
+  ): Promise<AnalyzeImageResult> {
+    return this.requestCompletion(imageData, options);
+  }
 
-    const prompt = customPrompt || PROMPT_TEMPLATES[language];
+  /**
+   * 继续优化已有结果：重新发送图片、首轮分析指令和之后的对话，返回模型修改后的提示词
+   */
+  async refineAnalysis(
+    imageData: string | File,
+    messages: RefineMessage[],
+    options: AnalyzeImageOptions = {}
+  ): Promise<AnalyzeImageResult> {
+    return this.requestCompletion(imageData, options, messages);
+  }
 
-    try {
-      let imageUrl: string;
-      
-      // 处理不同类型的图片输入
-      if (typeof imageData === 'string') {
-        // 如果是URL字符串，直接使用
-        imageUrl = imageData;
-      } else {
-        // 如果是File对象，转换为base64 data URL
-        const base64 = await this.fileToBase64(imageData);
-        imageUrl = `data:${imageData.type};base64,${base64}`;
-      }
+  /**
+   * 发送非流式聊天补全请求
+   */
+  private async requestCompletion(
+    imageData: string | File,
+    options: AnalyzeImageOptions,
+    followUps: RefineMessage[] = []
+  ): Promise<AnalyzeImageResult> {
+    if (!this.isConfigured()) {
+      throw new Error('请先设置OpenRouter API Key');
+    }
 
-      console.log('OpenRouter API Request:', {
-        model,
-        imageUrl: imageUrl.substring(0, 100) + '...',
-        prompt: prompt.substring(0, 100) + '...',
-        headers: {
-          'Authorization': `Bearer ${this.apiKey.substring(0, 10)}...`,
-          'HTTP-Referer': window.location.origin,
-          'X-Title': 'Image to Prompt App',
-        }
-      });
+    const { signal, outputFormat } = options;
 
-      const requestBody = {
-        model,
-        messages: [
-          {
-            role: 'user',
-            content: [
-              {
-                type: 'text',
-                text: prompt,
-              },
-              {
-                type: 'image_url',
-                image_url: {
-                  url: imageUrl,
-                },
-              },
-            ],
-          },
-        ],
-        max_tokens: 1000,
-        temperature: 0.7,
-      };
+    try {
+      const requestBody = await this.buildRequestBody(imageData, options, followUps);
+      const startedAt = performance.now();
 
+      const { url, headers } = this.getCompletionTarget();
       const response = await axios.post<OpenRouterResponse>(
-        OPENROUTER_API_URL,
+        url,
         requestBody,
         {
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${this.apiKey}`,
-            'HTTP-Referer': window.location.origin,
-            'X-Title': 'Image to Prompt App',
-          },
+          headers,
           timeout: 30000, // 30秒超时
+          signal,
         }
       );
 
@@ -126,65 +202,214 @@ class OpenRouterApiService {
         throw new Error('API未返回有效内容');
       }
 
-      return content.trim();
+      const { usage } = response.data;
+
+      return {
+        content: postProcessContent(content, outputFormat),
+        model: response.data.model || requestBody.model,
+        latencyMs: Math.round(performance.now() - startedAt),
+        usage: usage
+          ? {
+              promptTokens: usage.prompt_tokens,
+              completionTokens: usage.completion_tokens,
+              totalTokens: usage.total_tokens,
+            }
+          : undefined,
+      };
     } catch (error) {
-      console.error('OpenRouter API error:', error);
+      if (axios.isCancel(error)) {
+        throw new Error('请求已取消');
+      }
+
+      console.error('OpenRouter API error:', describeError(error));
       
       if (axios.isAxiosError(error)) {
-        const status = error.response?.status;
-        const responseData = error.response?.data;
-        const message = responseData?.error?.message || error.message;
-        
-        console.error('API Error Details:', {
-          status,
-          statusText: error.response?.statusText,
-          data: responseData,
-          headers: error.response?.headers,
-          config: {
-            url: error.config?.url,
-            method: error.config?.method,
-            headers: error.config?.headers,
-          }
-        });
-        
-        switch (status) {
-          case 401:
-            throw new Error('API Key无效或已过期');
-          case 403:
-            throw new Error(`API访问被拒绝，请检查权限。详细信息: ${message}`);
-          case 429:
-            throw new Error('API调用频率超限，请稍后重试');
-          case 500:
-            throw new Error('API服务器内部错误');
-          default:
-            throw new Error(`API请求失败 (${status}): ${message}`);
+        if (!error.response) {
+          throw createNetworkError(error.code === 'ECONNABORTED');
         }
+
+        const { status, data, headers } = error.response;
+        const message = data?.error?.message || error.message;
+        
+        throw createStatusError(status, message, String(headers['retry-after'] ?? ''));
+      }
+
+      if (error instanceof Error && error.message.startsWith('API')) {
+        throw error;
       }
       
-      throw new Error('网络连接失败，请检查网络设置');
+      throw createNetworkError();
     }
   }
 
   /**
-   * 将File对象转换为base64字符串
+   * 以流式（SSE）方式分析图片，逐段回调生成的文本
+   * 通过signal中止时返回已生成的部分内容
    */
-  private fileToBase64(file: File): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      
-      reader.onload = () => {
-        const result = reader.result as string;
-        // 移除data:image/...;base64,前缀
-        const base64 = result.split(',')[1];
-        resolve(base64);
-      };
-      
-      reader.onerror = () => {
-        reject(new Error('文件读取失败'));
-      };
-      
-      reader.readAsDataURL(file);
+  async analyzeImageStream(
+    imageData: string | File,
+    options: AnalyzeImageStreamOptions
+  ): Promise<AnalyzeImageResult> {
+    if (!this.isConfigured()) {
+      throw new Error('请先设置OpenRouter API Key');
+    }
+
+    const { signal, onToken, outputFormat } = options;
+    const requestBody = await this.buildRequestBody(imageData, options);
+    const startedAt = performance.now();
+    let fullText = '';
+    let respondedModel: string | undefined;
+    let usage: TokenUsage | undefined;
+
+    const buildResult = (content: string): AnalyzeImageResult => ({
+      content,
+      model: respondedModel || requestBody.model,
+      latencyMs: Math.round(performance.now() - startedAt),
+      usage,
     });
+
+    try {
+      const { url, headers } = this.getCompletionTarget();
+      const response = await fetch(url, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ ...requestBody, stream: true }),
+        signal,
+      });
+
+      if (!response.ok) {
+        let message = response.statusText;
+        try {
+          const data = await response.json();
+          message = data?.error?.message || message;
+        } catch {
+          // 错误响应不是JSON时使用状态文本
+        }
+        console.error('OpenRouter stream error:', { status: response.status, message: redactSecrets(message) });
+        throw createStatusError(response.status, message, response.headers.get('Retry-After'));
+      }
+
+      await readResponseLines(response, line => {
+        const chunk = this.parseStreamLine(line);
+        if (!chunk) return;
+
+        respondedModel = chunk.model || respondedModel;
+        usage = mergeStreamUsage(usage, chunk.usage);
+        if (chunk.text) {
+          fullText += chunk.text;
+          onToken(chunk.text, fullText);
+        }
+      });
+    } catch (error) {
+      if (signal?.aborted) {
+        return buildResult(fullText.trim() ? postProcessContent(fullText, outputFormat) : '');
+      }
+
+      if (error instanceof Error && error.message.startsWith('API')) {
+        throw error;
+      }
+
+      console.error('OpenRouter stream error:', describeError(error));
+      throw createNetworkError();
+    }
+
+    if (!fullText.trim()) {
+      throw new Error('API未返回有效内容');
+    }
+
+    return buildResult(postProcessContent(fullText, outputFormat));
+  }
+
+  /**
+   * 解析一行SSE数据，返回其中的文本片段、模型和用量（用量在最后一块中给出）
+   */
+  private parseStreamLine(line: string): StreamChunk | null {
+    const data = parseSseData(line);
+    if (!data) {
+      return null;
+    }
+
+    let chunk: OpenRouterStreamChunk;
+    try {
+      chunk = JSON.parse(data);
+    } catch {
+      return null;
+    }
+
+    if (chunk.error) {
+      throw new Error(`API请求失败: ${chunk.error.message}`);
+    }
+
+    return {
+      text: chunk.choices?.[0]?.delta?.content,
+      model: chunk.model,
+      usage: chunk.usage
+        ? {
+            promptTokens: chunk.usage.prompt_tokens,
+            completionTokens: chunk.usage.completion_tokens,
+            totalTokens: chunk.usage.total_tokens,
+          }
+        : undefined,
+    };
+  }
+
+  /**
+   * 构建聊天补全请求体
+   */
+  private async buildRequestBody(
+    imageData: string | File,
+    options: AnalyzeImageOptions,
+    followUps: RefineMessage[] = []
+  ) {
+    const { model = DEFAULT_MODEL } = options;
+    const prompt = buildAnalysisPrompt(options);
+    const imageUrl = await toImageUrl(imageData);
+
+    return {
+      model,
+      messages: [
+        {
+          role: 'user',
+          content: [
+            {
+              type: 'text',
+              text: prompt,
+            },
+            {
+              type: 'image_url',
+              image_url: {
+                url: imageUrl,
+              },
+            },
+          ],
+        },
+        ...followUps,
+      ],
+      max_tokens: 1000,
+      temperature: 0.7,
+    };
+  }
+
+  /**
+   * 聊天补全请求的地址和请求头：代理模式下发送到代理服务器，不携带密钥
+   */
+  private getCompletionTarget(): { url: string; headers: Record<string, string> } {
+    if (this.proxy) {
+      return { url: PROXY_ANALYZE_URL, headers: getProxyHeaders(this.proxy) };
+    }
+    return { url: OPENROUTER_API_URL, headers: this.getHeaders() };
+  }
+
+  /**
+   * 请求头
+   */
+  private getHeaders(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${this.apiKey}`,
+      'HTTP-Referer': window.location.origin,
+      'X-Title': 'Image to Prompt App',
+    };
   }
 
   /**
@@ -221,7 +446,7 @@ class OpenRouterApiService {
       
       return true;
     } catch (error) {
-      console.error('API Key test failed:', error);
+      console.error('API Key test failed:', describeError(error));
       return false;
     } finally {
       this.setApiKey(originalKey);
@@ -229,24 +454,97 @@ class OpenRouterApiService {
   }
 
   /**
-   * 获取可用模型列表
+   * 从OpenRouter获取模型目录，仅保留支持图片输入的模型
+   * 模型列表接口无需API Key
+   */
+  async fetchModelCatalog(): Promise<ModelInfo[]> {
+    try {
+      const response = await axios.get<OpenRouterModelsResponse>(OPENROUTER_MODELS_URL, {
+        timeout: 15000,
+      });
+
+      if (!Array.isArray(response.data?.data)) {
+        throw new Error('API返回数据格式错误');
+      }
+
+      return response.data.data
+        .map(item => {
+          const inputModalities = item.architecture?.input_modalities
+            // 旧版接口只有 modality 字段，如 "text+image->text"
+            || (item.architecture?.modality?.split('->')[0].split('+') ?? []);
+          const prompt = parseFloat(item.pricing?.prompt || '0') || 0;
+          const completion = parseFloat(item.pricing?.completion || '0') || 0;
+          const image = parseFloat(item.pricing?.image || '0') || 0;
+
+          return {
+            id: item.id,
+            name: item.name || item.id,
+            contextLength: item.context_length,
+            pricing: { prompt, completion, ...(image > 0 ? { image } : {}) },
+            isFree: item.id.endsWith(':free') || (prompt === 0 && completion === 0),
+            inputModalities,
+          };
+        })
+        .filter(model => model.inputModalities.includes('image'))
+        .sort((a, b) => a.name.localeCompare(b.name));
+    } catch (error) {
+      console.error('Failed to fetch model catalog:', describeError(error));
+      if (error instanceof Error && error.message.startsWith('API')) {
+        throw error;
+      }
+      throw new Error('模型列表获取失败，请检查网络设置');
+    }
+  }
+
+  /**
+   * 使用给定配置测试连通性
+   */
+  async testConnection(config: ProviderConfig): Promise<boolean> {
+    return this.testApiKey(config.apiKey || '');
+  }
+
+  /**
+   * 获取可用模型ID列表，获取失败时返回内置列表
    */
   async getAvailableModels(): Promise<string[]> {
-    // 由于OpenRouter的模型列表API可能需要特殊权限，这里返回常用的免费模型
-    return [
-      'meta-llama/llama-4-maverick:free',
-      'google/gemini-flash-1.5',
-      'anthropic/claude-3-haiku',
-      'openai/gpt-3.5-turbo',
-    ];
+    try {
+      const models = await this.fetchModelCatalog();
+      return models.map(model => model.id);
+    } catch {
+      return FALLBACK_MODELS.map(model => model.id);
+    }
   }
 
   /**
-   * 获取API使用统计（如果支持）
+   * 获取当前API Key的额度使用情况
    */
-  async getUsageStats(): Promise<any> {
-    // 这个功能需要OpenRouter支持，目前返回空对象
-    return {};
+  async getUsageStats(): Promise<OpenRouterKeyInfo> {
+    if (!this.validateApiKey()) {
+      throw new Error('请先设置OpenRouter API Key');
+    }
+
+    try {
+      const response = await axios.get<{
+        data: { label?: string; usage: number; limit: number | null; is_free_tier: boolean };
+      }>(OPENROUTER_KEY_URL, {
+        headers: this.getHeaders(),
+        timeout: 10000,
+      });
+
+      const { data } = response.data;
+      return {
+        label: data.label,
+        usage: data.usage,
+        limit: data.limit,
+        isFreeTier: data.is_free_tier,
+      };
+    } catch (error) {
+      console.error('Failed to fetch OpenRouter key usage:', describeError(error));
+      if (axios.isAxiosError(error)) {
+        throw createStatusError(error.response?.status, error.response?.data?.error?.message || error.message);
+      }
+      throw new Error('网络连接失败，请检查网络设置');
+    }
   }
 }
 
@@ -0,0 +1,147 @@
+import axios from 'axios';
+import { BaseVisionProvider, ParsedProviderResponse, ProviderRequest } from './baseProvider';
+import { StreamChunk, parseSseData, toImageUrl } from './visionProvider';
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+// Messages API 响应
+interface AnthropicMessageResponse {
+  model?: string;
+  content?: Array<{ type: string; text?: string }>;
+  usage?: {
+    input_tokens: number;
+    output_tokens: number;
+  };
+}
+
+// Messages API 流式事件
+interface AnthropicStreamEvent {
+  type: string;
+  message?: AnthropicMessageResponse; // message_start
+  delta?: { type?: string; text?: string };
+  usage?: { output_tokens?: number }; // message_delta
+  error?: { message: string };
+}
+
+/**
+ * Anthropic Messages API
+ */
+class AnthropicProvider extends BaseVisionProvider {
+  readonly id = 'anthropic' as const;
+  readonly label = 'Anthropic';
+  readonly defaultModel = 'claude-3-5-haiku-latest';
+  readonly defaultBaseUrl = 'https://api.anthropic.com/v1';
+
+  protected async buildRequest(
+    imageData: string | File,
+    prompt: string,
+    model: string,
+    stream: boolean
+  ): Promise<ProviderRequest> {
+    return {
+      url: `${this.baseUrl}/messages`,
+      headers: this.getHeaders(),
+      body: {
+        model,
+        max_tokens: 1000,
+        temperature: 0.7,
+        stream,
+        messages: [
+          {
+            role: 'user',
+            content: [
+              { type: 'image', source: this.buildImageSource(await toImageUrl(imageData)) },
+              { type: 'text', text: prompt },
+            ],
+          },
+        ],
+      },
+    };
+  }
+
+  protected parseResponse(data: unknown): ParsedProviderResponse {
+    const response = data as AnthropicMessageResponse;
+    if (!response?.content) {
+      throw new Error('API返回数据格式错误');
+    }
+
+    const { usage } = response;
+    return {
+      content: response.content
+        .filter(block => block.type === 'text')
+        .map(block => block.text || '')
+        .join(''),
+      model: response.model,
+      usage: usage
+        ? {
+            promptTokens: usage.input_tokens,
+            completionTokens: usage.output_tokens,
+            totalTokens: usage.input_tokens + usage.output_tokens,
+          }
+        : undefined,
+    };
+  }
+
+  protected parseStreamLine(line: string): StreamChunk | null {
+    // "event:" 行忽略，事件类型同样包含在 data 中
+    const data = parseSseData(line);
+    if (!data) return null;
+
+    let event: AnthropicStreamEvent;
+    try {
+      event = JSON.parse(data);
+    } catch {
+      return null;
+    }
+
+    if (event.type === 'error') {
+      throw new Error(`API请求失败: ${event.error?.message}`);
+    }
+
+    switch (event.type) {
+      case 'message_start':
+        // 输入用量在开始时给出，输出用量在 message_delta 中更新
+        return {
+          model: event.message?.model,
+          usage: event.message?.usage ? { promptTokens: event.message.usage.input_tokens } : undefined,
+        };
+      case 'content_block_delta':
+        return event.delta?.type === 'text_delta' ? { text: event.delta.text } : null;
+      case 'message_delta':
+        return event.usage?.output_tokens !== undefined
+          ? { usage: { completionTokens: event.usage.output_tokens } }
+          : null;
+      default:
+        return null;
+    }
+  }
+
+  protected async listModels(): Promise<string[]> {
+    const response = await axios.get<{ data: Array<{ id: string }> }>(`${this.baseUrl}/models`, {
+      headers: this.getHeaders(),
+      timeout: 10000,
+    });
+    return response.data.data.map(model => model.id);
+  }
+
+  // data URL 以 base64 内联发送，其他地址由服务端直接下载
+  private buildImageSource(url: string) {
+    const match = url.match(/^data:([^;,]+);base64,(.*)$/);
+    return match
+      ? { type: 'base64', media_type: match[1], data: match[2] }
+      : { type: 'url', url };
+  }
+
+  private getHeaders(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      'x-api-key': this.config.apiKey || '',
+      'anthropic-version': ANTHROPIC_VERSION,
+      // 允许在浏览器中直接调用
+      'anthropic-dangerous-direct-browser-access': 'true',
+    };
+  }
+}
+
+// 导出单例实例
+export const anthropicProvider = new AnthropicProvider();
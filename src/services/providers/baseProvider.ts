@@ -0,0 +1,275 @@
+import axios from 'axios';
+import { ProviderConfig, TokenUsage, VisionProviderId } from '../../types';
+import {
+  AnalyzeImageOptions,
+  AnalyzeImageResult,
+  AnalyzeImageStreamOptions,
+  StreamChunk,
+  VisionProvider,
+  buildAnalysisPrompt,
+  createNetworkError,
+  createStatusError,
+  mergeStreamUsage,
+  postProcessContent,
+  readResponseLines,
+} from './visionProvider';
+import { describeError, redactSecrets } from '../../utils/safeLog';
+
+// 发送给服务商的请求
+export interface ProviderRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+// 从服务商响应中解析出的内容
+export interface ParsedProviderResponse {
+  content: string;
+  model?: string;
+  usage?: TokenUsage;
+}
+
+/**
+ * 视觉模型服务商基类
+ * 负责请求发送、流式读取、错误转换和输出后处理，子类只需描述各自的协议格式
+ */
+export abstract class BaseVisionProvider implements VisionProvider {
+  abstract readonly id: VisionProviderId;
+  abstract readonly label: string;
+  abstract readonly defaultModel: string;
+  abstract readonly defaultBaseUrl: string;
+  protected readonly requiresApiKey: boolean = true;
+  protected readonly timeout: number = 60000;
+  protected config: ProviderConfig = {};
+
+  /**
+   * 更新服务商配置
+   */
+  configure(config: ProviderConfig): void {
+    this.config = { ...config };
+  }
+
+  /**
+   * 是否已具备调用所需的配置
+   */
+  isConfigured(): boolean {
+    return !this.requiresApiKey || !!this.config.apiKey?.trim();
+  }
+
+  /**
+   * 分析图片并生成提示词
+   */
+  async analyzeImage(imageData: string | File, options: AnalyzeImageOptions = {}): Promise<string> {
+    const { content } = await this.analyzeImageDetailed(imageData, options);
+    return content;
+  }
+
+  /**
+   * 分析图片，同时返回实际使用的模型、Token用量和耗时
+   */
+  async analyzeImageDetailed(
+    imageData: string | File,
+    options: AnalyzeImageOptions = {}
+  ): Promise<AnalyzeImageResult> {
+    this.ensureConfigured();
+
+    const { signal, outputFormat } = options;
+    const model = this.resolveModel(options.model);
+    const request = await this.buildRequest(imageData, buildAnalysisPrompt(options), model, false, signal);
+
+    try {
+      const startedAt = performance.now();
+      const response = await axios.post(request.url, request.body, {
+        headers: request.headers,
+        timeout: this.timeout,
+        signal,
+      });
+
+      const parsed = this.parseResponse(response.data);
+      if (!parsed.content) {
+        throw new Error('API未返回有效内容');
+      }
+
+      return {
+        content: postProcessContent(parsed.content, outputFormat),
+        model: parsed.model || model,
+        latencyMs: Math.round(performance.now() - startedAt),
+        usage: parsed.usage,
+      };
+    } catch (error) {
+      if (axios.isCancel(error)) {
+        throw new Error('请求已取消');
+      }
+
+      if (axios.isAxiosError(error) && error.response) {
+        const { status, data, headers } = error.response;
+        const message = this.extractErrorMessage(data) || error.message;
+        console.error(`${this.label} API error:`, { status, message: redactSecrets(message) });
+        throw createStatusError(status, message, String(headers['retry-after'] ?? ''));
+      }
+
+      if (error instanceof Error && error.message.startsWith('API')) {
+        throw error;
+      }
+
+      console.error(`${this.label} API error:`, describeError(error));
+      throw createNetworkError(axios.isAxiosError(error) && error.code === 'ECONNABORTED');
+    }
+  }
+
+  /**
+   * 以流式方式分析图片，逐段回调生成的文本
+   * 通过signal中止时返回已生成的部分内容
+   */
+  async analyzeImageStream(
+    imageData: string | File,
+    options: AnalyzeImageStreamOptions
+  ): Promise<AnalyzeImageResult> {
+    this.ensureConfigured();
+
+    const { signal, onToken, outputFormat } = options;
+    const model = this.resolveModel(options.model);
+    const request = await this.buildRequest(imageData, buildAnalysisPrompt(options), model, true, signal);
+    const startedAt = performance.now();
+    let fullText = '';
+    let respondedModel: string | undefined;
+    let usage: TokenUsage | undefined;
+
+    const buildResult = (content: string): AnalyzeImageResult => ({
+      content,
+      model: respondedModel || model,
+      latencyMs: Math.round(performance.now() - startedAt),
+      usage,
+    });
+
+    try {
+      const response = await fetch(request.url, {
+        method: 'POST',
+        headers: request.headers,
+        body: JSON.stringify(request.body),
+        signal,
+      });
+
+      if (!response.ok) {
+        let message = response.statusText;
+        try {
+          message = this.extractErrorMessage(await response.json()) || message;
+        } catch {
+          // 错误响应不是JSON时使用状态文本
+        }
+        console.error(`${this.label} stream error:`, { status: response.status, message: redactSecrets(message) });
+        throw createStatusError(response.status, message, response.headers.get('Retry-After'));
+      }
+
+      await readResponseLines(response, line => {
+        const chunk = this.parseStreamLine(line);
+        if (!chunk) return;
+
+        respondedModel = chunk.model || respondedModel;
+        usage = mergeStreamUsage(usage, chunk.usage);
+        if (chunk.text) {
+          fullText += chunk.text;
+          onToken(chunk.text, fullText);
+        }
+      });
+    } catch (error) {
+      if (signal?.aborted) {
+        return buildResult(fullText.trim() ? postProcessContent(fullText, outputFormat) : '');
+      }
+
+      if (error instanceof Error && error.message.startsWith('API')) {
+        throw error;
+      }
+
+      console.error(`${this.label} stream error:`, describeError(error));
+      throw createNetworkError();
+    }
+
+    if (!fullText.trim()) {
+      throw new Error('API未返回有效内容');
+    }
+
+    return buildResult(postProcessContent(fullText, outputFormat));
+  }
+
+  /**
+   * 使用给定配置请求模型列表以测试连通性
+   */
+  async testConnection(config: ProviderConfig): Promise<boolean> {
+    const originalConfig = this.config;
+    this.configure(config);
+
+    try {
+      await this.listModels();
+      return true;
+    } catch (error) {
+      console.error(`${this.label} connection test failed:`, describeError(error));
+      return false;
+    } finally {
+      this.config = originalConfig;
+    }
+  }
+
+  /**
+   * 获取可用模型列表，获取失败时只返回当前配置的模型
+   */
+  async getAvailableModels(): Promise<string[]> {
+    try {
+      return await this.listModels();
+    } catch (error) {
+      console.warn(`Failed to list ${this.label} models:`, describeError(error));
+      return [this.resolveModel()];
+    }
+  }
+
+  /**
+   * 服务商地址（去掉末尾斜杠）
+   */
+  protected get baseUrl(): string {
+    return (this.config.baseUrl?.trim() || this.defaultBaseUrl).replace(/\/+$/, '');
+  }
+
+  protected resolveModel(model?: string): string {
+    return model || this.config.model?.trim() || this.defaultModel;
+  }
+
+  /**
+   * 从错误响应中提取错误信息，默认读取 error.message
+   */
+  protected extractErrorMessage(data: unknown): string | undefined {
+    const error = (data as { error?: { message?: string } | string } | undefined)?.error;
+    return typeof error === 'string' ? error : error?.message;
+  }
+
+  private ensureConfigured(): void {
+    if (!this.isConfigured()) {
+      throw new Error(`请先设置${this.label} API Key`);
+    }
+  }
+
+  /**
+   * 构建分析请求
+   */
+  protected abstract buildRequest(
+    imageData: string | File,
+    prompt: string,
+    model: string,
+    stream: boolean,
+    signal?: AbortSignal
+  ): Promise<ProviderRequest>;
+
+  /**
+   * 解析非流式响应
+   */
+  protected abstract parseResponse(data: unknown): ParsedProviderResponse;
+
+  /**
+   * 解析流式响应的一行，返回其中的文本片段、模型和用量
+   */
+  protected abstract parseStreamLine(line: string): StreamChunk | null;
+
+  /**
+   * 请求服务商的模型列表，失败时抛出错误
+   */
+  protected abstract listModels(): Promise<string[]>;
+}
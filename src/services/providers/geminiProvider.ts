@@ -0,0 +1,143 @@
+import axios from 'axios';
+import { BaseVisionProvider, ParsedProviderResponse, ProviderRequest } from './baseProvider';
+import { StreamChunk, parseSseData, toImageBase64 } from './visionProvider';
+
+// generateContent 响应（流式时每个SSE事件一个同结构的JSON）
+interface GeminiResponse {
+  candidates?: Array<{
+    content?: {
+      parts?: Array<{ text?: string }>;
+    };
+  }>;
+  usageMetadata?: {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+    totalTokenCount?: number;
+  };
+  modelVersion?: string;
+  error?: { message: string };
+}
+
+// 模型列表响应
+interface GeminiModelsResponse {
+  models: Array<{
+    name: string; // 形如 models/gemini-2.0-flash
+    supportedGenerationMethods?: string[];
+  }>;
+}
+
+/**
+ * Google Gemini（Generative Language API）
+ */
+class GeminiProvider extends BaseVisionProvider {
+  readonly id = 'gemini' as const;
+  readonly label = 'Google Gemini';
+  readonly defaultModel = 'gemini-2.0-flash';
+  readonly defaultBaseUrl = 'https://generativelanguage.googleapis.com/v1beta';
+
+  protected async buildRequest(
+    imageData: string | File,
+    prompt: string,
+    model: string,
+    stream: boolean,
+    signal?: AbortSignal
+  ): Promise<ProviderRequest> {
+    const image = await toImageBase64(imageData, signal);
+    const modelName = model.replace(/^models\//, '');
+
+    return {
+      url: stream
+        ? `${this.baseUrl}/models/${modelName}:streamGenerateContent?alt=sse`
+        : `${this.baseUrl}/models/${modelName}:generateContent`,
+      headers: this.getHeaders(),
+      body: {
+        contents: [
+          {
+            role: 'user',
+            parts: [
+              { text: prompt },
+              { inline_data: { mime_type: image.mimeType, data: image.data } },
+            ],
+          },
+        ],
+        generationConfig: {
+          maxOutputTokens: 1000,
+          temperature: 0.7,
+        },
+      },
+    };
+  }
+
+  protected parseResponse(data: unknown): ParsedProviderResponse {
+    const response = data as GeminiResponse;
+    if (!response?.candidates || response.candidates.length === 0) {
+      throw new Error('API返回数据格式错误');
+    }
+
+    return {
+      content: this.extractText(response),
+      model: response.modelVersion,
+      usage: this.parseUsage(response),
+    };
+  }
+
+  protected parseStreamLine(line: string): StreamChunk | null {
+    const data = parseSseData(line);
+    if (!data) return null;
+
+    let chunk: GeminiResponse;
+    try {
+      chunk = JSON.parse(data);
+    } catch {
+      return null;
+    }
+
+    if (chunk.error) {
+      throw new Error(`API请求失败: ${chunk.error.message}`);
+    }
+
+    // 每个数据块的用量都是截至当前的累计值
+    return {
+      text: this.extractText(chunk),
+      model: chunk.modelVersion,
+      usage: this.parseUsage(chunk),
+    };
+  }
+
+  protected async listModels(): Promise<string[]> {
+    const response = await axios.get<GeminiModelsResponse>(`${this.baseUrl}/models`, {
+      headers: this.getHeaders(),
+      timeout: 10000,
+    });
+    return response.data.models
+      .filter(model => model.supportedGenerationMethods?.includes('generateContent'))
+      .map(model => model.name.replace(/^models\//, ''));
+  }
+
+  private parseUsage(response: GeminiResponse) {
+    const usage = response.usageMetadata;
+    if (!usage) return undefined;
+
+    return {
+      promptTokens: usage.promptTokenCount ?? 0,
+      completionTokens: usage.candidatesTokenCount ?? 0,
+      totalTokens: usage.totalTokenCount ?? 0,
+    };
+  }
+
+  private extractText(response: GeminiResponse): string {
+    return (response.candidates?.[0]?.content?.parts || [])
+      .map(part => part.text || '')
+      .join('');
+  }
+
+  private getHeaders(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      'x-goog-api-key': this.config.apiKey || '',
+    };
+  }
+}
+
+// 导出单例实例
+export const geminiProvider = new GeminiProvider();
@@ -0,0 +1,51 @@
+import { ApiConfig, VisionProviderId } from '../../types';
+import { openRouterApi } from '../openRouterApi';
+import { VisionProvider } from './visionProvider';
+import { openAICompatibleProvider } from './openAICompatibleProvider';
+import { ollamaProvider } from './ollamaProvider';
+import { geminiProvider } from './geminiProvider';
+import { anthropicProvider } from './anthropicProvider';
+
+export type { VisionProvider, AnalyzeImageOptions, AnalyzeImageResult } from './visionProvider';
+
+// 所有可选的视觉模型服务商
+export const VISION_PROVIDERS: Record<VisionProviderId, VisionProvider> = {
+  openrouter: openRouterApi,
+  openai: openAICompatibleProvider,
+  ollama: ollamaProvider,
+  gemini: geminiProvider,
+  anthropic: anthropicProvider,
+};
+
+export const PROVIDER_IDS = Object.keys(VISION_PROVIDERS) as VisionProviderId[];
+
+/**
+ * 获取服务商实例，未指定时使用 OpenRouter
+ */
+export function getVisionProvider(id: VisionProviderId = 'openrouter'): VisionProvider {
+  return VISION_PROVIDERS[id] ?? openRouterApi;
+}
+
+/**
+ * 将API配置同步到所有服务商实例
+ */
+export function configureVisionProviders(apiConfig: ApiConfig): void {
+  openRouterApi.configure({ apiKey: apiConfig.openRouterKey });
+  openRouterApi.setProxy(apiConfig.proxy);
+  PROVIDER_IDS.forEach(id => {
+    if (id !== 'openrouter') {
+      VISION_PROVIDERS[id].configure(apiConfig.providers?.[id] ?? {});
+    }
+  });
+}
+
+/**
+ * 服务商当前使用的默认模型
+ */
+export function getProviderDefaultModel(apiConfig: ApiConfig, openRouterDefault: string): string {
+  const id = apiConfig.provider ?? 'openrouter';
+  if (id === 'openrouter') {
+    return openRouterDefault;
+  }
+  return apiConfig.providers?.[id]?.model?.trim() || VISION_PROVIDERS[id].defaultModel;
+}
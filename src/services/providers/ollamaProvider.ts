@@ -0,0 +1,122 @@
+import axios from 'axios';
+import { BaseVisionProvider, ParsedProviderResponse, ProviderRequest } from './baseProvider';
+import { StreamChunk, toImageBase64 } from './visionProvider';
+
+// /api/chat 响应（流式时每行一个同结构的JSON）
+interface OllamaChatResponse {
+  model?: string;
+  message?: { content?: string };
+  done?: boolean;
+  prompt_eval_count?: number;
+  eval_count?: number;
+  error?: string;
+}
+
+/**
+ * Ollama 原生接口（本地或局域网部署的 llava 等视觉模型）
+ * 默认不需要密钥，经反向代理部署时可配置 Bearer 密钥
+ */
+class OllamaProvider extends BaseVisionProvider {
+  readonly id = 'ollama' as const;
+  readonly label = 'Ollama';
+  readonly defaultModel = 'llava';
+  readonly defaultBaseUrl = 'http://localhost:11434';
+  protected readonly requiresApiKey = false;
+  // 本地模型首次加载较慢
+  protected readonly timeout = 180000;
+
+  protected async buildRequest(
+    imageData: string | File,
+    prompt: string,
+    model: string,
+    stream: boolean,
+    signal?: AbortSignal
+  ): Promise<ProviderRequest> {
+    const image = await toImageBase64(imageData, signal);
+
+    return {
+      url: `${this.baseUrl}/api/chat`,
+      headers: this.getHeaders(),
+      body: {
+        model,
+        messages: [
+          {
+            role: 'user',
+            content: prompt,
+            images: [image.data],
+          },
+        ],
+        stream,
+        options: {
+          temperature: 0.7,
+          num_predict: 1000,
+        },
+      },
+    };
+  }
+
+  protected parseResponse(data: unknown): ParsedProviderResponse {
+    const response = data as OllamaChatResponse;
+    if (response?.error) {
+      throw new Error(`API请求失败: ${response.error}`);
+    }
+    if (!response?.message) {
+      throw new Error('API返回数据格式错误');
+    }
+
+    return {
+      content: response.message.content || '',
+      model: response.model,
+      usage: this.parseUsage(response),
+    };
+  }
+
+  protected parseStreamLine(line: string): StreamChunk | null {
+    const trimmed = line.trim();
+    if (!trimmed) return null;
+
+    let chunk: OllamaChatResponse;
+    try {
+      chunk = JSON.parse(trimmed);
+    } catch {
+      return null;
+    }
+
+    if (chunk.error) {
+      throw new Error(`API请求失败: ${chunk.error}`);
+    }
+
+    // 最后一行（done 为 true）带有用量统计
+    return {
+      text: chunk.message?.content,
+      model: chunk.model,
+      usage: chunk.done ? this.parseUsage(chunk) : undefined,
+    };
+  }
+
+  protected async listModels(): Promise<string[]> {
+    const response = await axios.get<{ models: Array<{ name: string }> }>(`${this.baseUrl}/api/tags`, {
+      headers: this.getHeaders(),
+      timeout: 10000,
+    });
+    return response.data.models.map(model => model.name);
+  }
+
+  private parseUsage(response: OllamaChatResponse) {
+    if (response.eval_count === undefined) return undefined;
+
+    const promptTokens = response.prompt_eval_count ?? 0;
+    const completionTokens = response.eval_count;
+    return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+  }
+
+  private getHeaders(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      ...(this.config.apiKey ? { 'Authorization': `Bearer ${this.config.apiKey}` } : {}),
+    };
+  }
+}
+
+// 导出单例实例
+export const ollamaProvider = new OllamaProvider();
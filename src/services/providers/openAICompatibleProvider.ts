@@ -0,0 +1,134 @@
+import axios from 'axios';
+import { BaseVisionProvider, ParsedProviderResponse, ProviderRequest } from './baseProvider';
+import { StreamChunk, parseSseData, toImageUrl } from './visionProvider';
+
+// Chat Completions 响应
+interface ChatCompletionResponse {
+  model?: string;
+  choices?: Array<{
+    message?: { content?: string };
+  }>;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
+}
+
+// Chat Completions 流式数据块（最后一块可能带用量）
+interface ChatCompletionChunk {
+  model?: string;
+  choices?: Array<{
+    delta?: { content?: string };
+  }>;
+  usage?: ChatCompletionResponse['usage'];
+  error?: { message: string };
+}
+
+/**
+ * OpenAI 兼容接口（OpenAI、vLLM、LiteLLM、各类自建网关）
+ * 网关可能不需要密钥，配置了自定义地址即可使用
+ */
+class OpenAICompatibleProvider extends BaseVisionProvider {
+  readonly id = 'openai' as const;
+  readonly label = 'OpenAI 兼容接口';
+  readonly defaultModel = 'gpt-4o-mini';
+  readonly defaultBaseUrl = 'https://api.openai.com/v1';
+
+  isConfigured(): boolean {
+    return !!this.config.apiKey?.trim() || !!this.config.baseUrl?.trim();
+  }
+
+  protected async buildRequest(
+    imageData: string | File,
+    prompt: string,
+    model: string,
+    stream: boolean
+  ): Promise<ProviderRequest> {
+    return {
+      url: `${this.baseUrl}/chat/completions`,
+      headers: this.getHeaders(),
+      body: {
+        model,
+        messages: [
+          {
+            role: 'user',
+            content: [
+              { type: 'text', text: prompt },
+              { type: 'image_url', image_url: { url: await toImageUrl(imageData) } },
+            ],
+          },
+        ],
+        max_tokens: 1000,
+        temperature: 0.7,
+        ...(stream ? { stream: true, stream_options: { include_usage: true } } : {}),
+      },
+    };
+  }
+
+  protected parseResponse(data: unknown): ParsedProviderResponse {
+    const response = data as ChatCompletionResponse;
+    if (!response?.choices || response.choices.length === 0) {
+      throw new Error('API返回数据格式错误');
+    }
+
+    const { usage } = response;
+    return {
+      content: response.choices[0].message?.content || '',
+      model: response.model,
+      usage: usage
+        ? {
+            promptTokens: usage.prompt_tokens,
+            completionTokens: usage.completion_tokens,
+            totalTokens: usage.total_tokens,
+          }
+        : undefined,
+    };
+  }
+
+  protected parseStreamLine(line: string): StreamChunk | null {
+    const data = parseSseData(line);
+    if (!data) return null;
+
+    let chunk: ChatCompletionChunk;
+    try {
+      chunk = JSON.parse(data);
+    } catch {
+      return null;
+    }
+
+    if (chunk.error) {
+      throw new Error(`API请求失败: ${chunk.error.message}`);
+    }
+
+    return {
+      text: chunk.choices?.[0]?.delta?.content,
+      model: chunk.model,
+      usage: chunk.usage
+        ? {
+            promptTokens: chunk.usage.prompt_tokens,
+            completionTokens: chunk.usage.completion_tokens,
+            totalTokens: chunk.usage.total_tokens,
+          }
+        : undefined,
+    };
+  }
+
+  protected async listModels(): Promise<string[]> {
+    const response = await axios.get<{ data: Array<{ id: string }> }>(`${this.baseUrl}/models`, {
+      headers: this.getHeaders(),
+      timeout: 10000,
+    });
+    return response.data.data.map(model => model.id);
+  }
+
+  private getHeaders(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      ...(this.config.apiKey ? { 'Authorization': `Bearer ${this.config.apiKey}` } : {}),
+    };
+  }
+}
+
+// 导出单例实例
+export const openAICompatibleProvider = new OpenAICompatibleProvider();
@@ -0,0 +1,249 @@
+import { OutputFormat, ProviderConfig, TargetProfile, TokenUsage, VisionProviderId } from '../../types';
+import { BUILTIN_TEMPLATES, renderTemplate } from '../../utils/promptTemplates';
+import { applyOutputFormat, postProcessOutput } from '../../utils/outputFormats';
+import { applyTargetProfile } from '../../utils/outputProfiles';
+
+// 分析请求选项
+export interface AnalyzeImageOptions {
+  model?: string;
+  language?: 'zh' | 'en';
+  customPrompt?: string;
+  outputFormat?: OutputFormat; // 不指定时不追加格式指令，原样返回
+  targetProfile?: TargetProfile;
+  signal?: AbortSignal;
+}
+
+// 流式分析选项
+export type AnalyzeImageStreamOptions = AnalyzeImageOptions & {
+  onToken: (token: string, fullText: string) => void;
+};
+
+// 分析结果（含用量信息）
+export interface AnalyzeImageResult {
+  content: string;
+  model: string;
+  latencyMs: number;
+  usage?: TokenUsage;
+}
+
+// 流式响应中一行解析出的内容，用量可能分多次给出
+export interface StreamChunk {
+  text?: string;
+  model?: string;
+  usage?: Partial<TokenUsage>;
+}
+
+/**
+ * 视觉模型服务商接口
+ * 所有服务商接收相同的分析选项，返回经过输出格式后处理的文本
+ */
+export interface VisionProvider {
+  readonly id: VisionProviderId;
+  readonly label: string;
+  readonly defaultModel: string;
+  readonly defaultBaseUrl?: string;
+
+  /** 更新服务商配置（密钥、地址、默认模型） */
+  configure(config: ProviderConfig): void;
+
+  /** 是否已具备调用所需的配置 */
+  isConfigured(): boolean;
+
+  analyzeImage(imageData: string | File, options?: AnalyzeImageOptions): Promise<string>;
+
+  analyzeImageDetailed(imageData: string | File, options?: AnalyzeImageOptions): Promise<AnalyzeImageResult>;
+
+  /** 流式分析，通过signal中止时返回已生成的部分内容 */
+  analyzeImageStream(imageData: string | File, options: AnalyzeImageStreamOptions): Promise<AnalyzeImageResult>;
+
+  /** 使用给定配置测试连通性，不修改当前配置 */
+  testConnection(config: ProviderConfig): Promise<boolean>;
+
+  getAvailableModels(): Promise<string[]>;
+}
+
+/**
+ * 按模板、输出格式和目标生成器组合发送给模型的指令
+ */
+export function buildAnalysisPrompt(options: AnalyzeImageOptions): string {
+  const { language = 'zh', customPrompt, outputFormat, targetProfile = 'generic' } = options;
+
+  const basePrompt = customPrompt || renderTemplate(BUILTIN_TEMPLATES[0], language);
+  return applyTargetProfile(
+    outputFormat ? applyOutputFormat(basePrompt, outputFormat, language) : basePrompt,
+    targetProfile,
+    language
+  );
+}
+
+/**
+ * 按输出格式后处理模型输出
+ */
+export function postProcessContent(content: string, outputFormat?: OutputFormat): string {
+  return outputFormat ? postProcessOutput(content, outputFormat) : content.trim();
+}
+
+/**
+ * API请求错误，保留HTTP状态码和 Retry-After，供重试策略判断
+ * status 为空表示没有收到响应（网络错误或超时）
+ */
+export class ApiRequestError extends Error {
+  constructor(message: string, readonly status?: number, readonly retryAfterMs?: number) {
+    super(message);
+    this.name = 'ApiRequestError';
+  }
+}
+
+/**
+ * 解析 Retry-After 响应头（秒数或HTTP日期），返回需要等待的毫秒数
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | undefined {
+  if (!value?.trim()) return undefined;
+
+  const seconds = Number(value);
+  if (isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * 根据HTTP状态码生成错误
+ */
+export function createStatusError(status: number | undefined, message: string, retryAfter?: string | null): ApiRequestError {
+  const retryAfterMs = parseRetryAfter(retryAfter);
+  switch (status) {
+    case 401:
+      return new ApiRequestError('API Key无效或已过期', status);
+    case 403:
+      return new ApiRequestError(`API访问被拒绝，请检查权限。详细信息: ${message}`, status);
+    case 429:
+      return new ApiRequestError('API调用频率超限，请稍后重试', status, retryAfterMs);
+    case 500:
+      return new ApiRequestError('API服务器内部错误', status, retryAfterMs);
+    default:
+      return new ApiRequestError(`API请求失败 (${status}): ${message}`, status, retryAfterMs);
+  }
+}
+
+/**
+ * 没有收到响应时的错误（网络错误或超时）
+ */
+export function createNetworkError(timedOut: boolean = false): ApiRequestError {
+  return new ApiRequestError(timedOut ? 'API请求超时，请稍后重试' : '网络连接失败，请检查网络设置');
+}
+
+/**
+ * 将图片转换为可直接发送的URL：File 转为 data URL，字符串原样返回
+ */
+export function toImageUrl(imageData: string | Blob): Promise<string> {
+  if (typeof imageData === 'string') {
+    return Promise.resolve(imageData);
+  }
+
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error('文件读取失败'));
+    reader.readAsDataURL(imageData);
+  });
+}
+
+/**
+ * 获取图片的base64内容和MIME类型，远程URL会先下载
+ * 用于只接受内联图片数据的服务商（Ollama、Gemini）
+ */
+export async function toImageBase64(
+  imageData: string | File,
+  signal?: AbortSignal
+): Promise<{ mimeType: string; data: string }> {
+  let url = await toImageUrl(imageData);
+
+  if (!url.startsWith('data:')) {
+    try {
+      const response = await fetch(url, { signal });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      url = await toImageUrl(await response.blob());
+    } catch (error) {
+      if (signal?.aborted) {
+        throw new Error('请求已取消');
+      }
+      console.error('Failed to download image for inline upload:', error);
+      throw new Error('图片下载失败，该服务商需要能直接访问图片内容');
+    }
+  }
+
+  const match = url.match(/^data:([^;,]*)(?:;[^,]*)?,(.*)$/);
+  if (!match) {
+    throw new Error('图片数据格式错误');
+  }
+
+  return {
+    mimeType: match[1] || 'image/jpeg',
+    data: match[2],
+  };
+}
+
+/**
+ * 逐行读取流式响应（SSE 或换行分隔的JSON），每行回调一次
+ */
+export async function readResponseLines(response: Response, onLine: (line: string) => void): Promise<void> {
+  if (!response.body) {
+    throw new Error('API返回数据格式错误');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    // 最后一行可能不完整，留到下一次处理
+    buffer = lines.pop() || '';
+    lines.forEach(onLine);
+  }
+
+  if (buffer) {
+    onLine(buffer);
+  }
+}
+
+/**
+ * 合并流式响应中分段给出的用量，缺少总数时由输入输出相加
+ */
+export function mergeStreamUsage(
+  current: TokenUsage | undefined,
+  partial: Partial<TokenUsage> | undefined
+): TokenUsage | undefined {
+  if (!partial) return current;
+
+  const promptTokens = partial.promptTokens ?? current?.promptTokens ?? 0;
+  const completionTokens = partial.completionTokens ?? current?.completionTokens ?? 0;
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: partial.totalTokens ?? promptTokens + completionTokens,
+  };
+}
+
+/**
+ * 提取SSE行中的数据部分，空行、注释行和结束标记返回 null
+ */
+export function parseSseData(line: string): string | null {
+  const trimmed = line.trim();
+  // 忽略空行和注释行（如 ": OPENROUTER PROCESSING"）
+  if (!trimmed || trimmed.startsWith(':') || !trimmed.startsWith('data:')) {
+    return null;
+  }
+
+  const data = trimmed.slice(5).trim();
+  return data === '[DONE]' ? null : data;
+}
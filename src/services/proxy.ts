@@ -0,0 +1,22 @@
+import { ProxyConfig } from '../types';
+
+// 代理服务器接口，与前端同源部署（Vercel API 路由或开发服务器）
+export const PROXY_ANALYZE_URL = '/api/analyze';
+export const PROXY_UPLOAD_URL = '/api/upload';
+
+/**
+ * 代理模式是否启用，未启用时返回 null
+ */
+export function resolveProxy(proxy?: ProxyConfig): ProxyConfig | null {
+  return proxy?.enabled ? { ...proxy } : null;
+}
+
+/**
+ * 请求代理服务器的请求头，只携带代理访问令牌，不携带服务商密钥
+ */
+export function getProxyHeaders(proxy: ProxyConfig): Record<string, string> {
+  return {
+    'Content-Type': 'application/json',
+    ...(proxy.token ? { 'Authorization': `Bearer ${proxy.token}` } : {}),
+  };
+}
@@ -1,14 +1,115 @@
 import { create } from 'zustand';
-import { ImageUpload, AnalysisRecord, ApiConfig, UserSettings, AppError } from '../types';
+import {
+  ImageUpload,
+  AnalysisRecord,
+  ApiConfig,
+  UserSettings,
+  AppError,
+  BatchJob,
+  BatchJobStatus,
+  BatchQueueState,
+  PromptTemplate,
+  PromptDimensions,
+  TargetProfile,
+  ModelComparisonResult,
+  ModelInfo,
+  TokenUsage,
+  BudgetWarning,
+  Collection,
+  TagRule,
+  RefineTurn,
+  DatasetItem,
+  DatasetSettings,
+  HistoryChange,
+  ImageHashes,
+  VaultStatus,
+  RemoteImage,
+  RemoteDeleteResult,
+  RemotePurgeResult,
+  RetryPolicy,
+  RetryStatus,
+} from '../types';
 import { storageManager } from '../utils/storage';
-import { openRouterApi } from '../services/openRouterApi';
-import { imgbbApi } from '../services/imgbbApi';
+import { historyDb, StorageQuotaError } from '../utils/historyDb';
+import {
+  findCollectionByName,
+  generateCollectionId,
+  mergeTags,
+  normalizeTag,
+} from '../utils/recordOrganization';
+import { applyAutoTags } from '../utils/autoTagging';
+import { addPromptVersion, getPromptVersions, revertToVersion } from '../utils/promptVersions';
+import {
+  ParsedSearchQuery,
+  SearchIndex,
+  addToSearchIndex,
+  applySearchIndexChange,
+  createSearchIndex,
+  matchesSearchPhrases,
+  searchHistory,
+} from '../utils/historySearch';
+import { buildRefineMessages, generateRefineId } from '../utils/refineConversation';
+import { BatchQueue } from '../utils/batchQueue';
+import {
+  ImageMatch,
+  NEAR_DUPLICATE_DISTANCE,
+  SIMILAR_IMAGE_DISTANCE,
+  findCachedAnalysis,
+  findSimilarRecords,
+} from '../utils/imageDedupe';
+import { checkImageUrl, isImageLinkBroken, isRemoteExpired, needsLinkCheck } from '../utils/linkChecker';
+import { runWithFailover } from '../utils/retryPolicy';
+import {
+  VaultSession,
+  createVaultSession,
+  decryptVault,
+  encryptApiConfig,
+  stripSecrets,
+} from '../utils/keyVault';
+import {
+  DatasetFileEntry,
+  buildCaptionInstruction,
+  formatCaption,
+  getDatasetItemKey,
+  replaceTriggerWord,
+} from '../utils/datasetCaptions';
+import {
+  BUILTIN_TEMPLATES,
+  BUILTIN_TEMPLATE_ID,
+  findTemplate,
+  generateTemplateId,
+  renderTemplate,
+} from '../utils/promptTemplates';
+import { buildPromptVariants } from '../utils/outputProfiles';
+import { calculateCost, estimateAnalysisCost, getMonthlyCost } from '../utils/usageStats';
+import {
+  STRUCTURED_MAX_ATTEMPTS,
+  StructuredResultError,
+  applyStructuredInstruction,
+  buildRetryInstruction,
+  composePromptFromDimensions,
+  parseStructuredResult,
+} from '../utils/structuredResult';
+import { openRouterApi, FALLBACK_MODELS, DEFAULT_MODEL } from '../services/openRouterApi';
+import {
+  AnalyzeImageOptions,
+  configureVisionProviders,
+  getProviderDefaultModel,
+  getVisionProvider,
+} from '../services/providers';
+import { configureImageHosts, getImageHost } from '../services/imageHosts';
 import { 
   compressImage, 
-  fileToBase64, 
+  computeImageHashes,
+  createImagePreview,
+  createThumbnail,
   generateImageId, 
+  getImageDimensions,
   getImageMetadata,
-  shouldCompressImage 
+  getImageUrlDimensions,
+  hammingDistance,
+  shouldCompressImage,
+  validateImageFile
 } from '../utils/imageUtils';
 
 interface AppState {
@@ -17,60 +118,878 @@ interface AppState {
   isAnalyzing: boolean;
   isUploading: boolean;
   analysisResult: AnalysisRecord | null;
+  streamingText: string | null;
+  retryStatus: RetryStatus | null; // 分析请求等待重试或换用备用模型时的进度
   error: AppError | null;
+  historyError: AppError | null; // 历史记录读写或迁移失败，在历史记录页显示
   
-  // 数据
-  history: AnalysisRecord[];
+  // 模型对比
+  comparisonResults: ModelComparisonResult[];
+  isComparing: boolean;
+  
+  // 批量分析
+  batchJobs: BatchJob[];
+  batchState: BatchQueueState;
+  
+  // 训练集标注
+  datasetItems: DatasetItem[];
+  datasetState: BatchQueueState;
+  datasetSettings: DatasetSettings;
+  
+  // 数据（历史记录保存在 IndexedDB 中，页面按需分页读取）
+  historyCount: number;
+  historyChange: HistoryChange | null; // 最近一次写入，已加载的列表据此增量更新
+  collections: Collection[];
+  tagRules: TagRule[]; // 用户自定义的自动标签规则
   apiConfig: ApiConfig;
   userSettings: UserSettings;
   
+  // 密钥保险箱（锁定时 apiConfig 中不含密钥）
+  vaultStatus: VaultStatus;
+  
+  // 提示词模板
+  promptTemplates: PromptTemplate[];
+  selectedTemplateId: string;
+  templateVariables: Record<string, string>;
+  selectedProfile: TargetProfile;
+  
+  // 模型目录
+  modelCatalog: ModelInfo[];
+  modelCatalogUpdatedAt: number | null; // null 表示使用内置离线列表
+  isLoadingModels: boolean;
+  selectedModel: string;
+  
+  // 预算
+  budgetWarning: BudgetWarning | null;
+  
+  // 分析前在历史记录中找到的同一张图片
+  cachedMatch: ImageMatch | null;
+  
   // Actions
   setCurrentImage: (image: ImageUpload | null) => void;
   clearCurrentImage: () => void;
   clearError: () => void;
+  clearHistoryError: () => void;
   
   // 图片处理
   processImageFile: (file: File) => Promise<void>;
-  uploadImageToImgBB: (file: File) => Promise<string>;
+  uploadImage: (file: File, signal?: AbortSignal) => Promise<RemoteImage>;
+  
+  // 分析功能（skipBudgetCheck 用于确认预算警告后继续，skipCacheCheck 用于忽略已有结果重新分析）
+  analyzeImage: (options?: { skipBudgetCheck?: boolean; skipCacheCheck?: boolean }) => Promise<void>;
+  stopAnalysis: () => void;
+  updateResultDimensions: (dimensions: PromptDimensions) => void;
+  
+  // 提示词版本（编辑结果或历史记录，均创建新版本）
+  editPrompt: (record: AnalysisRecord, prompt: string) => Promise<void>;
+  revertPrompt: (record: AnalysisRecord, versionId: string) => Promise<void>;
+  
+  // 追问优化（通过 OpenRouter 重新发送图片和对话）
+  refiningRecordId: string | null;
+  refinePrompt: (record: AnalysisRecord, instruction: string) => Promise<void>;
+  
+  // 模型对比
+  runComparison: (models: string[], options?: { skipBudgetCheck?: boolean }) => Promise<void>;
+  selectComparisonWinner: (model: string) => Promise<void>;
+  clearComparison: () => void;
+  
+  // 批量分析队列
+  addBatchFiles: (files: File[]) => void;
+  addBatchUrls: (urls: string[]) => void;
+  startBatch: (options?: { skipBudgetCheck?: boolean }) => Promise<void>;
+  pauseBatch: () => void;
+  resumeBatch: () => void;
+  cancelBatch: () => void;
+  cancelBatchJob: (id: string) => void;
+  retryBatchJob: (id: string) => void;
+  removeBatchJob: (id: string) => void;
+  clearBatch: () => void;
+  
+  // 训练集标注（结果不写入历史记录，已完成的标注缓存在本地用于断点续标）
+  addDatasetFiles: (entries: DatasetFileEntry[]) => number;
+  updateDatasetSettings: (settings: Partial<DatasetSettings>) => void;
+  startDataset: (options?: { skipBudgetCheck?: boolean }) => Promise<void>;
+  pauseDataset: () => void;
+  resumeDataset: () => void;
+  stopDataset: () => void;
+  retryFailedDataset: () => void;
+  recaptionDatasetItem: (id: string) => void;
+  updateDatasetCaption: (id: string, caption: string) => void;
+  removeDatasetItem: (id: string) => void;
+  clearDataset: () => void;
+  clearDatasetProgress: () => void;
+  
+  // 提示词模板管理
+  selectTemplate: (id: string) => void;
+  setTemplateVariable: (name: string, value: string) => void;
+  selectProfile: (profile: TargetProfile) => void;
+  createPromptTemplate: (template: Pick<PromptTemplate, 'name' | 'content' | 'description'>) => PromptTemplate;
+  updatePromptTemplate: (id: string, updates: Partial<Pick<PromptTemplate, 'name' | 'content' | 'description'>>) => void;
+  duplicatePromptTemplate: (id: string) => PromptTemplate | null;
+  deletePromptTemplate: (id: string) => void;
+  
+  // 预算警告
+  confirmBudgetWarning: () => void;
+  dismissBudgetWarning: () => void;
   
-  // 分析功能
-  analyzeImage: () => Promise<void>;
+  // 图片去重
+  applyCachedAnalysis: () => void;
+  reanalyzeIgnoringCache: () => Promise<void>;
+  dismissCachedMatch: () => void;
+  indexHistoryHashes: () => Promise<number>;
+  findSimilarImages: (record: AnalysisRecord) => Promise<ImageMatch[]>;
+  
+  // 模型目录
+  loadModelCatalog: (forceRefresh?: boolean) => Promise<void>;
+  selectModel: (model: string) => void;
   
   // 历史记录管理
-  loadHistory: () => void;
-  saveAnalysisRecord: (record: AnalysisRecord) => void;
-  deleteHistoryItem: (id: string) => void;
-  clearHistory: () => void;
+  loadHistoryCount: () => Promise<void>;
+  saveAnalysisRecord: (record: AnalysisRecord, image?: ImageUpload) => Promise<void>;
+  updateHistoryItem: (record: AnalysisRecord) => Promise<void>;
+  deleteHistoryItem: (ids: string | string[]) => Promise<void>;
+  clearHistory: () => Promise<void>;
+  updateHistoryItems: (ids: string[], update: (record: AnalysisRecord) => AnalysisRecord) => Promise<void>;
+  importRecords: (records: AnalysisRecord[], collections: Collection[]) => Promise<number>;
+  searchHistoryRecords: (query: ParsedSearchQuery) => Promise<AnalysisRecord[]>;
+  
+  // 远程图片（图床副本）管理
+  deleteRemoteImage: (record: AnalysisRecord) => Promise<RemoteDeleteResult>;
+  purgeRemoteImages: (ids: string[]) => Promise<RemotePurgeResult>;
+  checkImageLinks: () => Promise<void>;
+  reuploadImage: (record: AnalysisRecord) => Promise<void>;
+  
+  // 收藏夹管理
+  createCollection: (name: string) => Collection;
+  renameCollection: (id: string, name: string) => void;
+  deleteCollection: (id: string) => Promise<void>;
+  
+  // 自动标签
+  saveTagRules: (rules: TagRule[]) => void;
+  retagHistory: () => Promise<number>;
   
   // 配置管理
   updateApiConfig: (config: Partial<ApiConfig>) => void;
   updateUserSettings: (settings: Partial<UserSettings>) => void;
   
+  // 密钥保险箱（密码错误时抛出错误，由页面提示）
+  unlockVault: (passphrase: string) => Promise<void>;
+  lockVault: () => void;
+  enableVault: (passphrase: string) => Promise<void>;
+  changeVaultPassphrase: (current: string, next: string) => Promise<void>;
+  disableVault: (passphrase: string) => Promise<void>;
+  
   // 初始化
   initializeApp: () => void;
 }
 
+interface UploadContext {
+  apiConfig: ApiConfig;
+  upload: (file: File, signal?: AbortSignal) => Promise<RemoteImage>;
+  signal?: AbortSignal;
+  onStatus?: (status: Extract<BatchJobStatus, 'uploading' | 'analyzing'>) => void;
+}
+
+interface AnalyzeContext extends UploadContext {
+  userSettings: UserSettings;
+  prompt: string;
+  templateId: string;
+  targetProfile: TargetProfile;
+  model: string;
+  onToken?: (token: string, fullText: string) => void; // 提供时使用流式输出
+  onRetry?: (status: RetryStatus) => void; // 等待重试或换用备用模型时回调
+}
+
+// 准备发送给模型的图片数据：URL图片直接使用，本地文件在配置了图床时先上传
+async function prepareImageData(
+  image: ImageUpload,
+  context: UploadContext
+): Promise<{ imageData: string | File; imageUrl?: string; remoteImage?: RemoteImage }> {
+  const { apiConfig, upload, signal, onStatus } = context;
+
+  // 检查是否是URL来源的图片
+  if (image.isUrl && image.url) {
+    // URL图片直接使用URL，不需要上传
+    return { imageData: image.url, imageUrl: image.url };
+  }
+
+  // 已上传过的图片直接复用远程地址，避免重复上传
+  if (image.remoteImage) {
+    return { imageData: image.remoteImage.url, imageUrl: image.remoteImage.url, remoteImage: image.remoteImage };
+  }
+
+  const host = getImageHost(apiConfig.imageHost);
+  if (host.remote && host.isConfigured()) {
+    // 已配置图床时尝试上传图片
+    onStatus?.('uploading');
+    try {
+      const remoteImage = await upload(image.file, signal);
+      return { imageData: remoteImage.url, imageUrl: remoteImage.url, remoteImage };
+    } catch (uploadError) {
+      if (signal?.aborted) {
+        throw uploadError;
+      }
+      console.warn(`${host.label} upload failed, using local file:`, uploadError);
+    }
+  }
+
+  // 直接使用文件
+  return { imageData: image.file, imageUrl: image.url };
+}
+
+// 上传（如已配置图床）并分析单张图片，单图分析和批量队列共用
+async function analyzeImageUpload(image: ImageUpload, context: AnalyzeContext): Promise<AnalysisRecord> {
+  const { userSettings, prompt, templateId, targetProfile, model, signal, onStatus, onToken, onRetry } = context;
+
+  const { imageData, imageUrl, remoteImage } = await prepareImageData(image, context);
+
+  onStatus?.('analyzing');
+  const provider = getActiveProvider();
+  const baseRecord: AnalysisRecord = {
+    id: generateImageId(),
+    imageName: image.name,
+    imageUrl,
+    remoteImage,
+    prompt: '',
+    timestamp: new Date(),
+    templateId,
+    imageDimensions: await resolveImageDimensions(image),
+    ...(await resolveImageHashes(image)),
+    provider: provider.id,
+  };
+
+  // 使用指定模型分析一次
+  const analyzeWith = async (candidate: string): Promise<AnalysisRecord> => {
+    const record: AnalysisRecord = { ...baseRecord, model: candidate };
+
+    // 结构化模式：按 8 个维度返回JSON，再组合为提示词
+    if (userSettings.resultMode === 'structured') {
+      const { dimensions, ...usage } = await requestStructuredDimensions(imageData, {
+        model: candidate,
+        language: userSettings.language,
+        customPrompt: prompt,
+        signal,
+      });
+      return withPromptVariants(
+        withUsage(
+          { ...record, dimensions, prompt: composePromptFromDimensions(dimensions, userSettings.language) },
+          usage
+        ),
+        targetProfile
+      );
+    }
+
+    // 调用当前服务商分析图片
+    const options = {
+      model: candidate,
+      language: userSettings.language,
+      customPrompt: prompt,
+      outputFormat: userSettings.outputFormat,
+      targetProfile,
+      signal,
+    };
+    const result = onToken
+      ? await provider.analyzeImageStream(imageData, { ...options, onToken })
+      : await provider.analyzeImageDetailed(imageData, options);
+
+    const formatted = withUsage(
+      { ...record, prompt: result.content, outputFormat: userSettings.outputFormat },
+      result
+    );
+
+    // JSON 输出不适合转换为生成器格式
+    if (!result.content || userSettings.outputFormat === 'json') {
+      return formatted;
+    }
+
+    return withPromptVariants(formatted, targetProfile);
+  };
+
+  // 按重试策略请求，主模型失败时依次换用备用模型
+  const { retryPolicy } = userSettings;
+  const { result: record, model: answeredModel, attempts } = await runWithFailover(
+    getFailoverModels(model, retryPolicy),
+    retryPolicy,
+    analyzeWith,
+    { signal, onRetry }
+  );
+
+  return withAutoTags({
+    ...record,
+    attempts,
+    requestedModel: answeredModel !== model ? model : undefined,
+  });
+}
+
+// 按设置为分析结果添加自动标签
+function withAutoTags(record: AnalysisRecord): AnalysisRecord {
+  const { userSettings, tagRules } = useAppStore.getState();
+  return userSettings.autoTagging && record.prompt ? applyAutoTags(record, tagRules) : record;
+}
+
+// 服务商未配置时的提示，保险箱锁定时提示先解锁
+function providerNotConfiguredMessage(label: string): string {
+  return useAppStore.getState().vaultStatus === 'locked'
+    ? '密钥保险箱已锁定，请先输入密码解锁'
+    : `请先设置${label} API Key`;
+}
+
+// 把 API 配置中的密钥同步到各服务（锁定后传入不含密钥的配置以清除）
+function applyApiKeys(config: ApiConfig): void {
+  configureVisionProviders(config);
+  configureImageHosts(config);
+}
+
+// 去掉记录中的远程图片信息，之后只显示本地缩略图
+function withoutRemoteImage(record: AnalysisRecord): AnalysisRecord {
+  return { ...record, imageUrl: undefined, remoteImage: undefined, linkCheck: undefined };
+}
+
+// 图片链接检测是否正在进行
+let isCheckingLinks = false;
+
+// 当前选择的视觉模型服务商
+function getActiveProvider() {
+  return getVisionProvider(useAppStore.getState().apiConfig.provider);
+}
+
+// 按重试策略依次尝试的模型：备用模型按 OpenRouter 的模型名填写，当前服务商不是 OpenRouter 时只使用所选模型
+function getFailoverModels(model: string, retryPolicy: RetryPolicy): string[] {
+  return getActiveProvider().id === 'openrouter' ? [model, ...retryPolicy.fallbackModels] : [model];
+}
+
+// 同步更新当前结果和历史记录中的同一条记录
+async function applyPromptChange(record: AnalysisRecord, updated: AnalysisRecord) {
+  if (updated === record) return;
+
+  if (useAppStore.getState().analysisResult?.id === updated.id) {
+    useAppStore.setState({ analysisResult: updated });
+  }
+  await updateSavedRecord(updated);
+}
+
+// 记录已保存到历史记录时写入修改，未保存的结果不写入
+function updateSavedRecord(record: AnalysisRecord): Promise<void> {
+  return runHistoryWrite(async () => {
+    if (!(await historyDb.get(record.id))) {
+      return { saved: [], deleted: [] };
+    }
+    await historyDb.update(record);
+    return { saved: [record], deleted: [] };
+  });
+}
+
+// 追问时使用的图片：当前结果优先使用已选图片，其次为图片URL，本地图片的历史记录只能使用缩略图
+async function resolveRecordImage(record: AnalysisRecord): Promise<string | File> {
+  const { analysisResult, currentImage } = useAppStore.getState();
+  if (analysisResult?.id === record.id && currentImage) {
+    return currentImage.url || currentImage.file;
+  }
+  if (record.imageUrl && !isImageLinkBroken(record)) {
+    return record.imageUrl;
+  }
+
+  // 图片链接失效时优先使用本地保存的原图
+  const original = await historyDb.getImage(record.id);
+  if (original) {
+    return new File([original], record.imageName, { type: original.type || 'image/jpeg' });
+  }
+
+  const thumbnail = await historyDb.getThumbnail(record.id);
+  if (!thumbnail) {
+    throw new Error('原图已不可用，无法继续优化');
+  }
+  return new File([thumbnail], record.imageName, { type: thumbnail.type || 'image/jpeg' });
+}
+
+// 由记录中的提示词生成各生成器版本，并以所选生成器的版本作为主提示词
+function withPromptVariants(record: AnalysisRecord, targetProfile: TargetProfile): AnalysisRecord {
+  const variants = buildPromptVariants(record.prompt, record.imageDimensions);
+  return {
+    ...record,
+    prompt: variants[targetProfile].prompt,
+    targetProfile,
+    variants,
+  };
+}
+
+// 请求结构化维度结果，解析或校验失败时附带纠正说明重试，用量和耗时按所有尝试累计
+async function requestStructuredDimensions(
+  imageData: string | File,
+  options: AnalyzeImageOptions & { customPrompt: string; language: 'zh' | 'en' }
+): Promise<{ dimensions: PromptDimensions; usage?: TokenUsage; latencyMs: number }> {
+  const { customPrompt, language } = options;
+  const instruction = applyStructuredInstruction(customPrompt, language);
+  let lastError: Error | null = null;
+  let usage: TokenUsage | undefined;
+  let latencyMs = 0;
+
+  for (let attempt = 1; attempt <= STRUCTURED_MAX_ATTEMPTS; attempt++) {
+    const result = await getActiveProvider().analyzeImageDetailed(imageData, {
+      ...options,
+      customPrompt: lastError ? buildRetryInstruction(instruction, lastError, language) : instruction,
+    });
+    usage = addUsage(usage, result.usage);
+    latencyMs += result.latencyMs;
+
+    try {
+      return { dimensions: parseStructuredResult(result.content), usage, latencyMs };
+    } catch (error) {
+      if (!(error instanceof StructuredResultError)) {
+        throw error;
+      }
+      console.warn(`Structured result parse failed (attempt ${attempt}):`, error.message);
+      lastError = error;
+    }
+  }
+
+  throw new Error(`结构化结果解析失败：${lastError?.message}`);
+}
+
+// 累加两次调用的用量
+function addUsage(a: TokenUsage | undefined, b: TokenUsage | undefined): TokenUsage | undefined {
+  if (!a || !b) return a || b;
+  return {
+    promptTokens: a.promptTokens + b.promptTokens,
+    completionTokens: a.completionTokens + b.completionTokens,
+    totalTokens: a.totalTokens + b.totalTokens,
+  };
+}
+
+// 在记录上附加用量、耗时和估算费用
+function withUsage(
+  record: AnalysisRecord,
+  result: { usage?: TokenUsage; latencyMs?: number }
+): AnalysisRecord {
+  return {
+    ...record,
+    usage: result.usage,
+    latencyMs: result.latencyMs,
+    cost: record.model ? calculateCost(result.usage, findModelPricing(record.model)) : undefined,
+  };
+}
+
+// 查找模型价格，免费模型（含本地 Ollama）价格为 0
+function findModelPricing(model: string): ModelInfo['pricing'] {
+  const info = [...useAppStore.getState().modelCatalog, ...FALLBACK_MODELS].find(item => item.id === model);
+  if (info?.isFree) {
+    return { prompt: 0, completion: 0 };
+  }
+  return info?.pricing;
+}
+
+// 估算单次费用时读取的同模型记录数
+const COST_ESTIMATE_SAMPLE_SIZE = 50;
+
+// 预算检查：操作预计会使本月费用超出预算时记录警告并暂缓执行，返回是否可以继续
+// 本月费用按时间索引只读取本月创建的记录，单次费用按模型索引读取该模型的部分记录估算
+async function checkBudget(models: string[], proceed: () => void): Promise<boolean> {
+  const budget = useAppStore.getState().userSettings.monthlyBudget;
+  if (!budget) return true;
+
+  let monthCost: number;
+  let estimatedCost: number;
+  try {
+    const now = new Date();
+    monthCost = getMonthlyCost(
+      await historyDb.getMatching({ after: new Date(now.getFullYear(), now.getMonth(), 1) }),
+      now
+    );
+    const costByModel = new Map<string, number>();
+    for (const model of new Set(models)) {
+      const samples = await historyDb.getByModel(model, COST_ESTIMATE_SAMPLE_SIZE);
+      costByModel.set(model, estimateAnalysisCost(model, findModelPricing(model), samples));
+    }
+    estimatedCost = models.reduce((sum, model) => sum + costByModel.get(model)!, 0);
+  } catch (error) {
+    // 无法读取历史记录时不阻止操作
+    console.warn('Failed to check monthly budget:', error);
+    return true;
+  }
+  if (monthCost + estimatedCost <= budget) return true;
+
+  pendingBudgetAction = proceed;
+  useAppStore.setState({ budgetWarning: { monthCost, estimatedCost, budget } });
+  return false;
+}
+
+// 获取图片尺寸（用于计算 Midjourney 画幅比例），失败时返回 undefined
+async function resolveImageDimensions(image: ImageUpload): Promise<{ width: number; height: number } | undefined> {
+  if (image.dimensions) {
+    return image.dimensions;
+  }
+
+  try {
+    return image.isUrl && image.url
+      ? await getImageUrlDimensions(image.url)
+      : await getImageDimensions(image.file);
+  } catch {
+    return undefined;
+  }
+}
+
+// 获取图片指纹（选择图片时已计算的直接使用）
+async function resolveImageHashes(image: ImageUpload): Promise<ImageHashes> {
+  return image.hashes ?? computeImageHashes(image.isUrl && image.url ? image.url : image.file);
+}
+
+// 从数据库中读取可能匹配的记录：内容哈希相同，或感知哈希距离不超过 maxDistance
+async function loadMatchCandidates(hashes: ImageHashes, maxDistance: number): Promise<AnalysisRecord[]> {
+  try {
+    const [sameContent, similar] = await Promise.all([
+      hashes.contentHash ? historyDb.getByContentHash(hashes.contentHash) : [],
+      hashes.perceptualHash
+        ? historyDb.findByPerceptualHash(hash => hammingDistance(hash, hashes.perceptualHash!) <= maxDistance)
+        : [],
+    ]);
+    return Array.from(new Map([...sameContent, ...similar].map(record => [record.id, record])).values());
+  } catch (error) {
+    // 查找已有结果失败时按未分析过处理
+    console.warn('Failed to look up image hashes in history:', error);
+    return [];
+  }
+}
+
+// 本次会话中无法读取图片的历史记录，补算指纹时跳过
+const unhashableRecordIds = new Set<string>();
+
+// 为历史记录补算图片指纹：优先使用本地原图，其次缩略图，最后是图片URL
+// 本地保存的是压缩后的图片，内容哈希与按压缩前文件计算的不同，只使用感知哈希
+async function computeRecordHashes(record: AnalysisRecord): Promise<ImageHashes | null> {
+  const original = await historyDb.getImage(record.id);
+  if (original) {
+    return { perceptualHash: (await computeImageHashes(original)).perceptualHash };
+  }
+
+  const thumbnail = await historyDb.getThumbnail(record.id);
+  if (thumbnail) {
+    return { perceptualHash: (await computeImageHashes(thumbnail)).perceptualHash };
+  }
+
+  return record.imageUrl ? computeImageHashes(record.imageUrl) : null;
+}
+
+// 根据当前选择的模板和变量生成发送给模型的指令
+function resolveAnalysisPrompt(state: AppState): { prompt: string; templateId: string } {
+  const template = findTemplate(state.promptTemplates, state.selectedTemplateId);
+  return {
+    prompt: renderTemplate(template, state.userSettings.language, state.templateVariables),
+    templateId: template.id,
+  };
+}
+
+// 分析上下文中与当前选择相关的部分
+function resolveAnalysisOptions(state: AppState) {
+  return {
+    ...resolveAnalysisPrompt(state),
+    targetProfile: state.selectedProfile,
+    model: state.selectedModel,
+  };
+}
+
+// 当前单图分析的中止控制器
+let analysisController: AbortController | null = null;
+
+// 预算警告确认后要继续执行的操作
+let pendingBudgetAction: (() => void) | null = null;
+
+// 批量分析队列（模块级单例，队列清空后回到空闲状态）
+const batchQueue = new BatchQueue(storageManager.getUserSettings().batchConcurrency, () => {
+  useAppStore.setState({ batchState: 'idle' });
+});
+
+// 训练集标注队列，与批量分析共用并发设置
+const datasetQueue = new BatchQueue(storageManager.getUserSettings().batchConcurrency, () => {
+  useAppStore.setState({ datasetState: 'idle' });
+});
+
+// 更新模型对比中单个模型的结果
+function updateComparisonResult(model: string, patch: Partial<ModelComparisonResult>): void {
+  useAppStore.setState(state => ({
+    comparisonResults: state.comparisonResults.map(result =>
+      result.model === model ? { ...result, ...patch } : result
+    ),
+  }));
+}
+
+// 更新单个批量任务
+function updateBatchJob(id: string, patch: Partial<BatchJob>): void {
+  useAppStore.setState(state => ({
+    batchJobs: state.batchJobs.map(job => (job.id === id ? { ...job, ...patch } : job)),
+  }));
+}
+
+// 执行单个批量任务
+async function runBatchJob(id: string, signal: AbortSignal): Promise<void> {
+  const state = useAppStore.getState();
+  const { batchJobs, apiConfig, userSettings, uploadImage, saveAnalysisRecord } = state;
+  const job = batchJobs.find(item => item.id === id);
+  if (!job) return;
+
+  try {
+    updateBatchJob(id, { status: 'uploading', error: undefined });
+
+    // 按压缩前的图片计算指纹，历史记录中已有完全相同的图片时直接使用已有结果
+    let image: ImageUpload = { ...job.image, hashes: await resolveImageHashes(job.image) };
+    const cached = findCachedAnalysis(
+      { contentHash: image.hashes?.contentHash },
+      await loadMatchCandidates({ contentHash: image.hashes?.contentHash }, 0)
+    );
+    if (cached) {
+      updateBatchJob(id, { status: 'done', result: cached.record, fromCache: true });
+      return;
+    }
+
+    if (!image.isUrl && shouldCompressImage(image.file, 1)) {
+      const file = await compressImage(image.file);
+      image = { ...image, file, size: file.size, type: file.type };
+    }
+
+    if (signal.aborted) {
+      throw new Error('任务已取消');
+    }
+
+    const record = await analyzeImageUpload(image, {
+      apiConfig,
+      userSettings,
+      ...resolveAnalysisOptions(state),
+      upload: uploadImage,
+      signal,
+      onStatus: status => updateBatchJob(id, { status }),
+    });
+
+    updateBatchJob(id, { status: 'done', result: record });
+    await saveAnalysisRecord(record, image);
+  } catch (error) {
+    if (signal.aborted) {
+      updateBatchJob(id, { status: 'cancelled' });
+    } else {
+      updateBatchJob(id, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : '图片分析失败',
+      });
+    }
+  }
+}
+
+// 更新训练集中的单张图片
+function updateDatasetItem(id: string, patch: Partial<DatasetItem>): void {
+  useAppStore.setState(state => ({
+    datasetItems: state.datasetItems.map(item => (item.id === id ? { ...item, ...patch } : item)),
+  }));
+}
+
+// 保存或删除图片的标注缓存
+function cacheDatasetCaption(key: string, caption: string | null): void {
+  const captions = storageManager.getDatasetCaptions();
+  if (caption === null) {
+    delete captions[key];
+  } else {
+    captions[key] = { caption, style: useAppStore.getState().datasetSettings.captionStyle };
+  }
+  storageManager.saveDatasetCaptions(captions);
+}
+
+// 为训练集中的单张图片生成标注，取消时恢复为等待状态以便继续
+async function runDatasetItem(id: string, signal: AbortSignal): Promise<void> {
+  const { datasetItems, datasetSettings, selectedModel, userSettings } = useAppStore.getState();
+  const item = datasetItems.find(entry => entry.id === id);
+  if (!item) return;
+
+  try {
+    updateDatasetItem(id, { status: 'captioning', error: undefined });
+
+    const file = shouldCompressImage(item.file, 1) ? await compressImage(item.file) : item.file;
+    if (signal.aborted) {
+      throw new Error('任务已取消');
+    }
+
+    const { retryPolicy } = userSettings;
+    const { result, model } = await runWithFailover(
+      getFailoverModels(selectedModel, retryPolicy),
+      retryPolicy,
+      candidate => getActiveProvider().analyzeImageDetailed(file, {
+        model: candidate,
+        customPrompt: buildCaptionInstruction(datasetSettings.captionStyle),
+        signal,
+      }),
+      { signal }
+    );
+    const caption = formatCaption(result.content, datasetSettings);
+    if (!caption) {
+      throw new Error('模型未返回标注内容');
+    }
+
+    updateDatasetItem(id, {
+      status: 'done',
+      caption,
+      cost: calculateCost(result.usage, findModelPricing(result.model || model)),
+    });
+    cacheDatasetCaption(item.key, caption);
+  } catch (error) {
+    updateDatasetItem(id, signal.aborted
+      ? { status: 'pending' }
+      : { status: 'failed', error: error instanceof Error ? error.message : '标注失败' });
+  }
+}
+
+// 保险箱解锁后的会话密钥，只保存在内存中，刷新页面后需要重新解锁
+let vaultSession: VaultSession | null = null;
+let lastVaultActivity = Date.now();
+let vaultWrite: Promise<void> = Promise.resolve();
+let vaultIdleTimer: number | null = null;
+
+// 视为用户操作的事件，以及检查是否空闲的间隔
+const VAULT_ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'wheel', 'touchstart'];
+const VAULT_IDLE_CHECK_INTERVAL = 30 * 1000;
+
+// 重新加密保存 API 配置，按调用顺序依次写入
+function persistVault(config: ApiConfig): void {
+  const session = vaultSession;
+  if (!session) return;
+  vaultWrite = vaultWrite
+    .then(async () => storageManager.saveApiVault(await encryptApiConfig(config, session)))
+    .catch(error => {
+      console.error('Error encrypting API config:', error);
+      useAppStore.setState({ error: { message: '加密保存 API 密钥失败' } });
+    });
+}
+
+// 空闲超过设置的时间后自动锁定保险箱
+function watchVaultIdle(): void {
+  if (vaultIdleTimer !== null) return;
+
+  const markActive = () => {
+    lastVaultActivity = Date.now();
+  };
+  VAULT_ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, markActive, { passive: true }));
+
+  vaultIdleTimer = window.setInterval(() => {
+    const state = useAppStore.getState();
+    if (state.vaultStatus !== 'unlocked') return;
+
+    // 分析、对比、批量或标注进行中视为活动，避免中途锁定导致请求失败
+    if (
+      state.isAnalyzing
+      || state.isComparing
+      || state.refiningRecordId
+      || state.batchState === 'running'
+      || state.datasetState === 'running'
+    ) {
+      markActive();
+      return;
+    }
+
+    const minutes = state.userSettings.vaultAutoLockMinutes;
+    if (minutes > 0 && Date.now() - lastVaultActivity >= minutes * 60 * 1000) {
+      state.lockVault();
+    }
+  }, VAULT_IDLE_CHECK_INTERVAL);
+}
+
+// 全文搜索的倒排索引：首次搜索时遍历数据库建立，之后随每次写入增量更新
+// 写入与建立索引的遍历不会交错，建立期间发布的变化直接应用到正在建立的索引
+let searchIndex: { index: SearchIndex; ready: Promise<void> } | null = null;
+
+function loadSearchIndex(): Promise<SearchIndex> {
+  if (!searchIndex) {
+    const index = createSearchIndex();
+    const entry = { index, ready: historyDb.scan(record => addToSearchIndex(index, record)) };
+    // 建立失败时下次搜索重试
+    entry.ready.catch(() => {
+      if (searchIndex === entry) searchIndex = null;
+    });
+    searchIndex = entry;
+  }
+  const { index, ready } = searchIndex;
+  return ready.then(() => index);
+}
+
+// 把写入同步到索引，无法确定具体变化时丢弃索引，下次搜索重新建立
+function updateSearchIndex(change: HistoryChange): void {
+  if (!searchIndex) return;
+  if (change.reload) {
+    searchIndex = null;
+  } else {
+    applySearchIndexChange(searchIndex.index, change);
+  }
+}
+
+// 历史记录读写失败时提示用户（当前页面和历史记录页），存储空间不足时标记为 QUOTA_EXCEEDED
+function reportHistoryError(error: unknown, fallbackMessage: string, prefix: string = ''): void {
+  const historyError: AppError = {
+    message: prefix + (error instanceof Error ? error.message : fallbackMessage),
+    code: error instanceof StorageQuotaError ? 'QUOTA_EXCEEDED' : undefined,
+  };
+  useAppStore.setState({ error: historyError, historyError });
+}
+
+// 写入历史记录后发布本次变化并更新总数，失败（如存储空间不足）时提示用户
+async function runHistoryWrite(write: () => Promise<HistoryChange>): Promise<void> {
+  let change: HistoryChange;
+  try {
+    change = await write();
+  } catch (error) {
+    console.error('Error writing history:', error);
+    reportHistoryError(error, '历史记录保存失败');
+    // 写入可能部分完成，已加载的列表重新读取
+    change = { saved: [], deleted: [], reload: true };
+  }
+  if (change.saved.length > 0 || change.deleted.length > 0 || change.reload) {
+    updateSearchIndex(change);
+    useAppStore.setState({ historyChange: change });
+  }
+  await useAppStore.getState().loadHistoryCount();
+}
+
 export const useAppStore = create<AppState>((set, get) => ({
   // 初始状态
   currentImage: null,
   isAnalyzing: false,
   isUploading: false,
   analysisResult: null,
+  streamingText: null,
+  retryStatus: null,
   error: null,
-  history: [],
+  historyError: null,
+  comparisonResults: [],
+  isComparing: false,
+  refiningRecordId: null,
+  batchJobs: [],
+  batchState: 'idle',
+  datasetItems: [],
+  datasetState: 'idle',
+  datasetSettings: storageManager.getDatasetSettings(),
+  historyCount: 0,
+  historyChange: null,
+  collections: storageManager.getCollections(),
+  tagRules: storageManager.getTagRules(),
   apiConfig: storageManager.getApiConfig(),
+  vaultStatus: storageManager.getApiVault() ? 'locked' : 'disabled',
   userSettings: storageManager.getUserSettings(),
+  promptTemplates: [...BUILTIN_TEMPLATES, ...storageManager.getPromptTemplates()],
+  selectedTemplateId: storageManager.getUserSettings().defaultTemplateId,
+  templateVariables: {},
+  selectedProfile: 'generic',
+  modelCatalog: storageManager.getModelCatalogCache()?.models ?? FALLBACK_MODELS,
+  modelCatalogUpdatedAt: storageManager.getModelCatalogCache()?.fetchedAt ?? null,
+  isLoadingModels: false,
+  selectedModel: getProviderDefaultModel(storageManager.getApiConfig(), storageManager.getUserSettings().defaultModel),
+  budgetWarning: null,
+  cachedMatch: null,
 
   // 基础状态设置
-  setCurrentImage: (image) => set({ currentImage: image, analysisResult: null }),
+  setCurrentImage: (image) => set({ currentImage: image, analysisResult: null, comparisonResults: [], cachedMatch: null }),
   clearCurrentImage: () => {
+    analysisController?.abort();
     const { currentImage } = get();
     if (currentImage?.preview) {
       URL.revokeObjectURL(currentImage.preview);
     }
-    set({ currentImage: null, analysisResult: null });
+    set({ currentImage: null, analysisResult: null, comparisonResults: [], cachedMatch: null });
   },
   clearError: () => set({ error: null }),
+  clearHistoryError: () => set({ historyError: null }),
 
   // 处理图片文件
   processImageFile: async (file: File) => {
@@ -100,11 +1019,13 @@ export const useAppStore = create<AppState>((set, get) => ({
         size: processedFile.size,
         type: processedFile.type,
         uploadedAt: new Date(),
+        hashes: await computeImageHashes(file),
       };
       
       set({ 
         currentImage: imageUpload,
         analysisResult: null,
+        cachedMatch: null,
         isUploading: false 
       });
       
@@ -119,105 +1040,108 @@ export const useAppStore = create<AppState>((set, get) => ({
     }
   },
 
-  // 上传图片到ImgBB
-  uploadImageToImgBB: async (file: File) => {
+  // 上传图片到当前选择的图床
+  uploadImage: async (file: File, signal?: AbortSignal) => {
+    const host = getImageHost(get().apiConfig.imageHost);
     try {
-      const { apiConfig } = get();
-      
-      if (!apiConfig.imgbbKey) {
-        throw new Error('请先设置ImgBB API Key');
+      if (!host.isConfigured()) {
+        throw new Error(`请先配置${host.label}`);
       }
       
-      imgbbApi.setApiKey(apiConfig.imgbbKey);
-      
-      // 转换为Base64
-      const base64 = await fileToBase64(file);
-      
-      // 上传到ImgBB
-      const imageUrl = await imgbbApi.uploadImage(base64, {
-        name: file.name.split('.')[0],
-      });
-      
-      return imageUrl;
+      const { uploadExpiration } = get().userSettings;
+      return await host.upload(file, { signal, expiration: uploadExpiration || undefined });
     } catch (error) {
-      console.error('Error uploading to ImgBB:', error);
+      console.error(`Error uploading to ${host.label}:`, error);
       throw error;
     }
   },
 
   // 分析当前图片
-  analyzeImage: async () => {
-    const { currentImage, apiConfig, userSettings } = get();
+  analyzeImage: async (options) => {
+    const { apiConfig, userSettings, selectedModel } = get();
+    let { currentImage } = get();
     
     if (!currentImage) {
       set({ error: { message: '请先选择图片' } });
       return;
     }
     
-    if (!apiConfig.openRouterKey) {
-      set({ error: { message: '请先设置OpenRouter API Key' } });
+    const provider = getVisionProvider(apiConfig.provider);
+    if (!provider.isConfigured()) {
+      set({ error: { message: providerNotConfiguredMessage(provider.label) } });
       return;
     }
     
-    try {
+    // 历史记录中已有同一张图片时先询问是否使用已有结果
+    if (!options?.skipCacheCheck) {
+      // 计算指纹（URL图片需要先下载）可能较慢，期间显示分析中
       set({ isAnalyzing: true, error: null });
-      
-      // 设置API Key
-      openRouterApi.setApiKey(apiConfig.openRouterKey);
-      
-      let imageData: string | File;
-      
-      // 检查是否是URL来源的图片
-      if (currentImage.isUrl && currentImage.url) {
-        // URL图片直接使用URL，不需要上传
-        imageData = currentImage.url;
-      } else {
-        // 文件上传的图片处理逻辑
-        // 如果有ImgBB API Key，尝试上传图片
-        if (apiConfig.imgbbKey) {
-          try {
-            const imageUrl = await get().uploadImageToImgBB(currentImage.file);
-            imageData = imageUrl;
-            
-            // 更新当前图片的上传URL
-            set({
-              currentImage: {
-                ...currentImage,
-                url: imageUrl,
-              },
-            });
-          } catch (uploadError) {
-            console.warn('ImgBB upload failed, using local file:', uploadError);
-            // 如果上传失败，直接使用文件
-            imageData = currentImage.file;
-          }
-        } else {
-          // 直接使用文件
-          imageData = currentImage.file;
-        }
+      currentImage = { ...currentImage, hashes: await resolveImageHashes(currentImage) };
+      set({ currentImage });
+      const match = findCachedAnalysis(
+        currentImage.hashes!,
+        await loadMatchCandidates(currentImage.hashes!, NEAR_DUPLICATE_DISTANCE)
+      );
+      if (match) {
+        set({ cachedMatch: match, isAnalyzing: false });
+        return;
       }
+    }
+    
+    // 结构化模式可能重试，按一次估算
+    if (
+      !options?.skipBudgetCheck
+      && !(await checkBudget([selectedModel], () => get().analyzeImage({ ...options, skipBudgetCheck: true })))
+    ) {
+      set({ isAnalyzing: false });
+      return;
+    }
+    
+    const controller = new AbortController();
+    analysisController = controller;
+    
+    try {
+      set({ isAnalyzing: true, error: null, analysisResult: null, streamingText: null });
       
-      // 调用OpenRouter API分析图片
-      const result = await openRouterApi.analyzeImage(imageData, {
-        language: userSettings.language,
+      const analysisRecord = await analyzeImageUpload(currentImage, {
+        apiConfig,
+        userSettings,
+        ...resolveAnalysisOptions(get()),
+        upload: get().uploadImage,
+        signal: controller.signal,
+        onToken: userSettings.streamOutput
+          ? (_token, fullText) => set({ streamingText: fullText, retryStatus: null })
+          : undefined,
+        onRetry: retryStatus => set({ retryStatus, streamingText: null }),
       });
       
-      const analysisRecord: AnalysisRecord = {
-        id: generateImageId(),
-        imageName: currentImage.name,
-        imageUrl: currentImage.url,
-        prompt: result,
-        timestamp: new Date(),
-      };
+      // 流式输出被中止且尚无内容时不生成记录
+      if (!analysisRecord.prompt) {
+        return;
+      }
+      
+      // 更新当前图片的上传URL
+      if (analysisRecord.imageUrl && analysisRecord.imageUrl !== currentImage.url) {
+        set({
+          currentImage: {
+            ...currentImage,
+            url: analysisRecord.imageUrl,
+            remoteImage: analysisRecord.remoteImage,
+          },
+        });
+      }
       
       set({ analysisResult: analysisRecord });
       
       // 如果启用自动保存，保存到历史记录
       if (userSettings.autoSave) {
-        get().saveAnalysisRecord(analysisRecord);
+        await get().saveAnalysisRecord(analysisRecord, currentImage);
       }
       
     } catch (error) {
+      if (controller.signal.aborted) {
+        return;
+      }
       console.error('Error analyzing image:', error);
       set({ 
         error: { 
@@ -225,74 +1149,1193 @@ export const useAppStore = create<AppState>((set, get) => ({
         } 
       });
     } finally {
-      set({ isAnalyzing: false });
+      if (analysisController === controller) {
+        analysisController = null;
+      }
+      set({ isAnalyzing: false, streamingText: null, retryStatus: null });
     }
   },
 
-  // 加载历史记录
-  loadHistory: () => {
-    const history = storageManager.getAnalysisHistory();
-    set({ history });
+  // 停止当前分析（流式输出时保留已生成的内容）
+  stopAnalysis: () => {
+    analysisController?.abort();
   },
 
-  // 保存分析记录
-  saveAnalysisRecord: (record) => {
-    storageManager.saveAnalysisRecord(record);
+  // 编辑结构化维度后重新组合提示词
+  updateResultDimensions: (dimensions) => {
+    const { analysisResult, userSettings } = get();
+    if (!analysisResult) return;
     
-    // 重新加载历史记录
-    get().loadHistory();
+    const composed = withPromptVariants(
+      {
+        ...analysisResult,
+        dimensions,
+        prompt: composePromptFromDimensions(dimensions, userSettings.language),
+      },
+      analysisResult.targetProfile || 'generic'
+    );
+    // 重新组合的提示词同样记录为新版本
+    const updatedRecord = {
+      ...composed,
+      versions: addPromptVersion(analysisResult, composed.prompt).versions,
+    };
+    set({ analysisResult: updatedRecord });
+    
+    // 已保存到历史记录的结果同步更新
+    updateSavedRecord(updatedRecord);
   },
 
-  // 删除历史记录
-  deleteHistoryItem: (id) => {
-    storageManager.deleteAnalysisRecord(id);
-    get().loadHistory();
+  // 手动编辑提示词，保存为新版本
+  editPrompt: async (record, prompt) => {
+    await applyPromptChange(record, addPromptVersion(record, prompt.trim()));
   },
 
-  // 清空历史记录
-  clearHistory: () => {
-    storageManager.clearAnalysisHistory();
-    get().loadHistory();
+  // 回退到指定版本（以该版本内容创建新版本）
+  revertPrompt: async (record, versionId) => {
+    await applyPromptChange(record, revertToVersion(record, versionId));
   },
 
-  // 更新API配置
-  updateApiConfig: (config) => {
-    const { apiConfig } = get();
-    const updatedConfig = { ...apiConfig, ...config };
-    
-    storageManager.saveApiConfig(updatedConfig);
-    set({ apiConfig: updatedConfig });
-    
-    // 更新API服务的密钥
-    if (config.openRouterKey) {
-      openRouterApi.setApiKey(config.openRouterKey);
-    }
-    if (config.imgbbKey) {
-      imgbbApi.setApiKey(config.imgbbKey);
+  // 追问优化：模型回复作为新版本保存，对话记录保存在记录上，可在历史记录中继续
+  refinePrompt: async (record, instruction) => {
+    const text = instruction.trim();
+    if (!text || get().refiningRecordId) return;
+
+    const { userSettings, promptTemplates, templateVariables } = get();
+    set({ refiningRecordId: record.id, error: null });
+
+    try {
+      const imageData = await resolveRecordImage(record);
+      // 其他服务商的模型名在 OpenRouter 中不可用，改用默认模型
+      const model = (!record.provider || record.provider === 'openrouter') && record.model
+        ? record.model
+        : DEFAULT_MODEL;
+      const { retryPolicy } = userSettings;
+      const { result } = await runWithFailover(getFailoverModels(model, retryPolicy), retryPolicy, candidate =>
+        openRouterApi.refineAnalysis(
+          imageData,
+          buildRefineMessages(record, text, userSettings.language),
+          {
+            model: candidate,
+            language: userSettings.language,
+            customPrompt: renderTemplate(
+              findTemplate(promptTemplates, record.templateId),
+              userSettings.language,
+              templateVariables
+            ),
+            outputFormat: record.outputFormat,
+            targetProfile: record.targetProfile,
+          }
+        )
+      );
+
+      const refined = record.variants
+        ? withPromptVariants({ ...record, prompt: result.content }, record.targetProfile || 'generic')
+        : { ...record, prompt: result.content };
+      const baseVersions = getPromptVersions(record);
+      const versions = getPromptVersions(addPromptVersion(record, refined.prompt, 'refine'));
+      const turn: RefineTurn = {
+        id: generateRefineId(),
+        instruction: text,
+        prompt: result.content,
+        baseVersionId: baseVersions[baseVersions.length - 1].id,
+        versionId: versions[versions.length - 1].id,
+        createdAt: new Date(),
+        model: result.model,
+        usage: result.usage,
+        latencyMs: result.latencyMs,
+        cost: calculateCost(result.usage, findModelPricing(result.model)),
+      };
+
+      await applyPromptChange(record, withAutoTags({
+        ...refined,
+        versions,
+        refinements: [...(record.refinements || []), turn],
+      }));
+    } catch (error) {
+      console.error('Error refining prompt:', error);
+      set({
+        error: {
+          message: error instanceof Error ? error.message : '提示词优化失败'
+        }
+      });
+    } finally {
+      set({ refiningRecordId: null });
     }
   },
 
-  // 更新用户设置
-  updateUserSettings: (settings) => {
-    const { userSettings } = get();
-    const updatedSettings = { ...userSettings, ...settings };
+  // 将同一图片和模板并行发送给多个模型进行对比
+  runComparison: async (models, options) => {
+    const state = get();
+    const { currentImage, apiConfig, userSettings, selectedProfile } = state;
     
-    storageManager.saveUserSettings(updatedSettings);
-    set({ userSettings: updatedSettings });
-  },
-
-  // 初始化应用
-  initializeApp: () => {
-    const { loadHistory } = get();
-    loadHistory();
+    if (!currentImage) {
+      set({ error: { message: '请先选择图片' } });
+      return;
+    }
     
-    // 设置API密钥
-    const { apiConfig } = get();
-    if (apiConfig.openRouterKey) {
-      openRouterApi.setApiKey(apiConfig.openRouterKey);
+    const provider = getVisionProvider(apiConfig.provider);
+    if (!provider.isConfigured()) {
+      set({ error: { message: providerNotConfiguredMessage(provider.label) } });
+      return;
+    }
+    
+    if (models.length < 2 || models.length > 4) {
+      set({ error: { message: '请选择 2-4 个模型进行对比' } });
+      return;
     }
-    if (apiConfig.imgbbKey) {
-      imgbbApi.setApiKey(apiConfig.imgbbKey);
+    
+    if (
+      !options?.skipBudgetCheck
+      && !(await checkBudget(models, () => get().runComparison(models, { skipBudgetCheck: true })))
+    ) {
+      return;
     }
+    
+    const controller = new AbortController();
+    analysisController = controller;
+    
+    try {
+      set({
+        isComparing: true,
+        error: null,
+        analysisResult: null,
+        comparisonResults: models.map(model => ({ model, status: 'running' })),
+      });
+      
+      // 只上传一次，所有模型共用同一图片数据
+      const { imageData, imageUrl, remoteImage } = await prepareImageData(currentImage, {
+        apiConfig,
+        upload: get().uploadImage,
+        signal: controller.signal,
+      });
+      
+      if (imageUrl && imageUrl !== currentImage.url) {
+        set({ currentImage: { ...currentImage, url: imageUrl, remoteImage } });
+      }
+      
+      const { prompt } = resolveAnalysisPrompt(state);
+      
+      await Promise.all(models.map(async model => {
+        try {
+          // 对比固定模型，只重试不换用备用模型
+          const { result } = await runWithFailover([model], userSettings.retryPolicy, candidate =>
+            provider.analyzeImageDetailed(imageData, {
+              model: candidate,
+              language: userSettings.language,
+              customPrompt: prompt,
+              outputFormat: userSettings.outputFormat,
+              targetProfile: selectedProfile,
+              signal: controller.signal,
+            }),
+            { signal: controller.signal }
+          );
+          
+          updateComparisonResult(model, {
+            status: 'done',
+            prompt: result.content,
+            latencyMs: result.latencyMs,
+            usage: result.usage,
+            cost: calculateCost(result.usage, findModelPricing(model)),
+          });
+        } catch (error) {
+          updateComparisonResult(model, {
+            status: 'failed',
+            error: error instanceof Error ? error.message : '图片分析失败',
+          });
+        }
+      }));
+    } catch (error) {
+      if (controller.signal.aborted) {
+        return;
+      }
+      console.error('Error comparing models:', error);
+      set({ 
+        error: { 
+          message: error instanceof Error ? error.message : '模型对比失败' 
+        } 
+      });
+    } finally {
+      if (analysisController === controller) {
+        analysisController = null;
+      }
+      set({ isComparing: false });
+    }
+  },
+
+  // 选定对比中的最佳结果，保存到历史记录，其余结果作为备选附带保存
+  selectComparisonWinner: async (model) => {
+    const state = get();
+    const { comparisonResults, currentImage, userSettings, selectedProfile } = state;
+    const winner = comparisonResults.find(result => result.model === model && result.status === 'done');
+    if (!winner?.prompt || !currentImage) return;
+    
+    const record = withUsage({
+      id: generateImageId(),
+      imageName: currentImage.name,
+      imageUrl: currentImage.url,
+      remoteImage: currentImage.remoteImage,
+      prompt: winner.prompt,
+      timestamp: new Date(),
+      templateId: resolveAnalysisPrompt(state).templateId,
+      outputFormat: userSettings.outputFormat,
+      imageDimensions: await resolveImageDimensions(currentImage),
+      ...(await resolveImageHashes(currentImage)),
+      model: winner.model,
+      provider: getActiveProvider().id,
+      alternates: comparisonResults
+        .filter(result => result.model !== model && result.status === 'done' && result.prompt)
+        .map(result => ({
+          model: result.model,
+          prompt: result.prompt!,
+          latencyMs: result.latencyMs,
+          usage: result.usage,
+          cost: result.cost,
+        })),
+    }, winner);
+    
+    const finalRecord = withAutoTags(userSettings.outputFormat === 'json'
+      ? record
+      : withPromptVariants(record, selectedProfile));
+    
+    set({ analysisResult: finalRecord });
+    await get().saveAnalysisRecord(finalRecord, currentImage);
+  },
+
+  // 清除对比结果
+  clearComparison: () => set({ comparisonResults: [] }),
+
+  // 添加本地文件到批量队列
+  addBatchFiles: (files) => {
+    const jobs: BatchJob[] = files.map(file => {
+      const validation = validateImageFile(file);
+      return {
+        id: generateImageId(),
+        image: {
+          id: generateImageId(),
+          file,
+          preview: createImagePreview(file),
+          name: file.name,
+          size: file.size,
+          type: file.type,
+          uploadedAt: new Date(),
+        },
+        status: validation.isValid ? 'pending' : 'failed',
+        error: validation.error,
+      };
+    });
+    
+    set(state => ({ batchJobs: [...state.batchJobs, ...jobs] }));
+    
+    // 队列运行中时新任务直接排队
+    if (get().batchState !== 'idle') {
+      jobs
+        .filter(job => job.status === 'pending')
+        .forEach(job => batchQueue.enqueue(job.id, signal => runBatchJob(job.id, signal)));
+    }
+  },
+
+  // 添加图片URL到批量队列
+  addBatchUrls: (urls) => {
+    const jobs: BatchJob[] = urls.map(url => {
+      let fileName = 'URL图片';
+      let isValid = true;
+      try {
+        fileName = new URL(url).pathname.split('/').pop() || fileName;
+      } catch {
+        isValid = false;
+      }
+      
+      return {
+        id: generateImageId(),
+        image: {
+          id: generateImageId(),
+          file: null as unknown as File, // URL模式下不需要File对象
+          preview: url,
+          name: fileName,
+          size: 0,
+          type: 'image/*',
+          uploadedAt: new Date(),
+          url,
+          isUrl: true,
+        },
+        status: isValid ? 'pending' : 'failed',
+        error: isValid ? undefined : '无效的图片URL',
+      };
+    });
+    
+    set(state => ({ batchJobs: [...state.batchJobs, ...jobs] }));
+    
+    if (get().batchState !== 'idle') {
+      jobs
+        .filter(job => job.status === 'pending')
+        .forEach(job => batchQueue.enqueue(job.id, signal => runBatchJob(job.id, signal)));
+    }
+  },
+
+  // 开始批量分析
+  startBatch: async (options) => {
+    const { batchJobs, apiConfig, selectedModel } = get();
+    
+    const provider = getVisionProvider(apiConfig.provider);
+    if (!provider.isConfigured()) {
+      set({ error: { message: providerNotConfiguredMessage(provider.label) } });
+      return;
+    }
+    
+    const pendingJobs = batchJobs.filter(job => job.status === 'pending');
+    if (pendingJobs.length === 0) return;
+    
+    if (
+      !options?.skipBudgetCheck
+      && !(await checkBudget(pendingJobs.map(() => selectedModel), () => get().startBatch({ skipBudgetCheck: true })))
+    ) {
+      return;
+    }
+    
+    set({ batchState: 'running', error: null });
+    batchQueue.resume();
+    pendingJobs.forEach(job => batchQueue.enqueue(job.id, signal => runBatchJob(job.id, signal)));
+  },
+
+  // 暂停批量分析（进行中的任务会继续完成）
+  pauseBatch: () => {
+    batchQueue.pause();
+    set({ batchState: 'paused' });
+  },
+
+  // 恢复批量分析
+  resumeBatch: () => {
+    set({ batchState: 'running' });
+    batchQueue.resume();
+  },
+
+  // 取消全部批量任务
+  cancelBatch: () => {
+    set(state => ({
+      batchJobs: state.batchJobs.map(job =>
+        job.status === 'pending' ? { ...job, status: 'cancelled' } : job
+      ),
+    }));
+    batchQueue.cancelAll();
+    set({ batchState: 'idle' });
+  },
+
+  // 取消单个批量任务
+  cancelBatchJob: (id) => {
+    const job = get().batchJobs.find(item => item.id === id);
+    if (!job) return;
+    
+    batchQueue.cancel(id);
+    if (job.status === 'pending') {
+      updateBatchJob(id, { status: 'cancelled' });
+    }
+  },
+
+  // 重试失败或已取消的任务
+  retryBatchJob: (id) => {
+    const job = get().batchJobs.find(item => item.id === id);
+    if (!job || (job.status !== 'failed' && job.status !== 'cancelled')) return;
+    
+    // 文件校验失败的任务无法重试
+    if (!job.image.isUrl && !validateImageFile(job.image.file).isValid) return;
+    
+    updateBatchJob(id, { status: 'pending', error: undefined });
+    if (get().batchState !== 'idle') {
+      batchQueue.enqueue(id, signal => runBatchJob(id, signal));
+    }
+  },
+
+  // 移除单个批量任务
+  removeBatchJob: (id) => {
+    const job = get().batchJobs.find(item => item.id === id);
+    if (!job) return;
+    
+    batchQueue.cancel(id);
+    if (!job.image.isUrl && job.image.preview) {
+      URL.revokeObjectURL(job.image.preview);
+    }
+    set(state => ({ batchJobs: state.batchJobs.filter(item => item.id !== id) }));
+  },
+
+  // 清空批量队列
+  clearBatch: () => {
+    batchQueue.cancelAll();
+    get().batchJobs.forEach(job => {
+      if (!job.image.isUrl && job.image.preview) {
+        URL.revokeObjectURL(job.image.preview);
+      }
+    });
+    set({ batchJobs: [], batchState: 'idle' });
+  },
+
+  // 添加训练集图片，跳过已添加的文件；缓存中有相同风格标注的图片直接标记为已完成，返回新增数量
+  addDatasetFiles: (entries) => {
+    const { datasetItems, datasetSettings, datasetState } = get();
+    const cached = storageManager.getDatasetCaptions();
+    const existingKeys = new Set(datasetItems.map(item => item.key));
+
+    const items: DatasetItem[] = [];
+    entries.forEach(({ file, path }) => {
+      const key = getDatasetItemKey(path, file);
+      if (existingKeys.has(key)) return;
+      existingKeys.add(key);
+
+      const validation = validateImageFile(file);
+      const resumed = cached[key]?.style === datasetSettings.captionStyle ? cached[key] : undefined;
+      items.push({
+        id: generateImageId(),
+        key,
+        path,
+        file,
+        preview: createImagePreview(file),
+        status: !validation.isValid ? 'failed' : resumed ? 'done' : 'pending',
+        caption: resumed?.caption ?? '',
+        error: validation.error,
+      });
+    });
+
+    set({ datasetItems: [...datasetItems, ...items] });
+
+    if (datasetState !== 'idle') {
+      items
+        .filter(item => item.status === 'pending')
+        .forEach(item => datasetQueue.enqueue(item.id, signal => runDatasetItem(item.id, signal)));
+    }
+    return items.length;
+  },
+
+  // 更新标注设置，修改触发词时同步替换已完成标注开头的触发词
+  updateDatasetSettings: (settings) => {
+    const { datasetSettings, datasetItems } = get();
+    const updatedSettings = { ...datasetSettings, ...settings };
+    storageManager.saveDatasetSettings(updatedSettings);
+    set({ datasetSettings: updatedSettings });
+
+    if (settings.triggerWord === undefined || settings.triggerWord.trim() === datasetSettings.triggerWord.trim()) {
+      return;
+    }
+
+    const captions = storageManager.getDatasetCaptions();
+    set({
+      datasetItems: datasetItems.map(item => {
+        if (item.status !== 'done') return item;
+        const caption = replaceTriggerWord(item.caption, datasetSettings.triggerWord, updatedSettings.triggerWord);
+        if (captions[item.key]) {
+          captions[item.key] = { ...captions[item.key], caption };
+        }
+        return { ...item, caption };
+      }),
+    });
+    storageManager.saveDatasetCaptions(captions);
+  },
+
+  // 开始为等待中的图片生成标注
+  startDataset: async (options) => {
+    const { datasetItems, apiConfig, selectedModel } = get();
+
+    const provider = getVisionProvider(apiConfig.provider);
+    if (!provider.isConfigured()) {
+      set({ error: { message: providerNotConfiguredMessage(provider.label) } });
+      return;
+    }
+
+    const pendingItems = datasetItems.filter(item => item.status === 'pending');
+    if (pendingItems.length === 0) return;
+
+    if (
+      !options?.skipBudgetCheck
+      && !(await checkBudget(pendingItems.map(() => selectedModel), () => get().startDataset({ skipBudgetCheck: true })))
+    ) {
+      return;
+    }
+
+    set({ datasetState: 'running', error: null });
+    datasetQueue.resume();
+    pendingItems.forEach(item => datasetQueue.enqueue(item.id, signal => runDatasetItem(item.id, signal)));
+  },
+
+  // 暂停标注（进行中的图片会继续完成）
+  pauseDataset: () => {
+    datasetQueue.pause();
+    set({ datasetState: 'paused' });
+  },
+
+  // 恢复标注
+  resumeDataset: () => {
+    set({ datasetState: 'running' });
+    datasetQueue.resume();
+  },
+
+  // 停止标注，未完成的图片保持等待状态，可再次开始
+  stopDataset: () => {
+    datasetQueue.cancelAll();
+    set({ datasetState: 'idle' });
+  },
+
+  // 将失败的图片重新加入队列（文件校验失败的除外）
+  retryFailedDataset: () => {
+    const retryIds = get().datasetItems
+      .filter(item => item.status === 'failed' && validateImageFile(item.file).isValid)
+      .map(item => item.id);
+    if (retryIds.length === 0) return;
+
+    set(state => ({
+      datasetItems: state.datasetItems.map(item =>
+        retryIds.includes(item.id) ? { ...item, status: 'pending', error: undefined } : item
+      ),
+    }));
+    if (get().datasetState !== 'idle') {
+      retryIds.forEach(id => datasetQueue.enqueue(id, signal => runDatasetItem(id, signal)));
+    }
+  },
+
+  // 重新生成单张图片的标注
+  recaptionDatasetItem: (id) => {
+    const item = get().datasetItems.find(entry => entry.id === id);
+    if (!item || item.status === 'captioning' || !validateImageFile(item.file).isValid) return;
+
+    cacheDatasetCaption(item.key, null);
+    updateDatasetItem(id, { status: 'pending', caption: '', error: undefined });
+    if (get().datasetState !== 'idle') {
+      datasetQueue.enqueue(id, signal => runDatasetItem(id, signal));
+    }
+  },
+
+  // 手动修改标注
+  updateDatasetCaption: (id, caption) => {
+    const item = get().datasetItems.find(entry => entry.id === id);
+    if (!item) return;
+
+    updateDatasetItem(id, { caption, status: 'done', error: undefined });
+    cacheDatasetCaption(item.key, caption);
+  },
+
+  // 从训练集中移除图片
+  removeDatasetItem: (id) => {
+    const item = get().datasetItems.find(entry => entry.id === id);
+    if (!item) return;
+
+    datasetQueue.cancel(id);
+    URL.revokeObjectURL(item.preview);
+    set(state => ({ datasetItems: state.datasetItems.filter(entry => entry.id !== id) }));
+  },
+
+  // 清空训练集列表（保留标注缓存，重新选择文件夹时可继续）
+  clearDataset: () => {
+    datasetQueue.cancelAll();
+    get().datasetItems.forEach(item => URL.revokeObjectURL(item.preview));
+    set({ datasetItems: [], datasetState: 'idle' });
+  },
+
+  // 清除本地保存的标注缓存
+  clearDatasetProgress: () => {
+    storageManager.removeDatasetCaptions();
+  },
+
+  // 选择本次分析使用的模板
+  selectTemplate: (id) => set({ selectedTemplateId: id }),
+
+  // 设置模板变量值
+  setTemplateVariable: (name, value) => {
+    set(state => ({ templateVariables: { ...state.templateVariables, [name]: value } }));
+  },
+
+  // 选择目标生成器
+  selectProfile: (profile) => set({ selectedProfile: profile }),
+
+  // 新建模板
+  createPromptTemplate: (template) => {
+    const now = new Date();
+    const newTemplate: PromptTemplate = {
+      ...template,
+      id: generateTemplateId(),
+      createdAt: now,
+      updatedAt: now,
+    };
+    
+    const promptTemplates = [...get().promptTemplates, newTemplate];
+    storageManager.savePromptTemplates(promptTemplates);
+    set({ promptTemplates });
+    return newTemplate;
+  },
+
+  // 更新模板（内置模板只读）
+  updatePromptTemplate: (id, updates) => {
+    const promptTemplates = get().promptTemplates.map(template =>
+      template.id === id && !template.isBuiltIn
+        ? { ...template, ...updates, updatedAt: new Date() }
+        : template
+    );
+    
+    storageManager.savePromptTemplates(promptTemplates);
+    set({ promptTemplates });
+  },
+
+  // 复制模板（内置模板复制后可编辑）
+  duplicatePromptTemplate: (id) => {
+    const { promptTemplates, userSettings, createPromptTemplate } = get();
+    const source = promptTemplates.find(template => template.id === id);
+    if (!source) return null;
+    
+    return createPromptTemplate({
+      name: `${source.name} 副本`,
+      description: source.description,
+      content: source.localizedContent?.[userSettings.language] ?? source.content,
+    });
+  },
+
+  // 删除模板，默认或当前选中的模板被删除时回退到内置模板
+  deletePromptTemplate: (id) => {
+    const { promptTemplates, userSettings, selectedTemplateId, updateUserSettings } = get();
+    const target = promptTemplates.find(template => template.id === id);
+    if (!target || target.isBuiltIn) return;
+    
+    const remaining = promptTemplates.filter(template => template.id !== id);
+    storageManager.savePromptTemplates(remaining);
+    set({
+      promptTemplates: remaining,
+      selectedTemplateId: selectedTemplateId === id ? userSettings.defaultTemplateId : selectedTemplateId,
+    });
+    
+    if (userSettings.defaultTemplateId === id) {
+      updateUserSettings({ defaultTemplateId: BUILTIN_TEMPLATE_ID });
+      if (selectedTemplateId === id) {
+        set({ selectedTemplateId: BUILTIN_TEMPLATE_ID });
+      }
+    }
+  },
+
+  // 确认超出预算后继续执行被暂缓的操作
+  confirmBudgetWarning: () => {
+    const action = pendingBudgetAction;
+    pendingBudgetAction = null;
+    set({ budgetWarning: null });
+    action?.();
+  },
+
+  // 放弃被暂缓的操作
+  dismissBudgetWarning: () => {
+    pendingBudgetAction = null;
+    set({ budgetWarning: null });
+  },
+
+  // 使用历史记录中同一张图片的结果，不调用模型
+  applyCachedAnalysis: () => {
+    const { cachedMatch } = get();
+    if (!cachedMatch) return;
+    set({ analysisResult: cachedMatch.record, cachedMatch: null });
+  },
+
+  // 忽略已有结果重新分析
+  reanalyzeIgnoringCache: async () => {
+    set({ cachedMatch: null });
+    await get().analyzeImage({ skipCacheCheck: true });
+  },
+
+  dismissCachedMatch: () => set({ cachedMatch: null }),
+
+  // 为缺少图片指纹的历史记录补算指纹，返回更新的记录数
+  indexHistoryHashes: async () => {
+    const missing = await historyDb.getMatching({
+      filter: record => !record.perceptualHash && !unhashableRecordIds.has(record.id),
+    });
+    const updates = new Map<string, ImageHashes>();
+
+    for (const record of missing) {
+      try {
+        const hashes = await computeRecordHashes(record);
+        if (hashes?.perceptualHash || hashes?.contentHash) {
+          updates.set(record.id, hashes);
+          continue;
+        }
+      } catch (error) {
+        console.warn(`Failed to hash history record ${record.id}:`, error);
+      }
+      unhashableRecordIds.add(record.id);
+    }
+
+    if (updates.size > 0) {
+      await get().updateHistoryItems(Array.from(updates.keys()), record => ({
+        ...record,
+        contentHash: record.contentHash ?? updates.get(record.id)!.contentHash,
+        perceptualHash: updates.get(record.id)!.perceptualHash,
+      }));
+    }
+    return updates.size;
+  },
+
+  // 查找与指定记录图片相似的历史记录（先补算缺少的指纹）
+  findSimilarImages: async (record) => {
+    await get().indexHistoryHashes();
+    const target = (await historyDb.get(record.id)) ?? record;
+    if (!target.perceptualHash && !target.contentHash) {
+      throw new Error('无法读取该记录的图片，不能查找相似图片');
+    }
+    const candidates = await loadMatchCandidates(
+      { contentHash: target.contentHash, perceptualHash: target.perceptualHash },
+      SIMILAR_IMAGE_DISTANCE
+    );
+    return findSimilarRecords(target, candidates);
+  },
+
+  // 加载当前服务商的模型目录，OpenRouter 目录缓存未过期时直接使用缓存
+  loadModelCatalog: async (forceRefresh = false) => {
+    if (get().isLoadingModels) return;
+    
+    const provider = getActiveProvider();
+    if (provider.id === 'openrouter' && !forceRefresh && storageManager.isModelCatalogFresh()) {
+      const cache = storageManager.getModelCatalogCache()!;
+      set({ modelCatalog: cache.models, modelCatalogUpdatedAt: cache.fetchedAt });
+      return;
+    }
+    
+    set({ isLoadingModels: true });
+    try {
+      if (provider.id !== 'openrouter') {
+        // 其他服务商只提供模型ID，没有价格信息
+        const ids = await provider.getAvailableModels();
+        set({
+          modelCatalog: ids.map(id => ({
+            id,
+            name: id,
+            isFree: provider.id === 'ollama',
+            inputModalities: ['text', 'image'],
+          })),
+          modelCatalogUpdatedAt: Date.now(),
+        });
+        return;
+      }
+      
+      const models = await openRouterApi.fetchModelCatalog();
+      if (models.length === 0) {
+        throw new Error('未获取到支持图片输入的模型');
+      }
+      storageManager.saveModelCatalogCache(models);
+      set({ modelCatalog: models, modelCatalogUpdatedAt: Date.now() });
+    } catch (error) {
+      // 获取失败时保留已有缓存或内置列表，仅在手动刷新时提示
+      if (forceRefresh) {
+        set({
+          error: {
+            message: error instanceof Error ? error.message : '模型列表获取失败',
+          }
+        });
+      }
+    } finally {
+      set({ isLoadingModels: false });
+    }
+  },
+
+  // 选择本次分析使用的模型
+  selectModel: (model) => set({ selectedModel: model }),
+
+  // 读取历史记录总数（记录本身由页面分页读取）
+  loadHistoryCount: async () => {
+    try {
+      set({ historyCount: await historyDb.count() });
+    } catch (error) {
+      console.error('Error loading history:', error);
+      reportHistoryError(error, '历史记录加载失败');
+    }
+  },
+
+  // 保存分析记录，本地图片同时保存缩略图（历史记录预览）和原图（导出数据集）
+  saveAnalysisRecord: async (record, image) => {
+    let thumbnail: Blob | undefined;
+    if (image?.file && !image.isUrl) {
+      try {
+        thumbnail = await createThumbnail(image.file);
+      } catch (error) {
+        console.warn('Failed to create thumbnail:', error);
+      }
+    }
+    
+    await runHistoryWrite(async () => {
+      const trimmed = await historyDb.save(
+        record,
+        { thumbnail, image: image?.file && !image.isUrl ? image.file : undefined },
+        get().userSettings.maxHistoryItems
+      );
+      return { saved: [record], deleted: trimmed };
+    });
+  },
+
+  // 更新历史记录
+  updateHistoryItem: (record) => runHistoryWrite(async () => {
+    await historyDb.update(record);
+    return { saved: [record], deleted: [] };
+  }),
+
+  // 删除历史记录
+  deleteHistoryItem: (ids) => runHistoryWrite(async () => {
+    await historyDb.delete(ids);
+    return { saved: [], deleted: Array.isArray(ids) ? ids : [ids] };
+  }),
+
+  // 清空历史记录
+  clearHistory: () => runHistoryWrite(async () => {
+    await historyDb.clear();
+    return { saved: [], deleted: [], reload: true };
+  }),
+
+  // 删除记录在图床上的远程副本，之后记录只保留本地缩略图
+  deleteRemoteImage: async (record) => {
+    if (!record.remoteImage) {
+      throw new Error('该记录没有远程图片');
+    }
+    
+    // 已过期的图片图床已自动删除
+    const result: RemoteDeleteResult = isRemoteExpired(record)
+      ? { status: 'deleted' }
+      : await getImageHost(record.remoteImage.host).deleteImage(record.remoteImage);
+    await get().updateHistoryItem(withoutRemoteImage(record));
+    return result;
+  },
+
+  // 批量删除选中记录的远程图片，逐条删除，失败的记录保留远程地址
+  purgeRemoteImages: async (ids) => {
+    const records = (await historyDb.getMany(ids)).filter(record => record.remoteImage);
+    const result: RemotePurgeResult = { deleted: 0, confirmUrls: [], failed: 0 };
+    const purged: string[] = [];
+    
+    for (const record of records) {
+      try {
+        if (!isRemoteExpired(record)) {
+          const deleteResult = await getImageHost(record.remoteImage!.host).deleteImage(record.remoteImage!);
+          if (deleteResult.status === 'confirm') {
+            result.confirmUrls.push(deleteResult.url);
+          }
+        }
+        result.deleted++;
+        purged.push(record.id);
+      } catch (error) {
+        console.warn(`Failed to delete remote image of ${record.id}:`, error);
+        result.failed++;
+      }
+    }
+    
+    if (purged.length > 0) {
+      await get().updateHistoryItems(purged, withoutRemoteImage);
+    }
+    return result;
+  },
+
+  // 后台检测历史记录中的图片链接，失效的记录改用本地缩略图并可重新上传
+  checkImageLinks: async () => {
+    if (isCheckingLinks || !navigator.onLine) return;
+    isCheckingLinks = true;
+    
+    try {
+      const now = Date.now();
+      const results = new Map<string, boolean>();
+      // 逐张检测，避免同时发出大量请求
+      for (const record of await historyDb.getMatching({ filter: item => needsLinkCheck(item, now) })) {
+        const ok = isRemoteExpired(record, now) ? false : await checkImageUrl(record.imageUrl!);
+        // 超时或检测途中断网时无法判断，下次再检测
+        if (ok === null || !navigator.onLine) continue;
+        results.set(record.id, !ok);
+      }
+      
+      if (results.size > 0) {
+        const checkedAt = Date.now();
+        await get().updateHistoryItems(Array.from(results.keys()), record => ({
+          ...record,
+          linkCheck: { broken: results.get(record.id)!, checkedAt },
+        }));
+      }
+    } catch (error) {
+      // 读取历史记录失败时跳过本次检测
+      console.warn('Failed to check image links:', error);
+    } finally {
+      isCheckingLinks = false;
+    }
+  },
+
+  // 用本地保存的原图重新上传到当前图床，替换失效的图片链接
+  reuploadImage: async (record) => {
+    const host = getImageHost(get().apiConfig.imageHost);
+    if (!host.remote) {
+      throw new Error('当前设置为不上传图片，请先在设置中选择图床');
+    }
+    
+    const blob = await historyDb.getImage(record.id);
+    if (!blob) {
+      throw new Error('本地没有保存原图，无法重新上传');
+    }
+    
+    const file = new File([blob], record.imageName, { type: blob.type || 'image/jpeg' });
+    const remoteImage = await get().uploadImage(file);
+    await get().updateHistoryItem({ ...record, imageUrl: remoteImage.url, remoteImage, linkCheck: undefined });
+  },
+
+  // 批量修改历史记录（标签、星标、评分、收藏夹）
+  updateHistoryItems: (ids, update) => runHistoryWrite(async () => {
+    const records = (await historyDb.getMany(ids)).map(update);
+    await historyDb.saveMany(records);
+    return { saved: records, deleted: [] };
+  }),
+
+  // 导入已校验的记录（冲突已处理），合并收藏夹并按数量上限删除最旧的记录，返回写入条数
+  importRecords: async (records, importedCollections) => {
+    // 收藏夹按ID合并，ID不同但同名时并入本地收藏夹
+    const { collections, userSettings } = get();
+    const knownIds = new Set(collections.map(collection => collection.id));
+    const remappedIds = new Map<string, string>();
+    const added: Collection[] = [];
+    importedCollections.forEach(collection => {
+      if (knownIds.has(collection.id)) return;
+      const existing = findCollectionByName([...collections, ...added], collection.name);
+      if (existing) {
+        remappedIds.set(collection.id, existing.id);
+      } else {
+        added.push(collection);
+      }
+    });
+    
+    if (added.length > 0) {
+      const mergedCollections = [...collections, ...added];
+      storageManager.saveCollections(mergedCollections);
+      set({ collections: mergedCollections });
+    }
+    
+    const validIds = new Set([...knownIds, ...added.map(collection => collection.id)]);
+    const normalized = records.map(record => ({
+      ...record,
+      collectionIds: record.collectionIds
+        ?.map(id => remappedIds.get(id) ?? id)
+        .filter(id => validIds.has(id)),
+    }));
+    
+    await runHistoryWrite(async () => {
+      const trimmed = await historyDb.saveMany(normalized, userSettings.maxHistoryItems);
+      return { saved: normalized, deleted: trimmed };
+    });
+    return normalized.length;
+  },
+
+  // 全文搜索历史记录：在倒排索引中排序，只读取命中的记录并确认短语
+  searchHistoryRecords: async (query) => {
+    const results = searchHistory(await loadSearchIndex(), query);
+    const records = await historyDb.getMany(results.map(result => result.id));
+    return records.filter(record => matchesSearchPhrases(record, query));
+  },
+
+  // 新建收藏夹，同名收藏夹已存在时直接返回
+  createCollection: (name) => {
+    const { collections } = get();
+    const existing = findCollectionByName(collections, name);
+    if (existing) return existing;
+    
+    const collection: Collection = {
+      id: generateCollectionId(),
+      name: name.trim(),
+      createdAt: new Date(),
+    };
+    const updated = [...collections, collection];
+    storageManager.saveCollections(updated);
+    set({ collections: updated });
+    return collection;
+  },
+
+  // 重命名收藏夹
+  renameCollection: (id, name) => {
+    if (!name.trim()) return;
+    const collections = get().collections.map(collection =>
+      collection.id === id ? { ...collection, name: name.trim() } : collection
+    );
+    storageManager.saveCollections(collections);
+    set({ collections });
+  },
+
+  // 删除收藏夹，记录本身保留，仅移出该收藏夹
+  deleteCollection: async (id) => {
+    const collections = get().collections.filter(collection => collection.id !== id);
+    storageManager.saveCollections(collections);
+    set({ collections });
+    
+    const members = await historyDb.getByCollection(id);
+    if (members.length > 0) {
+      await get().updateHistoryItems(members.map(record => record.id), record => ({
+        ...record,
+        collectionIds: record.collectionIds!.filter(collectionId => collectionId !== id),
+      }));
+    }
+  },
+
+  // 保存自动标签规则
+  saveTagRules: (rules) => {
+    const tagRules = rules
+      .map(rule => ({ ...rule, tag: normalizeTag(rule.tag), keywords: mergeTags([], rule.keywords) }))
+      .filter(rule => rule.tag && rule.keywords.length > 0);
+    storageManager.saveTagRules(tagRules);
+    set({ tagRules });
+  },
+
+  // 按当前规则为全部历史记录补充标签，返回标签有变化的记录数
+  retagHistory: async () => {
+    const { tagRules } = get();
+    // 逐条遍历，只保留标签有变化的记录
+    const updates = new Map<string, AnalysisRecord>();
+    await historyDb.scan(record => {
+      const tagged = applyAutoTags(record, tagRules);
+      if ((record.tags || []).join('\n') !== (tagged.tags || []).join('\n')) {
+        updates.set(record.id, tagged);
+      }
+    });
+    
+    if (updates.size > 0) {
+      await get().updateHistoryItems(Array.from(updates.keys()), record => updates.get(record.id)!);
+    }
+    return updates.size;
+  },
+
+  // 更新API配置
+  updateApiConfig: (config) => {
+    const { apiConfig, vaultStatus } = get();
+    if (vaultStatus === 'locked') {
+      throw new Error('密钥保险箱已锁定，请先解锁');
+    }
+    const updatedConfig = { ...apiConfig, ...config };
+    
+    // 启用保险箱时密钥只保存在加密数据中
+    if (vaultStatus === 'unlocked') {
+      storageManager.saveApiConfig(stripSecrets(updatedConfig));
+      persistVault(updatedConfig);
+    } else {
+      storageManager.saveApiConfig(updatedConfig);
+    }
+    set({ apiConfig: updatedConfig });
+    
+    // 更新API服务的密钥
+    applyApiKeys(updatedConfig);
+    
+    // 切换服务商或修改其默认模型后，分析页同步切换模型
+    if (config.provider !== undefined || config.providers) {
+      set({ selectedModel: getProviderDefaultModel(updatedConfig, get().userSettings.defaultModel) });
+    }
+    if ((updatedConfig.provider ?? 'openrouter') !== (apiConfig.provider ?? 'openrouter')) {
+      if (updatedConfig.provider === 'openrouter' || !updatedConfig.provider) {
+        // 切回 OpenRouter 时先显示离线列表，缓存或远程目录加载后替换
+        set({ modelCatalog: FALLBACK_MODELS, modelCatalogUpdatedAt: null });
+      }
+      get().loadModelCatalog();
+    }
+  },
+
+  // 更新用户设置
+  updateUserSettings: (settings) => {
+    const { userSettings } = get();
+    const updatedSettings = { ...userSettings, ...settings };
+    
+    storageManager.saveUserSettings(updatedSettings);
+    set({ userSettings: updatedSettings });
+    
+    if (settings.batchConcurrency) {
+      batchQueue.setConcurrency(settings.batchConcurrency);
+      datasetQueue.setConcurrency(settings.batchConcurrency);
+    }
+    
+    // 默认模板变更后，分析页同步切换
+    if (settings.defaultTemplateId) {
+      set({ selectedTemplateId: settings.defaultTemplateId });
+    }
+    
+    if (settings.defaultModel) {
+      set({ selectedModel: getProviderDefaultModel(get().apiConfig, settings.defaultModel) });
+    }
+  },
+
+  // 解锁保险箱，本次会话内有效
+  unlockVault: async (passphrase) => {
+    const vault = storageManager.getApiVault();
+    if (!vault) {
+      set({ vaultStatus: 'disabled' });
+      return;
+    }
+    
+    const { config, session } = await decryptVault(vault, passphrase);
+    vaultSession = session;
+    lastVaultActivity = Date.now();
+    set({ apiConfig: config, vaultStatus: 'unlocked' });
+    applyApiKeys(config);
+  },
+
+  // 锁定保险箱：清除内存中的密钥和会话密钥
+  lockVault: () => {
+    if (get().vaultStatus !== 'unlocked') return;
+    
+    vaultSession = null;
+    const apiConfig = stripSecrets(get().apiConfig);
+    set({ apiConfig, vaultStatus: 'locked' });
+    applyApiKeys(apiConfig);
+  },
+
+  // 启用保险箱：加密当前配置，本地只保留不含密钥的配置
+  enableVault: async (passphrase) => {
+    if (get().vaultStatus !== 'disabled') return;
+    
+    const session = await createVaultSession(passphrase);
+    const { apiConfig } = get();
+    storageManager.saveApiVault(await encryptApiConfig(apiConfig, session));
+    storageManager.saveApiConfig(stripSecrets(apiConfig));
+    vaultSession = session;
+    lastVaultActivity = Date.now();
+    set({ vaultStatus: 'unlocked' });
+  },
+
+  // 修改密码：验证当前密码后用新密码重新加密
+  changeVaultPassphrase: async (current, next) => {
+    await vaultWrite;
+    const vault = storageManager.getApiVault();
+    if (!vault) {
+      throw new Error('尚未启用密钥保险箱');
+    }
+    
+    const session = await createVaultSession(next);
+    const { config } = await decryptVault(vault, current);
+    storageManager.saveApiVault(await encryptApiConfig(config, session));
+    vaultSession = session;
+    lastVaultActivity = Date.now();
+    set({ apiConfig: config, vaultStatus: 'unlocked' });
+    applyApiKeys(config);
+  },
+
+  // 移除保险箱：验证密码后恢复为明文保存
+  disableVault: async (passphrase) => {
+    await vaultWrite;
+    const vault = storageManager.getApiVault();
+    if (!vault) {
+      set({ vaultStatus: 'disabled' });
+      return;
+    }
+    
+    const { config } = await decryptVault(vault, passphrase);
+    storageManager.saveApiConfig(config);
+    storageManager.removeApiVault();
+    vaultSession = null;
+    set({ apiConfig: config, vaultStatus: 'disabled' });
+    applyApiKeys(config);
+  },
+
+  // 初始化应用
+  initializeApp: () => {
+    const { loadHistoryCount } = get();
+    loadHistoryCount();
+    
+    // 旧历史记录迁移失败时提示用户，旧数据保留在 localStorage 中，下次启动时重试
+    historyDb.getMigrationError()
+      .then(error => {
+        if (error) reportHistoryError(error, '迁移失败', '旧版历史记录迁移失败，下次启动时重试：');
+      })
+      .catch(() => {
+        // 数据库无法打开时已由 loadHistoryCount 提示
+      });
+    
+    // 设置API密钥（保险箱锁定时配置中不含密钥，解锁后再设置）
+    applyApiKeys(get().apiConfig);
+    watchVaultIdle();
+    
+    // 后台刷新过期的模型目录
+    get().loadModelCatalog();
   },
 }));
\ No newline at end of file
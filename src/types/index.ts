@@ -9,33 +9,380 @@ export interface ImageUpload {
   uploadedAt: Date;
   url?: string;
   isUrl?: boolean; // 标记是否为URL来源的图片
+  dimensions?: { width: number; height: number };
+  hashes?: ImageHashes; // 分析前计算，用于查找已分析过的相同或相似图片
+  remoteImage?: RemoteImage; // 已上传到图床的副本，再次分析时直接使用
 }
 
+// 图片指纹：内容哈希识别完全相同的文件，感知哈希（dHash）识别缩放、压缩后的相似图片
+export interface ImageHashes {
+  contentHash?: string;
+  perceptualHash?: string;
+}
+
+// 图床：ImgBB、S3 兼容存储（预签名上传）、通用 multipart 上传接口、不上传（图片内嵌在请求中）
+export type ImageHostId = 'imgbb' | 's3' | 'multipart' | 'inline';
+
+// 上传到图床的图片副本
+export interface RemoteImage {
+  host: ImageHostId;
+  url: string;
+  deleteUrl?: string; // ImgBB 返回的删除页面，或 multipart 接口返回的删除地址
+  key?: string; // S3 对象键，删除时重新签名
+  uploadedAt?: number; // 上传时间（毫秒时间戳）
+  expiresAt?: number; // 图床删除图片或地址失效的时间（毫秒时间戳），没有则长期有效
+}
+
+// 图片链接检测结果
+export interface LinkCheck {
+  broken: boolean;
+  checkedAt: number; // 毫秒时间戳
+}
+
+// 删除远程图片的结果：ImgBB 没有删除接口，需要在其删除页面中确认
+export type RemoteDeleteResult = { status: 'deleted' } | { status: 'confirm'; url: string };
+
+// 批量删除远程图片的结果
+export interface RemotePurgeResult {
+  deleted: number;
+  confirmUrls: string[]; // 需要在图床页面中确认删除的地址（ImgBB）
+  failed: number;
+}
+
+// 批量任务状态
+export type BatchJobStatus = 'pending' | 'uploading' | 'analyzing' | 'done' | 'failed' | 'cancelled';
+
+// 批量分析任务类型
+export interface BatchJob {
+  id: string;
+  image: ImageUpload;
+  status: BatchJobStatus;
+  error?: string;
+  result?: AnalysisRecord;
+  fromCache?: boolean; // 结果来自历史记录中的相同图片，未调用模型
+}
+
+// 批量队列运行状态
+export type BatchQueueState = 'idle' | 'running' | 'paused';
+
+// 训练集标注风格：booru 标签或自然语言描述
+export type CaptionStyle = 'booru' | 'natural';
+
+// 训练集标注设置
+export interface DatasetSettings {
+  triggerWord: string; // 触发词，添加在每条标注开头
+  captionStyle: CaptionStyle;
+}
+
+// 训练集图片的标注状态
+export type DatasetItemStatus = 'pending' | 'captioning' | 'done' | 'failed';
+
+// 训练集中的单张图片
+export interface DatasetItem {
+  id: string;
+  key: string; // 由相对路径、大小和修改时间组成，用于断点续标
+  path: string; // 文件夹内的相对路径
+  file: File;
+  preview: string;
+  status: DatasetItemStatus;
+  caption: string;
+  error?: string;
+  cost?: number; // 按模型价格估算的费用（美元）
+}
+
+// 已完成的标注，按图片键保存，重新选择同一文件夹时跳过已标注的图片
+export type DatasetCaptionCache = Record<string, { caption: string; style: CaptionStyle }>;
+
 // 分析记录类型
 export interface AnalysisRecord {
   id: string;
   imageName: string;
   imageUrl?: string;
+  remoteImage?: RemoteImage; // 图床上的副本，用于删除远程图片
+  linkCheck?: LinkCheck; // 后台检测图片链接的结果，失效时改用本地缩略图
+  prompt: string;
+  timestamp: Date;
+  templateId?: string; // 生成时使用的提示词模板
+  outputFormat?: OutputFormat; // 生成时使用的输出格式
+  targetProfile?: TargetProfile; // 生成时选择的目标生成器
+  variants?: Partial<Record<TargetProfile, PromptVariant>>; // 各生成器格式的提示词
+  dimensions?: PromptDimensions; // 结构化分析的 8 个视觉维度
+  imageDimensions?: { width: number; height: number };
+  contentHash?: string; // 图片内容哈希（SHA-256）
+  perceptualHash?: string; // 图片感知哈希（dHash）
+  model?: string; // 生成结果的模型
+  requestedModel?: string; // 主模型失败、由备用模型生成时原本选择的模型
+  attempts?: number; // 请求次数（含重试和换用备用模型）
+  alternates?: AlternateResult[]; // 模型对比时未选中的结果
+  provider?: VisionProviderId; // 生成时使用的服务商
+  usage?: TokenUsage; // Token用量（结构化模式含重试）
+  latencyMs?: number; // 请求耗时
+  cost?: number; // 按模型价格估算的费用（美元），无价格信息时为空
+  tags?: string[]; // 标签（小写，已去重）
+  notes?: string; // 备注
+  favorite?: boolean; // 是否星标
+  rating?: number; // 评分（1-5星）
+  collectionIds?: string[]; // 所属收藏夹
+  versions?: PromptVersion[]; // 提示词版本历史，首个版本为模型原始输出（首次编辑时创建）
+  refinements?: RefineTurn[]; // 追问优化的对话记录
+}
+
+// 提示词版本来源：模型输出、手动编辑、回退到旧版本、追问优化
+export type PromptVersionSource = 'model' | 'edit' | 'revert' | 'refine';
+
+// 提示词版本
+export interface PromptVersion {
+  id: string;
+  prompt: string;
+  source: PromptVersionSource;
+  createdAt: Date;
+  revertedFrom?: string; // 回退时来源版本的ID
+}
+
+// 一轮追问优化：用户的修改要求和模型返回的提示词
+export interface RefineTurn {
+  id: string;
+  instruction: string;
   prompt: string;
+  baseVersionId: string; // 发起追问时的提示词版本
+  versionId: string; // 本轮生成的提示词版本
+  createdAt: Date;
+  model?: string;
+  usage?: TokenUsage;
+  latencyMs?: number;
+  cost?: number;
+}
+
+// 自动标签规则：文本中出现任一关键词时添加标签，同时把与关键词相同的标签合并为该标签
+export interface TagRule {
+  id: string;
+  keywords: string[];
+  tag: string; // 如 lighting:cinematic
+}
+
+// 收藏夹（用于整理历史记录）
+export interface Collection {
+  id: string;
+  name: string;
+  createdAt: Date;
+}
+
+// 历史记录分页查询条件
+export interface HistoryQuery {
+  after?: Date; // 仅包含此时间之后的记录
+  before?: Date; // 仅包含此时间之前的记录
+  model?: string;
+  tag?: string;
+  favorite?: boolean; // 仅星标记录
+  collectionId?: string; // 仅该收藏夹中的记录
+  order?: 'newest' | 'oldest';
+  filter?: (record: AnalysisRecord) => boolean; // 其余条件在游标遍历时逐条判断
+}
+
+// 分页游标，指向上一页的最后一条记录
+export interface HistoryCursor {
   timestamp: Date;
+  id: string;
+}
+
+// 历史记录分页结果
+export interface HistoryPage {
+  records: AnalysisRecord[];
+  nextCursor: HistoryCursor | null; // 没有更多记录时为空
+}
+
+// 一次历史记录写入的结果，页面据此增量更新已加载的记录
+export interface HistoryChange {
+  saved: AnalysisRecord[]; // 新增或修改的记录
+  deleted: string[]; // 删除的记录ID（包括超出数量上限被删除的最旧记录）
+  reload?: boolean; // 清空或写入失败等无法确定具体变化时，页面重新读取
+}
+
+// Token用量
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+// 模型对比中的单个模型结果
+export interface ModelComparisonResult {
+  model: string;
+  status: 'running' | 'done' | 'failed';
+  prompt?: string;
+  error?: string;
+  latencyMs?: number;
+  usage?: TokenUsage;
+  cost?: number;
+}
+
+// 备选结果（对比时未被选为最佳的模型输出）
+export interface AlternateResult {
+  model: string;
+  prompt: string;
+  latencyMs?: number;
+  usage?: TokenUsage;
+  cost?: number;
+}
+
+// 结构化分析的 8 个视觉维度
+export type PromptDimensionKey =
+  | 'subject'
+  | 'clothing'
+  | 'scene'
+  | 'style'
+  | 'composition'
+  | 'lighting'
+  | 'details'
+  | 'mood';
+
+export type PromptDimensions = Record<PromptDimensionKey, string>;
+
+// 结果模式：单段提示词或结构化维度
+export type ResultMode = 'prompt' | 'structured';
+
+// 目标生成器配置
+export type TargetProfile = 'generic' | 'midjourney' | 'sdxl' | 'flux' | 'dalle';
+
+// 适配特定生成器的提示词
+export interface PromptVariant {
+  prompt: string;
+  negativePrompt?: string;
+}
+
+// 输出格式：详细、简洁、逗号分隔标签、结构化JSON
+export type OutputFormat = 'detailed' | 'concise' | 'tags' | 'json';
+
+// 提示词模板类型
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  content: string; // 支持 {{language}}、{{style}} 等变量
+  localizedContent?: Partial<Record<'zh' | 'en', string>>; // 按输出语言区分的内容（内置模板使用）
+  isBuiltIn?: boolean; // 内置模板只读
+  createdAt: Date;
+  updatedAt: Date;
 }
 
 // API配置类型
+// 视觉模型服务商
+export type VisionProviderId = 'openrouter' | 'openai' | 'ollama' | 'gemini' | 'anthropic';
+
+// 单个服务商的连接配置
+export interface ProviderConfig {
+  apiKey?: string;
+  baseUrl?: string; // 为空时使用服务商默认地址
+  model?: string; // 该服务商的默认模型
+}
+
+// 代理模式：OpenRouter 和 ImgBB 请求经同源的 /api 接口转发，密钥保存在服务端
+export interface ProxyConfig {
+  enabled: boolean;
+  token?: string; // 代理服务器配置了用户令牌时填写
+}
+
+// S3 兼容存储配置（AWS S3、MinIO 等），存储桶需允许本站跨域 PUT/DELETE
+export interface S3HostConfig {
+  endpoint?: string; // 如 https://s3.us-east-1.amazonaws.com 或 http://localhost:9000
+  region?: string;
+  bucket?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  publicUrl?: string; // 公开访问地址前缀，为空时使用 7 天有效的预签名地址
+  keyPrefix?: string; // 对象键前缀，如 uploads/
+  virtualHosted?: boolean; // 使用 bucket.endpoint 形式的地址，默认路径形式（MinIO）
+}
+
+// 通用 multipart 上传接口配置
+export interface MultipartHostConfig {
+  url?: string;
+  fieldName?: string; // 文件字段名，默认 file
+  authorization?: string; // Authorization 请求头
+  urlField?: string; // 响应 JSON 中图片地址的路径，如 data.url，默认 url
+  deleteUrlField?: string; // 响应 JSON 中删除地址的路径（可选），删除时发送 DELETE 请求
+}
+
 export interface ApiConfig {
   openRouterKey: string;
   imgbbKey?: string;
+  imageHost?: ImageHostId; // 未设置时使用 ImgBB
+  imageHosts?: {
+    s3?: S3HostConfig;
+    multipart?: MultipartHostConfig;
+  };
+  provider?: VisionProviderId; // 未设置时使用 OpenRouter
+  providers?: Partial<Record<Exclude<VisionProviderId, 'openrouter'>, ProviderConfig>>;
+  proxy?: ProxyConfig;
 }
 
+// 加密后的 API 配置（PBKDF2 派生密钥 + AES-GCM），二进制字段为 Base64
+export interface EncryptedVault {
+  version: 1;
+  salt: string;
+  iv: string;
+  iterations: number;
+  ciphertext: string;
+}
+
+// 密钥保险箱状态：未启用、已锁定（密钥不在内存中）、已解锁
+export type VaultStatus = 'disabled' | 'locked' | 'unlocked';
+
 // 用户设置类型
 export interface UserSettings {
   language: 'zh' | 'en';
-  outputFormat: 'detailed' | 'concise';
+  outputFormat: OutputFormat;
   autoSave: boolean;
   maxHistoryItems: number;
+  batchConcurrency: number; // 批量分析并发数
+  streamOutput: boolean; // 流式输出分析结果
+  defaultTemplateId: string; // 默认提示词模板
+  resultMode: ResultMode;
+  defaultModel: string; // 默认分析模型
+  monthlyBudget: number; // 每月预算（美元），0 表示不限制
+  autoTagging: boolean; // 分析完成后自动提取标签
+  vaultAutoLockMinutes: number; // 密钥保险箱无操作自动锁定的分钟数，0 表示不自动锁定
+  uploadExpiration: number; // 上传到图床的图片保存时长（秒），0 表示永久保存
+  retryPolicy: RetryPolicy; // 分析请求的重试与备用模型策略
+}
+
+// 分析请求失败时的重试策略
+export interface RetryPolicy {
+  maxAttempts: number; // 每个模型最多请求次数（含首次）
+  baseDelayMs: number; // 首次重试的等待时间，之后按指数增长并加入随机抖动
+  maxDelayMs: number; // 单次等待上限，Retry-After 超过上限时直接换用下一个模型
+  fallbackModels: string[]; // 主模型失败后依次尝试的备用模型
+}
+
+// 等待重试或换用备用模型时的进度
+export interface RetryStatus {
+  model: string; // 刚失败的模型
+  attempt: number; // 该模型第几次请求失败
+  maxAttempts: number;
+  reason: string; // 失败原因
+  delayMs: number; // 下次请求前的等待时间
+  nextModel?: string; // 换用的备用模型，为空时重试同一模型
+}
+
+// 预算警告：本次操作预计会超出每月预算
+export interface BudgetWarning {
+  monthCost: number; // 本月已产生的费用
+  estimatedCost: number; // 本次操作的预计费用
+  budget: number;
+}
+
+// OpenRouter 密钥额度信息
+export interface OpenRouterKeyInfo {
+  label?: string;
+  usage: number; // 已用额度（美元）
+  limit: number | null; // 额度上限，null 表示不限
+  isFreeTier: boolean;
 }
 
 // OpenRouter API响应类型
 export interface OpenRouterResponse {
+  id?: string;
+  model?: string;
   choices: Array<{
     message: {
       content: string;
@@ -49,6 +396,59 @@ export interface OpenRouterResponse {
   };
 }
 
+// OpenRouter 流式响应片段类型
+export interface OpenRouterStreamChunk {
+  model?: string;
+  choices?: Array<{
+    delta?: {
+      content?: string;
+      role?: string;
+    };
+    finish_reason?: string | null;
+  }>;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
+  error?: {
+    message: string;
+    code?: number;
+  };
+}
+
+// 模型目录条目
+export interface ModelInfo {
+  id: string;
+  name: string;
+  contextLength?: number;
+  pricing?: { // 非 OpenRouter 服务商的模型没有价格信息
+    prompt: number; // 每个输入 token 的美元价格
+    completion: number; // 每个输出 token 的美元价格
+    image?: number; // 每张图片的美元价格
+  };
+  isFree: boolean;
+  inputModalities: string[];
+}
+
+// OpenRouter 模型列表响应类型
+export interface OpenRouterModelsResponse {
+  data: Array<{
+    id: string;
+    name: string;
+    context_length?: number;
+    pricing?: {
+      prompt?: string;
+      completion?: string;
+      image?: string;
+    };
+    architecture?: {
+      modality?: string;
+      input_modalities?: string[];
+    };
+  }>;
+}
+
 // ImgBB API响应类型
 export interface ImgBBResponse {
   data: {
@@ -0,0 +1,141 @@
+import { AnalysisRecord, PromptDimensionKey, TagRule } from '../types';
+import { mergeTags, normalizeTag } from './recordOrganization';
+import { containsCjk } from './historySearch';
+
+// 自动标签的类别（标签以「类别:值」的形式保存）
+export type TagCategory = 'medium' | 'style' | 'subject' | 'lighting' | 'color';
+
+export const TAG_CATEGORY_LABELS: Record<TagCategory, string> = {
+  medium: '媒介',
+  style: '风格',
+  subject: '主体',
+  lighting: '光线',
+  color: '色调',
+};
+
+// 结构化结果中各类别对应的维度，只在相关维度中匹配，减少误判
+const CATEGORY_DIMENSIONS: Record<TagCategory, PromptDimensionKey[]> = {
+  medium: ['style', 'details'],
+  style: ['style', 'mood'],
+  subject: ['subject', 'scene'],
+  lighting: ['lighting'],
+  color: ['lighting', 'style'],
+};
+
+// 内置关键词词典（中英文）
+export const BUILTIN_TAG_RULES: TagRule[] = [
+  // 媒介
+  { id: 'builtin-photo', tag: 'medium:photography', keywords: ['photograph', 'photography', 'photo', 'dslr', '摄影', '照片', '实拍'] },
+  { id: 'builtin-oil', tag: 'medium:oil-painting', keywords: ['oil painting', '油画'] },
+  { id: 'builtin-watercolor', tag: 'medium:watercolor', keywords: ['watercolor', 'watercolour', '水彩'] },
+  { id: 'builtin-digital', tag: 'medium:digital-art', keywords: ['digital art', 'digital painting', '数字艺术', '数字绘画', '板绘'] },
+  { id: 'builtin-3d', tag: 'medium:3d-render', keywords: ['3d render', '3d rendering', 'octane render', 'blender', 'unreal engine', '3d渲染', '三维渲染'] },
+  { id: 'builtin-illustration', tag: 'medium:illustration', keywords: ['illustration', '插画', '插图'] },
+  { id: 'builtin-sketch', tag: 'medium:sketch', keywords: ['sketch', 'pencil drawing', 'charcoal', '素描', '速写', '铅笔画'] },
+  { id: 'builtin-ink', tag: 'medium:ink', keywords: ['ink wash', 'ink painting', '水墨', '国画'] },
+  { id: 'builtin-pixel', tag: 'medium:pixel-art', keywords: ['pixel art', '像素画', '像素风'] },
+  // 风格
+  { id: 'builtin-cinematic', tag: 'style:cinematic', keywords: ['cinematic', 'film still', '电影感', '电影质感'] },
+  { id: 'builtin-realistic', tag: 'style:realistic', keywords: ['photorealistic', 'hyperrealistic', 'realistic', '写实', '超写实', '照片级'] },
+  { id: 'builtin-anime', tag: 'style:anime', keywords: ['anime', 'manga', '动漫', '二次元', '日系动画'] },
+  { id: 'builtin-minimalist', tag: 'style:minimalist', keywords: ['minimalist', 'minimalism', '极简'] },
+  { id: 'builtin-cyberpunk', tag: 'style:cyberpunk', keywords: ['cyberpunk', '赛博朋克'] },
+  { id: 'builtin-fantasy', tag: 'style:fantasy', keywords: ['fantasy', '奇幻', '魔幻'] },
+  { id: 'builtin-vintage', tag: 'style:vintage', keywords: ['vintage', 'retro', '复古', '怀旧'] },
+  { id: 'builtin-surreal', tag: 'style:surreal', keywords: ['surreal', 'surrealism', '超现实'] },
+  { id: 'builtin-impressionism', tag: 'style:impressionism', keywords: ['impressionist', 'impressionism', '印象派'] },
+  { id: 'builtin-chinese', tag: 'style:chinese', keywords: ['chinese style', '国风', '中国风', '古风'] },
+  // 主体
+  { id: 'builtin-portrait', tag: 'subject:portrait', keywords: ['portrait', 'headshot', '人像', '肖像', '半身像'] },
+  { id: 'builtin-landscape', tag: 'subject:landscape', keywords: ['landscape', 'scenery', 'mountains', '风景', '山水', '风光'] },
+  { id: 'builtin-cityscape', tag: 'subject:cityscape', keywords: ['cityscape', 'city street', 'skyline', '城市', '街景', '街道'] },
+  { id: 'builtin-animal', tag: 'subject:animal', keywords: ['animal', 'cat', 'dog', 'bird', 'horse', '动物', '猫', '狗', '鸟'] },
+  { id: 'builtin-architecture', tag: 'subject:architecture', keywords: ['architecture', 'building', 'interior', '建筑', '室内'] },
+  { id: 'builtin-food', tag: 'subject:food', keywords: ['food', 'dish', 'dessert', '美食', '食物', '甜点'] },
+  { id: 'builtin-product', tag: 'subject:product', keywords: ['product shot', 'product photography', '产品', '商品'] },
+  { id: 'builtin-still-life', tag: 'subject:still-life', keywords: ['still life', '静物'] },
+  { id: 'builtin-vehicle', tag: 'subject:vehicle', keywords: ['car', 'vehicle', 'motorcycle', '汽车', '车辆', '摩托'] },
+  // 光线
+  { id: 'builtin-light-cinematic', tag: 'lighting:cinematic', keywords: ['cinematic lighting', 'dramatic lighting', '电影光效', '电影级光影', '戏剧性光线', '戏剧光'] },
+  { id: 'builtin-light-golden', tag: 'lighting:golden-hour', keywords: ['golden hour', 'sunset', 'sunrise', '黄金时刻', '黄昏', '日落', '夕阳', '日出'] },
+  { id: 'builtin-light-soft', tag: 'lighting:soft', keywords: ['soft light', 'soft lighting', 'diffused light', '柔光', '柔和的光', '柔和光线'] },
+  { id: 'builtin-light-backlit', tag: 'lighting:backlit', keywords: ['backlit', 'backlight', 'rim light', '逆光', '轮廓光'] },
+  { id: 'builtin-light-neon', tag: 'lighting:neon', keywords: ['neon', '霓虹'] },
+  { id: 'builtin-light-studio', tag: 'lighting:studio', keywords: ['studio lighting', 'softbox', '影棚', '棚拍'] },
+  { id: 'builtin-light-natural', tag: 'lighting:natural', keywords: ['natural light', 'daylight', '自然光', '日光'] },
+  { id: 'builtin-light-low-key', tag: 'lighting:low-key', keywords: ['low key', 'low-key', 'chiaroscuro', '暗调', '低调光', '明暗对比'] },
+  { id: 'builtin-light-night', tag: 'lighting:night', keywords: ['night', 'moonlight', '夜晚', '夜景', '月光'] },
+  // 色调
+  { id: 'builtin-color-warm', tag: 'color:warm', keywords: ['warm tones', 'warm colors', 'warm palette', '暖色', '暖色调'] },
+  { id: 'builtin-color-cool', tag: 'color:cool', keywords: ['cool tones', 'cool colors', 'cool palette', '冷色', '冷色调'] },
+  { id: 'builtin-color-mono', tag: 'color:monochrome', keywords: ['monochrome', 'black and white', '黑白', '单色'] },
+  { id: 'builtin-color-pastel', tag: 'color:pastel', keywords: ['pastel', '马卡龙色', '粉彩'] },
+  { id: 'builtin-color-vibrant', tag: 'color:vibrant', keywords: ['vibrant', 'saturated', '鲜艳', '高饱和'] },
+  { id: 'builtin-color-muted', tag: 'color:muted', keywords: ['muted', 'desaturated', '低饱和', '柔和色调'] },
+];
+
+// 含中日韩文字的关键词按子串匹配，其余按单词边界匹配
+function matchesKeyword(text: string, keyword: string): boolean {
+  const normalized = normalizeTag(keyword);
+  if (!normalized) return false;
+  if (containsCjk(normalized)) {
+    return text.includes(normalized);
+  }
+
+  const escaped = normalized.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/ /g, '[\\s-]+');
+  return new RegExp(`(^|[^\\p{L}\\p{N}])${escaped}s?($|[^\\p{L}\\p{N}])`, 'u').test(text);
+}
+
+// 标签的类别（不带前缀或未知前缀时返回 undefined）
+function getTagCategory(tag: string): TagCategory | undefined {
+  const prefix = tag.split(':')[0] as TagCategory;
+  return prefix in CATEGORY_DIMENSIONS && tag.includes(':') ? prefix : undefined;
+}
+
+/**
+ * 生成标签规则ID
+ */
+export function generateTagRuleId(): string {
+  return `rule_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
+}
+
+/**
+ * 合并同义标签：与某条规则的关键词完全相同的标签替换为规则标签
+ * 如规则「cinematic lighting → lighting:cinematic」会把手动添加的 cinematic lighting 标签合并
+ */
+export function canonicalizeTags(tags: string[], rules: TagRule[]): string[] {
+  return mergeTags([], tags.map(tag => {
+    const normalized = normalizeTag(tag);
+    const rule = rules.find(item => item.keywords.some(keyword => normalizeTag(keyword) === normalized));
+    return rule ? rule.tag : normalized;
+  }));
+}
+
+/**
+ * 从提示词中提取标签：同时匹配用户规则和内置词典
+ * 结构化结果按类别只匹配相关维度，其余情况匹配整段提示词
+ */
+export function extractTags(record: Pick<AnalysisRecord, 'prompt' | 'dimensions'>, userRules: TagRule[] = []): string[] {
+  const fullText = record.prompt.toLowerCase();
+  const rules = [...userRules, ...BUILTIN_TAG_RULES];
+
+  const tags = rules
+    .filter(rule => {
+      const category = getTagCategory(normalizeTag(rule.tag));
+      const text = record.dimensions && category
+        ? CATEGORY_DIMENSIONS[category].map(key => record.dimensions![key] || '').join('\n').toLowerCase()
+        : fullText;
+      return rule.keywords.some(keyword => matchesKeyword(text, keyword));
+    })
+    .map(rule => rule.tag);
+
+  return mergeTags([], tags);
+}
+
+/**
+ * 为记录添加自动标签，保留已有标签并按用户规则合并同义标签
+ */
+export function applyAutoTags<T extends AnalysisRecord>(record: T, userRules: TagRule[] = []): T {
+  const tags = canonicalizeTags(mergeTags(record.tags, extractTags(record, userRules)), userRules);
+  return { ...record, tags: tags.length > 0 ? tags : undefined };
+}
@@ -0,0 +1,126 @@
+// 队列任务函数，接收取消信号
+export type QueueTask = (signal: AbortSignal) => Promise<void>;
+
+interface QueuedTask {
+  id: string;
+  task: QueueTask;
+}
+
+/**
+ * 带并发控制的任务队列
+ * 支持暂停（不再启动新任务，进行中的任务继续完成）、恢复和取消
+ */
+export class BatchQueue {
+  private concurrency: number;
+  private pending: QueuedTask[] = [];
+  private running = new Map<string, AbortController>();
+  private paused = false;
+  private onIdle?: () => void;
+
+  constructor(concurrency: number = 2, onIdle?: () => void) {
+    this.concurrency = Math.max(1, concurrency);
+    this.onIdle = onIdle;
+  }
+
+  /**
+   * 设置并发数，调大时立即启动更多任务
+   */
+  setConcurrency(concurrency: number): void {
+    this.concurrency = Math.max(1, concurrency);
+    this.pump();
+  }
+
+  /**
+   * 加入任务
+   */
+  enqueue(id: string, task: QueueTask): void {
+    if (this.running.has(id) || this.pending.some(item => item.id === id)) {
+      return;
+    }
+    this.pending.push({ id, task });
+    this.pump();
+  }
+
+  /**
+   * 暂停队列
+   */
+  pause(): void {
+    this.paused = true;
+  }
+
+  /**
+   * 恢复队列
+   */
+  resume(): void {
+    this.paused = false;
+    this.pump();
+  }
+
+  /**
+   * 取消单个任务，返回是否找到该任务
+   */
+  cancel(id: string): boolean {
+    const index = this.pending.findIndex(item => item.id === id);
+    if (index !== -1) {
+      this.pending.splice(index, 1);
+      this.checkIdle();
+      return true;
+    }
+
+    const controller = this.running.get(id);
+    if (controller) {
+      controller.abort();
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * 取消全部任务（包括等待中和进行中的）
+   */
+  cancelAll(): void {
+    this.pending = [];
+    this.running.forEach(controller => controller.abort());
+    this.paused = false;
+    this.checkIdle();
+  }
+
+  get isPaused(): boolean {
+    return this.paused;
+  }
+
+  get activeCount(): number {
+    return this.running.size;
+  }
+
+  get pendingCount(): number {
+    return this.pending.length;
+  }
+
+  // 在并发限制内启动等待中的任务
+  private pump(): void {
+    while (!this.paused && this.running.size < this.concurrency && this.pending.length > 0) {
+      const next = this.pending.shift()!;
+      const controller = new AbortController();
+      this.running.set(next.id, controller);
+
+      next
+        .task(controller.signal)
+        .catch(error => {
+          console.error(`Batch task ${next.id} failed:`, error);
+        })
+        .finally(() => {
+          this.running.delete(next.id);
+          this.pump();
+          this.checkIdle();
+        });
+    }
+  }
+
+  private checkIdle(): void {
+    if (this.running.size === 0 && this.pending.length === 0) {
+      this.onIdle?.();
+    }
+  }
+}
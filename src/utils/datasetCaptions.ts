@@ -0,0 +1,226 @@
+import JSZip from 'jszip';
+import { CaptionStyle, DatasetItem, DatasetItemStatus, DatasetSettings } from '../types';
+import { SUPPORTED_IMAGE_TYPES } from './imageUtils';
+
+export const CAPTION_STYLE_LABELS: Record<CaptionStyle, string> = {
+  booru: 'Booru 标签（逗号分隔）',
+  natural: '自然语言描述',
+};
+
+export const DATASET_STATUS_LABELS: Record<DatasetItemStatus, string> = {
+  pending: '等待中',
+  captioning: '标注中',
+  done: '已完成',
+  failed: '失败',
+};
+
+// 训练标注统一使用英文，与主流底模的文本编码器一致
+const CAPTION_INSTRUCTIONS: Record<CaptionStyle, string> = {
+  booru: [
+    'Caption this image for a text-to-image training dataset using Danbooru-style tags.',
+    'Output only lowercase English tags separated by commas, most important first:',
+    'subject count, character features, clothing, pose, expression, composition, background, lighting and art style.',
+    'Use spaces instead of underscores. Do not write sentences, explanations or any other text.',
+  ].join(' '),
+  natural: [
+    'Caption this image for a text-to-image training dataset.',
+    'Write one concise paragraph in plain English describing the subject, appearance, clothing, pose, setting,',
+    'composition, lighting and art style. Describe only what is visible.',
+    'Do not start with "This image" or "The image", and output only the caption.',
+  ].join(' '),
+};
+
+/**
+ * 生成发送给模型的标注指令
+ */
+export function buildCaptionInstruction(style: CaptionStyle): string {
+  return CAPTION_INSTRUCTIONS[style];
+}
+
+// 去掉模型常见的包裹内容：代码块、前缀说明、首尾引号
+function stripWrapping(text: string): string {
+  return text
+    .replace(/```[a-z]*\n?/gi, '')
+    .replace(/^\s*(tags|caption)\s*[:：]\s*/i, '')
+    .trim()
+    .replace(/^["'“]+|["'”]+$/g, '')
+    .trim();
+}
+
+/**
+ * 整理模型返回的标注：标签转小写去重，描述合并为一行，并添加触发词
+ */
+export function formatCaption(raw: string, settings: DatasetSettings): string {
+  const text = stripWrapping(raw);
+
+  if (settings.captionStyle === 'booru') {
+    const tags = text
+      .split(/[,\n，]/)
+      .map(tag => tag.replace(/^\s*(?:[-*•]|\d+\.)\s*/, '').replace(/_/g, ' ').replace(/\s+/g, ' ').trim().toLowerCase())
+      .filter(Boolean);
+    return applyTriggerWord(Array.from(new Set(tags)).join(', '), settings.triggerWord);
+  }
+
+  return applyTriggerWord(text.replace(/\s+/g, ' '), settings.triggerWord);
+}
+
+/**
+ * 在标注开头添加触发词（开头已有时不重复添加）
+ */
+export function applyTriggerWord(caption: string, triggerWord: string): string {
+  const trigger = triggerWord.trim();
+  if (!trigger) return caption;
+
+  const rest = stripTriggerWord(caption, trigger);
+  return rest ? `${trigger}, ${rest}` : trigger;
+}
+
+// 去掉开头的触发词
+function stripTriggerWord(caption: string, triggerWord: string): string {
+  const trigger = triggerWord.trim();
+  if (!trigger || !caption.toLowerCase().startsWith(trigger.toLowerCase())) {
+    return caption.trim();
+  }
+
+  const rest = caption.slice(trigger.length);
+  // 只匹配完整的触发词（后面是分隔符或结尾）
+  if (rest && !/^[\s,，]/.test(rest)) {
+    return caption.trim();
+  }
+  return rest.replace(/^[\s,，]+/, '').trim();
+}
+
+/**
+ * 替换标注开头的触发词，修改触发词后用于更新已完成的标注
+ */
+export function replaceTriggerWord(caption: string, previous: string, next: string): string {
+  const rest = stripTriggerWord(caption, previous);
+  return next.trim() ? applyTriggerWord(rest, next) : rest;
+}
+
+/**
+ * 图片在训练集中的唯一键：同一文件夹重新选择时用于恢复已完成的标注
+ */
+export function getDatasetItemKey(path: string, file: File): string {
+  return `${path}:${file.size}:${file.lastModified}`;
+}
+
+// 选择文件夹得到的图片及其相对路径
+export interface DatasetFileEntry {
+  file: File;
+  path: string;
+}
+
+// File System Access API 的最小类型定义（TypeScript DOM 库中尚未包含）
+interface FileSystemEntryHandle {
+  kind: 'file' | 'directory';
+  name: string;
+}
+
+interface FileSystemFileEntryHandle extends FileSystemEntryHandle {
+  kind: 'file';
+  getFile(): Promise<File>;
+}
+
+interface FileSystemDirectoryEntryHandle extends FileSystemEntryHandle {
+  kind: 'directory';
+  values(): AsyncIterableIterator<FileSystemFileEntryHandle | FileSystemDirectoryEntryHandle>;
+}
+
+type DirectoryPickerWindow = Window & {
+  showDirectoryPicker?: (options?: { mode?: 'read' | 'readwrite' }) => Promise<FileSystemDirectoryEntryHandle>;
+};
+
+function isImageFile(file: File): boolean {
+  return SUPPORTED_IMAGE_TYPES.includes(file.type);
+}
+
+/**
+ * 浏览器是否支持 File System Access API 选择文件夹
+ */
+export function isDirectoryPickerSupported(): boolean {
+  return typeof (window as DirectoryPickerWindow).showDirectoryPicker === 'function';
+}
+
+// 递归读取文件夹中的图片
+async function readDirectory(handle: FileSystemDirectoryEntryHandle, prefix: string): Promise<DatasetFileEntry[]> {
+  const entries: DatasetFileEntry[] = [];
+  for await (const entry of handle.values()) {
+    const path = `${prefix}${entry.name}`;
+    if (entry.kind === 'directory') {
+      entries.push(...(await readDirectory(entry, `${path}/`)));
+    } else {
+      const file = await entry.getFile();
+      if (isImageFile(file)) {
+        entries.push({ file, path });
+      }
+    }
+  }
+  return entries;
+}
+
+/**
+ * 通过 File System Access API 选择文件夹，返回其中的全部图片；用户取消时返回 null
+ */
+export async function pickDatasetDirectory(): Promise<DatasetFileEntry[] | null> {
+  const picker = (window as DirectoryPickerWindow).showDirectoryPicker;
+  if (!picker) {
+    throw new Error('当前浏览器不支持选择文件夹，请使用多文件选择');
+  }
+
+  try {
+    const handle = await picker({ mode: 'read' });
+    const entries = await readDirectory(handle, '');
+    return entries.sort((a, b) => a.path.localeCompare(b.path));
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'AbortError') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * 多文件选择（含 webkitdirectory 文件夹选择）的结果，保留相对路径并过滤非图片文件
+ */
+export function toDatasetFileEntries(files: FileList | File[]): DatasetFileEntry[] {
+  return Array.from(files)
+    .filter(isImageFile)
+    .map(file => ({ file, path: file.webkitRelativePath || file.name }))
+    .sort((a, b) => a.path.localeCompare(b.path));
+}
+
+// 文件名去掉扩展名并替换非法字符
+function toBaseName(path: string): string {
+  const name = path.split('/').pop() ?? path;
+  return name
+    .replace(/\.[^.]+$/, '')
+    .replace(/[\\/:*?"<>|\s]+/g, '_')
+    .replace(/^[._]+|[._]+$/g, '') || 'image';
+}
+
+/**
+ * 打包训练集：每张图片与同名 .txt 标注放在压缩包根目录，重名时追加序号
+ */
+export async function exportDatasetZip(
+  items: DatasetItem[],
+  onProgress?: (percent: number) => void
+): Promise<Blob> {
+  const zip = new JSZip();
+  const usedNames = new Set<string>();
+
+  items.forEach(item => {
+    const base = toBaseName(item.path);
+    let name = base;
+    for (let n = 2; usedNames.has(name.toLowerCase()); n++) {
+      name = `${base}_${n}`;
+    }
+    usedNames.add(name.toLowerCase());
+
+    const extension = item.file.name.match(/\.(\w+)$/)?.[1]?.toLowerCase() || 'png';
+    zip.file(`${name}.${extension}`, item.file);
+    zip.file(`${name}.txt`, item.caption.trim());
+  });
+
+  return zip.generateAsync({ type: 'blob' }, metadata => onProgress?.(Math.round(metadata.percent)));
+}
@@ -0,0 +1,576 @@
+import { AnalysisRecord, HistoryChange, HistoryCursor, HistoryPage, HistoryQuery } from '../types';
+import { storageManager } from './storage';
+
+const DB_NAME = 'image_prompt_history';
+const DB_VERSION = 3;
+
+// 对象仓库名称
+const STORES = {
+  RECORDS: 'records',
+  THUMBNAILS: 'thumbnails',
+  IMAGES: 'images',
+} as const;
+
+// 记录的索引：按时间分页，按模型、标签、收藏夹筛选和计数，按图片指纹查找同一张图片
+const RECORD_INDEXES: Array<{ name: string; keyPath: string; multiEntry?: boolean }> = [
+  { name: 'timestamp', keyPath: 'timestamp' },
+  { name: 'model', keyPath: 'model' },
+  { name: 'tags', keyPath: 'tags', multiEntry: true },
+  { name: 'collectionIds', keyPath: 'collectionIds', multiEntry: true },
+  { name: 'contentHash', keyPath: 'contentHash' },
+  { name: 'perceptualHash', keyPath: 'perceptualHash' },
+];
+
+// 默认每页条数
+export const HISTORY_PAGE_SIZE = 30;
+
+// 缩略图、原图记录
+interface BlobEntry {
+  id: string;
+  blob: Blob;
+}
+
+// 随记录保存的图片数据
+export interface RecordMedia {
+  thumbnail?: Blob;
+  image?: Blob; // 本地上传的原图（导出图片数据集时使用）
+}
+
+/**
+ * 存储空间不足错误，界面据此提示用户清理历史记录
+ */
+export class StorageQuotaError extends Error {
+  constructor() {
+    super('浏览器存储空间不足，记录未能保存。请删除部分历史记录后重试');
+    this.name = 'StorageQuotaError';
+  }
+}
+
+function isQuotaError(error: unknown): boolean {
+  return error instanceof DOMException
+    && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+}
+
+// 将 IndexedDB 错误转换为可展示的错误
+function toStorageError(error: unknown): Error {
+  if (isQuotaError(error)) {
+    return new StorageQuotaError();
+  }
+  if (error instanceof Error) {
+    return error;
+  }
+  return new Error('历史记录读写失败');
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(toStorageError(request.error));
+  });
+}
+
+// 事务提交完成（配额不足通常在提交时才报错）
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(toStorageError(transaction.error));
+    transaction.onabort = () => reject(toStorageError(transaction.error));
+  });
+}
+
+// 记录入库前统一时间类型（导入或迁移的记录中时间为字符串）
+function normalizeRecord(record: AnalysisRecord): AnalysisRecord {
+  return { ...record, timestamp: new Date(record.timestamp) };
+}
+
+/**
+ * 记录是否满足查询条件（内存中的搜索结果与数据库分页共用）
+ */
+export function matchesHistoryQuery(record: AnalysisRecord, query: HistoryQuery): boolean {
+  return (!query.after || record.timestamp >= query.after)
+    && (!query.before || record.timestamp <= query.before)
+    && (!query.model || record.model === query.model)
+    && (!query.tag || !!record.tags?.includes(query.tag))
+    && (!query.favorite || !!record.favorite)
+    && (!query.collectionId || !!record.collectionIds?.includes(query.collectionId))
+    && (!query.filter || query.filter(record));
+}
+
+// 与时间索引的遍历顺序一致：同一时间按ID排列
+function compareRecords(a: AnalysisRecord, b: AnalysisRecord, newestFirst: boolean): number {
+  const diff = a.timestamp.getTime() - b.timestamp.getTime() || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+  return newestFirst ? -diff : diff;
+}
+
+/**
+ * 把一次写入应用到已加载的记录：删除的记录移除，修改后不再满足条件的记录移出，
+ * 新记录满足条件且位于已加载的范围内（或已加载全部）时按顺序插入
+ */
+export function applyHistoryChange(
+  records: AnalysisRecord[],
+  change: HistoryChange,
+  query: HistoryQuery,
+  complete: boolean
+): AnalysisRecord[] {
+  const newestFirst = (query.order ?? 'newest') === 'newest';
+  const removed = new Set(change.deleted);
+  const saved = new Map(change.saved.map(record => [record.id, normalizeRecord(record)]));
+  const last = records[records.length - 1];
+
+  const updated = records
+    .filter(record => !removed.has(record.id))
+    .map(record => saved.get(record.id) ?? record)
+    .filter(record => !saved.has(record.id) || matchesHistoryQuery(record, query));
+  const loadedIds = new Set(records.map(record => record.id));
+  const added = Array.from(saved.values()).filter(record =>
+    !loadedIds.has(record.id)
+    && matchesHistoryQuery(record, query)
+    && (complete || !last || compareRecords(record, last, newestFirst) < 0)
+  );
+
+  return added.length > 0
+    ? [...updated, ...added].sort((a, b) => compareRecords(a, b, newestFirst))
+    : updated;
+}
+
+/**
+ * 基于 IndexedDB 的历史记录存储
+ * 记录按时间、模型和标签建立索引，缩略图和原图单独存放，读取列表时不加载图片数据
+ */
+class HistoryDatabase {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private migrationError: Error | null = null;
+
+  // 打开数据库，首次打开时迁移 localStorage 中的旧历史记录
+  private getDb(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = this.openDb()
+        .then(async db => {
+          await this.migrateFromLocalStorage(db);
+          return db;
+        })
+        .catch(error => {
+          // 允许下次调用时重试
+          this.dbPromise = null;
+          throw error;
+        });
+    }
+    return this.dbPromise;
+  }
+
+  private openDb(): Promise<IDBDatabase> {
+    if (typeof indexedDB === 'undefined') {
+      return Promise.reject(new Error('当前浏览器不支持 IndexedDB，无法保存历史记录'));
+    }
+
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        // 旧版本数据库只补建缺少的索引
+        const records = db.objectStoreNames.contains(STORES.RECORDS)
+          ? request.transaction!.objectStore(STORES.RECORDS)
+          : db.createObjectStore(STORES.RECORDS, { keyPath: 'id' });
+        RECORD_INDEXES.forEach(({ name, keyPath, multiEntry }) => {
+          if (!records.indexNames.contains(name)) {
+            records.createIndex(name, keyPath, { multiEntry });
+          }
+        });
+        if (!db.objectStoreNames.contains(STORES.THUMBNAILS)) {
+          db.createObjectStore(STORES.THUMBNAILS, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(STORES.IMAGES)) {
+          db.createObjectStore(STORES.IMAGES, { keyPath: 'id' });
+        }
+      };
+
+      request.onsuccess = () => {
+        const db = request.result;
+        // 其他标签页升级数据库时关闭连接，下次访问重新打开
+        db.onversionchange = () => {
+          db.close();
+          this.dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => reject(toStorageError(request.error));
+      request.onblocked = () => reject(new Error('历史记录数据库被其他标签页占用，请关闭其他页面后刷新'));
+    });
+  }
+
+  // 一次性迁移：写入成功后才删除旧数据，失败时下次启动重试
+  private async migrateFromLocalStorage(db: IDBDatabase): Promise<void> {
+    const legacy = storageManager.getLegacyAnalysisHistory();
+    if (!legacy) return;
+
+    try {
+      const transaction = db.transaction(STORES.RECORDS, 'readwrite');
+      const store = transaction.objectStore(STORES.RECORDS);
+      legacy.forEach(record => store.put(normalizeRecord(record)));
+      await transactionDone(transaction);
+      storageManager.removeLegacyAnalysisHistory();
+      this.migrationError = null;
+    } catch (error) {
+      console.error('Failed to migrate analysis history from localStorage:', error);
+      this.migrationError = toStorageError(error);
+    }
+  }
+
+  /**
+   * 打开数据库，返回旧历史记录迁移失败的原因（迁移成功或无需迁移时为空）
+   */
+  async getMigrationError(): Promise<Error | null> {
+    await this.getDb();
+    return this.migrationError;
+  }
+
+  async get(id: string): Promise<AnalysisRecord | undefined> {
+    const db = await this.getDb();
+    const store = db.transaction(STORES.RECORDS).objectStore(STORES.RECORDS);
+    return requestToPromise(store.get(id) as IDBRequest<AnalysisRecord | undefined>);
+  }
+
+  /**
+   * 按ID读取多条记录，不存在的ID会被忽略
+   */
+  async getMany(ids: string[]): Promise<AnalysisRecord[]> {
+    const db = await this.getDb();
+    const store = db.transaction(STORES.RECORDS).objectStore(STORES.RECORDS);
+    const records = await Promise.all(
+      ids.map(id => requestToPromise(store.get(id) as IDBRequest<AnalysisRecord | undefined>))
+    );
+    return records.filter((record): record is AnalysisRecord => !!record);
+  }
+
+  /**
+   * 满足查询条件的全部记录（导出、批量整理等只保留命中的记录）
+   */
+  async getMatching(query: HistoryQuery = {}): Promise<AnalysisRecord[]> {
+    return (await this.getPage(query, null, Infinity)).records;
+  }
+
+  /**
+   * 逐条遍历全部记录，不在内存中保留（全文搜索、用量统计使用）
+   */
+  async scan(visit: (record: AnalysisRecord) => void): Promise<void> {
+    const db = await this.getDb();
+    const store = db.transaction(STORES.RECORDS).objectStore(STORES.RECORDS);
+
+    await new Promise<void>((resolve, reject) => {
+      const request = store.openCursor();
+      request.onerror = () => reject(toStorageError(request.error));
+      request.onsuccess = () => {
+        const current = request.result;
+        if (!current) {
+          resolve();
+          return;
+        }
+        visit(current.value as AnalysisRecord);
+        current.continue();
+      };
+    });
+  }
+
+  /**
+   * 内容哈希相同的记录
+   */
+  async getByContentHash(contentHash: string): Promise<AnalysisRecord[]> {
+    return this.getAllFromIndex('contentHash', contentHash);
+  }
+
+  /**
+   * 收藏夹中的记录
+   */
+  async getByCollection(collectionId: string): Promise<AnalysisRecord[]> {
+    return this.getAllFromIndex('collectionIds', collectionId);
+  }
+
+  /**
+   * 指定模型的记录，最多读取 limit 条（估算单次费用使用）
+   */
+  async getByModel(model: string, limit?: number): Promise<AnalysisRecord[]> {
+    return this.getAllFromIndex('model', model, limit);
+  }
+
+  /**
+   * 感知哈希满足条件的记录：只遍历索引键，命中后才读取记录
+   */
+  async findByPerceptualHash(matches: (perceptualHash: string) => boolean): Promise<AnalysisRecord[]> {
+    const db = await this.getDb();
+    const index = db.transaction(STORES.RECORDS).objectStore(STORES.RECORDS).index('perceptualHash');
+    const ids: string[] = [];
+
+    await new Promise<void>((resolve, reject) => {
+      const request = index.openKeyCursor();
+      request.onerror = () => reject(toStorageError(request.error));
+      request.onsuccess = () => {
+        const current = request.result;
+        if (!current) {
+          resolve();
+          return;
+        }
+        if (matches(current.key as string)) {
+          ids.push(current.primaryKey as string);
+        }
+        current.continue();
+      };
+    });
+
+    return ids.length > 0 ? this.getMany(ids) : [];
+  }
+
+  private async getAllFromIndex(indexName: string, key: string, limit?: number): Promise<AnalysisRecord[]> {
+    const db = await this.getDb();
+    const index = db.transaction(STORES.RECORDS).objectStore(STORES.RECORDS).index(indexName);
+    return requestToPromise(index.getAll(IDBKeyRange.only(key), limit) as IDBRequest<AnalysisRecord[]>);
+  }
+
+  /**
+   * 按时间索引分页读取，cursor 为上一页返回的 nextCursor
+   */
+  async getPage(
+    query: HistoryQuery = {},
+    cursor: HistoryCursor | null = null,
+    limit: number = HISTORY_PAGE_SIZE
+  ): Promise<HistoryPage> {
+    const db = await this.getDb();
+    const index = db.transaction(STORES.RECORDS).objectStore(STORES.RECORDS).index('timestamp');
+    const newestFirst = (query.order ?? 'newest') === 'newest';
+
+    // 从游标位置继续遍历，起点包含同一时间的记录，再按ID跳过已读取的部分
+    let lower = query.after;
+    let upper = query.before;
+    if (cursor) {
+      if (newestFirst) {
+        upper = upper && upper < cursor.timestamp ? upper : cursor.timestamp;
+      } else {
+        lower = lower && lower > cursor.timestamp ? lower : cursor.timestamp;
+      }
+    }
+
+    const range = lower && upper
+      ? IDBKeyRange.bound(lower, upper)
+      : lower
+        ? IDBKeyRange.lowerBound(lower)
+        : upper
+          ? IDBKeyRange.upperBound(upper)
+          : undefined;
+
+    // 同一时间的记录在索引中按ID升序排列，倒序遍历时按ID降序
+    const isBeforeCursor = (record: AnalysisRecord) =>
+      !!cursor
+      && record.timestamp.getTime() === cursor.timestamp.getTime()
+      && (newestFirst ? record.id >= cursor.id : record.id <= cursor.id);
+
+    const records: AnalysisRecord[] = [];
+    let hasMore = false;
+
+    await new Promise<void>((resolve, reject) => {
+      const request = index.openCursor(range, newestFirst ? 'prev' : 'next');
+      request.onerror = () => reject(toStorageError(request.error));
+      request.onsuccess = () => {
+        const current = request.result;
+        if (!current) {
+          resolve();
+          return;
+        }
+
+        const record = current.value as AnalysisRecord;
+        if (!isBeforeCursor(record) && matchesHistoryQuery(record, query)) {
+          if (records.length === limit) {
+            hasMore = true;
+            resolve();
+            return;
+          }
+          records.push(record);
+        }
+        current.continue();
+      };
+    });
+
+    const last = records[records.length - 1];
+    return {
+      records,
+      nextCursor: hasMore && last ? { timestamp: last.timestamp, id: last.id } : null,
+    };
+  }
+
+  /**
+   * 使用过的全部模型（用于筛选）
+   */
+  async getModels(): Promise<string[]> {
+    return this.getIndexKeys('model');
+  }
+
+  /**
+   * 使用过的全部标签
+   */
+  async getTags(): Promise<string[]> {
+    return this.getIndexKeys('tags');
+  }
+
+  private async getIndexKeys(indexName: string): Promise<string[]> {
+    const db = await this.getDb();
+    const index = db.transaction(STORES.RECORDS).objectStore(STORES.RECORDS).index(indexName);
+    const keys: string[] = [];
+
+    await new Promise<void>((resolve, reject) => {
+      const request = index.openKeyCursor(null, 'nextunique');
+      request.onerror = () => reject(toStorageError(request.error));
+      request.onsuccess = () => {
+        const current = request.result;
+        if (!current) {
+          resolve();
+          return;
+        }
+        keys.push(current.key as string);
+        current.continue();
+      };
+    });
+
+    return keys;
+  }
+
+  /**
+   * 记录数：没有条件时直接计数，只按收藏夹、模型或标签筛选时使用索引计数，其余条件逐条判断
+   */
+  async count(query: HistoryQuery = {}): Promise<number> {
+    const db = await this.getDb();
+    const store = db.transaction(STORES.RECORDS).objectStore(STORES.RECORDS);
+    const conditions = (Object.keys(query) as Array<keyof HistoryQuery>)
+      .filter(key => key !== 'order' && query[key] !== undefined);
+
+    if (conditions.length === 0) {
+      return requestToPromise(store.count());
+    }
+    if (conditions.length === 1 && (query.collectionId || query.model || query.tag)) {
+      const [indexName, key] = query.collectionId
+        ? ['collectionIds', query.collectionId]
+        : query.model
+          ? ['model', query.model]
+          : ['tags', query.tag!];
+      return requestToPromise(store.index(indexName).count(IDBKeyRange.only(key)));
+    }
+
+    let total = 0;
+    await this.scan(record => {
+      if (matchesHistoryQuery(normalizeRecord(record), query)) total++;
+    });
+    return total;
+  }
+
+  /**
+   * 按收藏夹索引统计各收藏夹的记录数
+   */
+  async countByCollection(collectionIds: string[]): Promise<Record<string, number>> {
+    const db = await this.getDb();
+    const index = db.transaction(STORES.RECORDS).objectStore(STORES.RECORDS).index('collectionIds');
+    const counts = await Promise.all(collectionIds.map(id => requestToPromise(index.count(IDBKeyRange.only(id)))));
+    return Object.fromEntries(collectionIds.map((id, i) => [id, counts[i]]));
+  }
+
+  /**
+   * 保存记录及其缩略图、原图，超出数量上限时删除最旧的记录，返回被删除的记录ID
+   */
+  async save(record: AnalysisRecord, media: RecordMedia = {}, maxItems?: number): Promise<string[]> {
+    const db = await this.getDb();
+    const transaction = db.transaction([STORES.RECORDS, STORES.THUMBNAILS, STORES.IMAGES], 'readwrite');
+    transaction.objectStore(STORES.RECORDS).put(normalizeRecord(record));
+    if (media.thumbnail) {
+      transaction.objectStore(STORES.THUMBNAILS).put({ id: record.id, blob: media.thumbnail } as BlobEntry);
+    }
+    if (media.image) {
+      transaction.objectStore(STORES.IMAGES).put({ id: record.id, blob: media.image } as BlobEntry);
+    }
+    await transactionDone(transaction);
+
+    return maxItems ? this.trim(maxItems) : [];
+  }
+
+  /**
+   * 批量写入记录（批量整理、导入时使用），已存在的ID会被覆盖，指定上限时删除超出的最旧记录并返回其ID
+   */
+  async saveMany(records: AnalysisRecord[], maxItems?: number): Promise<string[]> {
+    const db = await this.getDb();
+    const transaction = db.transaction(STORES.RECORDS, 'readwrite');
+    const store = transaction.objectStore(STORES.RECORDS);
+    records.forEach(record => store.put(normalizeRecord(record)));
+    await transactionDone(transaction);
+
+    return maxItems ? this.trim(maxItems) : [];
+  }
+
+  async update(record: AnalysisRecord): Promise<void> {
+    const db = await this.getDb();
+    const transaction = db.transaction(STORES.RECORDS, 'readwrite');
+    transaction.objectStore(STORES.RECORDS).put(normalizeRecord(record));
+    await transactionDone(transaction);
+  }
+
+  async delete(ids: string | string[]): Promise<void> {
+    const db = await this.getDb();
+    const transaction = db.transaction([STORES.RECORDS, STORES.THUMBNAILS, STORES.IMAGES], 'readwrite');
+    (Array.isArray(ids) ? ids : [ids]).forEach(id => {
+      transaction.objectStore(STORES.RECORDS).delete(id);
+      transaction.objectStore(STORES.THUMBNAILS).delete(id);
+      transaction.objectStore(STORES.IMAGES).delete(id);
+    });
+    await transactionDone(transaction);
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.getDb();
+    const transaction = db.transaction([STORES.RECORDS, STORES.THUMBNAILS, STORES.IMAGES], 'readwrite');
+    transaction.objectStore(STORES.RECORDS).clear();
+    transaction.objectStore(STORES.THUMBNAILS).clear();
+    transaction.objectStore(STORES.IMAGES).clear();
+    await transactionDone(transaction);
+  }
+
+  async getThumbnail(id: string): Promise<Blob | undefined> {
+    return this.getBlob(STORES.THUMBNAILS, id);
+  }
+
+  /**
+   * 本地上传的原图，URL来源或保存原图之前的记录没有
+   */
+  async getImage(id: string): Promise<Blob | undefined> {
+    return this.getBlob(STORES.IMAGES, id);
+  }
+
+  private async getBlob(storeName: string, id: string): Promise<Blob | undefined> {
+    const db = await this.getDb();
+    const store = db.transaction(storeName).objectStore(storeName);
+    const entry = await requestToPromise(store.get(id) as IDBRequest<BlobEntry | undefined>);
+    return entry?.blob;
+  }
+
+  // 删除超出上限的最旧记录，返回被删除的记录ID
+  private async trim(maxItems: number): Promise<string[]> {
+    const total = await this.count();
+    if (total <= maxItems) return [];
+
+    const db = await this.getDb();
+    const index = db.transaction(STORES.RECORDS).objectStore(STORES.RECORDS).index('timestamp');
+    const keys = await requestToPromise(index.getAllKeys(null, total - maxItems)) as string[];
+    await this.delete(keys);
+    return keys;
+  }
+
+  /**
+   * 存储占用统计（浏览器支持时返回整个站点的用量和配额）
+   */
+  async getStorageStats(): Promise<{ totalRecords: number; usage?: number; quota?: number }> {
+    const totalRecords = await this.count();
+    if (!navigator.storage?.estimate) {
+      return { totalRecords };
+    }
+
+    const { usage, quota } = await navigator.storage.estimate();
+    return { totalRecords, usage, quota };
+  }
+}
+
+// 导出单例实例
+export const historyDb = new HistoryDatabase();
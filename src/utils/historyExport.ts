@@ -0,0 +1,345 @@
+import JSZip from 'jszip';
+import { AnalysisRecord, Collection } from '../types';
+import { historyDb } from './historyDb';
+
+// 导出文件的结构版本，结构变化时递增（导入时据此转换旧版本）
+export const EXPORT_SCHEMA_VERSION = 2;
+
+export type ExportFormat = 'json' | 'csv' | 'markdown' | 'jsonl' | 'zip';
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  json: 'JSON（完整备份，可重新导入）',
+  csv: 'CSV（表格）',
+  markdown: 'Markdown 图库',
+  jsonl: 'JSONL（数据集）',
+  zip: 'ZIP 图片 + 标注（kohya/LoRA 训练目录）',
+};
+
+const FORMAT_EXTENSIONS: Record<ExportFormat, string> = {
+  json: 'json',
+  csv: 'csv',
+  markdown: 'md',
+  jsonl: 'jsonl',
+  zip: 'zip',
+};
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/bmp': 'bmp',
+};
+
+// ZIP 训练目录选项：图片放在「重复次数_概念名」文件夹中
+export interface ZipExportOptions {
+  repeats: number;
+  concept: string;
+}
+
+export const DEFAULT_ZIP_OPTIONS: ZipExportOptions = {
+  repeats: 10,
+  concept: 'images',
+};
+
+// 导出结果
+export interface ExportResult {
+  blob: Blob;
+  fileName: string;
+  missingImages: number; // ZIP 中因无法获取图片而跳过的记录数
+  thumbnailImages: number; // ZIP 中只能使用缩略图的记录数
+}
+
+// 单条记录的扁平结构（CSV、JSONL 共用）
+export interface FlatRecord {
+  schema_version: number;
+  id: string;
+  image_name: string;
+  image_url: string;
+  prompt: string;
+  negative_prompt: string;
+  model: string;
+  provider: string;
+  template_id: string;
+  output_format: string;
+  target_profile: string;
+  tags: string[];
+  rating: number | null;
+  favorite: boolean;
+  notes: string;
+  collections: string[];
+  width: number | null;
+  height: number | null;
+  cost: number | null;
+  created_at: string;
+}
+
+const CSV_COLUMNS: Array<keyof FlatRecord> = [
+  'schema_version', 'id', 'image_name', 'image_url', 'prompt', 'negative_prompt', 'model', 'provider',
+  'template_id', 'output_format', 'target_profile', 'tags', 'rating', 'favorite', 'notes', 'collections',
+  'width', 'height', 'cost', 'created_at',
+];
+
+function flattenRecord(record: AnalysisRecord, collectionNames: Map<string, string>): FlatRecord {
+  const profile = record.targetProfile || 'generic';
+  return {
+    schema_version: EXPORT_SCHEMA_VERSION,
+    id: record.id,
+    image_name: record.imageName,
+    // 本地图片的 blob/data URL 在导出文件中没有意义
+    image_url: record.imageUrl && /^https?:/i.test(record.imageUrl) ? record.imageUrl : '',
+    prompt: record.prompt,
+    negative_prompt: record.variants?.[profile]?.negativePrompt || '',
+    model: record.model || '',
+    provider: record.provider || '',
+    template_id: record.templateId || '',
+    output_format: record.outputFormat || '',
+    target_profile: record.targetProfile || '',
+    tags: record.tags || [],
+    rating: record.rating ?? null,
+    favorite: !!record.favorite,
+    notes: record.notes || '',
+    collections: (record.collectionIds || [])
+      .map(id => collectionNames.get(id))
+      .filter((name): name is string => !!name),
+    width: record.imageDimensions?.width ?? null,
+    height: record.imageDimensions?.height ?? null,
+    cost: record.cost ?? null,
+    created_at: new Date(record.timestamp).toISOString(),
+  };
+}
+
+function getCollectionNames(collections: Collection[]): Map<string, string> {
+  return new Map(collections.map(collection => [collection.id, collection.name]));
+}
+
+/**
+ * 完整备份：包含记录全部字段和收藏夹
+ */
+export function exportToJson(records: AnalysisRecord[], collections: Collection[]): string {
+  return JSON.stringify({
+    schemaVersion: EXPORT_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    records,
+    collections,
+  }, null, 2);
+}
+
+// CSV 单元格：含分隔符、引号或换行时加引号；以公式字符开头时加单引号，避免表格软件执行
+function toCsvCell(value: FlatRecord[keyof FlatRecord]): string {
+  let text = Array.isArray(value) ? value.join('; ') : value === null ? '' : String(value);
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * CSV：带 UTF-8 BOM，Excel 打开时中文不乱码
+ */
+export function exportToCsv(records: AnalysisRecord[], collections: Collection[]): string {
+  const names = getCollectionNames(collections);
+  const rows = records.map(record => flattenRecord(record, names));
+  const lines = [
+    CSV_COLUMNS.join(','),
+    ...rows.map(row => CSV_COLUMNS.map(column => toCsvCell(row[column])).join(',')),
+  ];
+  return `\uFEFF${lines.join('\r\n')}\r\n`;
+}
+
+/**
+ * JSONL：每行一条记录，fileNames 提供时附带数据集中的图片路径
+ */
+export function exportToJsonl(
+  records: AnalysisRecord[],
+  collections: Collection[],
+  fileNames?: Map<string, string>
+): string {
+  const names = getCollectionNames(collections);
+  return records
+    .filter(record => !fileNames || fileNames.has(record.id))
+    .map(record => JSON.stringify({
+      ...(fileNames ? { file_name: fileNames.get(record.id) } : {}),
+      ...flattenRecord(record, names),
+    }))
+    .join('\n') + '\n';
+}
+
+// Markdown 代码块：内容含反引号时加长围栏
+function toCodeBlock(text: string): string {
+  const longest = Math.max(2, ...(text.match(/`+/g) || []).map(run => run.length));
+  const fence = '`'.repeat(longest + 1);
+  return `${fence}\n${text}\n${fence}`;
+}
+
+/**
+ * Markdown 图库：远程图片直接引用，提示词放在代码块中便于复制
+ */
+export function exportToMarkdown(records: AnalysisRecord[], collections: Collection[]): string {
+  const names = getCollectionNames(collections);
+  const sections = records.map(record => {
+    const flat = flattenRecord(record, names);
+    const meta = [
+      new Date(record.timestamp).toLocaleString('zh-CN'),
+      flat.model && `模型：${flat.model}`,
+      flat.rating && `评分：${'★'.repeat(flat.rating)}`,
+      flat.tags.length > 0 && `标签：${flat.tags.map(tag => `\`${tag}\``).join(' ')}`,
+      flat.collections.length > 0 && `收藏夹：${flat.collections.join('、')}`,
+    ].filter(Boolean);
+
+    return [
+      `## ${record.imageName.replace(/([\\`*_[\]#])/g, '\\$1')}`,
+      flat.image_url ? `![${record.imageName.replace(/[[\]]/g, '')}](${flat.image_url})` : '',
+      meta.join(' · '),
+      toCodeBlock(record.prompt),
+      flat.negative_prompt ? `反向提示词：\n\n${toCodeBlock(flat.negative_prompt)}` : '',
+      flat.notes ? `> ${flat.notes.replace(/\n/g, '\n> ')}` : '',
+    ].filter(Boolean).join('\n\n');
+  });
+
+  return [
+    `<!-- schema_version: ${EXPORT_SCHEMA_VERSION} -->`,
+    '# 提示词历史',
+    `导出时间：${new Date().toLocaleString('zh-CN')}，共 ${records.length} 条`,
+    ...sections,
+  ].join('\n\n') + '\n';
+}
+
+// 文件名中去掉扩展名和不安全字符
+function toBaseName(record: AnalysisRecord): string {
+  const base = record.imageName
+    .replace(/\.[^.]+$/, '')
+    .replace(/[\\/:*?"<>|\s]+/g, '_')
+    .replace(/^[._]+|[._]+$/g, '');
+  return base || record.id;
+}
+
+function getImageExtension(blob: Blob, imageName: string): string {
+  return MIME_EXTENSIONS[blob.type] || imageName.match(/\.(\w+)$/)?.[1]?.toLowerCase() || 'jpg';
+}
+
+// 获取导出用的图片：本地原图、远程URL，都不可用时使用缩略图
+async function loadRecordImage(record: AnalysisRecord): Promise<{ blob: Blob; isThumbnail: boolean } | null> {
+  const original = await historyDb.getImage(record.id);
+  if (original) {
+    return { blob: original, isThumbnail: false };
+  }
+
+  if (record.imageUrl) {
+    try {
+      const response = await fetch(record.imageUrl);
+      if (response.ok) {
+        return { blob: await response.blob(), isThumbnail: false };
+      }
+    } catch (error) {
+      console.warn('Failed to download image for export:', error);
+    }
+  }
+
+  const thumbnail = await historyDb.getThumbnail(record.id);
+  return thumbnail ? { blob: thumbnail, isThumbnail: true } : null;
+}
+
+/**
+ * ZIP 训练数据集：kohya 目录结构（train/重复次数_概念名/图片 + 同名 .txt 标注），
+ * 附带 metadata.jsonl 和记录导出信息的 manifest.json
+ */
+export async function exportToZip(
+  records: AnalysisRecord[],
+  collections: Collection[],
+  options: ZipExportOptions = DEFAULT_ZIP_OPTIONS,
+  onProgress?: (done: number, total: number) => void
+): Promise<Omit<ExportResult, 'fileName'>> {
+  const zip = new JSZip();
+  const concept = options.concept.trim().replace(/[\\/:*?"<>|\s]+/g, '_') || DEFAULT_ZIP_OPTIONS.concept;
+  const folderName = `train/${Math.max(1, Math.round(options.repeats) || 1)}_${concept}`;
+  const folder = zip.folder(folderName)!;
+  const usedNames = new Set<string>();
+  const fileNames = new Map<string, string>();
+  let missingImages = 0;
+  let thumbnailImages = 0;
+
+  for (let i = 0; i < records.length; i++) {
+    const record = records[i];
+    const image = await loadRecordImage(record);
+    onProgress?.(i + 1, records.length);
+
+    if (!image) {
+      missingImages++;
+      continue;
+    }
+    if (image.isThumbnail) {
+      thumbnailImages++;
+    }
+
+    // 同名图片追加序号
+    const base = toBaseName(record);
+    let name = base;
+    for (let n = 2; usedNames.has(name.toLowerCase()); n++) {
+      name = `${base}_${n}`;
+    }
+    usedNames.add(name.toLowerCase());
+
+    const imageFile = `${name}.${getImageExtension(image.blob, record.imageName)}`;
+    folder.file(imageFile, image.blob);
+    folder.file(`${name}.txt`, record.prompt);
+    fileNames.set(record.id, `${folderName}/${imageFile}`);
+  }
+
+  zip.file('metadata.jsonl', exportToJsonl(records, collections, fileNames));
+  zip.file('manifest.json', JSON.stringify({
+    schemaVersion: EXPORT_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    layout: 'kohya',
+    trainDir: folderName,
+    repeats: Math.max(1, Math.round(options.repeats) || 1),
+    concept,
+    recordCount: fileNames.size,
+    missingImages,
+    thumbnailImages,
+  }, null, 2));
+
+  return {
+    blob: await zip.generateAsync({ type: 'blob' }),
+    missingImages,
+    thumbnailImages,
+  };
+}
+
+/**
+ * 按格式生成导出文件
+ */
+export async function buildHistoryExport(
+  records: AnalysisRecord[],
+  collections: Collection[],
+  format: ExportFormat,
+  options?: { zip?: ZipExportOptions; onProgress?: (done: number, total: number) => void }
+): Promise<ExportResult> {
+  const fileName = `prompt-history-${new Date().toISOString().slice(0, 10)}.${FORMAT_EXTENSIONS[format]}`;
+  const result = { fileName, missingImages: 0, thumbnailImages: 0 };
+
+  switch (format) {
+    case 'csv':
+      return { ...result, blob: new Blob([exportToCsv(records, collections)], { type: 'text/csv;charset=utf-8' }) };
+    case 'markdown':
+      return { ...result, blob: new Blob([exportToMarkdown(records, collections)], { type: 'text/markdown;charset=utf-8' }) };
+    case 'jsonl':
+      return { ...result, blob: new Blob([exportToJsonl(records, collections)], { type: 'application/x-ndjson' }) };
+    case 'zip':
+      return { fileName, ...(await exportToZip(records, collections, options?.zip, options?.onProgress)) };
+    default:
+      return { ...result, blob: new Blob([exportToJson(records, collections)], { type: 'application/json' }) };
+  }
+}
+
+/**
+ * 触发浏览器下载
+ */
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,433 @@
+import { AnalysisRecord, Collection, OutputFormat, TargetProfile, VisionProviderId } from '../types';
+import { EXPORT_SCHEMA_VERSION, FlatRecord } from './historyExport';
+import { OUTPUT_FORMAT_LABELS } from './outputFormats';
+import { PROFILE_LABELS } from './outputProfiles';
+import { generateCollectionId, findCollectionByName, normalizeOrganization } from './recordOrganization';
+import { generateImageId } from './imageUtils';
+
+export type ImportFileFormat = 'json' | 'jsonl' | 'csv';
+
+// 预览中的记录状态：新记录、完全相同的重复记录、同ID但内容不同的冲突记录、无法导入的记录
+export type ImportItemStatus = 'new' | 'duplicate' | 'conflict' | 'invalid';
+
+// 冲突处理方式：保留本地、使用导入内容、两者都保留（导入的记录使用新ID）
+export type ConflictResolution = 'mine' | 'theirs' | 'both';
+
+export const IMPORT_STATUS_LABELS: Record<ImportItemStatus, string> = {
+  new: '新记录',
+  duplicate: '重复',
+  conflict: '冲突',
+  invalid: '无效',
+};
+
+export const CONFLICT_RESOLUTION_LABELS: Record<ConflictResolution, string> = {
+  mine: '保留本地',
+  theirs: '使用导入',
+  both: '两者都保留',
+};
+
+// 解析后的导入文件
+export interface ParsedImport {
+  format: ImportFileFormat;
+  schemaVersion: number;
+  entries: ImportEntry[];
+  collections: Collection[]; // 文件中的收藏夹（扁平格式按名称生成）
+}
+
+// 文件中的单条记录（校验通过时有 record）
+export interface ImportEntry {
+  index: number; // 文件中的序号（从1开始）
+  record?: AnalysisRecord;
+  errors: string[];
+  warnings: string[];
+}
+
+// 预览项
+export interface ImportPreviewItem extends ImportEntry {
+  status: ImportItemStatus;
+  existing?: AnalysisRecord; // 重复或冲突时的本地记录
+}
+
+type RawObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is RawObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function parseTimestamp(value: unknown): Date | null {
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// 可选字段：类型不符时丢弃并记录警告
+function optionalField<T>(
+  raw: RawObject,
+  key: string,
+  check: (value: unknown) => boolean,
+  warnings: string[]
+): T | undefined {
+  const value = raw[key];
+  if (value === undefined || value === null || value === '') return undefined;
+  if (check(value)) return value as T;
+  warnings.push(`字段 ${key} 格式错误，已忽略`);
+  return undefined;
+}
+
+const isString = (value: unknown) => typeof value === 'string';
+const isNumber = (value: unknown) => typeof value === 'number' && isFinite(value);
+const isObjectArray = (value: unknown) => Array.isArray(value) && value.every(isObject);
+
+/**
+ * 按当前结构校验完整记录（JSON 备份），必填字段缺失时返回错误
+ */
+export function validateRecord(raw: unknown): { record?: AnalysisRecord; errors: string[]; warnings: string[] } {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  if (!isObject(raw)) {
+    return { errors: ['不是有效的记录对象'], warnings };
+  }
+
+  const id = typeof raw.id === 'string' ? raw.id.trim() : '';
+  const timestamp = parseTimestamp(raw.timestamp);
+  if (!id) errors.push('缺少 id');
+  if (typeof raw.prompt !== 'string' || !raw.prompt.trim()) errors.push('缺少提示词');
+  if (!timestamp) errors.push('时间格式错误');
+  if (errors.length > 0) {
+    return { errors, warnings };
+  }
+
+  const imageUrl = optionalField<string>(raw, 'imageUrl', isString, warnings);
+  const outputFormat = optionalField<OutputFormat>(raw, 'outputFormat', value => isString(value) && (value as string) in OUTPUT_FORMAT_LABELS, warnings);
+  const targetProfile = optionalField<TargetProfile>(raw, 'targetProfile', value => isString(value) && (value as string) in PROFILE_LABELS, warnings);
+  const imageDimensions = optionalField<AnalysisRecord['imageDimensions']>(
+    raw,
+    'imageDimensions',
+    value => isObject(value) && isNumber(value.width) && isNumber(value.height),
+    warnings
+  );
+  const versions = optionalField<RawObject[]>(raw, 'versions', isObjectArray, warnings);
+  const refinements = optionalField<RawObject[]>(raw, 'refinements', isObjectArray, warnings);
+
+  const record: AnalysisRecord = {
+    id,
+    imageName: typeof raw.imageName === 'string' && raw.imageName.trim() ? raw.imageName : '未命名图片',
+    // blob: 地址只在原页面有效
+    imageUrl: imageUrl && !imageUrl.startsWith('blob:') ? imageUrl : undefined,
+    remoteImage: optionalField(raw, 'remoteImage', value => isObject(value) && isString(value.host) && isString(value.url), warnings),
+    prompt: raw.prompt as string,
+    timestamp: timestamp!,
+    templateId: optionalField(raw, 'templateId', isString, warnings),
+    outputFormat,
+    targetProfile,
+    variants: optionalField(raw, 'variants', isObject, warnings),
+    dimensions: optionalField(raw, 'dimensions', isObject, warnings),
+    imageDimensions,
+    contentHash: optionalField(raw, 'contentHash', isString, warnings),
+    perceptualHash: optionalField(raw, 'perceptualHash', isString, warnings),
+    model: optionalField(raw, 'model', isString, warnings),
+    requestedModel: optionalField(raw, 'requestedModel', isString, warnings),
+    attempts: optionalField(raw, 'attempts', isNumber, warnings),
+    alternates: optionalField(raw, 'alternates', isObjectArray, warnings),
+    provider: optionalField<VisionProviderId>(raw, 'provider', isString, warnings),
+    usage: optionalField(raw, 'usage', isObject, warnings),
+    latencyMs: optionalField(raw, 'latencyMs', isNumber, warnings),
+    cost: optionalField(raw, 'cost', isNumber, warnings),
+    tags: optionalField(raw, 'tags', Array.isArray, warnings),
+    notes: optionalField(raw, 'notes', isString, warnings),
+    favorite: optionalField(raw, 'favorite', value => typeof value === 'boolean', warnings),
+    rating: optionalField(raw, 'rating', isNumber, warnings),
+    collectionIds: optionalField(raw, 'collectionIds', Array.isArray, warnings),
+    versions: versions?.map(version => ({
+      ...version,
+      createdAt: parseTimestamp(version.createdAt) ?? timestamp!,
+    })) as AnalysisRecord['versions'],
+    refinements: refinements?.map(turn => ({
+      ...turn,
+      createdAt: parseTimestamp(turn.createdAt) ?? timestamp!,
+    })) as AnalysisRecord['refinements'],
+  };
+
+  return { record: normalizeOrganization(record), errors, warnings };
+}
+
+// 旧版结构转换为当前结构：v0 为记录数组，v1 为 { records, collections }，v2 起带 schemaVersion
+function migrateJsonExport(data: unknown): { schemaVersion: number; records: unknown[]; collections: unknown[] } {
+  if (Array.isArray(data)) {
+    return { schemaVersion: 0, records: data, collections: [] };
+  }
+  if (!isObject(data) || !Array.isArray(data.records)) {
+    throw new Error('文件格式错误，请选择本应用导出的文件');
+  }
+
+  const schemaVersion = typeof data.schemaVersion === 'number' ? data.schemaVersion : 1;
+  if (schemaVersion > EXPORT_SCHEMA_VERSION) {
+    throw new Error(`文件来自更新版本的应用（结构版本 ${schemaVersion}），请升级后再导入`);
+  }
+  return {
+    schemaVersion,
+    records: data.records,
+    collections: Array.isArray(data.collections) ? data.collections : [],
+  };
+}
+
+function parseCollections(raw: unknown[]): Collection[] {
+  return raw
+    .filter(isObject)
+    .filter(item => typeof item.id === 'string' && typeof item.name === 'string' && item.name.trim())
+    .map(item => ({
+      id: item.id as string,
+      name: (item.name as string).trim(),
+      createdAt: parseTimestamp(item.createdAt) ?? new Date(),
+    }));
+}
+
+/**
+ * 解析 CSV（RFC 4180），去掉 BOM
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter(cells => cells.some(value => value !== ''));
+}
+
+// 扁平记录（CSV、JSONL）转为完整记录，收藏夹按名称匹配，不存在时新建
+function fromFlatRecord(
+  flat: Partial<Record<keyof FlatRecord, unknown>>,
+  collections: Collection[]
+): { record?: AnalysisRecord; errors: string[]; warnings: string[] } {
+  const toList = (value: unknown) => Array.isArray(value)
+    ? value.filter(isString) as string[]
+    : typeof value === 'string' ? value.split(';').map(item => item.trim()).filter(Boolean) : [];
+  const toNumber = (value: unknown) => (value === '' || value === null || value === undefined ? undefined : Number(value));
+
+  const collectionIds = toList(flat.collections).map(name => {
+    let collection = findCollectionByName(collections, name);
+    if (!collection) {
+      collection = { id: generateCollectionId(), name, createdAt: new Date() };
+      collections.push(collection);
+    }
+    return collection.id;
+  });
+
+  const width = toNumber(flat.width);
+  const height = toNumber(flat.height);
+  const profile = (flat.target_profile || 'generic') as TargetProfile;
+
+  return validateRecord({
+    id: flat.id,
+    imageName: flat.image_name,
+    imageUrl: flat.image_url,
+    prompt: flat.prompt,
+    timestamp: flat.created_at,
+    templateId: flat.template_id,
+    outputFormat: flat.output_format,
+    targetProfile: flat.target_profile,
+    variants: flat.negative_prompt
+      ? { [profile]: { prompt: flat.prompt, negativePrompt: flat.negative_prompt } }
+      : undefined,
+    model: flat.model,
+    provider: flat.provider,
+    tags: toList(flat.tags),
+    rating: toNumber(flat.rating),
+    favorite: flat.favorite === true || flat.favorite === 'true',
+    notes: flat.notes,
+    collectionIds,
+    imageDimensions: width && height ? { width, height } : undefined,
+    cost: toNumber(flat.cost),
+  });
+}
+
+// CSV 导出时为防止公式执行加的单引号
+function unguardCsvCell(value: string): string {
+  return /^'[=+\-@\t\r]/.test(value) ? value.slice(1) : value;
+}
+
+function getFlatSchemaVersion(flat: RawObject): number {
+  const version = Number(flat.schema_version);
+  return isFinite(version) && version > 0 ? version : EXPORT_SCHEMA_VERSION;
+}
+
+/**
+ * 按文件扩展名（或内容）解析导入文件
+ */
+export function parseImportFile(fileName: string, text: string): ParsedImport {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  const trimmed = text.replace(/^\uFEFF/, '').trim();
+  if (!trimmed) {
+    throw new Error('文件为空');
+  }
+
+  if (extension === 'csv') {
+    const [header, ...rows] = parseCsv(text);
+    if (!header?.includes('prompt') || !header.includes('id')) {
+      throw new Error('CSV 缺少 id 或 prompt 列，请选择本应用导出的 CSV 文件');
+    }
+    const collections: Collection[] = [];
+    const flats = rows.map(cells => Object.fromEntries(header.map((column, i) => [column, unguardCsvCell(cells[i] ?? '')])));
+    const schemaVersion = Math.max(...flats.map(getFlatSchemaVersion), 0);
+    if (schemaVersion > EXPORT_SCHEMA_VERSION) {
+      throw new Error(`文件来自更新版本的应用（结构版本 ${schemaVersion}），请升级后再导入`);
+    }
+    return {
+      format: 'csv',
+      schemaVersion,
+      entries: flats.map((flat, i) => ({ index: i + 1, ...fromFlatRecord(flat, collections) })),
+      collections,
+    };
+  }
+
+  // JSONL：逐行解析，第一行能单独解析为对象时按 JSONL 处理
+  const lines = trimmed.split(/\r?\n/).filter(line => line.trim());
+  const isJsonl = extension === 'jsonl' || extension === 'ndjson'
+    || (lines.length > 1 && extension !== 'json' && lines.every(line => line.trim().startsWith('{')));
+  if (isJsonl) {
+    const collections: Collection[] = [];
+    let schemaVersion = 0;
+    const entries = lines.map((line, i): ImportEntry => {
+      try {
+        const flat = JSON.parse(line);
+        if (!isObject(flat)) throw new Error();
+        schemaVersion = Math.max(schemaVersion, getFlatSchemaVersion(flat));
+        return { index: i + 1, ...fromFlatRecord(flat, collections) };
+      } catch {
+        return { index: i + 1, errors: ['该行不是有效的JSON'], warnings: [] };
+      }
+    });
+    if (schemaVersion > EXPORT_SCHEMA_VERSION) {
+      throw new Error(`文件来自更新版本的应用（结构版本 ${schemaVersion}），请升级后再导入`);
+    }
+    return { format: 'jsonl', schemaVersion, entries, collections };
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(trimmed);
+  } catch {
+    throw new Error('文件不是有效的JSON');
+  }
+  const migrated = migrateJsonExport(data);
+  return {
+    format: 'json',
+    schemaVersion: migrated.schemaVersion,
+    entries: migrated.records.map((raw, i) => ({ index: i + 1, ...validateRecord(raw) })),
+    collections: parseCollections(migrated.collections),
+  };
+}
+
+// 比较内容时使用的字段（不含导入后会变化的派生字段）
+function contentKey(record: AnalysisRecord): string {
+  return JSON.stringify([
+    record.imageName,
+    record.prompt,
+    new Date(record.timestamp).getTime(),
+    record.notes || '',
+    [...(record.tags || [])].sort(),
+    record.rating || 0,
+    !!record.favorite,
+    record.versions?.length || 0,
+    record.refinements?.length || 0,
+  ]);
+}
+
+/**
+ * 本地记录是否与导入文件中的某条记录ID或内容相同，预览时只需读取这些本地记录
+ */
+export function createExistingMatcher(parsed: ParsedImport): (record: AnalysisRecord) => boolean {
+  const records = parsed.entries.flatMap(entry => (entry.record ? [entry.record] : []));
+  const ids = new Set(records.map(record => record.id));
+  const keys = new Set(records.map(contentKey));
+  return record => ids.has(record.id) || keys.has(contentKey(record));
+}
+
+/**
+ * 与本地记录比较，标记每条记录的状态
+ * 同ID且内容相同为重复；同ID内容不同为冲突；不同ID但图片名、提示词和时间相同也视为重复
+ */
+export function buildImportPreview(parsed: ParsedImport, existing: AnalysisRecord[]): ImportPreviewItem[] {
+  const byId = new Map(existing.map(record => [record.id, record]));
+  const byContent = new Map(existing.map(record => [contentKey(record), record]));
+  const seenIds = new Set<string>();
+
+  return parsed.entries.map(entry => {
+    const { record } = entry;
+    if (!record) {
+      return { ...entry, status: 'invalid' };
+    }
+    if (seenIds.has(record.id)) {
+      return { ...entry, status: 'invalid', errors: ['文件中存在相同ID的记录'] };
+    }
+    seenIds.add(record.id);
+
+    const sameId = byId.get(record.id);
+    if (sameId) {
+      return contentKey(sameId) === contentKey(record)
+        ? { ...entry, status: 'duplicate', existing: sameId }
+        : { ...entry, status: 'conflict', existing: sameId };
+    }
+
+    const sameContent = byContent.get(contentKey(record));
+    return sameContent
+      ? { ...entry, status: 'duplicate', existing: sameContent }
+      : { ...entry, status: 'new' };
+  });
+}
+
+/**
+ * 按冲突处理方式得到需要写入的记录
+ */
+export function resolveImport(
+  items: ImportPreviewItem[],
+  resolutions: Record<number, ConflictResolution>,
+  defaultResolution: ConflictResolution
+): AnalysisRecord[] {
+  return items.flatMap(item => {
+    if (!item.record) return [];
+    if (item.status === 'new') return [item.record];
+    if (item.status !== 'conflict') return [];
+
+    switch (resolutions[item.index] ?? defaultResolution) {
+      case 'theirs':
+        return [item.record];
+      case 'both':
+        return [{ ...item.record, id: generateImageId() }];
+      default:
+        return [];
+    }
+  });
+}
@@ -0,0 +1,326 @@
+import { AnalysisRecord, HistoryChange } from '../types';
+
+// 中日韩文字（汉字、假名、谚文）
+const CJK_CLASS = '[\\u3040-\\u30ff\\u3400-\\u4dbf\\u4e00-\\u9fff\\uf900-\\ufaff\\uac00-\\ud7af]';
+const CJK_PATTERN = new RegExp(CJK_CLASS);
+const TOKEN_PATTERN = new RegExp(`${CJK_CLASS}+|(?:(?!${CJK_CLASS})[\\p{L}\\p{N}])+`, 'gu');
+
+// 各字段命中的权重：名称、标签比提示词正文更能代表记录
+const FIELD_WEIGHTS = {
+  imageName: 3,
+  tags: 3,
+  notes: 2,
+  prompt: 1,
+} as const;
+
+// BM25 参数
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// 解析后的搜索条件
+export interface ParsedSearchQuery {
+  terms: string[]; // 普通关键词（保留原文，用于高亮）
+  phrases: string[]; // 引号内的短语，需完整出现
+  models: string[]; // model: 模型名包含该值
+  tags: string[]; // tag: 标签等于该值或以「该值:」开头
+  after?: Date; // after: 当天及之后
+  before?: Date; // before: 当天之前
+}
+
+// 索引中的记录：只保留筛选所需的字段和包含的词，不保留记录内容
+interface IndexedRecord {
+  timestamp: Date;
+  model?: string;
+  tags?: string[];
+  length: number; // 加权前的词数
+  tokens: string[]; // 去重后的词，删除记录时据此清理倒排列表
+}
+
+// 倒排索引，建立后随历史记录的写入增量更新
+export interface SearchIndex {
+  postings: Map<string, Map<string, number>>; // 词 → 记录ID → 加权词频
+  records: Map<string, IndexedRecord>;
+  totalLength: number;
+}
+
+// 搜索结果，短语需在读取记录后用 matchesSearchPhrases 确认
+export interface SearchResult {
+  id: string;
+  score: number;
+}
+
+/**
+ * 是否包含中日韩文字
+ */
+export function containsCjk(text: string): boolean {
+  return CJK_PATTERN.test(text);
+}
+
+/**
+ * 分词：英文等按单词切分，中日韩文字按相邻两字切分（单字时保留单字）
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+
+  for (const run of text.toLowerCase().match(TOKEN_PATTERN) || []) {
+    if (!CJK_PATTERN.test(run)) {
+      tokens.push(run);
+    } else if (run.length === 1) {
+      tokens.push(run);
+    } else {
+      for (let i = 0; i < run.length - 1; i++) {
+        tokens.push(run.slice(i, i + 2));
+      }
+    }
+  }
+
+  return tokens;
+}
+
+// 解析 YYYY-MM-DD 为本地时间当天零点
+function parseDate(value: string): Date | undefined {
+  const match = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (!match) return undefined;
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * 解析搜索语法，如 model:gemma tag:portrait after:2026-01-01 "soft light"
+ * 无法识别的 key:value 作为普通关键词处理
+ */
+export function parseSearchQuery(input: string): ParsedSearchQuery {
+  const query: ParsedSearchQuery = { terms: [], phrases: [], models: [], tags: [] };
+  const pattern = /(\w+):"([^"]*)"|(\w+):(\S+)|"([^"]*)"|(\S+)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(input)) !== null) {
+    const key = (match[1] || match[3])?.toLowerCase();
+    const value = (match[2] ?? match[4] ?? '').trim();
+
+    if (key) {
+      const date = key === 'after' || key === 'before' ? parseDate(value) : undefined;
+      if (key === 'model' && value) {
+        query.models.push(value.toLowerCase());
+      } else if (key === 'tag' && value) {
+        query.tags.push(value.toLowerCase());
+      } else if (key === 'after' && date) {
+        query.after = date;
+      } else if (key === 'before' && date) {
+        query.before = date;
+      } else {
+        query.terms.push(match[0]);
+      }
+    } else if (match[5] !== undefined) {
+      if (match[5].trim()) {
+        query.phrases.push(match[5].trim());
+      }
+    } else if (match[6]) {
+      query.terms.push(match[6]);
+    }
+  }
+
+  return query;
+}
+
+/**
+ * 是否包含需要全文检索的关键词或短语（仅有筛选条件时按时间排序）
+ */
+export function hasTextQuery(query: ParsedSearchQuery): boolean {
+  return query.terms.length > 0 || query.phrases.length > 0;
+}
+
+// 参与检索的字段
+function getSearchFields(record: AnalysisRecord): Array<[keyof typeof FIELD_WEIGHTS, string]> {
+  return [
+    ['imageName', record.imageName],
+    ['tags', (record.tags || []).join(' ')],
+    ['notes', record.notes || ''],
+    ['prompt', record.prompt],
+  ];
+}
+
+/**
+ * 创建空的倒排索引
+ */
+export function createSearchIndex(): SearchIndex {
+  return { postings: new Map(), records: new Map(), totalLength: 0 };
+}
+
+/**
+ * 从索引中移除记录
+ */
+export function removeFromSearchIndex(index: SearchIndex, id: string): void {
+  const indexed = index.records.get(id);
+  if (!indexed) return;
+
+  indexed.tokens.forEach(token => {
+    const docs = index.postings.get(token);
+    docs?.delete(id);
+    if (docs?.size === 0) {
+      index.postings.delete(token);
+    }
+  });
+  index.records.delete(id);
+  index.totalLength -= indexed.length;
+}
+
+/**
+ * 把记录加入索引，已在索引中的记录先移除旧内容
+ */
+export function addToSearchIndex(index: SearchIndex, record: AnalysisRecord): void {
+  removeFromSearchIndex(index, record.id);
+
+  let length = 0;
+  const unique = new Set<string>();
+  getSearchFields(record).forEach(([field, text]) => {
+    const tokens = tokenize(text);
+    length += tokens.length;
+    tokens.forEach(token => {
+      unique.add(token);
+      let docs = index.postings.get(token);
+      if (!docs) {
+        docs = new Map();
+        index.postings.set(token, docs);
+      }
+      docs.set(record.id, (docs.get(record.id) || 0) + FIELD_WEIGHTS[field]);
+    });
+  });
+
+  index.records.set(record.id, {
+    timestamp: new Date(record.timestamp),
+    model: record.model,
+    tags: record.tags,
+    length,
+    tokens: Array.from(unique),
+  });
+  index.totalLength += length;
+}
+
+/**
+ * 把一次历史记录写入应用到索引
+ */
+export function applySearchIndexChange(index: SearchIndex, change: HistoryChange): void {
+  change.deleted.forEach(id => removeFromSearchIndex(index, id));
+  change.saved.forEach(record => addToSearchIndex(index, record));
+}
+
+// 查询词对应的倒排列表，英文词同时匹配以其开头的词（输入过程中即可命中）
+function getPostings(index: SearchIndex, token: string): Map<string, number> {
+  const exact = index.postings.get(token);
+  if (CJK_PATTERN.test(token) || token.length < 2) {
+    return exact || new Map();
+  }
+
+  const merged = new Map(exact || []);
+  index.postings.forEach((docs, key) => {
+    if (key !== token && key.startsWith(token)) {
+      docs.forEach((weight, id) => merged.set(id, Math.max(merged.get(id) || 0, weight)));
+    }
+  });
+  return merged;
+}
+
+/**
+ * 记录是否满足 model:、tag:、after:、before: 筛选
+ */
+export function matchesSearchFilters(
+  record: Pick<AnalysisRecord, 'timestamp' | 'model' | 'tags'>,
+  query: ParsedSearchQuery
+): boolean {
+  const timestamp = new Date(record.timestamp);
+  const model = (record.model || '').toLowerCase();
+  const tags = (record.tags || []).map(tag => tag.toLowerCase());
+
+  return query.models.every(value => model.includes(value))
+    && query.tags.every(value => tags.some(tag => tag === value || tag.startsWith(`${value}:`)))
+    && (!query.after || timestamp >= query.after)
+    && (!query.before || timestamp < query.before);
+}
+
+/**
+ * 搜索历史记录：所有关键词都需命中，按 BM25 相关度排序，相关度相同时新记录优先
+ * 没有关键词时返回满足筛选条件的全部记录（按时间从新到旧）
+ */
+export function searchHistory(index: SearchIndex, query: ParsedSearchQuery): SearchResult[] {
+  const candidates = Array.from(index.records.entries()).filter(([, indexed]) => matchesSearchFilters(indexed, query));
+  const timestamps = new Map(candidates.map(([id, indexed]) => [id, indexed.timestamp.getTime()]));
+  const byRecency = (a: SearchResult, b: SearchResult) => timestamps.get(b.id)! - timestamps.get(a.id)!;
+
+  if (!hasTextQuery(query)) {
+    return candidates.map(([id]) => ({ id, score: 0 })).sort(byRecency);
+  }
+
+  const tokens = Array.from(new Set(tokenize([...query.terms, ...query.phrases].join(' '))));
+  const tokenPostings = tokens.map(token => getPostings(index, token));
+  const total = index.records.size;
+  const averageLength = total > 0 ? index.totalLength / total : 0;
+
+  return candidates
+    .filter(([id]) => tokenPostings.every(postings => postings.has(id)))
+    .map(([id, indexed]) => {
+      const normalization = 1 - BM25_B + BM25_B * (indexed.length / (averageLength || 1));
+      const score = tokenPostings.reduce((sum, postings) => {
+        const weight = postings.get(id) || 0;
+        const idf = Math.log(1 + (total - postings.size + 0.5) / (postings.size + 0.5));
+        return sum + idf * (weight * (BM25_K1 + 1)) / (weight + BM25_K1 * normalization);
+      }, 0);
+      return { id, score };
+    })
+    .sort((a, b) => b.score - a.score || byRecency(a, b));
+}
+
+/**
+ * 记录是否完整包含所有引号内的短语
+ */
+export function matchesSearchPhrases(record: AnalysisRecord, query: ParsedSearchQuery): boolean {
+  const text = getSearchFields(record).map(([, text]) => text).join('\n').toLowerCase();
+  return query.phrases.every(phrase => text.includes(phrase.toLowerCase()));
+}
+
+/**
+ * 需要高亮的词：关键词、短语，以及中文关键词拆出的两字词
+ */
+export function getHighlightTerms(query: ParsedSearchQuery): string[] {
+  const terms = [...query.terms, ...query.phrases]
+    .flatMap(term => [term, ...tokenize(term)])
+    .filter(Boolean);
+  return Array.from(new Set(terms.map(term => term.toLowerCase())));
+}
+
+/**
+ * 按高亮词切分文本，返回带命中标记的片段
+ */
+export function splitHighlights(text: string, terms: string[]): Array<{ text: string; match: boolean }> {
+  if (!text || terms.length === 0) {
+    return [{ text, match: false }];
+  }
+
+  // 长词优先，避免短词截断长词的高亮
+  const escaped = [...terms]
+    .sort((a, b) => b.length - a.length)
+    .map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const pattern = new RegExp(`(${escaped.join('|')})`, 'gi');
+
+  return text
+    .split(pattern)
+    .filter(part => part !== '')
+    .map(part => ({ text: part, match: terms.includes(part.toLowerCase()) }));
+}
+
+/**
+ * 截取包含第一个命中词的片段，未命中时从开头截取
+ */
+export function getSnippet(text: string, terms: string[], maxLength: number): string {
+  if (text.length <= maxLength) return text;
+
+  const lower = text.toLowerCase();
+  const position = terms
+    .map(term => lower.indexOf(term))
+    .filter(index => index >= 0)
+    .reduce((min, index) => Math.min(min, index), Infinity);
+
+  // 命中位置前保留少量上下文
+  const start = position === Infinity ? 0 : Math.max(0, Math.min(position - 40, text.length - maxLength));
+  return (start > 0 ? '...' : '') + text.slice(start, start + maxLength) + (start + maxLength < text.length ? '...' : '');
+}
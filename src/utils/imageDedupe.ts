@@ -0,0 +1,71 @@
+import { AnalysisRecord, ImageHashes } from '../types';
+import { hammingDistance } from './imageUtils';
+
+// 感知哈希距离不超过该值视为同一张图片（仅缩放、压缩或格式不同）
+export const NEAR_DUPLICATE_DISTANCE = 4;
+
+// 「查找相似图片」的距离上限（64 位中不同的位数）
+export const SIMILAR_IMAGE_DISTANCE = 12;
+
+// 历史记录中与当前图片匹配的记录
+export interface ImageMatch {
+  record: AnalysisRecord;
+  distance: number; // 感知哈希距离，内容哈希相同时为 0
+  exact: boolean; // 内容哈希相同（同一文件）
+}
+
+/**
+ * 感知哈希距离转为相似度百分比
+ */
+export function toSimilarity(distance: number): number {
+  return Math.round((1 - distance / 64) * 100);
+}
+
+// 比较图片指纹与记录，无法比较时返回 null
+function matchRecord(hashes: ImageHashes, record: AnalysisRecord): ImageMatch | null {
+  if (hashes.contentHash && record.contentHash === hashes.contentHash) {
+    return { record, distance: 0, exact: true };
+  }
+  if (hashes.perceptualHash && record.perceptualHash) {
+    return { record, distance: hammingDistance(hashes.perceptualHash, record.perceptualHash), exact: false };
+  }
+  return null;
+}
+
+/**
+ * 在历史记录中查找已分析过的同一张图片：优先内容哈希完全相同的最新记录，其次感知哈希最接近的记录
+ */
+export function findCachedAnalysis(hashes: ImageHashes, history: AnalysisRecord[]): ImageMatch | null {
+  let best: ImageMatch | null = null;
+  for (const record of history) {
+    if (!record.prompt) continue;
+
+    const match = matchRecord(hashes, record);
+    if (!match || match.distance > NEAR_DUPLICATE_DISTANCE) continue;
+    if (
+      !best
+      || (match.exact && !best.exact)
+      || (match.exact === best.exact && match.distance < best.distance)
+      || (match.exact === best.exact && match.distance === best.distance && record.timestamp > best.record.timestamp)
+    ) {
+      best = match;
+    }
+  }
+  return best;
+}
+
+/**
+ * 查找与指定记录相似的其他记录，按相似度从高到低排序
+ */
+export function findSimilarRecords(
+  target: AnalysisRecord,
+  history: AnalysisRecord[],
+  maxDistance: number = SIMILAR_IMAGE_DISTANCE
+): ImageMatch[] {
+  const hashes = { contentHash: target.contentHash, perceptualHash: target.perceptualHash };
+  return history
+    .filter(record => record.id !== target.id)
+    .map(record => matchRecord(hashes, record))
+    .filter((match): match is ImageMatch => !!match && match.distance <= maxDistance)
+    .sort((a, b) => a.distance - b.distance || b.record.timestamp.getTime() - a.record.timestamp.getTime());
+}
@@ -1,4 +1,5 @@
 import imageCompression from 'browser-image-compression';
+import { ImageHashes } from '../types';
 
 // 图片压缩选项
 export interface CompressionOptions {
@@ -108,6 +109,196 @@ export function getImageDimensions(file: File): Promise<{ width: number; height:
   });
 }
 
+/**
+ * 生成缩略图（JPEG，最长边不超过 maxSize），用于历史记录中没有图片URL时的预览
+ */
+export function createThumbnail(file: Blob, maxSize: number = 160): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    const url = URL.createObjectURL(file);
+    
+    img.onload = () => {
+      revokeImagePreview(url);
+      const scale = Math.min(1, maxSize / Math.max(img.naturalWidth, img.naturalHeight));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+      canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+      
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error('缩略图生成失败'));
+        return;
+      }
+      // 透明背景的PNG转为JPEG时填充白色
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      context.drawImage(img, 0, 0, canvas.width, canvas.height);
+      canvas.toBlob(
+        blob => (blob ? resolve(blob) : reject(new Error('缩略图生成失败'))),
+        'image/jpeg',
+        0.8
+      );
+    };
+    
+    img.onerror = () => {
+      revokeImagePreview(url);
+      reject(new Error('无法读取图片'));
+    };
+    
+    img.src = url;
+  });
+}
+
+/**
+ * 计算图片内容的 SHA-256 哈希（十六进制），用于识别完全相同的图片
+ */
+export async function computeContentHash(blob: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// 加载图片元素，远程图片以匿名跨域方式加载以便读取像素
+function loadImageElement(src: string, crossOrigin: boolean): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    if (crossOrigin) {
+      img.crossOrigin = 'anonymous';
+    }
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('无法读取图片'));
+    img.src = src;
+  });
+}
+
+// dHash 的采样尺寸：9x8 灰度图，每行相邻像素比较得到 8 位，共 64 位
+const DHASH_WIDTH = 9;
+const DHASH_HEIGHT = 8;
+
+/**
+ * 计算图片的感知哈希（dHash，16 位十六进制），缩放、压缩后的同一图片哈希相近
+ */
+export async function computePerceptualHash(source: Blob | string): Promise<string> {
+  const isBlob = typeof source !== 'string';
+  const url = isBlob ? URL.createObjectURL(source) : source;
+
+  try {
+    const img = await loadImageElement(url, !isBlob);
+
+    // 逐级减半缩小，避免一次缩到很小时采样失真
+    let width = img.naturalWidth;
+    let height = img.naturalHeight;
+    let drawable: CanvasImageSource = img;
+    while (width > DHASH_WIDTH * 4 && height > DHASH_HEIGHT * 4) {
+      width = Math.round(width / 2);
+      height = Math.round(height / 2);
+      const step = document.createElement('canvas');
+      step.width = width;
+      step.height = height;
+      step.getContext('2d')?.drawImage(drawable, 0, 0, width, height);
+      drawable = step;
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = DHASH_WIDTH;
+    canvas.height = DHASH_HEIGHT;
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('无法计算图片指纹');
+    }
+    // 透明区域按白色处理，与缩略图一致
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, DHASH_WIDTH, DHASH_HEIGHT);
+    context.drawImage(drawable, 0, 0, DHASH_WIDTH, DHASH_HEIGHT);
+
+    const { data } = context.getImageData(0, 0, DHASH_WIDTH, DHASH_HEIGHT);
+    const gray = (x: number, y: number) => {
+      const i = (y * DHASH_WIDTH + x) * 4;
+      return data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+    };
+
+    let hash = '';
+    for (let y = 0; y < DHASH_HEIGHT; y++) {
+      let nibble = 0;
+      for (let x = 0; x < DHASH_WIDTH - 1; x++) {
+        nibble = (nibble << 1) | (gray(x, y) > gray(x + 1, y) ? 1 : 0);
+        if (x % 4 === 3) {
+          hash += nibble.toString(16);
+          nibble = 0;
+        }
+      }
+    }
+    return hash;
+  } finally {
+    if (isBlob) {
+      URL.revokeObjectURL(url);
+    }
+  }
+}
+
+/**
+ * 两个感知哈希之间不同的位数（0-64），越小越相似
+ */
+export function hammingDistance(a: string, b: string): number {
+  if (a.length !== b.length) {
+    return Infinity;
+  }
+
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+}
+
+/**
+ * 计算图片的内容哈希和感知哈希；远程图片无法下载时只计算感知哈希，均失败时返回空结果
+ */
+export async function computeImageHashes(source: Blob | string): Promise<ImageHashes> {
+  let blob = typeof source === 'string' ? null : source;
+  if (typeof source === 'string') {
+    try {
+      const response = await fetch(source);
+      if (response.ok) {
+        blob = await response.blob();
+      }
+    } catch {
+      // 跨域限制时无法下载，改用图片元素读取像素
+    }
+  }
+
+  const [contentHash, perceptualHash] = await Promise.all([
+    blob ? computeContentHash(blob).catch(() => undefined) : undefined,
+    computePerceptualHash(blob ?? source).catch(() => undefined),
+  ]);
+  return { contentHash, perceptualHash };
+}
+
+/**
+ * 获取URL图片尺寸
+ */
+export function getImageUrlDimensions(url: string): Promise<{ width: number; height: number }> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    
+    img.onload = () => {
+      resolve({
+        width: img.naturalWidth,
+        height: img.naturalHeight,
+      });
+    };
+    
+    img.onerror = () => {
+      reject(new Error('无法读取图片尺寸'));
+    };
+    
+    img.src = url;
+  });
+}
+
 /**
  * 将文件转换为Base64
  */
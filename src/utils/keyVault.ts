@@ -0,0 +1,127 @@
+import { ApiConfig, EncryptedVault } from '../types';
+
+// PBKDF2 迭代次数（SHA-256），解锁时约需数百毫秒
+export const VAULT_PBKDF2_ITERATIONS = 600000;
+
+// 密码最短长度
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+const SALT_BYTES = 16;
+const IV_BYTES = 12; // AES-GCM 推荐的 96 位 IV
+
+// 解锁后保存在内存中的密钥，刷新页面后需要重新输入密码
+export interface VaultSession {
+  key: CryptoKey;
+  salt: string;
+  iterations: number;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array {
+  return Uint8Array.from(atob(text), char => char.charCodeAt(0));
+}
+
+/**
+ * 由密码派生 AES-GCM 密钥（不可导出）
+ */
+async function deriveKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * 用新的随机盐创建会话密钥（设置或修改密码时使用）
+ */
+export async function createVaultSession(passphrase: string): Promise<VaultSession> {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`密码至少需要 ${MIN_PASSPHRASE_LENGTH} 个字符`);
+  }
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  return {
+    key: await deriveKey(passphrase, salt, VAULT_PBKDF2_ITERATIONS),
+    salt: toBase64(salt),
+    iterations: VAULT_PBKDF2_ITERATIONS,
+  };
+}
+
+/**
+ * 加密 API 配置，每次加密使用新的 IV
+ */
+export async function encryptApiConfig(config: ApiConfig, session: VaultSession): Promise<EncryptedVault> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    session.key,
+    new TextEncoder().encode(JSON.stringify(config))
+  );
+  return {
+    version: 1,
+    salt: session.salt,
+    iv: toBase64(iv),
+    iterations: session.iterations,
+    ciphertext: toBase64(new Uint8Array(ciphertext)),
+  };
+}
+
+/**
+ * 用密码解密保险箱，返回 API 配置和会话密钥；密码错误时抛出错误
+ */
+export async function decryptVault(
+  vault: EncryptedVault,
+  passphrase: string
+): Promise<{ config: ApiConfig; session: VaultSession }> {
+  const key = await deriveKey(passphrase, fromBase64(vault.salt), vault.iterations);
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(vault.iv) },
+      key,
+      fromBase64(vault.ciphertext)
+    );
+  } catch {
+    // AES-GCM 认证失败：密码错误或数据被篡改
+    throw new Error('密码错误');
+  }
+  return {
+    config: JSON.parse(new TextDecoder().decode(plaintext)),
+    session: { key, salt: vault.salt, iterations: vault.iterations },
+  };
+}
+
+/**
+ * 去掉配置中的所有密钥，只保留服务商、地址和模型等非敏感设置
+ */
+export function stripSecrets(config: ApiConfig): ApiConfig {
+  const providers = config.providers
+    ? Object.fromEntries(
+        Object.entries(config.providers).map(([id, provider]) => [id, { ...provider, apiKey: '' }])
+      )
+    : undefined;
+  const proxy = config.proxy ? { ...config.proxy, token: '' } : undefined;
+  const imageHosts = config.imageHosts
+    ? {
+        s3: config.imageHosts.s3 && { ...config.imageHosts.s3, accessKeyId: '', secretAccessKey: '' },
+        multipart: config.imageHosts.multipart && { ...config.imageHosts.multipart, authorization: '' },
+      }
+    : undefined;
+  return { ...config, openRouterKey: '', imgbbKey: '', providers, proxy, imageHosts };
+}
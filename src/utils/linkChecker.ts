@@ -0,0 +1,53 @@
+import { AnalysisRecord } from '../types';
+
+// 同一条记录两次检测之间的最短间隔
+export const LINK_CHECK_INTERVAL = 24 * 60 * 60 * 1000;
+// 单张图片的加载超时，超时视为无法判断，下次再检测
+const LINK_CHECK_TIMEOUT = 15000;
+
+/**
+ * 图床上的副本是否已过期
+ */
+export function isRemoteExpired(record: AnalysisRecord, now: number = Date.now()): boolean {
+  return !!record.remoteImage?.expiresAt && record.remoteImage.expiresAt <= now;
+}
+
+/**
+ * 记录的图片链接是否已知失效（检测失败或已过期）
+ */
+export function isImageLinkBroken(record: AnalysisRecord, now: number = Date.now()): boolean {
+  return !!record.imageUrl && (!!record.linkCheck?.broken || isRemoteExpired(record, now));
+}
+
+/**
+ * 是否需要检测：只检测 http(s) 地址，已失效的记录不再重复检测
+ */
+export function needsLinkCheck(record: AnalysisRecord, now: number = Date.now()): boolean {
+  if (!record.imageUrl || !/^https?:\/\//i.test(record.imageUrl) || record.linkCheck?.broken) {
+    return false;
+  }
+  return !record.linkCheck || now - record.linkCheck.checkedAt >= LINK_CHECK_INTERVAL;
+}
+
+/**
+ * 通过加载图片检测链接是否可用（图片请求不受跨域限制）
+ * 返回 null 表示超时，无法判断
+ */
+export function checkImageUrl(url: string, timeoutMs: number = LINK_CHECK_TIMEOUT): Promise<boolean | null> {
+  return new Promise(resolve => {
+    const img = new Image();
+    const timer = setTimeout(() => finish(null), timeoutMs);
+
+    function finish(result: boolean | null) {
+      clearTimeout(timer);
+      img.onload = null;
+      img.onerror = null;
+      img.src = '';
+      resolve(result);
+    }
+
+    img.onload = () => finish(true);
+    img.onerror = () => finish(false);
+    img.src = url;
+  });
+}
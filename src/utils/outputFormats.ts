@@ -0,0 +1,126 @@
+import { OutputFormat } from '../types';
+
+// 输出格式名称
+export const OUTPUT_FORMAT_LABELS: Record<OutputFormat, string> = {
+  detailed: '详细模式',
+  concise: '简洁模式',
+  tags: '标签列表',
+  json: '结构化JSON',
+};
+
+// 输出格式说明
+export const OUTPUT_FORMAT_DESCRIPTIONS: Record<OutputFormat, string> = {
+  detailed: '完整、细致的段落式描述',
+  concise: '一到两句话的精简描述',
+  tags: '逗号分隔的关键词标签，适合 Stable Diffusion',
+  json: '按主体、场景、风格等字段输出的 JSON 对象',
+};
+
+// 各输出格式追加到模板后的指令
+const FORMAT_INSTRUCTIONS: Record<OutputFormat, Record<'zh' | 'en', string>> = {
+  detailed: {
+    zh: '【输出格式】输出一段完整、细致的提示词，尽量覆盖所有视觉细节。只输出提示词本身，不要添加标题或解释。',
+    en: '[Output format] Output one complete, detailed prompt paragraph that covers every visual detail. Output only the prompt itself, without headings or explanations.',
+  },
+  concise: {
+    zh: '【输出格式】输出一到两句话的精简提示词，不超过60字，只保留最关键的主体、风格和氛围。只输出提示词本身，不要添加标题或解释。',
+    en: '[Output format] Output a concise prompt of one or two sentences (at most 40 words), keeping only the key subject, style and mood. Output only the prompt itself, without headings or explanations.',
+  },
+  tags: {
+    zh: '【输出格式】只输出用英文逗号分隔的关键词标签列表（例如：1girl, red dress, soft light），按重要程度排序，不要输出完整句子、编号或解释。',
+    en: '[Output format] Output only a comma-separated list of keyword tags (e.g. 1girl, red dress, soft light), ordered by importance. Do not output full sentences, numbering or explanations.',
+  },
+  json: {
+    zh: '【输出格式】只输出一个JSON对象，不要使用Markdown代码块，字段为：subject（主体）、scene（场景）、style（风格）、composition（构图）、lighting（光影色彩）、mood（氛围）、prompt（整合后的完整提示词）。',
+    en: '[Output format] Output only a JSON object without Markdown code fences, with the fields: subject, scene, style, composition, lighting, mood, prompt (the combined full prompt).',
+  },
+};
+
+// 模型常在结果前添加的标签
+const LEADING_LABEL_PATTERN = /^\s*[「【[]?(最终合规提示词|最终提示词|提示词|final compliant prompt|final prompt|prompt)[」】\]]?\s*[:：]\s*/i;
+
+// 标签分隔符
+const TAG_SEPARATOR_PATTERN = /[,，、;；\n]+/;
+
+/**
+ * 将输出格式指令追加到模板指令之后
+ */
+export function applyOutputFormat(prompt: string, format: OutputFormat, language: 'zh' | 'en'): string {
+  return `${prompt}\n\n${FORMAT_INSTRUCTIONS[format][language]}`;
+}
+
+/**
+ * 清理模型输出中常见的包装：代码块、标签前缀、首尾引号
+ */
+function stripWrapping(text: string): string {
+  return text
+    .trim()
+    .replace(/^```[a-zA-Z]*\s*/, '')
+    .replace(/\s*```$/, '')
+    .replace(LEADING_LABEL_PATTERN, '')
+    .replace(/^["“「](.*)["”」]$/s, '$1')
+    .trim();
+}
+
+/**
+ * 将逗号、顿号、换行等分隔的内容整理为标签列表
+ */
+export function normalizeTags(text: string): string[] {
+  const tags = text
+    .split(TAG_SEPARATOR_PATTERN)
+    .map(tag =>
+      tag
+        .trim()
+        .replace(/^(\d+[.)、]|[-*•#])\s*/, '') // 去掉编号和列表符号
+        .replace(/[。.]$/, '')
+        .trim()
+    )
+    .filter(Boolean);
+
+  // 按小写去重，保留第一次出现的写法
+  const seen = new Set<string>();
+  return tags.filter(tag => {
+    const key = tag.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * 从文本中提取JSON对象并格式化，解析失败时返回null
+ */
+export function extractJsonObject(text: string): Record<string, unknown> | null {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start === -1 || end <= start) return null;
+
+  try {
+    const parsed = JSON.parse(text.slice(start, end + 1));
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 按输出格式对模型原始输出做后处理
+ */
+export function postProcessOutput(raw: string, format: OutputFormat): string {
+  const text = stripWrapping(raw);
+
+  switch (format) {
+    case 'concise':
+      // 合并为单段文本
+      return text.replace(/\s*\n+\s*/g, ' ').replace(/\s{2,}/g, ' ');
+    case 'tags':
+      return normalizeTags(text).join(', ');
+    case 'json': {
+      const parsed = extractJsonObject(text);
+      return parsed ? JSON.stringify(parsed, null, 2) : text;
+    }
+    case 'detailed':
+    default:
+      return text;
+  }
+}
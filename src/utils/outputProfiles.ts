@@ -0,0 +1,167 @@
+import { PromptVariant, TargetProfile } from '../types';
+
+// 目标生成器名称
+export const PROFILE_LABELS: Record<TargetProfile, string> = {
+  generic: '通用',
+  midjourney: 'Midjourney',
+  sdxl: 'SDXL',
+  flux: 'Flux',
+  dalle: 'DALL·E',
+};
+
+// Midjourney 默认参数
+export const MIDJOURNEY_DEFAULTS = {
+  stylize: 250,
+  version: '6.1',
+};
+
+// SDXL 默认反向提示词（模型未给出时使用）
+export const DEFAULT_NEGATIVE_PROMPT =
+  'lowres, bad anatomy, bad hands, text, error, missing fingers, extra digit, fewer digits, cropped, worst quality, low quality, jpeg artifacts, signature, watermark, blurry';
+
+// DALL·E 3 提示词长度上限
+const DALLE_MAX_LENGTH = 4000;
+
+// 常见画幅比例，用于近似不规则尺寸
+const COMMON_ASPECT_RATIOS: Array<[number, number]> = [
+  [1, 1], [4, 3], [3, 4], [3, 2], [2, 3], [5, 4], [4, 5],
+  [16, 9], [9, 16], [21, 9], [9, 21], [2, 1], [1, 2],
+];
+
+// 各生成器追加的指令
+const PROFILE_INSTRUCTIONS: Record<TargetProfile, Record<'zh' | 'en', string>> = {
+  generic: {
+    zh: '',
+    en: '',
+  },
+  midjourney: {
+    zh: '【目标生成器】Midjourney：用英文短语按重要程度逗号分隔描述画面，不要输出 --ar、--v 等参数，参数会自动追加。',
+    en: '[Target generator] Midjourney: describe the image as comma-separated English phrases ordered by importance. Do not output parameters such as --ar or --v; they are appended automatically.',
+  },
+  sdxl: {
+    zh: '【目标生成器】SDXL：用英文关键词输出正向提示词，对关键元素使用 (token:1.2) 形式的权重语法；然后另起一行以 "Negative prompt:" 开头给出反向提示词。',
+    en: '[Target generator] SDXL: output the positive prompt as English keywords, using (token:1.2) weight syntax for key elements; then on a new line starting with "Negative prompt:" give the negative prompt.',
+  },
+  flux: {
+    zh: '【目标生成器】Flux：用自然语言分段描述画面（主体、环境、光影与风格各一段），不要使用权重语法或关键词堆砌。',
+    en: '[Target generator] Flux: describe the image in natural-language paragraphs (subject, environment, lighting and style), without weight syntax or keyword lists.',
+  },
+  dalle: {
+    zh: '【目标生成器】DALL·E：用一段流畅的自然语言描述画面，不使用权重语法或参数。',
+    en: '[Target generator] DALL·E: describe the image in one fluent natural-language paragraph, without weight syntax or parameters.',
+  },
+};
+
+// 反向提示词分隔标记
+const NEGATIVE_PROMPT_PATTERN = /\n?\s*(negative prompt|反向提示词|负面提示词)\s*[:：]\s*/i;
+
+/**
+ * 将目标生成器指令追加到分析指令之后
+ */
+export function applyTargetProfile(prompt: string, profile: TargetProfile, language: 'zh' | 'en'): string {
+  const instruction = PROFILE_INSTRUCTIONS[profile][language];
+  return instruction ? `${prompt}\n\n${instruction}` : prompt;
+}
+
+function greatestCommonDivisor(a: number, b: number): number {
+  return b === 0 ? a : greatestCommonDivisor(b, a % b);
+}
+
+/**
+ * 根据图片尺寸计算画幅比例，如 1920x1080 → "16:9"
+ * 约分后数值过大时近似到常见比例
+ */
+export function getAspectRatio(width: number, height: number): string {
+  if (width <= 0 || height <= 0) return '1:1';
+
+  const divisor = greatestCommonDivisor(width, height);
+  const ratioWidth = width / divisor;
+  const ratioHeight = height / divisor;
+  if (ratioWidth <= 21 && ratioHeight <= 21) {
+    return `${ratioWidth}:${ratioHeight}`;
+  }
+
+  const target = width / height;
+  const [closestWidth, closestHeight] = COMMON_ASPECT_RATIOS.reduce((best, current) =>
+    Math.abs(current[0] / current[1] - target) < Math.abs(best[0] / best[1] - target) ? current : best
+  );
+  return `${closestWidth}:${closestHeight}`;
+}
+
+/**
+ * 拆分正向与反向提示词
+ */
+export function splitNegativePrompt(text: string): { positive: string; negative?: string } {
+  const match = text.match(NEGATIVE_PROMPT_PATTERN);
+  if (!match || match.index === undefined) {
+    return { positive: text.trim() };
+  }
+
+  return {
+    positive: text.slice(0, match.index).trim(),
+    negative: text.slice(match.index + match[0].length).trim() || undefined,
+  };
+}
+
+/**
+ * 去掉权重语法和生成器参数，得到纯文本描述
+ */
+export function stripPromptSyntax(text: string): string {
+  return text
+    .replace(/\s--[a-z]+(\s+[^\s-][^\s]*)?/gi, '') // --ar 16:9、--v 6 等参数
+    .replace(/\(([^():]+):\s*[\d.]+\)/g, '$1') // (token:1.2)
+    .replace(/[()[\]{}]/g, '') // ((token))、[token]
+    .replace(/[ \t]{2,}/g, ' ')
+    .trim();
+}
+
+/**
+ * 将提示词转换为指定生成器的格式
+ */
+export function formatForProfile(
+  profile: TargetProfile,
+  text: string,
+  options: { dimensions?: { width: number; height: number }; negativePrompt?: string } = {}
+): PromptVariant {
+  const { dimensions, negativePrompt } = options;
+
+  switch (profile) {
+    case 'midjourney': {
+      const description = stripPromptSyntax(text).replace(/\s*\n+\s*/g, ', ').replace(/[,，]\s*[,，]/g, ',');
+      const params = [
+        dimensions ? `--ar ${getAspectRatio(dimensions.width, dimensions.height)}` : '',
+        `--stylize ${MIDJOURNEY_DEFAULTS.stylize}`,
+        `--v ${MIDJOURNEY_DEFAULTS.version}`,
+      ].filter(Boolean);
+      return { prompt: `${description} ${params.join(' ')}` };
+    }
+    case 'sdxl':
+      return {
+        prompt: text.replace(/\s*\n+\s*/g, ', '),
+        negativePrompt: negativePrompt || DEFAULT_NEGATIVE_PROMPT,
+      };
+    case 'flux':
+      return { prompt: stripPromptSyntax(text) };
+    case 'dalle':
+      return { prompt: stripPromptSyntax(text).replace(/\s*\n+\s*/g, ' ').slice(0, DALLE_MAX_LENGTH) };
+    case 'generic':
+    default:
+      return { prompt: text, negativePrompt };
+  }
+}
+
+/**
+ * 由模型输出生成所有生成器的提示词版本
+ */
+export function buildPromptVariants(
+  raw: string,
+  dimensions?: { width: number; height: number }
+): Record<TargetProfile, PromptVariant> {
+  const { positive, negative } = splitNegativePrompt(raw);
+  const profiles = Object.keys(PROFILE_LABELS) as TargetProfile[];
+
+  return profiles.reduce((variants, profile) => {
+    variants[profile] = formatForProfile(profile, positive, { dimensions, negativePrompt: negative });
+    return variants;
+  }, {} as Record<TargetProfile, PromptVariant>);
+}
@@ -0,0 +1,92 @@
+import { PromptTemplate } from '../types';
+
+// 内置合规反推模板ID
+export const BUILTIN_TEMPLATE_ID = 'builtin-compliance';
+
+// 自动填充的变量（无需用户输入）
+export const RESERVED_VARIABLES = ['language'];
+
+// 输出语言名称，用于填充 {{language}} 变量
+const LANGUAGE_NAMES: Record<'zh' | 'en', string> = {
+  zh: '中文',
+  en: 'English',
+};
+
+// 匹配 {{variable}} 形式的模板变量
+const VARIABLE_PATTERN = /\{\{\s*([a-zA-Z_][a-zA-Z0-9_]*)\s*\}\}/g;
+
+// 合规反推提示词
+const COMPLIANCE_PROMPT_ZH = '请你同时扮演「图片提示词反推专家」和「合规审核优化师」，处理我提供的图片（或图片描述 / 原违规提示词）：先拆解图片 8 个核心视觉维度（主体信息、衣物 / 材质、场景环境、艺术风格、构图视角、色彩光影、细节特效、氛围情绪），确保捕捉所有关键视觉细节，不遗漏信息；基于拆解结果，按以下规则完成合规优化：暴露衣物替换为日常款（如长袖 T 恤 / 直筒裤 / 连衣裙 / 泳衣 / 比基尼），暧昧姿势调整为自然动作（如站立、微笑平视），私密场景优化为中性场景（如客厅、户外草地），词汇违规：删除 “性感 / 诱惑 / 暴露 / 挑逗” 等词，替换 “紧身 / 深 V” 为 “合身 / 圆领”；氛围违规：“性感氛围”→ 改为 “舒适日常氛围”，“暧昧光影”→ 改为 “柔和自然光”。无需展示上述拆解和优化过程，直接将合规后的所有信息整合成一段逻辑连贯、可直接用于 MidJourney/Stable Diffusion 的提示词，最终仅输出格式为「最终合规提示词」的内容，确保无任何 NSFW 元素且高度还原原图视觉风格、构图、光影和氛围。请使用中文回答';
+const COMPLIANCE_PROMPT_EN = 'Please act as both a "Image Prompt Reverse-Engineering Expert" and a "Compliance Review Optimizer" to process the image (or image description/original non-compliant prompt) I provide:First, disassemble the image into 8 core visual dimensions (subject information, clothing/materials, scene environment, artistic style, composition perspective, color and lighting, detailed effects, atmosphere and emotion), ensuring that all key visual details are captured without omitting any information;Based on the disassembly results, complete compliance optimization according to the following rules: Replace revealing clothing with daily styles (such as long-sleeved T-shirts/straight-leg pants/dresses/swimsuits/bikinis); adjust ambiguous poses to natural actions (such as standing, smiling and looking straight); optimize private scenes to neutral scenes (such as living room, outdoor grass); for non-compliant vocabulary: delete words like "sexy/tempting/revealing/teasing" and replace "tight/deep V" with "fitted/round neck";For atmosphere violations: "sexy atmosphere" → changed to "comfortable daily atmosphere"; "ambiguous lighting" → changed to "soft natural light".There is no need to show the above disassembly and optimization process. Directly integrate all compliant information into a coherent prompt that can be directly used for MidJourney/Stable Diffusion. Finally, only output the content in the format of "Final Compliant Prompt", ensuring that there are no NSFW elements and that it highly restores the original image\'s visual style, composition, lighting and atmosphere. Please answer in English';
+
+// 内置模板（只读）
+export const BUILTIN_TEMPLATES: PromptTemplate[] = [
+  {
+    id: BUILTIN_TEMPLATE_ID,
+    name: '合规反推（内置）',
+    description: '拆解 8 个视觉维度并做合规优化，输出可用于 MidJourney/Stable Diffusion 的提示词',
+    content: COMPLIANCE_PROMPT_ZH,
+    localizedContent: {
+      zh: COMPLIANCE_PROMPT_ZH,
+      en: COMPLIANCE_PROMPT_EN,
+    },
+    isBuiltIn: true,
+    createdAt: new Date(0),
+    updatedAt: new Date(0),
+  },
+];
+
+/**
+ * 提取模板中使用的变量名（去重，保持出现顺序）
+ */
+export function extractTemplateVariables(content: string): string[] {
+  const names = Array.from(content.matchAll(VARIABLE_PATTERN), match => match[1]);
+  return Array.from(new Set(names));
+}
+
+/**
+ * 提取需要用户填写的变量
+ */
+export function extractUserVariables(content: string): string[] {
+  return extractTemplateVariables(content).filter(name => !RESERVED_VARIABLES.includes(name));
+}
+
+/**
+ * 获取模板在指定语言下的内容
+ */
+export function getTemplateContent(template: PromptTemplate, language: 'zh' | 'en'): string {
+  return template.localizedContent?.[language] ?? template.content;
+}
+
+/**
+ * 渲染模板，替换变量
+ * 未提供值的变量替换为空字符串
+ */
+export function renderTemplate(
+  template: PromptTemplate,
+  language: 'zh' | 'en',
+  variables: Record<string, string> = {}
+): string {
+  const values: Record<string, string> = {
+    language: LANGUAGE_NAMES[language],
+    ...variables,
+  };
+
+  return getTemplateContent(template, language)
+    .replace(VARIABLE_PATTERN, (_match, name: string) => values[name]?.trim() ?? '')
+    .trim();
+}
+
+/**
+ * 查找模板，找不到时回退到内置模板
+ */
+export function findTemplate(templates: PromptTemplate[], id: string | undefined): PromptTemplate {
+  return templates.find(template => template.id === id) ?? BUILTIN_TEMPLATES[0];
+}
+
+/**
+ * 生成模板ID
+ */
+export function generateTemplateId(): string {
+  return `tpl_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
@@ -0,0 +1,151 @@
+import { AnalysisRecord, PromptVersion, PromptVersionSource } from '../types';
+
+// 差异片段
+export interface DiffSegment {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+// 逐词比较的最大计算量，超出时按整段替换显示
+const MAX_DIFF_CELLS = 4_000_000;
+
+export const VERSION_SOURCE_LABELS: Record<PromptVersionSource, string> = {
+  model: '模型输出',
+  edit: '手动编辑',
+  revert: '回退',
+  refine: '追问优化',
+};
+
+/**
+ * 生成版本ID
+ */
+export function generateVersionId(): string {
+  return `ver_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
+}
+
+/**
+ * 获取记录的版本列表，未编辑过的记录以当前提示词作为模型原始输出
+ */
+export function getPromptVersions(record: AnalysisRecord): PromptVersion[] {
+  if (record.versions && record.versions.length > 0) {
+    return record.versions.map(version => ({ ...version, createdAt: new Date(version.createdAt) }));
+  }
+
+  return [{
+    id: `${record.id}-original`,
+    prompt: record.prompt,
+    source: 'model',
+    createdAt: new Date(record.timestamp),
+  }];
+}
+
+/**
+ * 以新内容创建版本并设为当前提示词，内容未变化时原样返回
+ * 带生成器版本的记录同步更新所选生成器的提示词，其余生成器保持不变
+ */
+export function addPromptVersion(
+  record: AnalysisRecord,
+  prompt: string,
+  source: PromptVersionSource = 'edit',
+  revertedFrom?: string
+): AnalysisRecord {
+  if (prompt === record.prompt) return record;
+
+  const version: PromptVersion = {
+    id: generateVersionId(),
+    prompt,
+    source,
+    createdAt: new Date(),
+    revertedFrom,
+  };
+  const profile = record.targetProfile || 'generic';
+  const variant = record.variants?.[profile];
+
+  return {
+    ...record,
+    prompt,
+    versions: [...getPromptVersions(record), version],
+    variants: variant ? { ...record.variants, [profile]: { ...variant, prompt } } : record.variants,
+  };
+}
+
+/**
+ * 回退到指定版本：以该版本内容创建新版本，保留完整历史
+ */
+export function revertToVersion(record: AnalysisRecord, versionId: string): AnalysisRecord {
+  const target = getPromptVersions(record).find(version => version.id === versionId);
+  if (!target) return record;
+  return addPromptVersion(record, target.prompt, 'revert', versionId);
+}
+
+// 切分为单词、空白和单个中日韩字符，标点单独成段
+function splitWords(text: string): string[] {
+  return text.match(/[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff\uac00-\ud7af]|[\p{L}\p{N}_'-]+|\s+|[^\s\p{L}\p{N}]/gu) || [];
+}
+
+// 合并相邻的同类片段
+function pushSegment(segments: DiffSegment[], type: DiffSegment['type'], text: string) {
+  const last = segments[segments.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    segments.push({ type, text });
+  }
+}
+
+/**
+ * 逐词比较两段文本（最长公共子序列）
+ */
+export function diffWords(before: string, after: string): DiffSegment[] {
+  const a = splitWords(before);
+  const b = splitWords(after);
+
+  // 去掉共同的首尾部分，减少计算量
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const segments: DiffSegment[] = [];
+  if (start > 0) pushSegment(segments, 'equal', a.slice(0, start).join(''));
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  if (midA.length * midB.length > MAX_DIFF_CELLS) {
+    if (midA.length) pushSegment(segments, 'delete', midA.join(''));
+    if (midB.length) pushSegment(segments, 'insert', midB.join(''));
+  } else {
+    // lengths[i][j] 为 midA[i:] 与 midB[j:] 的最长公共子序列长度
+    const lengths = Array.from({ length: midA.length + 1 }, () => new Uint32Array(midB.length + 1));
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lengths[i][j] = midA[i] === midB[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < midA.length && j < midB.length) {
+      if (midA[i] === midB[j]) {
+        pushSegment(segments, 'equal', midA[i]);
+        i++;
+        j++;
+      } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+        pushSegment(segments, 'delete', midA[i++]);
+      } else {
+        pushSegment(segments, 'insert', midB[j++]);
+      }
+    }
+    while (i < midA.length) pushSegment(segments, 'delete', midA[i++]);
+    while (j < midB.length) pushSegment(segments, 'insert', midB[j++]);
+  }
+
+  if (endA < a.length) pushSegment(segments, 'equal', a.slice(endA).join(''));
+  return segments;
+}
@@ -0,0 +1,64 @@
+import { AnalysisRecord, Collection } from '../types';
+
+// 评分范围
+export const MAX_RATING = 5;
+
+/**
+ * 规范化标签：去除首尾空白、合并连续空白并转为小写
+ */
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * 解析用户输入的标签，支持中英文逗号、顿号和换行分隔
+ */
+export function parseTagInput(input: string): string[] {
+  return mergeTags([], input.split(/[,，、\n]/));
+}
+
+/**
+ * 合并标签并去重，保持原有顺序
+ */
+export function mergeTags(current: string[] | undefined, added: string[]): string[] {
+  const tags = [...(current || []), ...added].map(normalizeTag).filter(Boolean);
+  return Array.from(new Set(tags));
+}
+
+/**
+ * 评分限制在 1-5 的整数，0 或无效值表示未评分
+ */
+export function normalizeRating(rating: unknown): number | undefined {
+  const value = Math.round(Number(rating));
+  return value >= 1 ? Math.min(value, MAX_RATING) : undefined;
+}
+
+/**
+ * 规范化导入记录中的整理字段（标签、星标、评分、收藏夹）
+ */
+export function normalizeOrganization(record: AnalysisRecord): AnalysisRecord {
+  return {
+    ...record,
+    tags: Array.isArray(record.tags) ? mergeTags([], record.tags.filter(tag => typeof tag === 'string')) : undefined,
+    favorite: record.favorite === true ? true : undefined,
+    rating: normalizeRating(record.rating),
+    collectionIds: Array.isArray(record.collectionIds)
+      ? Array.from(new Set(record.collectionIds.filter(id => typeof id === 'string')))
+      : undefined,
+  };
+}
+
+/**
+ * 生成收藏夹ID
+ */
+export function generateCollectionId(): string {
+  return `col_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
+}
+
+/**
+ * 按名称查找收藏夹（忽略大小写和首尾空白）
+ */
+export function findCollectionByName(collections: Collection[], name: string): Collection | undefined {
+  const target = name.trim().toLowerCase();
+  return collections.find(collection => collection.name.trim().toLowerCase() === target);
+}
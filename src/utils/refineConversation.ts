@@ -0,0 +1,63 @@
+import { AnalysisRecord } from '../types';
+import type { RefineMessage } from '../services/openRouterApi';
+import { getPromptVersions } from './promptVersions';
+
+// 常用的追问要求
+export const REFINE_SUGGESTIONS: Record<'zh' | 'en', string[]> = {
+  zh: ['更有电影感', '去掉背景中的文字', '翻译成英文', '更简洁一些', '补充更多光线细节'],
+  en: ['Make it more cinematic', 'Remove the text in the background', 'Translate to Chinese', 'Make it shorter', 'Add more lighting details'],
+};
+
+/**
+ * 生成追问记录ID
+ */
+export function generateRefineId(): string {
+  return `refine_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
+}
+
+// 包装用户的修改要求；提示词在上一轮回复之后被手动修改过时，附上当前内容
+function buildInstructionMessage(
+  instruction: string,
+  currentPrompt: string,
+  lastReply: string,
+  language: 'zh' | 'en'
+): RefineMessage {
+  const edited = currentPrompt !== lastReply;
+  const content = language === 'en'
+    ? [
+        edited ? `The prompt has since been edited to:\n${currentPrompt}\n` : '',
+        `Revise the prompt according to this request: ${instruction}`,
+        'Reply with the complete revised prompt only, without any explanation.',
+      ]
+    : [
+        edited ? `提示词已被修改为：\n${currentPrompt}\n` : '',
+        `请按以下要求修改提示词：${instruction}`,
+        '只输出修改后的完整提示词，不要附加任何解释。',
+      ];
+  return { role: 'user', content: content.filter(Boolean).join('\n') };
+}
+
+/**
+ * 构建首轮图片分析之后的对话：模型原始输出、历次追问和回复，以及本次的修改要求
+ */
+export function buildRefineMessages(
+  record: AnalysisRecord,
+  instruction: string,
+  language: 'zh' | 'en'
+): RefineMessage[] {
+  const versions = getPromptVersions(record);
+  const promptOf = (versionId: string, fallback: string) =>
+    versions.find(version => version.id === versionId)?.prompt ?? fallback;
+
+  let lastReply = versions[0].prompt;
+  const messages: RefineMessage[] = [{ role: 'assistant', content: lastReply }];
+
+  (record.refinements || []).forEach(turn => {
+    messages.push(buildInstructionMessage(turn.instruction, promptOf(turn.baseVersionId, lastReply), lastReply, language));
+    messages.push({ role: 'assistant', content: turn.prompt });
+    lastReply = turn.prompt;
+  });
+
+  messages.push(buildInstructionMessage(instruction, record.prompt, lastReply, language));
+  return messages;
+}
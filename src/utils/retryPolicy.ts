@@ -0,0 +1,124 @@
+import { RetryPolicy, RetryStatus } from '../types';
+import { ApiRequestError } from '../services/providers/visionProvider';
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 2000,
+  maxDelayMs: 30000,
+  fallbackModels: [],
+};
+
+// 限流、超时和服务端临时错误可以重试
+const RETRYABLE_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504]);
+// 密钥、余额和权限错误换用其他模型也会失败
+const FATAL_STATUSES = new Set([401, 402, 403]);
+
+/**
+ * 是否值得重试：没有收到响应（网络错误、超时）或状态码属于临时错误
+ */
+export function isRetryableError(error: unknown): boolean {
+  return error instanceof ApiRequestError && (error.status === undefined || RETRYABLE_STATUSES.has(error.status));
+}
+
+/**
+ * 是否应直接失败，不再重试也不换用备用模型
+ */
+export function isFatalError(error: unknown): boolean {
+  return error instanceof ApiRequestError && error.status !== undefined && FATAL_STATUSES.has(error.status);
+}
+
+/**
+ * 第 attempt 次失败后的等待时间：指数增长，在 50%-100% 之间随机抖动，避免并发请求同时重试
+ */
+export function computeBackoffDelay(attempt: number, policy: RetryPolicy, random: () => number = Math.random): number {
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(exponential * (0.5 + random() * 0.5));
+}
+
+/**
+ * 解析备用模型输入（逗号或换行分隔），去掉空项和重复项
+ */
+export function parseModelList(input: string): string[] {
+  return Array.from(new Set(input.split(/[,\n]/).map(model => model.trim()).filter(Boolean)));
+}
+
+// 可中止的等待
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error('请求已取消'));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error('请求已取消'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+export interface FailoverResult<T> {
+  result: T;
+  model: string; // 实际返回结果的模型
+  attempts: number; // 所有模型的请求总次数
+}
+
+/**
+ * 按重试策略依次请求各模型：临时错误按退避时间重试同一模型，
+ * 重试次数用完或遇到其他错误时换用下一个模型，密钥和权限错误直接失败
+ */
+export async function runWithFailover<T>(
+  models: string[],
+  policy: RetryPolicy,
+  run: (model: string) => Promise<T>,
+  options: { signal?: AbortSignal; onRetry?: (status: RetryStatus) => void } = {}
+): Promise<FailoverResult<T>> {
+  const { signal, onRetry } = options;
+  const candidates = Array.from(new Set(models.filter(Boolean)));
+  const maxAttempts = Math.max(1, policy.maxAttempts);
+  let attempts = 0;
+  let lastError: unknown = new Error('没有可用的模型');
+
+  for (let index = 0; index < candidates.length; index++) {
+    const model = candidates[index];
+    const nextModel = candidates[index + 1];
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      attempts++;
+      try {
+        return { result: await run(model), model, attempts };
+      } catch (error) {
+        if (signal?.aborted || isFatalError(error)) {
+          throw error;
+        }
+        lastError = error;
+
+        const reason = error instanceof Error ? error.message : '请求失败';
+        const retryAfterMs = error instanceof ApiRequestError ? error.retryAfterMs : undefined;
+        const canRetry = attempt < maxAttempts
+          && isRetryableError(error)
+          && (retryAfterMs === undefined || retryAfterMs <= policy.maxDelayMs);
+
+        if (!canRetry) {
+          if (nextModel) {
+            console.warn(`Model ${model} failed after ${attempt} attempt(s), falling back to ${nextModel}:`, reason);
+            onRetry?.({ model, attempt, maxAttempts, reason, delayMs: 0, nextModel });
+          }
+          break;
+        }
+
+        const delayMs = retryAfterMs ?? computeBackoffDelay(attempt, policy);
+        console.warn(`Model ${model} attempt ${attempt} failed, retrying in ${delayMs}ms:`, reason);
+        onRetry?.({ model, attempt, maxAttempts, reason, delayMs });
+        await wait(delayMs, signal);
+      }
+    }
+  }
+
+  throw lastError;
+}
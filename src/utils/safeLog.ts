@@ -0,0 +1,40 @@
+import axios from 'axios';
+
+// 可能出现在错误信息中的密钥：Bearer 令牌、sk- 开头的密钥、URL 中的 key 参数
+const SECRET_PATTERNS: Array<[RegExp, string]> = [
+  [/Bearer\s+[^\s"',]+/gi, 'Bearer [REDACTED]'],
+  [/\bsk-[A-Za-z0-9_-]{8,}/g, '[REDACTED]'],
+  [/([?&](?:key|api_key|apikey|token)=)[^&\s"']+/gi, '$1[REDACTED]'],
+];
+
+/**
+ * 去除文本中的密钥片段
+ */
+export function redactSecrets(text: string): string {
+  return SECRET_PATTERNS.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), text);
+}
+
+// 去掉 URL 的查询参数（ImgBB 等服务把密钥放在查询参数中）
+function stripQuery(url: string): string {
+  return url.split('?')[0];
+}
+
+/**
+ * 将错误整理为可以输出到控制台的摘要：只保留状态码、错误信息和不含参数的请求地址，
+ * 不输出请求头、请求体和响应头
+ */
+export function describeError(error: unknown): { status?: number; message: string; url?: string } {
+  if (axios.isAxiosError(error)) {
+    const data = error.response?.data as { error?: { message?: unknown } } | undefined;
+    const message = typeof data?.error?.message === 'string' ? data.error.message : error.message;
+    return {
+      status: error.response?.status,
+      message: redactSecrets(message),
+      url: error.config?.url ? stripQuery(error.config.url) : undefined,
+    };
+  }
+  if (error instanceof Error) {
+    return { message: redactSecrets(error.message) };
+  }
+  return { message: redactSecrets(String(error)) };
+}
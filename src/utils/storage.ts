@@ -1,12 +1,36 @@
-import { AnalysisRecord, ApiConfig, UserSettings } from '../types';
+import {
+  AnalysisRecord,
+  ApiConfig,
+  UserSettings,
+  PromptTemplate,
+  ModelInfo,
+  Collection,
+  TagRule,
+  DatasetSettings,
+  DatasetCaptionCache,
+  EncryptedVault
+} from '../types';
+import { BUILTIN_TEMPLATE_ID } from './promptTemplates';
+import { DEFAULT_MODEL } from '../services/openRouterApi';
+import { DEFAULT_RETRY_POLICY } from './retryPolicy';
 
 // 本地存储键名
 const STORAGE_KEYS = {
   ANALYSIS_HISTORY: 'analysis_history',
   API_CONFIG: 'api_config',
+  API_VAULT: 'api_vault',
   USER_SETTINGS: 'user_settings',
+  PROMPT_TEMPLATES: 'prompt_templates',
+  MODEL_CATALOG: 'model_catalog',
+  COLLECTIONS: 'collections',
+  TAG_RULES: 'tag_rules',
+  DATASET_SETTINGS: 'dataset_settings',
+  DATASET_CAPTIONS: 'dataset_captions',
 } as const;
 
+// 模型目录缓存有效期（24小时）
+export const MODEL_CATALOG_TTL = 24 * 60 * 60 * 1000;
+
 // 默认配置
 const DEFAULT_API_CONFIG: ApiConfig = {
   openRouterKey: '',
@@ -18,6 +42,21 @@ const DEFAULT_USER_SETTINGS: UserSettings = {
   outputFormat: 'detailed',
   autoSave: true,
   maxHistoryItems: 9000,
+  batchConcurrency: 2,
+  streamOutput: true,
+  defaultTemplateId: BUILTIN_TEMPLATE_ID,
+  resultMode: 'prompt',
+  defaultModel: DEFAULT_MODEL,
+  monthlyBudget: 0,
+  autoTagging: true,
+  vaultAutoLockMinutes: 15,
+  uploadExpiration: 0,
+  retryPolicy: DEFAULT_RETRY_POLICY,
+};
+
+const DEFAULT_DATASET_SETTINGS: DatasetSettings = {
+  triggerWord: '',
+  captionStyle: 'booru',
 };
 
 // 通用存储工具函数
@@ -42,37 +81,13 @@ class StorageManager {
     }
   }
 
-  // 分析历史记录管理
-  getAnalysisHistory(): AnalysisRecord[] {
-    const history = this.getItem(STORAGE_KEYS.ANALYSIS_HISTORY, []);
-    // 转换日期字符串为Date对象
-    return history.map(record => ({
-      ...record,
-      timestamp: new Date(record.timestamp)
-    }));
-  }
-
-  saveAnalysisRecord(record: AnalysisRecord): void {
-    const history = this.getAnalysisHistory();
-    const updatedHistory = [record, ...history];
-    
-    // 限制历史记录数量
-    const settings = this.getUserSettings();
-    if (updatedHistory.length > settings.maxHistoryItems) {
-      updatedHistory.splice(settings.maxHistoryItems);
-    }
-    
-    this.setItem(STORAGE_KEYS.ANALYSIS_HISTORY, updatedHistory);
-  }
-
-  deleteAnalysisRecord(id: string): void {
-    const history = this.getAnalysisHistory();
-    const updatedHistory = history.filter(record => record.id !== id);
-    this.setItem(STORAGE_KEYS.ANALYSIS_HISTORY, updatedHistory);
+  // 旧版本保存在 localStorage 中的历史记录，迁移到 IndexedDB 后删除
+  getLegacyAnalysisHistory(): AnalysisRecord[] | null {
+    return this.getItem<AnalysisRecord[] | null>(STORAGE_KEYS.ANALYSIS_HISTORY, null);
   }
 
-  clearAnalysisHistory(): void {
-    this.setItem(STORAGE_KEYS.ANALYSIS_HISTORY, []);
+  removeLegacyAnalysisHistory(): void {
+    localStorage.removeItem(STORAGE_KEYS.ANALYSIS_HISTORY);
   }
 
   // API配置管理
@@ -84,91 +99,102 @@ class StorageManager {
     this.setItem(STORAGE_KEYS.API_CONFIG, config);
   }
 
+  // 加密的 API 配置（启用密钥保险箱时 api_config 中不含密钥）
+  getApiVault(): EncryptedVault | null {
+    return this.getItem<EncryptedVault | null>(STORAGE_KEYS.API_VAULT, null);
+  }
+
+  saveApiVault(vault: EncryptedVault): void {
+    this.setItem(STORAGE_KEYS.API_VAULT, vault);
+  }
+
+  removeApiVault(): void {
+    localStorage.removeItem(STORAGE_KEYS.API_VAULT);
+  }
+
   // 用户设置管理
   getUserSettings(): UserSettings {
-    return this.getItem(STORAGE_KEYS.USER_SETTINGS, DEFAULT_USER_SETTINGS);
+    // 合并默认值，兼容旧版本保存的设置缺少新字段的情况
+    return { ...DEFAULT_USER_SETTINGS, ...this.getItem(STORAGE_KEYS.USER_SETTINGS, DEFAULT_USER_SETTINGS) };
   }
 
   saveUserSettings(settings: UserSettings): void {
     this.setItem(STORAGE_KEYS.USER_SETTINGS, settings);
   }
 
-  // 搜索历史记录
-  searchAnalysisHistory(query: string): AnalysisRecord[] {
-    const history = this.getAnalysisHistory();
-    if (!query.trim()) return history;
+  // 提示词模板管理（仅保存用户模板，内置模板不落盘）
+  getPromptTemplates(): PromptTemplate[] {
+    const templates = this.getItem<PromptTemplate[]>(STORAGE_KEYS.PROMPT_TEMPLATES, []);
+    return templates.map(template => ({
+      ...template,
+      createdAt: new Date(template.createdAt),
+      updatedAt: new Date(template.updatedAt),
+    }));
+  }
 
-    const lowercaseQuery = query.toLowerCase();
-    return history.filter(record => 
-      record.prompt.toLowerCase().includes(lowercaseQuery) ||
-      record.imageName.toLowerCase().includes(lowercaseQuery)
+  savePromptTemplates(templates: PromptTemplate[]): void {
+    this.setItem(
+      STORAGE_KEYS.PROMPT_TEMPLATES,
+      templates.filter(template => !template.isBuiltIn)
     );
   }
 
-  // 按日期范围筛选历史记录
-  filterAnalysisHistoryByDateRange(startDate: Date, endDate: Date): AnalysisRecord[] {
-    const history = this.getAnalysisHistory();
-    return history.filter(record => {
-      const recordDate = record.timestamp;
-      return recordDate >= startDate && recordDate <= endDate;
-    });
+  // 收藏夹管理
+  getCollections(): Collection[] {
+    const collections = this.getItem<Collection[]>(STORAGE_KEYS.COLLECTIONS, []);
+    return collections.map(collection => ({
+      ...collection,
+      createdAt: new Date(collection.createdAt),
+    }));
   }
 
-  // 导出历史记录为JSON
-  exportAnalysisHistory(): string {
-    const history = this.getAnalysisHistory();
-    return JSON.stringify(history, null, 2);
+  saveCollections(collections: Collection[]): void {
+    this.setItem(STORAGE_KEYS.COLLECTIONS, collections);
   }
 
-  // 导入历史记录
-  importAnalysisHistory(jsonData: string): boolean {
-    try {
-      const importedHistory: AnalysisRecord[] = JSON.parse(jsonData);
-      
-      // 验证数据格式
-      if (!Array.isArray(importedHistory)) {
-        throw new Error('Invalid data format');
-      }
-
-      // 合并现有历史记录
-      const currentHistory = this.getAnalysisHistory();
-      const mergedHistory = [...importedHistory, ...currentHistory];
-      
-      // 去重（基于ID）
-      const uniqueHistory = mergedHistory.filter((record, index, self) => 
-        index === self.findIndex(r => r.id === record.id)
-      );
-
-      this.setItem(STORAGE_KEYS.ANALYSIS_HISTORY, uniqueHistory);
-      return true;
-    } catch (error) {
-      console.error('Error importing analysis history:', error);
-      return false;
-    }
+  // 自动标签规则（仅保存用户规则，内置词典不落盘）
+  getTagRules(): TagRule[] {
+    return this.getItem<TagRule[]>(STORAGE_KEYS.TAG_RULES, []);
+  }
+
+  saveTagRules(rules: TagRule[]): void {
+    this.setItem(STORAGE_KEYS.TAG_RULES, rules);
+  }
+
+  // 模型目录缓存
+  getModelCatalogCache(): { fetchedAt: number; models: ModelInfo[] } | null {
+    return this.getItem<{ fetchedAt: number; models: ModelInfo[] } | null>(STORAGE_KEYS.MODEL_CATALOG, null);
+  }
+
+  saveModelCatalogCache(models: ModelInfo[]): void {
+    this.setItem(STORAGE_KEYS.MODEL_CATALOG, { fetchedAt: Date.now(), models });
+  }
+
+  isModelCatalogFresh(): boolean {
+    const cache = this.getModelCatalogCache();
+    return !!cache && Date.now() - cache.fetchedAt < MODEL_CATALOG_TTL;
+  }
+
+  // 训练集标注设置
+  getDatasetSettings(): DatasetSettings {
+    return { ...DEFAULT_DATASET_SETTINGS, ...this.getItem(STORAGE_KEYS.DATASET_SETTINGS, DEFAULT_DATASET_SETTINGS) };
+  }
+
+  saveDatasetSettings(settings: DatasetSettings): void {
+    this.setItem(STORAGE_KEYS.DATASET_SETTINGS, settings);
+  }
+
+  // 训练集已完成的标注（断点续标）
+  getDatasetCaptions(): DatasetCaptionCache {
+    return this.getItem<DatasetCaptionCache>(STORAGE_KEYS.DATASET_CAPTIONS, {});
+  }
+
+  saveDatasetCaptions(captions: DatasetCaptionCache): void {
+    this.setItem(STORAGE_KEYS.DATASET_CAPTIONS, captions);
   }
 
-  // 获取存储使用统计
-  getStorageStats() {
-    const history = this.getAnalysisHistory();
-    const totalRecords = history.length;
-    const totalSize = new Blob([JSON.stringify(history)]).size;
-    
-    return {
-      totalRecords,
-      totalSize,
-      formattedSize: this.formatBytes(totalSize),
-      oldestRecord: history[history.length - 1]?.timestamp,
-      newestRecord: history[0]?.timestamp,
-    };
-  }
-
-  // 格式化字节大小
-  private formatBytes(bytes: number): string {
-    if (bytes === 0) return '0 Bytes';
-    const k = 1024;
-    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+  removeDatasetCaptions(): void {
+    localStorage.removeItem(STORAGE_KEYS.DATASET_CAPTIONS);
   }
 }
 
@@ -0,0 +1,147 @@
+import { PromptDimensionKey, PromptDimensions } from '../types';
+import { extractJsonObject } from './outputFormats';
+
+// 维度顺序（与模板中的 8 个核心视觉维度一致）
+export const DIMENSION_KEYS: PromptDimensionKey[] = [
+  'subject',
+  'clothing',
+  'scene',
+  'style',
+  'composition',
+  'lighting',
+  'details',
+  'mood',
+];
+
+// 维度名称
+export const DIMENSION_LABELS: Record<PromptDimensionKey, string> = {
+  subject: '主体信息',
+  clothing: '衣物 / 材质',
+  scene: '场景环境',
+  style: '艺术风格',
+  composition: '构图视角',
+  lighting: '色彩光影',
+  details: '细节特效',
+  mood: '氛围情绪',
+};
+
+// 结构化结果最多请求次数（含首次）
+export const STRUCTURED_MAX_ATTEMPTS = 3;
+
+// 模型可能使用的中文或别名字段
+const KEY_ALIASES: Record<string, PromptDimensionKey> = {
+  主体: 'subject',
+  主体信息: 'subject',
+  衣物: 'clothing',
+  材质: 'clothing',
+  '衣物/材质': 'clothing',
+  materials: 'clothing',
+  场景: 'scene',
+  场景环境: 'scene',
+  environment: 'scene',
+  风格: 'style',
+  艺术风格: 'style',
+  构图: 'composition',
+  构图视角: 'composition',
+  perspective: 'composition',
+  光影: 'lighting',
+  色彩光影: 'lighting',
+  color: 'lighting',
+  细节: 'details',
+  细节特效: 'details',
+  effects: 'details',
+  氛围: 'mood',
+  氛围情绪: 'mood',
+  atmosphere: 'mood',
+};
+
+const STRUCTURED_INSTRUCTIONS: Record<'zh' | 'en', string> = {
+  zh: `【输出格式】不要输出整合后的提示词，改为只输出一个JSON对象（不要使用Markdown代码块），字段固定为：${DIMENSION_KEYS.join('、')}，分别对应${DIMENSION_KEYS.map(key => DIMENSION_LABELS[key]).join('、')}。每个字段的值是该维度经过合规优化后的描述字符串，没有相关内容时使用空字符串。`,
+  en: `[Output format] Do not output a combined prompt. Output only a JSON object (no Markdown code fences) with exactly these fields: ${DIMENSION_KEYS.join(', ')} (subject, clothing/materials, scene environment, artistic style, composition perspective, color and lighting, detailed effects, atmosphere and emotion). Each value is the compliant description string for that dimension; use an empty string when not applicable.`,
+};
+
+/**
+ * 结构化结果解析失败
+ */
+export class StructuredResultError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StructuredResultError';
+  }
+}
+
+/**
+ * 将结构化输出指令追加到模板指令之后
+ */
+export function applyStructuredInstruction(prompt: string, language: 'zh' | 'en'): string {
+  return `${prompt}\n\n${STRUCTURED_INSTRUCTIONS[language]}`;
+}
+
+/**
+ * 解析失败后重试时追加的纠正说明
+ */
+export function buildRetryInstruction(prompt: string, error: Error, language: 'zh' | 'en'): string {
+  const note = language === 'zh'
+    ? `【注意】上一次的输出无法解析（${error.message}），请严格只输出包含全部 ${DIMENSION_KEYS.length} 个字段的JSON对象。`
+    : `[Note] The previous output could not be parsed (${error.message}). Output strictly a JSON object containing all ${DIMENSION_KEYS.length} fields.`;
+  return `${prompt}\n\n${note}`;
+}
+
+/**
+ * 将字段值规整为字符串，数组按逗号拼接
+ */
+function normalizeValue(value: unknown): string | null {
+  if (typeof value === 'string') return value.trim();
+  if (Array.isArray(value) && value.every(item => typeof item === 'string')) {
+    return value.map(item => item.trim()).filter(Boolean).join(', ');
+  }
+  if (value === null || value === undefined) return '';
+  return null;
+}
+
+/**
+ * 解析并校验模型返回的结构化结果
+ */
+export function parseStructuredResult(raw: string): PromptDimensions {
+  const parsed = extractJsonObject(raw);
+  if (!parsed) {
+    throw new StructuredResultError('未找到有效的JSON对象');
+  }
+
+  const dimensions: Partial<PromptDimensions> = {};
+  for (const [key, value] of Object.entries(parsed)) {
+    const normalizedKey = (DIMENSION_KEYS as string[]).includes(key)
+      ? (key as PromptDimensionKey)
+      : KEY_ALIASES[key.trim().toLowerCase()] ?? KEY_ALIASES[key.trim()];
+    if (!normalizedKey) continue;
+
+    const text = normalizeValue(value);
+    if (text === null) {
+      throw new StructuredResultError(`字段 ${key} 不是字符串`);
+    }
+    // 别名与标准字段同时出现时保留非空内容
+    dimensions[normalizedKey] = dimensions[normalizedKey] || text;
+  }
+
+  const missing = DIMENSION_KEYS.filter(key => dimensions[key] === undefined);
+  if (missing.length > 0) {
+    throw new StructuredResultError(`缺少字段：${missing.join(', ')}`);
+  }
+
+  if (DIMENSION_KEYS.every(key => !dimensions[key])) {
+    throw new StructuredResultError('所有字段均为空');
+  }
+
+  return dimensions as PromptDimensions;
+}
+
+/**
+ * 由各维度内容组合出最终提示词
+ */
+export function composePromptFromDimensions(dimensions: PromptDimensions, language: 'zh' | 'en'): string {
+  const separator = language === 'zh' ? '，' : ', ';
+  return DIMENSION_KEYS
+    .map(key => dimensions[key].trim().replace(/[，,。.]+$/, ''))
+    .filter(Boolean)
+    .join(separator);
+}
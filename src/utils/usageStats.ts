@@ -0,0 +1,165 @@
+import { AnalysisRecord, ModelInfo, TokenUsage } from '../types';
+
+// 没有历史数据时估算单次分析的Token用量（含图片输入）
+export const DEFAULT_TOKEN_ESTIMATE: TokenUsage = {
+  promptTokens: 1500,
+  completionTokens: 400,
+  totalTokens: 1900,
+};
+
+// 单次模型调用的用量（历史记录或其对比备选结果）
+export interface UsageEntry {
+  model: string;
+  templateId?: string;
+  timestamp: Date;
+  usage?: TokenUsage;
+  latencyMs?: number;
+  cost?: number;
+}
+
+// 汇总后的用量
+export interface UsageTotals {
+  count: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number;
+  averageLatencyMs: number;
+}
+
+/**
+ * 按模型价格计算费用（美元），无价格信息时返回 undefined
+ */
+export function calculateCost(
+  usage: TokenUsage | undefined,
+  pricing: ModelInfo['pricing'],
+  imageCount: number = 1
+): number | undefined {
+  if (!usage || !pricing) return undefined;
+
+  return usage.promptTokens * pricing.prompt
+    + usage.completionTokens * pricing.completion
+    + (pricing.image || 0) * imageCount;
+}
+
+/**
+ * 预估一次分析的费用：优先使用该模型历史记录的平均费用，否则按默认用量和价格估算
+ */
+export function estimateAnalysisCost(
+  model: string,
+  pricing: ModelInfo['pricing'],
+  records: AnalysisRecord[]
+): number {
+  const costs = collectUsageEntries(records)
+    .filter(entry => entry.model === model && entry.cost !== undefined)
+    .map(entry => entry.cost!);
+
+  if (costs.length > 0) {
+    return costs.reduce((sum, cost) => sum + cost, 0) / costs.length;
+  }
+
+  return calculateCost(DEFAULT_TOKEN_ESTIMATE, pricing) ?? 0;
+}
+
+/**
+ * 展开历史记录中的每一次模型调用（模型对比的备选结果和追问优化同样计入）
+ */
+export function collectUsageEntries(records: AnalysisRecord[]): UsageEntry[] {
+  return records.flatMap(record => [
+    {
+      model: record.model || '未知模型',
+      templateId: record.templateId,
+      timestamp: new Date(record.timestamp),
+      usage: record.usage,
+      latencyMs: record.latencyMs,
+      cost: record.cost,
+    },
+    ...(record.alternates || []).map(alternate => ({
+      model: alternate.model,
+      templateId: record.templateId,
+      timestamp: new Date(record.timestamp),
+      usage: alternate.usage,
+      latencyMs: alternate.latencyMs,
+      cost: alternate.cost,
+    })),
+    ...(record.refinements || []).map(turn => ({
+      model: turn.model || record.model || '未知模型',
+      templateId: record.templateId,
+      timestamp: new Date(turn.createdAt),
+      usage: turn.usage,
+      latencyMs: turn.latencyMs,
+      cost: turn.cost,
+    })),
+  ]);
+}
+
+/**
+ * 汇总用量
+ */
+export function summarizeUsage(entries: UsageEntry[]): UsageTotals {
+  const withLatency = entries.filter(entry => entry.latencyMs !== undefined);
+
+  return {
+    count: entries.length,
+    promptTokens: entries.reduce((sum, entry) => sum + (entry.usage?.promptTokens || 0), 0),
+    completionTokens: entries.reduce((sum, entry) => sum + (entry.usage?.completionTokens || 0), 0),
+    totalTokens: entries.reduce((sum, entry) => sum + (entry.usage?.totalTokens || 0), 0),
+    cost: entries.reduce((sum, entry) => sum + (entry.cost || 0), 0),
+    averageLatencyMs: withLatency.length > 0
+      ? Math.round(withLatency.reduce((sum, entry) => sum + entry.latencyMs!, 0) / withLatency.length)
+      : 0,
+  };
+}
+
+/**
+ * 按键分组汇总，结果按费用从高到低排序（费用相同时按次数）
+ */
+export function groupUsage(
+  entries: UsageEntry[],
+  getKey: (entry: UsageEntry) => string
+): Array<{ key: string; totals: UsageTotals }> {
+  const groups = new Map<string, UsageEntry[]>();
+  entries.forEach(entry => {
+    const key = getKey(entry);
+    groups.set(key, [...(groups.get(key) || []), entry]);
+  });
+
+  return Array.from(groups.entries())
+    .map(([key, items]) => ({ key, totals: summarizeUsage(items) }))
+    .sort((a, b) => b.totals.cost - a.totals.cost || b.totals.count - a.totals.count);
+}
+
+/**
+ * 本地日期键，如 2025-01-31
+ */
+export function getDayKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * 本地月份键，如 2025-01
+ */
+export function getMonthKey(date: Date): string {
+  return getDayKey(date).slice(0, 7);
+}
+
+/**
+ * 指定月份（默认本月）已产生的费用
+ */
+export function getMonthlyCost(records: AnalysisRecord[], date: Date = new Date()): number {
+  const monthKey = getMonthKey(date);
+  return summarizeUsage(
+    collectUsageEntries(records).filter(entry => getMonthKey(entry.timestamp) === monthKey)
+  ).cost;
+}
+
+/**
+ * 格式化费用，小额费用保留更多小数位
+ */
+export function formatCost(usd: number): string {
+  if (usd === 0) return '$0';
+  if (usd < 0.01) return `$${usd.toFixed(4)}`;
+  return `$${usd.toFixed(2)}`;
+}
@@ -1,8 +1,53 @@
-import { defineConfig } from 'vite'
+import { defineConfig, loadEnv, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 import tsconfigPaths from "vite-tsconfig-paths";
 import { traeBadgePlugin } from 'vite-plugin-trae-solo-badge';
 
+// 开发时在 /api 下挂载代理接口，与部署到 Vercel 时的 API 路由一致
+// 设置 PROXY_MOCK_UPSTREAM=1 时启动模拟上游，无需真实密钥即可测试代理模式
+function apiRoutes(): Plugin {
+  return {
+    name: 'api-routes',
+    apply: 'serve',
+    async configureServer(server) {
+      // 代理接口从 process.env 读取配置，.env 中的变量不覆盖已设置的环境变量
+      const env = loadEnv(server.config.mode, server.config.root, '')
+      Object.entries(env).forEach(([key, value]) => {
+        if (process.env[key] === undefined) {
+          process.env[key] = value
+        }
+      })
+
+      if (process.env.PROXY_MOCK_UPSTREAM === '1') {
+        const { startMockUpstream } = await server.ssrLoadModule('/api/_lib/mockUpstream.ts')
+        const upstream = await startMockUpstream()
+        process.env.OPENROUTER_API_URL = upstream.url
+        process.env.IMGBB_API_URL = `${upstream.url}/upload`
+        process.env.OPENROUTER_API_KEY = process.env.OPENROUTER_API_KEY || 'mock'
+        process.env.IMGBB_API_KEY = process.env.IMGBB_API_KEY || 'mock'
+        // 模拟上游不产生费用，本地测试时默认允许匿名访问和任意模型
+        process.env.PROXY_ALLOW_ANONYMOUS = process.env.PROXY_ALLOW_ANONYMOUS || '1'
+        process.env.PROXY_ALLOWED_MODELS = process.env.PROXY_ALLOWED_MODELS || '*'
+        server.httpServer?.once('close', () => upstream.close())
+      }
+
+      server.middlewares.use(async (req, res, next) => {
+        const route = req.url?.split('?')[0].match(/^\/api\/(analyze|upload)$/)?.[1]
+        if (!route) {
+          next()
+          return
+        }
+        try {
+          const { default: handler } = await server.ssrLoadModule(`/api/${route}.ts`)
+          await handler(req, res)
+        } catch (error) {
+          next(error)
+        }
+      })
+    },
+  }
+}
+
 // https://vite.dev/config/
 export default defineConfig({
   build: {
@@ -25,6 +70,7 @@ export default defineConfig({
       autoTheme: true,
       autoThemeTarget: '#root'
     }), 
-    tsconfigPaths()
+    tsconfigPaths(),
+    apiRoutes()
   ],
 })